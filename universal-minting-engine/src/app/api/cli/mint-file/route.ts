@@ -1,18 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getStoryClient } from '@/lib/story-client';
-import { uploadFileToIPFS, uploadJSONToIPFS, createContentHash } from '@/lib/ipfs';
+import {
+    uploadFileToIPFS,
+    uploadBlobToIPFS,
+    uploadJSONToIPFS,
+    createContentHash,
+    createBlobContentHash,
+    blobToStream,
+    serializeJSON,
+    getIPFSUrl,
+    getOnChainURI,
+    resolveIPFSUri,
+    detectMimeTypeFromBuffer,
+    validateFile
+} from '@/lib/ipfs';
+import { SNIFF_BYTES } from '@/lib/content-sniffing';
+import { computeCid, computeStreamCids } from '@/lib/cid';
+import { uploadDeduplicated } from '@/lib/upload-cache';
 import { generateAutoMetadata, generateMetadataHash } from '@/lib/metadata-builders';
 import { validateRequest, prepareCliMintRequestSchema } from '@/lib/validation';
-import { prepareRegisterIpAssetParams } from '@/lib/transaction-builders';
+import { buildRegisterIpAssetTransaction, prepareRegisterIpAssetParams } from '@/lib/transaction-builders';
+import { mapLicenseTerms } from '@/lib/license-terms';
+import { isSimulationSkipped, simulateTransactionSteps } from '@/lib/simulation';
+import { addTransactionParams } from '@/lib/fees';
+import { createPublicClient } from '@/lib/config';
 import {
     handleValidationError,
+    handleLicenseTermsError,
     handleStoryClientError,
+    handleFileUploadError,
+    handleIPFSError,
+    handleTransactionError,
+    handleSimulationError,
     handleInternalError,
     createSuccessResponse,
     logError,
     ErrorCode
 } from '@/lib/error-handler';
 import { withSecurityAndRateLimit, sanitizeRequestBody } from '@/lib/security';
+import { tagPins, withPinContext } from '@/lib/pins';
 import { PrepareCliMintRequest } from '@/types';
 
 /**
@@ -27,6 +53,9 @@ import { PrepareCliMintRequest } from '@/types';
  * - Detailed logging for CI/CD integration
  * - Support for batch operations
  * - Machine-readable responses optimized for CLI parsing
+ * - Offline mode that computes the real CIDs locally without uploading anything
+ * - Files sent as base64 in JSON, or as a binary part of a multipart/form-data request
+ * - Re-running on an unchanged file reuses its earlier upload while it is still pinned
  * 
  * Requirements covered:
  * - 10.1: CLI tools send requests with file paths and metadata
@@ -61,15 +90,49 @@ async function handlePOST(request: NextRequest) {
         }
 
         const requestData = validation.data as PrepareCliMintRequest;
+        tagPins({ requestId, userAddress: requestData.userAddress });
+
+        // Reject illegal PIL combinations before uploading anything
+        if (requestData.licenseTerms) {
+            const { errors } = mapLicenseTerms(requestData.licenseTerms);
+            if (errors.length > 0) {
+                console.log(`[${requestId}] License Terms Invalid`, { fieldErrors: errors });
+                return handleLicenseTermsError(errors, '/api/cli/mint-file');
+            }
+        }
+
+        // A multipart file part is streamed as it is; base64 file data is decoded once
+        let filePart = requestData.file?.file;
+        let fileBuffer: Buffer | undefined = filePart ? undefined : Buffer.from(requestData.fileData!, 'base64');
+        const fileSize = filePart ? filePart.size : fileBuffer!.length;
+
+        // SVGs end up in the NFT image field, so they are sanitized (or rejected) like prepare-mint files,
+        // also when declared as another type; the type is sniffed from the file's start
+        const header = fileBuffer ? fileBuffer.subarray(0, SNIFF_BYTES) : Buffer.from(await filePart!.slice(0, SNIFF_BYTES).arrayBuffer());
+        let sanitized: string[] | undefined;
+        if (requestData.contentType === 'image/svg+xml' || detectMimeTypeFromBuffer(header) === 'image/svg+xml') {
+            const svgValidation = validateFile(fileBuffer || Buffer.from(await filePart!.arrayBuffer()), requestData.filename, requestData.contentType);
+            if (!svgValidation.isValid) {
+                console.log(`[${requestId}] SVG Rejected`, { error: svgValidation.error });
+                return handleValidationError(`${requestData.filename}: ${svgValidation.error}`, '/api/cli/mint-file');
+            }
+            if (svgValidation.sanitizedContent) {
+                filePart = undefined;
+                fileBuffer = svgValidation.sanitizedContent;
+                sanitized = svgValidation.sanitized;
+            }
+        }
 
         console.log(`[${requestId}] Request Validated`, {
             filename: requestData.filename,
             contentType: requestData.contentType,
-            fileSize: Buffer.from(requestData.fileData, 'base64').length,
+            fileSize,
+            multipart: !!filePart,
             generateMetadata: requestData.generateMetadata,
             hasCustomTitle: !!requestData.title,
             hasCustomDescription: !!requestData.description,
-            hasLicenseTerms: !!requestData.licenseTerms
+            hasLicenseTerms: !!requestData.licenseTerms,
+            offline: !!requestData.offline
         });
 
         // Initialize Story Protocol client
@@ -82,10 +145,9 @@ async function handlePOST(request: NextRequest) {
             return handleStoryClientError(error, '/api/cli/mint-file', 'initialize');
         }
 
-        // Convert base64 file data to buffer and generate content hash
-        const fileBuffer = Buffer.from(requestData.fileData, 'base64');
-        const contentHash = requestData.contentHash || createContentHash(fileBuffer);
-        const fileSize = fileBuffer.length;
+        // Generate content hash; deduplication always keys on the hash of the bytes received
+        const receivedHash = filePart ? await createBlobContentHash(filePart) : createContentHash(fileBuffer!);
+        const contentHash = requestData.contentHash || receivedHash;
 
         console.log(`[${requestId}] File Processing`, {
             originalPath: requestData.filePath,
@@ -95,31 +157,34 @@ async function handlePOST(request: NextRequest) {
             contentHash
         });
 
-        // Upload file to IPFS
+        // Upload file to IPFS unless it is still pinned from an earlier run, or only compute its CID in offline mode
         let fileIpfsHash: string;
+        let fileUri: string;
         let fileUrl: string;
+        let deduplicated = false;
         try {
-            fileIpfsHash = await uploadFileToIPFS(fileBuffer, requestData.filename, requestData.contentType);
-            fileUrl = `https://gateway.pinata.cloud/ipfs/${fileIpfsHash}`;
+            if (requestData.offline) {
+                fileIpfsHash = filePart ? (await computeStreamCids(blobToStream(filePart))).v0 : computeCid(fileBuffer!);
+            } else {
+                ({ cid: fileIpfsHash, deduplicated } = await uploadDeduplicated(receivedHash, () => (
+                    filePart
+                        ? uploadBlobToIPFS(filePart, requestData.filename, requestData.contentType)
+                        : uploadFileToIPFS(fileBuffer!, requestData.filename, requestData.contentType)
+                ), { filename: requestData.filename, purpose: 'media' }));
+            }
+            // The metadata refers to the file by its on-chain style URI; responses carry the gateway URL
+            fileUri = getOnChainURI(fileIpfsHash);
+            fileUrl = getIPFSUrl(fileIpfsHash);
 
-            console.log(`[${requestId}] File Uploaded to IPFS`, {
+            console.log(`[${requestId}] ${requestData.offline ? 'File CID Computed Offline' : deduplicated ? 'File Already Pinned' : 'File Uploaded to IPFS'}`, {
                 filename: requestData.filename,
                 ipfsHash: fileIpfsHash,
                 url: fileUrl,
                 uploadTime: Date.now() - startTime
             });
         } catch (error) {
-            console.log(`[${requestId}] File Upload Failed - Using Mock Data for Testing`, { error: error instanceof Error ? error.message : 'Unknown error', filename: requestData.filename });
-
-            // For testing purposes, use mock IPFS data when IPFS is not available
-            fileIpfsHash = `QmTest${contentHash.substring(0, 40)}`;
-            fileUrl = `https://gateway.pinata.cloud/ipfs/${fileIpfsHash}`;
-
-            console.log(`[${requestId}] Using Mock IPFS Data`, {
-                filename: requestData.filename,
-                mockIpfsHash: fileIpfsHash,
-                mockUrl: fileUrl
-            });
+            console.log(`[${requestId}] File Upload Failed`, { error: error instanceof Error ? error.message : 'Unknown error', filename: requestData.filename });
+            return handleFileUploadError(error, '/api/cli/mint-file', requestData.filename);
         }
 
         // Generate or use provided metadata
@@ -141,7 +206,7 @@ async function handlePOST(request: NextRequest) {
                 ...autoMetadata.ipMetadata,
                 ...(requestData.title && { title: requestData.title }),
                 ...(requestData.description && { description: requestData.description }),
-                mediaUrl: fileUrl,
+                mediaUrl: fileUri,
                 mediaHash: contentHash,
                 mediaType: requestData.contentType
             };
@@ -150,11 +215,11 @@ async function handlePOST(request: NextRequest) {
                 ...autoMetadata.nftMetadata,
                 ...(requestData.title && { name: requestData.title }),
                 ...(requestData.description && { description: requestData.description }),
-                animation_url: fileUrl,
+                animation_url: fileUri,
                 attributes: [
                     ...(autoMetadata.nftMetadata.attributes || []),
                     { trait_type: 'IPFS Hash', value: fileIpfsHash },
-                    { trait_type: 'File URL', value: fileUrl }
+                    { trait_type: 'File URL', value: fileUri }
                 ]
             };
 
@@ -178,7 +243,7 @@ async function handlePOST(request: NextRequest) {
                     address: requestData.userAddress,
                     contributionPercent: 100
                 }],
-                mediaUrl: fileUrl,
+                mediaUrl: fileUri,
                 mediaHash: contentHash,
                 mediaType: requestData.contentType,
                 createdAt: new Date().toISOString()
@@ -187,8 +252,8 @@ async function handlePOST(request: NextRequest) {
             nftMetadata = {
                 name: title,
                 description,
-                image: fileUrl,
-                animation_url: fileUrl,
+                image: fileUri,
+                animation_url: fileUri,
                 attributes: [
                     { trait_type: 'File Name', value: requestData.filename },
                     { trait_type: 'Content Hash', value: contentHash },
@@ -199,56 +264,30 @@ async function handlePOST(request: NextRequest) {
             console.log(`[${requestId}] Minimal Metadata Created`);
         }
 
-        // Upload IP metadata to IPFS
+        // Upload IP and NFT metadata to IPFS, or only compute their CIDs in offline mode
         let ipMetadataHash: string;
         let ipMetadataURI: string;
-        try {
-            ipMetadataHash = await uploadJSONToIPFS(ipMetadata, `${requestData.filename}-ip-metadata.json`);
-            ipMetadataURI = `https://gateway.pinata.cloud/ipfs/${ipMetadataHash}`;
-
-            console.log(`[${requestId}] IP Metadata Uploaded`, {
-                ipfsHash: ipMetadataHash,
-                uri: ipMetadataURI
-            });
-        } catch (error) {
-            console.log(`[${requestId}] IP Metadata Upload Failed - Using Mock Data for Testing`, { error: error instanceof Error ? error.message : 'Unknown error' });
-
-            // For testing purposes, use mock IPFS data when IPFS is not available
-            const ipMetadataString = JSON.stringify(ipMetadata);
-            const ipMetadataContentHash = createContentHash(ipMetadataString);
-            ipMetadataHash = `QmIPMeta${ipMetadataContentHash.substring(0, 38)}`;
-            ipMetadataURI = `https://gateway.pinata.cloud/ipfs/${ipMetadataHash}`;
-
-            console.log(`[${requestId}] Using Mock IP Metadata IPFS Data`, {
-                mockIpfsHash: ipMetadataHash,
-                mockUri: ipMetadataURI
-            });
-        }
-
-        // Upload NFT metadata to IPFS
         let nftMetadataHash: string;
         let nftMetadataURI: string;
         try {
-            nftMetadataHash = await uploadJSONToIPFS(nftMetadata, `${requestData.filename}-nft-metadata.json`);
-            nftMetadataURI = `https://gateway.pinata.cloud/ipfs/${nftMetadataHash}`;
-
-            console.log(`[${requestId}] NFT Metadata Uploaded`, {
-                ipfsHash: nftMetadataHash,
-                uri: nftMetadataURI
+            [ipMetadataHash, nftMetadataHash] = requestData.offline
+                ? [computeCid(serializeJSON(ipMetadata)), computeCid(serializeJSON(nftMetadata))]
+                : await Promise.all([
+                    uploadJSONToIPFS(ipMetadata, `${requestData.filename}-ip-metadata.json`),
+                    uploadJSONToIPFS(nftMetadata, `${requestData.filename}-nft-metadata.json`)
+                ]);
+            ipMetadataURI = getOnChainURI(ipMetadataHash);
+            nftMetadataURI = getOnChainURI(nftMetadataHash);
+
+            console.log(`[${requestId}] ${requestData.offline ? 'Metadata CIDs Computed Offline' : 'Metadata Uploaded'}`, {
+                ipIpfsHash: ipMetadataHash,
+                ipUri: ipMetadataURI,
+                nftIpfsHash: nftMetadataHash,
+                nftUri: nftMetadataURI
             });
         } catch (error) {
-            console.log(`[${requestId}] NFT Metadata Upload Failed - Using Mock Data for Testing`, { error: error instanceof Error ? error.message : 'Unknown error' });
-
-            // For testing purposes, use mock IPFS data when IPFS is not available
-            const nftMetadataString = JSON.stringify(nftMetadata);
-            const nftMetadataContentHash = createContentHash(nftMetadataString);
-            nftMetadataHash = `QmNFTMeta${nftMetadataContentHash.substring(0, 36)}`;
-            nftMetadataURI = `https://gateway.pinata.cloud/ipfs/${nftMetadataHash}`;
-
-            console.log(`[${requestId}] Using Mock NFT Metadata IPFS Data`, {
-                mockIpfsHash: nftMetadataHash,
-                mockUri: nftMetadataURI
-            });
+            console.log(`[${requestId}] Metadata Upload Failed`, { error: error instanceof Error ? error.message : 'Unknown error' });
+            return handleIPFSError(error, '/api/cli/mint-file', 'upload metadata');
         }
 
         // Generate content hashes for metadata integrity
@@ -285,35 +324,48 @@ async function handlePOST(request: NextRequest) {
             return handleInternalError(error, '/api/cli/mint-file', { operation: 'prepare parameters' });
         }
 
-        // Prepare transaction using Story SDK
-        let transactionData;
+        // Encode the mint (attaching license terms when requested)
+        let mintTransaction;
         try {
-            // For CLI use, we provide the contract address and let the client handle encoding
-            transactionData = {
-                to: storyParams.nft.spgNftContract,
-                data: '0x', // Client will encode this using Story SDK
-                value: '0',
-                gasEstimate: '500000' // Default gas estimate for IP registration
-            };
-
-            console.log(`[${requestId}] Transaction Prepared`, {
-                contractAddress: transactionData.to,
-                gasEstimate: transactionData.gasEstimate
+            mintTransaction = await buildRegisterIpAssetTransaction({
+                userAddress: requestData.userAddress,
+                ipMetadata: ipMetadata,
+                nftMetadata,
+                licenseTerms: requestData.licenseTerms
+            }, {
+                ipMetadataHash: ipHash,
+                ipMetadataURI,
+                nftMetadataHash: nftHash,
+                nftMetadataURI
             });
         } catch (error) {
             console.log(`[${requestId}] Transaction Preparation Failed`, { error });
+            return handleTransactionError(error, '/api/cli/mint-file', 'build mint transaction');
+        }
 
-            // Fallback for CLI - provide contract address even if Story SDK fails
-            transactionData = {
-                to: storyParams.nft.spgNftContract,
-                data: '0x',
-                value: '0',
-                gasEstimate: '500000'
-            };
+        const { licenseTerms, ...builtTransaction } = mintTransaction;
 
-            console.warn(`[${requestId}] Using Fallback Transaction Data`);
+        // Suggest the chain ID, nonce and EIP-1559 fees to sign with
+        const publicClient = createPublicClient();
+        const [transactionData] = await addTransactionParams(publicClient, requestData.userAddress, [builtTransaction]);
+
+        // Simulate the mint from the user's address; CI dry runs can opt out with ?skipSimulation
+        let simulation;
+        try {
+            simulation = await simulateTransactionSteps(publicClient, requestData.userAddress, [transactionData], {
+                skip: isSimulationSkipped(request.nextUrl.searchParams)
+            });
+        } catch (error) {
+            console.log(`[${requestId}] Simulation Reverted`, { error });
+            return handleSimulationError(error, '/api/cli/mint-file');
         }
 
+        console.log(`[${requestId}] Transaction Prepared`, {
+            contractAddress: transactionData.to,
+            gasEstimate: transactionData.gasEstimate,
+            licenseTermsIds: licenseTerms.map(terms => terms.licenseTermsId)
+        });
+
         const processingTime = Date.now() - startTime;
 
         // Create CLI-optimized response with detailed information
@@ -323,13 +375,19 @@ async function handlePOST(request: NextRequest) {
                 ipfsHash: ipMetadataHash,
                 ipHash,
                 nftIpfsHash: nftMetadataHash,
-                nftHash
+                nftHash,
+                ipMetadataURI,
+                ipMetadataUrl: resolveIPFSUri(ipMetadataURI),
+                nftMetadataURI,
+                nftMetadataUrl: resolveIPFSUri(nftMetadataURI)
             },
             [{
                 filename: requestData.filename,
                 ipfsHash: fileIpfsHash,
                 purpose: 'media',
-                url: fileUrl
+                url: fileUrl,
+                deduplicated,
+                ...(sanitized && { sanitized })
             }],
             {
                 // Additional CLI-specific data
@@ -340,11 +398,17 @@ async function handlePOST(request: NextRequest) {
                     fileSize,
                     originalPath: requestData.filePath,
                     autoGenerated: requestData.generateMetadata !== false,
+                    // Nothing was uploaded; the CIDs are what uploading the same content will yield
+                    offline: !!requestData.offline,
                     timestamps: {
                         started: new Date(startTime).toISOString(),
                         completed: new Date().toISOString()
                     }
                 },
+                // License terms attached by the mint, reused or created
+                licenseTermsIds: licenseTerms.map(terms => terms.licenseTermsId),
+                licenseTerms,
+                simulation,
                 // Metadata for verification
                 generatedMetadata: {
                     ip: ipMetadata,
@@ -376,7 +440,7 @@ async function handlePOST(request: NextRequest) {
 }
 
 // Apply security and rate limiting middleware
-export const POST = withSecurityAndRateLimit(handlePOST);
+export const POST = withSecurityAndRateLimit(withPinContext(handlePOST));
 
 /**
  * GET /api/cli/mint-file
@@ -398,22 +462,28 @@ async function handleGET() {
         parameters: {
             userAddress: 'string (required) - Ethereum address of the user',
             filePath: 'string (required) - Original file path for reference',
-            fileData: 'string (required) - Base64 encoded file data',
+            fileData: 'string (required unless file is sent) - Base64 encoded file data',
+            file: 'multipart file part (required unless fileData is sent) - The raw file, with the other parameters as JSON in a payload part',
             filename: 'string (required) - Original filename',
             contentType: 'string (required) - MIME type of the file',
             title: 'string (optional) - Override auto-generated title',
             description: 'string (optional) - Override auto-generated description',
             generateMetadata: 'boolean (optional) - Enable/disable automatic metadata generation (default: true)',
             contentHash: 'string (optional) - Pre-computed SHA-256 content hash',
-            licenseTerms: 'object (optional) - License terms configuration'
+            licenseTerms: 'object (optional) - License terms configuration',
+            offline: 'boolean (optional) - Compute the file and metadata CIDs locally without uploading them (default: false)'
+        },
+        queryParameters: {
+            skipSimulation: 'flag (optional) - Skip the pre-flight eth_call simulation, e.g. for CI dry runs'
         },
         response: {
             success: 'boolean - Whether the operation succeeded',
             transaction: 'object - Transaction data for signing (to, data, value, gasEstimate)',
             metadata: 'object - IPFS hashes and content hashes',
-            uploadedFiles: 'array - Information about uploaded files',
+            uploadedFiles: 'array - Information about uploaded files; deduplicated is true when an earlier upload was reused',
             additionalData: {
                 cli: 'object - CLI-specific information (requestId, processingTime, contentHash, etc.)',
+                licenseTermsIds: 'array - License terms IDs attached by the mint (empty without licenseTerms)',
                 generatedMetadata: 'object - The generated IP and NFT metadata for verification'
             },
             error: 'object - Error information if success is false'
@@ -428,15 +498,18 @@ async function handleGET() {
             generateMetadata: true
         },
         batchOperations: {
-            description: 'For batch operations, make multiple parallel requests to this endpoint',
-            recommendation: 'Use a CLI tool or script to process multiple files concurrently',
+            description: 'For batch operations, use POST /api/prepare-batch-mint to mint many assets in one multicall transaction',
+            recommendation: 'Send up to 50 items per request; items that fail validation or upload are reported without failing the batch',
             logging: 'Each request generates a unique requestId for tracking in CI/CD logs'
         },
         cicdIntegration: {
             logging: 'Detailed structured logs with timestamps and request IDs',
             exitCodes: 'HTTP status codes can be used as CLI exit codes',
             machineReadable: 'JSON responses optimized for programmatic parsing',
-            contentHashing: 'SHA-256 hashes for file integrity and version tracking'
+            contentHashing: 'SHA-256 hashes for file integrity and version tracking',
+            multipart: 'curl -F \'payload={"userAddress":"0x...","filePath":"./art.png","filename":"art.png","contentType":"image/png"}\' -F file=@art.png avoids base64 overhead for large files',
+            deduplication: 'Files whose content was uploaded before and is still pinned are not uploaded again; uploadedFiles[].deduplicated is true',
+            offlineMode: 'Set offline: true to prepare the transaction with real CIDs when no storage provider is reachable; upload the same bytes before minting'
         }
     });
 }
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getStoryClient } from '@/lib/story-client';
+import { getAssetsByOwner, getIndexerStatus, IndexedIpAsset, startAssetIndexer } from '@/lib/asset-indexer';
+import { fetchMetadataJSON } from '@/lib/metadata-fetch';
 import { validateWalletAddress } from '@/lib/transaction-builders';
 import { createErrorNextResponse, ErrorCode, logError } from '@/lib/error-handler';
-import { Address } from 'viem';
 
 interface GetAssetsRequest {
     address: string;
@@ -24,6 +24,53 @@ interface IPAsset {
     blockTimestamp?: number;
 }
 
+/**
+ * A page of the IP assets the address owns, from the local index of registrations and NFT
+ * transfers (see src/lib/asset-indexer.ts), with their metadata fetched if requested. The
+ * indexer is started on first use; until it has caught up with the chain, recent assets are
+ * missing, syncing is true and indexedBlock tells how far it got.
+ */
+async function getOwnedAssets(address: string, limit: number, offset: number, includeMetadata: boolean) {
+    startAssetIndexer();
+    const { assets: indexed, total } = getAssetsByOwner(address, { limit, offset });
+
+    const assets = await Promise.all(indexed.map(asset => includeMetadata ? withMetadata(asset) : toIPAsset(asset)));
+    const { indexedBlock, syncing } = getIndexerStatus();
+    return { assets, total, indexedBlock, syncing };
+}
+
+function toIPAsset(asset: IndexedIpAsset): IPAsset {
+    return {
+        ipId: asset.ipId,
+        owner: asset.owner as string,
+        name: asset.name || undefined,
+        metadataURI: asset.metadataURI || undefined,
+        nftContract: asset.nftContract,
+        tokenId: asset.tokenId,
+        blockNumber: asset.blockNumber,
+        blockTimestamp: asset.blockTimestamp
+    };
+}
+
+async function withMetadata(asset: IndexedIpAsset): Promise<IPAsset> {
+    const ipAsset = toIPAsset(asset);
+    if (!asset.metadataURI) {
+        return ipAsset;
+    }
+
+    try {
+        const metadata = await fetchMetadataJSON(asset.metadataURI);
+        ipAsset.name = text(metadata.title) || text(metadata.name) || ipAsset.name;
+        ipAsset.description = text(metadata.description);
+        ipAsset.image = text(metadata.image);
+    } catch (metadataError) {
+        console.warn(`Failed to fetch metadata for ${asset.ipId}:`, metadataError);
+    }
+    return ipAsset;
+}
+
+const text = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+
 export async function GET(request: NextRequest) {
     try {
         const { searchParams } = new URL(request.url);
@@ -50,61 +97,22 @@ export async function GET(request: NextRequest) {
         }
 
         // Validate pagination parameters
-        if (limit < 1 || limit > 100) {
+        if (isNaN(limit) || limit < 1 || limit > 100) {
             return createErrorNextResponse(
                 ErrorCode.VALIDATION_ERROR,
                 'Limit must be between 1 and 100'
             );
         }
 
-        if (offset < 0) {
+        if (isNaN(offset) || offset < 0) {
             return createErrorNextResponse(
                 ErrorCode.VALIDATION_ERROR,
                 'Offset must be non-negative'
             );
         }
 
-        const storyClient = getStoryClient();
-
         try {
-            // Note: Story Protocol SDK doesn't have getIpAssetsByOwner method
-            // This would need to be implemented using the Graph API or other indexing service
-            // For now, return empty array with proper structure
-            const ipAssets: any[] = [];
-
-            const assets: IPAsset[] = [];
-
-            if (ipAssets && ipAssets.length > 0) {
-                for (const asset of ipAssets) {
-                    const ipAsset: IPAsset = {
-                        ipId: asset.ipId,
-                        owner: asset.owner,
-                        nftContract: asset.nftContract,
-                        tokenId: asset.tokenId?.toString(),
-                        blockNumber: asset.blockNumber,
-                        blockTimestamp: asset.blockTimestamp
-                    };
-
-                    // Fetch metadata if requested
-                    if (includeMetadata && asset.metadataURI) {
-                        try {
-                            const metadataResponse = await fetch(asset.metadataURI);
-                            if (metadataResponse.ok) {
-                                const metadata = await metadataResponse.json();
-                                ipAsset.name = metadata.title || metadata.name;
-                                ipAsset.description = metadata.description;
-                                ipAsset.image = metadata.image;
-                                ipAsset.metadataURI = asset.metadataURI;
-                            }
-                        } catch (metadataError) {
-                            console.warn(`Failed to fetch metadata for ${asset.ipId}:`, metadataError);
-                            ipAsset.metadataURI = asset.metadataURI;
-                        }
-                    }
-
-                    assets.push(ipAsset);
-                }
-            }
+            const { assets, total, indexedBlock, syncing } = await getOwnedAssets(address, limit, offset, includeMetadata);
 
             const response = {
                 success: true,
@@ -114,11 +122,13 @@ export async function GET(request: NextRequest) {
                     pagination: {
                         limit,
                         offset,
-                        total: assets.length,
-                        hasMore: assets.length === limit
+                        total,
+                        hasMore: offset + assets.length < total
                     },
                     metadata: {
                         includeMetadata,
+                        indexedBlock,
+                        syncing,
                         timestamp: new Date().toISOString()
                     }
                 }
@@ -127,10 +137,10 @@ export async function GET(request: NextRequest) {
             return NextResponse.json(response);
 
         } catch (storyError) {
-            console.error('Story Protocol query failed:', storyError);
+            console.error('Asset index query failed:', storyError);
             return createErrorNextResponse(
                 ErrorCode.STORY_CLIENT_ERROR,
-                'Failed to query IP Assets from Story Protocol',
+                'Failed to query IP Assets from the asset index',
                 { error: storyError instanceof Error ? storyError.message : 'Unknown error' }
             );
         }
@@ -171,47 +181,8 @@ export async function POST(request: NextRequest) {
         const offset = Math.max(body.offset || 0, 0);
         const includeMetadata = body.includeMetadata || false;
 
-        const storyClient = getStoryClient();
-
         try {
-            // Note: Story Protocol SDK doesn't have getIpAssetsByOwner method
-            // This would need to be implemented using the Graph API or other indexing service
-            // For now, return empty array with proper structure
-            const ipAssets: any[] = [];
-
-            const assets: IPAsset[] = [];
-
-            if (ipAssets && ipAssets.length > 0) {
-                for (const asset of ipAssets) {
-                    const ipAsset: IPAsset = {
-                        ipId: asset.ipId,
-                        owner: asset.owner,
-                        nftContract: asset.nftContract,
-                        tokenId: asset.tokenId?.toString(),
-                        blockNumber: asset.blockNumber,
-                        blockTimestamp: asset.blockTimestamp
-                    };
-
-                    // Fetch metadata if requested
-                    if (includeMetadata && asset.metadataURI) {
-                        try {
-                            const metadataResponse = await fetch(asset.metadataURI);
-                            if (metadataResponse.ok) {
-                                const metadata = await metadataResponse.json();
-                                ipAsset.name = metadata.title || metadata.name;
-                                ipAsset.description = metadata.description;
-                                ipAsset.image = metadata.image;
-                                ipAsset.metadataURI = asset.metadataURI;
-                            }
-                        } catch (metadataError) {
-                            console.warn(`Failed to fetch metadata for ${asset.ipId}:`, metadataError);
-                            ipAsset.metadataURI = asset.metadataURI;
-                        }
-                    }
-
-                    assets.push(ipAsset);
-                }
-            }
+            const { assets, total, indexedBlock, syncing } = await getOwnedAssets(body.address, limit, offset, includeMetadata);
 
             // Also get license tokens owned by the address
             let licenseTokens: any[] = [];
@@ -232,11 +203,13 @@ export async function POST(request: NextRequest) {
                     pagination: {
                         limit,
                         offset,
-                        total: assets.length,
-                        hasMore: assets.length === limit
+                        total,
+                        hasMore: offset + assets.length < total
                     },
                     metadata: {
                         includeMetadata,
+                        indexedBlock,
+                        syncing,
                         timestamp: new Date().toISOString()
                     }
                 }
@@ -245,10 +218,10 @@ export async function POST(request: NextRequest) {
             return NextResponse.json(response);
 
         } catch (storyError) {
-            console.error('Story Protocol query failed:', storyError);
+            console.error('Asset index query failed:', storyError);
             return createErrorNextResponse(
                 ErrorCode.STORY_CLIENT_ERROR,
-                'Failed to query assets from Story Protocol',
+                'Failed to query assets from the asset index',
                 { error: storyError instanceof Error ? storyError.message : 'Unknown error' }
             );
         }
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createPublicClient } from '@/lib/config';
 import { validateWalletAddress } from '@/lib/transaction-builders';
 import { createErrorNextResponse, ErrorCode } from '@/lib/error-handler';
+import { fetchMetadataJSON } from '@/lib/metadata-fetch';
+import { findOwnedTokens, TokenScanResult } from '@/lib/nft-enumeration';
 import { Address, erc721Abi } from 'viem';
 
 interface NFTInfo {
@@ -12,17 +14,12 @@ interface NFTInfo {
         name?: string;
         description?: string;
         image?: string;
-        attributes?: any[];
+        attributes?: unknown[];
     };
     isStoryProtocol?: boolean;
+    ipId?: string;
 }
 
-// Known Story Protocol contract addresses (you can expand this list)
-const STORY_PROTOCOL_CONTRACTS = [
-    '0xbe39E1C756e921BD25DF86e7AAa31106d1eb0424', // SPG contract
-    // Add more known Story Protocol contracts here
-];
-
 export async function GET(request: NextRequest) {
     try {
         const { searchParams } = new URL(request.url);
@@ -45,119 +42,71 @@ export async function GET(request: NextRequest) {
         }
 
         const publicClient = createPublicClient();
-        const nfts: NFTInfo[] = [];
 
-        // If specific contracts are provided, check those
-        if (contracts.length > 0) {
-            for (const contractAddress of contracts) {
-                if (!validateWalletAddress(contractAddress)) {
-                    continue; // Skip invalid contract addresses
-                }
+        // Invalid contract addresses are skipped; without contracts, the NFTs registered as IP
+        // assets are read from the asset index
+        const validContracts = contracts.filter(contractAddress => validateWalletAddress(contractAddress)) as Address[];
+        let scan: TokenScanResult;
+        try {
+            scan = await findOwnedTokens(publicClient, address as Address, contracts.length > 0 ? validContracts : undefined);
+        } catch (scanError) {
+            console.error('NFT enumeration failed:', scanError);
+            return createErrorNextResponse(
+                ErrorCode.NETWORK_ERROR,
+                'Failed to enumerate NFTs from chain logs',
+                { error: scanError instanceof Error ? scanError.message : 'Unknown error' }
+            );
+        }
 
+        const owned = contracts.length > 0 ? scan.tokens : scan.tokens.filter(token => token.ipId);
+        const nfts = await Promise.all(owned.map(async (token): Promise<NFTInfo> => {
+            const nftInfo: NFTInfo = {
+                contractAddress: token.contractAddress,
+                tokenId: token.tokenId.toString(),
+                isStoryProtocol: token.ipId !== null,
+                ipId: token.ipId ?? undefined
+            };
+
+            // Get token URI if requested
+            if (includeMetadata) {
                 try {
-                    // Get balance for this contract
-                    const balance = await publicClient.readContract({
-                        address: contractAddress as Address,
+                    const tokenURI = await publicClient.readContract({
+                        address: token.contractAddress,
                         abi: erc721Abi,
-                        functionName: 'balanceOf',
-                        args: [address as Address]
+                        functionName: 'tokenURI',
+                        args: [token.tokenId]
                     });
 
-                    if (balance > BigInt(0)) {
-                        // For simplicity, we'll try to get token IDs by checking sequential IDs
-                        // In a production system, you'd want to use events or a more sophisticated method
-                        for (let i = 0; i < Math.min(Number(balance), 10); i++) {
-                            try {
-                                const tokenId = BigInt(i);
-                                const owner = await publicClient.readContract({
-                                    address: contractAddress as Address,
-                                    abi: erc721Abi,
-                                    functionName: 'ownerOf',
-                                    args: [tokenId]
-                                });
-
-                                if (owner.toLowerCase() === address.toLowerCase()) {
-                                    const nftInfo: NFTInfo = {
-                                        contractAddress,
-                                        tokenId: tokenId.toString(),
-                                        isStoryProtocol: STORY_PROTOCOL_CONTRACTS.includes(contractAddress)
-                                    };
-
-                                    // Get token URI if requested
-                                    if (includeMetadata) {
-                                        try {
-                                            const tokenURI = await publicClient.readContract({
-                                                address: contractAddress as Address,
-                                                abi: erc721Abi,
-                                                functionName: 'tokenURI',
-                                                args: [tokenId]
-                                            });
-
-                                            nftInfo.tokenURI = tokenURI;
-
-                                            // Fetch metadata from URI
-                                            if (tokenURI) {
-                                                try {
-                                                    const metadataResponse = await fetch(tokenURI);
-                                                    if (metadataResponse.ok) {
-                                                        nftInfo.metadata = await metadataResponse.json();
-                                                    }
-                                                } catch (metadataError) {
-                                                    console.warn(`Failed to fetch metadata for ${contractAddress}:${tokenId}`);
-                                                }
-                                            }
-                                        } catch (uriError) {
-                                            console.warn(`Failed to get tokenURI for ${contractAddress}:${tokenId}`);
-                                        }
-                                    }
-
-                                    nfts.push(nftInfo);
-                                }
-                            } catch (ownerError) {
-                                // Token doesn't exist or other error, continue
-                                continue;
-                            }
+                    nftInfo.tokenURI = tokenURI;
+
+                    // Fetch metadata from URI, through the IPFS gateway only
+                    if (tokenURI) {
+                        try {
+                            nftInfo.metadata = await fetchMetadataJSON(tokenURI);
+                        } catch {
+                            console.warn(`Failed to fetch metadata for ${token.contractAddress}:${token.tokenId}`);
                         }
                     }
-                } catch (contractError) {
-                    console.warn(`Failed to query contract ${contractAddress}:`, contractError);
-                    continue;
+                } catch {
+                    console.warn(`Failed to get tokenURI for ${token.contractAddress}:${token.tokenId}`);
                 }
             }
-        } else {
-            // If no specific contracts provided, check known Story Protocol contracts
-            for (const contractAddress of STORY_PROTOCOL_CONTRACTS) {
-                try {
-                    const balance = await publicClient.readContract({
-                        address: contractAddress as Address,
-                        abi: erc721Abi,
-                        functionName: 'balanceOf',
-                        args: [address as Address]
-                    });
 
-                    if (balance > BigInt(0)) {
-                        nfts.push({
-                            contractAddress,
-                            tokenId: 'multiple', // Placeholder since we found a balance
-                            isStoryProtocol: true
-                        });
-                    }
-                } catch (error) {
-                    console.warn(`Failed to check balance for ${contractAddress}:`, error);
-                }
-            }
-        }
+            return nftInfo;
+        }));
 
         const response = {
             success: true,
             data: {
                 address,
                 nfts,
-                contractsChecked: contracts.length > 0 ? contracts : STORY_PROTOCOL_CONTRACTS,
+                contractsChecked: contracts.length > 0 ? validContracts : [...new Set(nfts.map(nft => nft.contractAddress))],
                 metadata: {
                     includeMetadata,
+                    scannedToBlock: scan.scannedToBlock,
+                    syncing: scan.syncing,
                     timestamp: new Date().toISOString(),
-                    note: contracts.length === 0 ? 'Only checked known Story Protocol contracts. Provide specific contract addresses for comprehensive results.' : undefined
+                    note: contracts.length === 0 ? 'Only NFTs registered as IP assets are listed. Provide specific contract addresses to list every NFT of those collections.' : undefined
                 }
             }
         };
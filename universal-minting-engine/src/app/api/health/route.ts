@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getNetworkConfig, getPinataConfig } from '@/lib/config';
+import { getNetworkConfig, getPinataConfig, getStorageConfig } from '@/lib/config';
 import { withSecurityAndRateLimit } from '@/lib/security';
 
 async function handleGET(request: NextRequest) {
     try {
         const networkConfig = getNetworkConfig();
         const pinataConfig = getPinataConfig();
+        const storageConfig = getStorageConfig();
 
         return NextResponse.json({
             success: true,
@@ -13,6 +14,7 @@ async function handleGET(request: NextRequest) {
             config: {
                 network: networkConfig.network,
                 rpcUrl: networkConfig.rpcUrl,
+                storageProvider: storageConfig.provider,
                 pinataConfigured: !!pinataConfig.jwt,
             },
             timestamp: new Date().toISOString(),
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startAssetIndexer } from '@/lib/asset-indexer';
+import { getLineage, toDot, toMermaid } from '@/lib/lineage';
+import { validateRequest, lineageQuerySchema } from '@/lib/validation';
+import { handleValidationError, handleInternalError } from '@/lib/error-handler';
+import { withSecurityAndRateLimit } from '@/lib/security';
+
+/**
+ * GET /api/ip/{ipId}/lineage?depth=N&direction=ancestors|descendants&format=json|dot|mermaid
+ *
+ * The derivative graph around an IP asset from the asset index: its parents and their parents
+ * (ancestors, the default) or its derivatives and theirs (descendants), up to depth links away
+ * (default 3, at most 10). Edges point from parent to child and carry the license terms the
+ * derivative was registered under. DOT and Mermaid are returned as text for embedding.
+ */
+async function handleGET(request: NextRequest, { params }: { params: Promise<{ ipId: string }> }) {
+    try {
+        const { ipId } = await params;
+        const query = Object.fromEntries(request.nextUrl.searchParams.entries());
+        const validation = validateRequest(lineageQuerySchema, { ...query, ipId });
+
+        if (!validation.success) {
+            return handleValidationError(validation.error, '/api/ip/{ipId}/lineage');
+        }
+
+        const { depth = '3', direction = 'ancestors', format = 'json' } = validation.data;
+        startAssetIndexer();
+        const graph = getLineage(ipId, direction, parseInt(depth));
+
+        if (format === 'dot') {
+            return new NextResponse(toDot(graph), { headers: { 'Content-Type': 'text/vnd.graphviz; charset=utf-8' } });
+        }
+        if (format === 'mermaid') {
+            return new NextResponse(toMermaid(graph), { headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+        }
+
+        return NextResponse.json({ success: true, data: graph });
+
+    } catch (error) {
+        return handleInternalError(error, '/api/ip/{ipId}/lineage');
+    }
+}
+
+// Apply security and rate limiting middleware
+export const GET = withSecurityAndRateLimit(handleGET);
+
+// Handle CORS preflight requests
+export const OPTIONS = withSecurityAndRateLimit(async () => {
+    return new NextResponse(null, { status: 200 });
+});
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startAssetIndexer } from '@/lib/asset-indexer';
+import { createPublicClient } from '@/lib/config';
+import { getIpAssetDetails, IpAssetDetails } from '@/lib/ip-details';
+import { validateRequest, ipAssetParamsSchema } from '@/lib/validation';
+import { createErrorNextResponse, ErrorCode, handleValidationError, handleInternalError } from '@/lib/error-handler';
+import { withSecurityAndRateLimit } from '@/lib/security';
+
+/**
+ * GET /api/ip/{ipId}
+ *
+ * One IP asset: the NFT it is bound to and its current owner, registration block and time,
+ * attached license terms with their PIL parameters decoded, royalty vault, dispute tag and
+ * derivative counts. The IP and NFT metadata are fetched and their hashes recomputed against
+ * the ones recorded on chain, reported as integrity ok or mismatch.
+ */
+async function handleGET(request: NextRequest, { params }: { params: Promise<{ ipId: string }> }) {
+    try {
+        const validation = validateRequest(ipAssetParamsSchema, await params);
+
+        if (!validation.success) {
+            return handleValidationError(validation.error, '/api/ip/{ipId}');
+        }
+
+        const { ipId } = validation.data;
+        startAssetIndexer();
+
+        let details: IpAssetDetails | null;
+        try {
+            details = await getIpAssetDetails(createPublicClient(), ipId);
+        } catch (readError) {
+            return createErrorNextResponse(
+                ErrorCode.NETWORK_ERROR,
+                'Failed to read the IP asset from chain',
+                { error: readError instanceof Error ? readError.message : 'Unknown error' }
+            );
+        }
+
+        if (!details) {
+            return createErrorNextResponse(ErrorCode.IP_NOT_FOUND, `No IP asset is registered at ${ipId}`);
+        }
+
+        return NextResponse.json({ success: true, data: details });
+
+    } catch (error) {
+        return handleInternalError(error, '/api/ip/{ipId}');
+    }
+}
+
+// Apply security and rate limiting middleware
+export const GET = withSecurityAndRateLimit(handleGET);
+
+// Handle CORS preflight requests
+export const OPTIONS = withSecurityAndRateLimit(async () => {
+    return new NextResponse(null, { status: 200 });
+});
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { uploadJSONToIPFS } from '@/lib/ipfs';
+import { getIPFSUrl, getOnChainURI, uploadJSONToIPFS } from '@/lib/ipfs';
 import { validateWalletAddress } from '@/lib/transaction-builders';
 import { createErrorNextResponse, ErrorCode, logSuccess } from '@/lib/error-handler';
 import { getNetworkInfo } from '@/lib/story-client';
+import { getStoryContracts } from '@/lib/story-contracts';
 
 interface LicenseRemixerRequest {
     // Basic Info
@@ -408,13 +409,13 @@ export async function POST(request: NextRequest) {
         // Upload to IPFS by default (required for Story Protocol)
         if (body.uploadToIPFS !== false) {
             try {
-                const ipfsHash = await uploadJSONToIPFS(licenseDocument);
-                const licenseTermsURI = `https://gateway.pinata.cloud/ipfs/${ipfsHash}`;
+                const ipfsHash = await uploadJSONToIPFS(licenseDocument, 'license-document.json', 'attachment');
+                const licenseTermsURI = getOnChainURI(ipfsHash);
 
                 result.data.ipfs = {
                     hash: ipfsHash,
                     uri: licenseTermsURI,
-                    gatewayUrl: `https://gateway.pinata.cloud/ipfs/${ipfsHash}`
+                    gatewayUrl: getIPFSUrl(ipfsHash)
                 };
 
                 // Add URI to Story Protocol parameters
@@ -495,8 +496,8 @@ function generateDerivativeDescription(params: LicenseRemixerRequest): string {
 }
 
 function getCurrencyAddress(currency?: string): string {
-    // Import WIP token address from Story SDK
-    const WIP_TOKEN_ADDRESS = '0xB132A6B7AE652c974EE1557A3521D53d18F6739f'; // Story Protocol WIP token
+    // WIP token address for the configured network
+    const WIP_TOKEN_ADDRESS = getStoryContracts().wip;
 
     switch (currency) {
         case 'IP':
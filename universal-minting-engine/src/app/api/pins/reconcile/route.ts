@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createPublicClient, getPinConfig } from '@/lib/config';
+import { isPinAdminRequest, reconcilePins } from '@/lib/pins';
+import { handleStoryClientError, handleInternalError, createErrorNextResponse, logSuccess, ErrorCode } from '@/lib/error-handler';
+import { withSecurityAndRateLimit } from '@/lib/security';
+
+/**
+ * POST /api/pins/reconcile
+ *
+ * Cross-checks the pins against the metadata URIs registered on chain since the last
+ * reconciled block, marking the pins of every request whose metadata was registered
+ * as on chain. Safe to run on a schedule; each run resumes from the last checkpoint.
+ * Requires PIN_ADMIN_TOKEN as a Bearer token.
+ */
+async function handlePOST(request: NextRequest) {
+    try {
+        if (!isPinAdminRequest(request)) {
+            return createErrorNextResponse(
+                ErrorCode.UNAUTHORIZED,
+                getPinConfig().adminToken ? 'Reconciling pins requires the admin token' : 'Reconciling pins is disabled until PIN_ADMIN_TOKEN is configured'
+            );
+        }
+
+        let result;
+        try {
+            result = await reconcilePins(createPublicClient());
+        } catch (error) {
+            return handleStoryClientError(error, '/api/pins/reconcile');
+        }
+
+        logSuccess('/api/pins/reconcile', 'pins reconciled', {
+            fromBlock: result.fromBlock,
+            toBlock: result.toBlock,
+            anchored: result.anchored.length
+        });
+
+        return NextResponse.json({ success: true, data: result });
+
+    } catch (error) {
+        return handleInternalError(error, '/api/pins/reconcile');
+    }
+}
+
+// Apply security and rate limiting middleware
+export const POST = withSecurityAndRateLimit(handlePOST);
+
+/**
+ * GET /api/pins/reconcile
+ *
+ * Returns API documentation and usage information
+ */
+async function handleGET() {
+    return NextResponse.json({
+        endpoint: '/api/pins/reconcile',
+        method: 'POST',
+        description: 'Marks pins as on chain when their request\'s metadata URI was registered for an IP asset',
+        parameters: {},
+        authentication: 'Authorization: Bearer <PIN_ADMIN_TOKEN>, required',
+        response: {
+            fromBlock: 'string - First block scanned for MetadataURISet events',
+            toBlock: 'string - Last block scanned; the next run resumes after it',
+            metadataURIsScanned: 'number - Metadata URIs set on chain in the scanned range',
+            anchored: 'string[] - CIDs newly marked as on chain'
+        },
+        usage: 'Run before POST /api/pins/unpin-orphans, or on a schedule (e.g. hourly)'
+    });
+}
+
+// Apply security middleware to GET endpoint
+export const GET = withSecurityAndRateLimit(handleGET);
+
+// Handle CORS preflight requests
+export const OPTIONS = withSecurityAndRateLimit(async () => {
+    return new NextResponse(null, { status: 200 });
+});
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPinConfig } from '@/lib/config';
+import { isPinAdminRequest, listPins, PIN_STATUSES, PinStatus } from '@/lib/pins';
+import { validateRequest, listPinsQuerySchema } from '@/lib/validation';
+import { handleValidationError, handleInternalError, createErrorNextResponse, ErrorCode } from '@/lib/error-handler';
+import { withSecurityAndRateLimit } from '@/lib/security';
+
+/**
+ * GET /api/pins
+ *
+ * Lists the pins this engine created, newest first, tagged with the request that
+ * uploaded them, its user address and the file purpose. Each pin carries its status:
+ * onchain once reconciliation found it behind a registered IP, pending or orphaned
+ * before that depending on the grace period, or retained when it was not uploaded
+ * for an IP registration. Requires PIN_ADMIN_TOKEN as a Bearer token.
+ */
+async function handleGET(request: NextRequest) {
+    try {
+        if (!isPinAdminRequest(request)) {
+            return createErrorNextResponse(
+                ErrorCode.UNAUTHORIZED,
+                getPinConfig().adminToken ? 'Listing pins requires the admin token' : 'Listing pins is disabled until PIN_ADMIN_TOKEN is configured'
+            );
+        }
+
+        const query = Object.fromEntries(request.nextUrl.searchParams.entries());
+        const validation = validateRequest(listPinsQuerySchema, query);
+
+        if (!validation.success) {
+            return handleValidationError(validation.error, '/api/pins');
+        }
+
+        const { pins, reconciledBlock } = await listPins(validation.data);
+        const summary = Object.fromEntries(PIN_STATUSES.map(status => [status, 0])) as Record<PinStatus, number>;
+        pins.forEach(pin => summary[pin.status]++);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                pins,
+                total: pins.length,
+                summary,
+                reconciledBlock: reconciledBlock ?? null
+            }
+        });
+
+    } catch (error) {
+        return handleInternalError(error, '/api/pins');
+    }
+}
+
+// Apply security and rate limiting middleware
+export const GET = withSecurityAndRateLimit(handleGET);
+
+// Handle CORS preflight requests
+export const OPTIONS = withSecurityAndRateLimit(async () => {
+    return new NextResponse(null, { status: 200 });
+});
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createPublicClient, getPinConfig } from '@/lib/config';
+import { isPinAdminRequest, listPins, reconcilePins, unpinOrphans } from '@/lib/pins';
+import { validateRequest, unpinOrphansRequestSchema } from '@/lib/validation';
+import {
+    handleValidationError,
+    handleStoryClientError,
+    handleIPFSError,
+    handleInternalError,
+    createErrorNextResponse,
+    logSuccess,
+    ErrorCode
+} from '@/lib/error-handler';
+import { withSecurityAndRateLimit, sanitizeRequestBody } from '@/lib/security';
+
+/**
+ * POST /api/pins/unpin-orphans
+ *
+ * Reconciles the pins against the chain, then unpins the orphans: pins uploaded for an
+ * IP registration that never made it on chain within the grace period. A dry run lists
+ * them without unpinning. Both require PIN_ADMIN_TOKEN as a Bearer token.
+ */
+async function handlePOST(request: NextRequest) {
+    try {
+        if (!isPinAdminRequest(request)) {
+            return createErrorNextResponse(
+                ErrorCode.UNAUTHORIZED,
+                getPinConfig().adminToken ? 'Unpinning requires the admin token' : 'Unpinning is disabled until PIN_ADMIN_TOKEN is configured'
+            );
+        }
+
+        const body = await sanitizeRequestBody(request);
+        const validation = validateRequest(unpinOrphansRequestSchema, body);
+
+        if (!validation.success) {
+            return handleValidationError(validation.error, '/api/pins/unpin-orphans');
+        }
+
+        const dryRun = validation.data.dryRun === true;
+
+        let reconciliation;
+        try {
+            reconciliation = await reconcilePins(createPublicClient());
+        } catch (error) {
+            return handleStoryClientError(error, '/api/pins/unpin-orphans');
+        }
+
+        if (dryRun) {
+            const { pins: orphans } = await listPins({ status: 'orphaned' });
+            return NextResponse.json({ success: true, data: { dryRun, reconciliation, orphans } });
+        }
+
+        let result;
+        try {
+            result = await unpinOrphans();
+        } catch (error) {
+            return handleIPFSError(error, '/api/pins/unpin-orphans', 'unpin orphans');
+        }
+
+        logSuccess('/api/pins/unpin-orphans', 'orphaned pins removed', {
+            unpinned: result.unpinned.length,
+            failed: result.failed.length
+        });
+
+        return NextResponse.json({ success: true, data: { dryRun, reconciliation, ...result } });
+
+    } catch (error) {
+        return handleInternalError(error, '/api/pins/unpin-orphans');
+    }
+}
+
+// Apply security and rate limiting middleware
+export const POST = withSecurityAndRateLimit(handlePOST);
+
+/**
+ * GET /api/pins/unpin-orphans
+ *
+ * Returns API documentation and usage information
+ */
+async function handleGET() {
+    return NextResponse.json({
+        endpoint: '/api/pins/unpin-orphans',
+        method: 'POST',
+        description: 'Reconciles pins against the chain, then unpins uploads for IP registrations that never made it on chain',
+        parameters: {
+            dryRun: 'boolean (optional) - List the orphans without unpinning them (default: false)'
+        },
+        authentication: 'Authorization: Bearer <PIN_ADMIN_TOKEN>, required',
+        response: {
+            reconciliation: 'object - Result of the reconciliation run first',
+            orphans: 'PinRecord[] - Dry run only: the pins that would be unpinned',
+            unpinned: 'string[] - CIDs unpinned and removed from the registry',
+            failed: 'Array<{ cid, error }> - Orphans that could not be unpinned; they are kept for the next run'
+        },
+        example: {
+            dryRun: true
+        }
+    });
+}
+
+// Apply security middleware to GET endpoint
+export const GET = withSecurityAndRateLimit(handleGET);
+
+// Handle CORS preflight requests
+export const OPTIONS = withSecurityAndRateLimit(async () => {
+    return new NextResponse(null, { status: 200 });
+});
@@ -0,0 +1,261 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOnChainURI, resolveIPFSUri, uploadJSONToIPFS, UploadedFile } from '@/lib/ipfs';
+import { uploadRequestFiles } from '@/lib/chunked-upload';
+import { generateMetadataHash } from '@/lib/metadata-builders';
+import {
+    validateRequest,
+    prepareBatchMintRequestSchema,
+    prepareTransactionRequestSchema,
+    MAX_BATCH_MINT_ITEMS
+} from '@/lib/validation';
+import { BatchMintItem, buildBatchMintTransactions } from '@/lib/transaction-builders';
+import { mapLicenseTerms } from '@/lib/license-terms';
+import { isSimulationSkipped, simulateTransactionSteps } from '@/lib/simulation';
+import { addTransactionParams } from '@/lib/fees';
+import { createPublicClient } from '@/lib/config';
+import {
+    handleValidationError,
+    handleBatchMintError,
+    handleTransactionError,
+    handleSimulationError,
+    handleInternalError,
+    createSuccessResponse,
+    logSuccess,
+    getUploadErrorCode,
+    ErrorCode
+} from '@/lib/error-handler';
+import { withSecurityAndRateLimit, sanitizeRequestBody } from '@/lib/security';
+import { tagPins, withPinContext } from '@/lib/pins';
+import { BatchMintFailure, PrepareBatchMintRequest, PrepareTransactionRequest } from '@/types';
+
+/**
+ * Upload one item's files and metadata to IPFS and hash its metadata
+ */
+async function uploadItem(request: PrepareTransactionRequest) {
+    let uploadedFiles: UploadedFile[] = [];
+    if (request.files && request.files.length > 0) {
+        uploadedFiles = await uploadRequestFiles(request.files);
+    }
+
+    const [ipMetadataHash, nftMetadataHash] = await Promise.all([
+        uploadJSONToIPFS(request.ipMetadata, 'ip-metadata.json'),
+        uploadJSONToIPFS(request.nftMetadata, 'nft-metadata.json')
+    ]);
+
+    const ipHashHex = generateMetadataHash(request.ipMetadata);
+    const nftHashHex = generateMetadataHash(request.nftMetadata);
+    const ipMetadataURI = getOnChainURI(ipMetadataHash);
+    const nftMetadataURI = getOnChainURI(nftMetadataHash);
+
+    return {
+        uploadedFiles,
+        metadata: {
+            ipfsHash: ipMetadataHash,
+            ipHash: ipHashHex.startsWith('0x') ? ipHashHex : `0x${ipHashHex}`,
+            nftIpfsHash: nftMetadataHash,
+            nftHash: nftHashHex.startsWith('0x') ? nftHashHex : `0x${nftHashHex}`,
+            ipMetadataURI,
+            ipMetadataUrl: resolveIPFSUri(ipMetadataURI),
+            nftMetadataURI,
+            nftMetadataUrl: resolveIPFSUri(nftMetadataURI)
+        }
+    };
+}
+
+/**
+ * POST /api/prepare-batch-mint
+ *
+ * Prepares the mint of many IP assets in as few transactions as possible.
+ * Every item is validated and uploaded on its own, so items that fail are reported
+ * under additionalData.failures while the rest are still prepared. The valid mints are
+ * packed into RegistrationWorkflows / LicenseAttachmentWorkflows multicalls, split into
+ * several transactions when their combined gas would exceed the per-transaction budget.
+ */
+async function handlePOST(request: NextRequest) {
+    try {
+        const body = await sanitizeRequestBody(request);
+        const validation = validateRequest(prepareBatchMintRequestSchema, body);
+
+        if (!validation.success) {
+            return handleValidationError(validation.error, '/api/prepare-batch-mint');
+        }
+
+        const { userAddress, items } = validation.data as PrepareBatchMintRequest;
+        tagPins({ userAddress });
+        const failures: BatchMintFailure[] = [];
+
+        // Validate each item on its own, defaulting its recipient to the batch signer
+        const validItems: Array<{ index: number; request: PrepareTransactionRequest }> = [];
+        items.forEach((item, index) => {
+            const itemValidation = validateRequest(prepareTransactionRequestSchema, { userAddress, ...item });
+            if (!itemValidation.success) {
+                failures.push({ index, code: ErrorCode.VALIDATION_ERROR, message: itemValidation.error });
+                return;
+            }
+
+            const itemRequest = itemValidation.data as PrepareTransactionRequest;
+            if (itemRequest.licenseTerms) {
+                const { errors } = mapLicenseTerms(itemRequest.licenseTerms);
+                if (errors.length > 0) {
+                    failures.push({
+                        index,
+                        code: ErrorCode.VALIDATION_ERROR,
+                        message: 'Invalid license terms',
+                        details: { fieldErrors: errors }
+                    });
+                    return;
+                }
+            }
+
+            validItems.push({ index, request: itemRequest });
+        });
+
+        // Upload every valid item's files and metadata concurrently
+        const uploads = await Promise.allSettled(validItems.map(item => uploadItem(item.request)));
+        const preparedItems: Array<BatchMintItem & Awaited<ReturnType<typeof uploadItem>>> = [];
+        uploads.forEach((upload, position) => {
+            const { index, request: itemRequest } = validItems[position];
+            if (upload.status === 'rejected') {
+                failures.push({
+                    index,
+                    code: getUploadErrorCode(upload.reason),
+                    message: upload.reason instanceof Error ? upload.reason.message : 'Unknown IPFS error'
+                });
+                return;
+            }
+
+            const { metadata } = upload.value;
+            preparedItems.push({
+                index,
+                request: itemRequest,
+                ipfsHashes: {
+                    ipMetadataHash: metadata.ipHash,
+                    ipMetadataURI: metadata.ipMetadataURI,
+                    nftMetadataHash: metadata.nftHash,
+                    nftMetadataURI: metadata.nftMetadataURI
+                },
+                ...upload.value
+            });
+        });
+        failures.sort((a, b) => a.index - b.index);
+
+        if (preparedItems.length === 0) {
+            return handleBatchMintError(failures, '/api/prepare-batch-mint');
+        }
+
+        // Pack the mints into multicall transactions
+        let batch;
+        try {
+            batch = await buildBatchMintTransactions(userAddress, preparedItems);
+        } catch (error) {
+            return handleTransactionError(error, '/api/prepare-batch-mint', 'build batch mint transactions');
+        }
+
+        // Suggest the chain ID, nonces and EIP-1559 fees to sign with
+        const publicClient = createPublicClient();
+        const transactions = await addTransactionParams(publicClient, userAddress, batch.transactions);
+
+        // Each chunk mints independently, so every transaction is simulated on its own
+        let simulation;
+        try {
+            const skip = isSimulationSkipped(request.nextUrl.searchParams);
+            simulation = (await Promise.all(transactions.map(transaction =>
+                simulateTransactionSteps(publicClient, userAddress, [transaction], { skip })
+            ))).flat();
+        } catch (error) {
+            return handleSimulationError(error, '/api/prepare-batch-mint');
+        }
+
+        logSuccess('/api/prepare-batch-mint', 'batch transaction preparation', {
+            userAddress,
+            itemCount: items.length,
+            preparedCount: preparedItems.length,
+            failedCount: failures.length,
+            transactionCount: transactions.length
+        });
+
+        const itemsByIndex = new Map(preparedItems.map(item => [item.index, item]));
+        return createSuccessResponse(
+            transactions[transactions.length - 1],
+            undefined,
+            preparedItems.flatMap(item => item.uploadedFiles),
+            {
+                // One entry per prepared input index: its metadata and the slot its IP asset lands in
+                items: batch.slots.map(slot => ({
+                    ...slot,
+                    metadata: itemsByIndex.get(slot.index)!.metadata
+                })),
+                failures,
+                simulation
+            },
+            transactions
+        );
+
+    } catch (error) {
+        return handleInternalError(error, '/api/prepare-batch-mint');
+    }
+}
+
+// Apply security and rate limiting middleware
+export const POST = withSecurityAndRateLimit(withPinContext(handlePOST));
+
+/**
+ * GET /api/prepare-batch-mint
+ *
+ * Returns API documentation and usage information
+ */
+async function handleGET() {
+    return NextResponse.json({
+        endpoint: '/api/prepare-batch-mint',
+        method: 'POST',
+        description: 'Prepares the registration of many IP assets as one or more multicall transactions',
+        parameters: {
+            userAddress: 'string (required) - Ethereum address that signs the batch',
+            items: `array (required) - 1 to ${MAX_BATCH_MINT_ITEMS} /api/prepare-mint request bodies; userAddress is optional per item and sets the recipient`
+        },
+        multipart: 'Send multipart/form-data with the JSON body in a payload part and each file as a binary part named items.<index>.files',
+        queryParameters: {
+            skipSimulation: 'flag (optional) - Skip the pre-flight eth_call simulation, e.g. for CI dry runs'
+        },
+        response: {
+            success: 'boolean - Whether at least one item was prepared',
+            transactions: 'array - Transactions to sign in order, each minting a chunk of the items',
+            transaction: 'object - The last transaction of the batch',
+            uploadedFiles: 'array - Files uploaded for all items',
+            additionalData: {
+                items: 'array - Per input index: transaction and call position, predicted tokenId and ipId, license terms IDs and metadata',
+                failures: 'array - Items left out of the batch, with their index, error code and message',
+                simulation: 'array - Simulation outcome of each transaction'
+            },
+            error: 'object - Error information if no item could be prepared'
+        },
+        example: {
+            userAddress: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+            items: [
+                {
+                    ipMetadata: {
+                        title: 'Artwork #1',
+                        description: 'First artwork of the series',
+                        creators: [{
+                            name: 'Creator Name',
+                            address: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+                            contributionPercent: 100
+                        }]
+                    },
+                    nftMetadata: {
+                        name: 'Artwork #1 NFT',
+                        description: 'Ownership of Artwork #1'
+                    }
+                }
+            ]
+        }
+    });
+}
+
+// Apply security middleware to GET endpoint
+export const GET = withSecurityAndRateLimit(handleGET);
+
+// Handle CORS preflight requests
+export const OPTIONS = withSecurityAndRateLimit(async () => {
+    return new NextResponse(null, { status: 200 });
+});
@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getStoryClient } from '@/lib/story-client';
 import { validateRequest, prepareCollectionRequestSchema } from '@/lib/validation';
-import { buildCreateCollectionTransaction } from '@/lib/transaction-builders';
+import { buildCreateCollectionTransaction, getCollectionAddressFromReceipt } from '@/lib/transaction-builders';
+import { createPublicClient } from '@/lib/config';
+import { isSimulationSkipped, simulateTransactionSteps } from '@/lib/simulation';
+import { addTransactionParams } from '@/lib/fees';
 import {
     handleValidationError,
     handleStoryClientError,
+    handleTransactionError,
+    handleSimulationError,
     handleInternalError,
     createSuccessResponse,
     logError,
@@ -23,6 +28,7 @@ import { PrepareCollectionRequest, PrepareTransactionResponse } from '@/types';
  * Requirements covered:
  * - 9.2: SPG NFT collection creation with proper configuration
  * - 9.4: Support public minting and fee configuration options
+ * - Encodes RegistrationWorkflows.createCollection and predicts the deployed collection address
  * - 1.1: Secure API without private key access
  * - 1.3: Return unsigned transaction data
  * - 3.1: Return JSON response with transaction fields
@@ -86,12 +92,27 @@ async function handlePOST(request: NextRequest) {
         }
 
         // Build transaction for collection creation
-        let transactionData;
+        let collectionTransaction;
         try {
-            transactionData = await buildCreateCollectionTransaction(requestData);
+            collectionTransaction = await buildCreateCollectionTransaction(requestData);
         } catch (error) {
-            logError('/api/prepare-collection', ErrorCode.PARAMETER_ERROR, error);
-            return handleInternalError(error, '/api/prepare-collection', { operation: 'build collection transaction' });
+            return handleTransactionError(error, '/api/prepare-collection', 'build collection transaction');
+        }
+
+        const { predictedCollectionAddress, ...builtTransaction } = collectionTransaction;
+
+        // Suggest the chain ID, nonce and EIP-1559 fees to sign with
+        const publicClient = createPublicClient();
+        const [transactionData] = await addTransactionParams(publicClient, requestData.userAddress, [builtTransaction]);
+
+        // Simulate the call from the user's address so a certain revert fails here, not in the wallet
+        let simulation;
+        try {
+            simulation = await simulateTransactionSteps(publicClient, requestData.userAddress, [transactionData], {
+                skip: isSimulationSkipped(request.nextUrl.searchParams)
+            });
+        } catch (error) {
+            return handleSimulationError(error, '/api/prepare-collection');
         }
 
         // Prepare additional data for the response
@@ -100,9 +121,15 @@ async function handlePOST(request: NextRequest) {
             collectionSymbol: requestData.symbol,
             isPublicMinting: requestData.isPublicMinting,
             mintOpen: requestData.mintOpen,
-            mintFeeRecipient: requestData.mintFeeRecipient || null,
+            maxSupply: requestData.maxSupply ?? null,
+            mintFee: requestData.mintFee || '0',
+            mintFeeToken: requestData.mintFeeToken || null,
+            mintFeeRecipient: requestData.mintFeeRecipient || requestData.userAddress,
+            owner: requestData.owner || requestData.userAddress,
             contractURI: requestData.contractURI || null,
-            estimatedGas: transactionData.gasEstimate
+            predictedCollectionAddress,
+            estimatedGas: transactionData.gasEstimate,
+            simulation
         };
 
         console.log(`Collection creation transaction prepared for: ${requestData.name} (${requestData.symbol})`);
@@ -135,26 +162,77 @@ export const POST = withSecurityAndRateLimit(handlePOST);
 /**
  * GET /api/prepare-collection
  * 
- * Returns API documentation and usage information
+ * Returns API documentation and usage information, or with `?txHash=` resolves the
+ * deployed collection address from a mined createCollection transaction receipt
  */
-async function handleGET() {
+async function handleGET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const txHash = searchParams.get('txHash');
+
+    if (txHash) {
+        if (!/^0x[a-fA-F0-9]{64}$/.test(txHash)) {
+            return NextResponse.json({
+                success: false,
+                error: {
+                    code: ErrorCode.VALIDATION_ERROR,
+                    message: 'Invalid transaction hash format',
+                    details: { txHash },
+                    retryable: false
+                }
+            }, { status: 400 });
+        }
+
+        try {
+            const receipt = await createPublicClient().getTransactionReceipt({ hash: txHash as `0x${string}` });
+            const collectionAddress = getCollectionAddressFromReceipt(receipt);
+
+            if (!collectionAddress) {
+                return NextResponse.json({
+                    success: false,
+                    error: {
+                        code: ErrorCode.VALIDATION_ERROR,
+                        message: 'Transaction did not create an SPG NFT collection',
+                        details: { txHash },
+                        retryable: false
+                    }
+                }, { status: 400 });
+            }
+
+            return NextResponse.json({
+                success: true,
+                txHash,
+                collectionAddress,
+                blockNumber: receipt.blockNumber.toString()
+            });
+        } catch (error) {
+            return handleStoryClientError(error, '/api/prepare-collection', 'fetch transaction receipt');
+        }
+    }
+
     return NextResponse.json({
         endpoint: '/api/prepare-collection',
         method: 'POST',
-        description: 'Prepares a transaction for SPG NFT collection creation on Story Protocol',
+        description: 'Prepares a RegistrationWorkflows.createCollection transaction deploying a new SPG NFT collection on Story Protocol',
         parameters: {
             userAddress: 'string (required) - Ethereum address of the user',
             name: 'string (required) - Collection name (max 100 characters)',
             symbol: 'string (required) - Collection symbol (max 10 characters, uppercase letters and numbers only)',
             isPublicMinting: 'boolean (required) - Whether the collection allows public minting',
             mintOpen: 'boolean (required) - Whether minting is currently open',
-            mintFeeRecipient: 'string (optional) - Ethereum address to receive minting fees',
+            maxSupply: 'number (optional) - Maximum number of tokens (defaults to uncapped)',
+            mintFee: 'string (optional) - Fee per mint in wei of the mint fee token (default "0")',
+            mintFeeToken: 'string (conditional) - ERC-20 token the mint fee is paid in, required when mintFee > 0',
+            mintFeeRecipient: 'string (optional) - Ethereum address to receive minting fees (defaults to userAddress)',
+            owner: 'string (optional) - Owner of the collection contract (defaults to userAddress)',
             contractURI: 'string (optional) - URI for collection metadata'
         },
+        queryParameters: {
+            skipSimulation: 'flag (optional) - Skip the pre-flight eth_call simulation, e.g. for CI dry runs'
+        },
         response: {
             success: 'boolean - Whether the operation succeeded',
             transaction: 'object - Transaction data for signing (to, data, value, gasEstimate)',
-            additionalData: 'object - Collection-specific information',
+            additionalData: 'object - Collection-specific information, including predictedCollectionAddress',
             error: 'object - Error information if success is false'
         },
         example: {
@@ -163,15 +241,20 @@ async function handleGET() {
             symbol: 'MIC',
             isPublicMinting: true,
             mintOpen: true,
+            maxSupply: 10000,
+            mintFee: '1000000000000000000',
+            mintFeeToken: '0x1514000000000000000000000000000000000000',
             mintFeeRecipient: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
             contractURI: 'https://example.com/collection-metadata.json'
         },
         notes: [
             'Collection creation requires gas fees for deployment',
-            'Collection name and symbol should be unique within the network',
             'Public minting allows anyone to mint from the collection',
             'Mint fee recipient receives fees from minting operations',
-            'Contract URI should point to collection-level metadata'
+            'Contract URI should point to collection-level metadata',
+            'predictedCollectionAddress assumes no other collection is deployed before this transaction is mined',
+            'Call GET /api/prepare-collection?txHash=<hash> after mining to read the deployed address from the receipt',
+            'Pass the deployed address as spgNftContract to /api/prepare-mint to mint into the new collection'
         ]
     });
 }
@@ -1,19 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getStoryClient } from '@/lib/story-client';
-import { uploadJSONToIPFS } from '@/lib/ipfs';
+import { getOnChainURI, resolveIPFSUri, uploadJSONToIPFS } from '@/lib/ipfs';
 import { generateMetadataHash } from '@/lib/metadata-builders';
 import { validateRequest, prepareDerivativeRequestSchema } from '@/lib/validation';
-import { prepareRegisterDerivativeParams } from '@/lib/transaction-builders';
+import { buildRegisterDerivativeTransaction, prepareRegisterDerivativeParams } from '@/lib/transaction-builders';
+import { isSimulationSkipped, simulateTransactionSteps } from '@/lib/simulation';
+import { addTransactionParams } from '@/lib/fees';
+import { createPublicClient } from '@/lib/config';
 import {
     handleValidationError,
     handleStoryClientError,
     handleIPFSError,
+    handleTransactionError,
+    handleSimulationError,
     handleInternalError,
     createSuccessResponse,
     logError,
     ErrorCode
 } from '@/lib/error-handler';
 import { withSecurityAndRateLimit, sanitizeRequestBody } from '@/lib/security';
+import { tagPins, withPinContext } from '@/lib/pins';
 import { PrepareDerivativeRequest, PrepareTransactionResponse } from '@/types';
 
 /**
@@ -41,6 +47,7 @@ async function handlePOST(request: NextRequest) {
         }
 
         const requestData = validation.data as PrepareDerivativeRequest;
+        tagPins({ userAddress: requestData.userAddress });
 
         // Initialize Story Protocol client (read-only)
         let storyClient;
@@ -93,7 +100,7 @@ async function handlePOST(request: NextRequest) {
         let ipMetadataURI: string;
         try {
             ipMetadataHash = await uploadJSONToIPFS(requestData.ipMetadata, 'derivative-ip-metadata.json');
-            ipMetadataURI = `https://gateway.pinata.cloud/ipfs/${ipMetadataHash}`;
+            ipMetadataURI = getOnChainURI(ipMetadataHash);
             console.log(`Derivative IP metadata uploaded to IPFS: ${ipMetadataHash}`);
         } catch (error) {
             return handleIPFSError(error, '/api/prepare-derivative', 'upload IP metadata');
@@ -105,7 +112,7 @@ async function handlePOST(request: NextRequest) {
         if (requestData.nftMetadata) {
             try {
                 nftMetadataHash = await uploadJSONToIPFS(requestData.nftMetadata, 'derivative-nft-metadata.json');
-                nftMetadataURI = `https://gateway.pinata.cloud/ipfs/${nftMetadataHash}`;
+                nftMetadataURI = getOnChainURI(nftMetadataHash);
                 console.log(`Derivative NFT metadata uploaded to IPFS: ${nftMetadataHash}`);
             } catch (error) {
                 return handleIPFSError(error, '/api/prepare-derivative', 'upload NFT metadata');
@@ -116,35 +123,49 @@ async function handlePOST(request: NextRequest) {
         const ipHash = generateMetadataHash(requestData.ipMetadata);
         const nftHash = requestData.nftMetadata ? generateMetadataHash(requestData.nftMetadata) : ipHash;
 
-        // Calculate licensing fees for derivative creation
-        // Note: Fee calculation will be handled by the Story SDK during transaction execution
-        // For now, we set a placeholder value that the client can override
-        let totalLicensingFee = '0';
+        // Licensing fees are paid in the license currency (not native value) and are
+        // capped on chain by derivData.maxMintingFee
+        const totalLicensingFee = '0';
 
         console.log(`Preparing derivative transaction for ${requestData.parentIpIds.length} parent IPs`);
-        console.log('License fees will be calculated by Story SDK during transaction execution');
+
+        const ipfsHashes = {
+            ipMetadataHash: ipHash,
+            ipMetadataURI,
+            nftMetadataHash: nftHash,
+            nftMetadataURI: nftMetadataURI || ipMetadataURI
+        };
 
         // Prepare Story SDK parameters for derivative registration
         let storyParams;
         try {
-            storyParams = prepareRegisterDerivativeParams(requestData, {
-                ipMetadataHash: ipHash,
-                ipMetadataURI,
-                nftMetadataHash: nftHash,
-                nftMetadataURI: nftMetadataURI || ipMetadataURI
-            });
+            storyParams = prepareRegisterDerivativeParams(requestData, ipfsHashes);
         } catch (error) {
             logError('/api/prepare-derivative', ErrorCode.PARAMETER_ERROR, error);
             return handleInternalError(error, '/api/prepare-derivative', { operation: 'prepare parameters' });
         }
 
-        // Prepare transaction data for client-side execution
-        const transactionData = {
-            to: storyParams.nft.spgNftContract,
-            data: '0x', // Client will encode this using Story SDK registerDerivativeIpAsset
-            value: totalLicensingFee, // Include calculated licensing fees
-            gasEstimate: '600000' // Higher gas estimate for derivative operations
-        };
+        // Encode mintAndRegisterIpAndMakeDerivative and estimate gas with the user's address
+        let transactionData;
+        try {
+            transactionData = await buildRegisterDerivativeTransaction(requestData, ipfsHashes);
+        } catch (error) {
+            return handleTransactionError(error, '/api/prepare-derivative', 'build derivative transaction');
+        }
+
+        // Suggest the chain ID, nonce and EIP-1559 fees to sign with
+        const publicClient = createPublicClient();
+        [transactionData] = await addTransactionParams(publicClient, requestData.userAddress, [transactionData]);
+
+        // Simulate the call from the user's address so a certain revert fails here, not in the wallet
+        let simulation;
+        try {
+            simulation = await simulateTransactionSteps(publicClient, requestData.userAddress, [transactionData], {
+                skip: isSimulationSkipped(request.nextUrl.searchParams)
+            });
+        } catch (error) {
+            return handleSimulationError(error, '/api/prepare-derivative');
+        }
 
         // Construct successful response
         console.log('Derivative transaction preparation completed successfully');
@@ -154,14 +175,25 @@ async function handlePOST(request: NextRequest) {
                 ipfsHash: ipMetadataHash,
                 ipHash,
                 nftIpfsHash: nftMetadataHash || ipMetadataHash,
-                nftHash
+                nftHash,
+                ipMetadataURI,
+                ipMetadataUrl: resolveIPFSUri(ipMetadataURI),
+                nftMetadataURI: nftMetadataURI || ipMetadataURI,
+                nftMetadataUrl: resolveIPFSUri(nftMetadataURI || ipMetadataURI)
             },
             [], // No file uploads for derivative endpoint
             {
                 parentIpIds: requestData.parentIpIds,
                 licenseTermsIds: requestData.licenseTermsIds,
                 totalLicensingFee,
-                spgNftContract: storyParams.nft.spgNftContract
+                spgNftContract: storyParams.nft.spgNftContract,
+                derivData: {
+                    licenseTemplate: storyParams.derivData.licenseTemplate,
+                    maxMintingFee: storyParams.derivData.maxMintingFee.toString(),
+                    maxRts: storyParams.derivData.maxRts,
+                    maxRevenueShare: storyParams.derivData.maxRevenueShare
+                },
+                simulation
             }
         );
 
@@ -171,7 +203,7 @@ async function handlePOST(request: NextRequest) {
 }
 
 // Apply security and rate limiting middleware
-export const POST = withSecurityAndRateLimit(handlePOST);
+export const POST = withSecurityAndRateLimit(withPinContext(handlePOST));
 
 /**
  * GET /api/prepare-derivative
@@ -189,7 +221,13 @@ async function handleGET() {
             licenseTermsIds: 'array (required) - Array of license terms IDs corresponding to each parent IP',
             ipMetadata: 'object (required) - IP metadata object with title, description, creators',
             nftMetadata: 'object (optional) - NFT metadata object with name, description',
-            spgNftContract: 'string (optional) - Custom SPG NFT contract address'
+            spgNftContract: 'string (optional) - Custom SPG NFT contract address',
+            maxMintingFee: 'string (optional) - Maximum total minting fee in wei the caller will pay (default: 0, no limit)',
+            maxRts: 'number (optional) - Maximum royalty tokens the parents may claim, 0 - 100,000,000 (default: 100,000,000)',
+            maxRevenueShare: 'number (optional) - Maximum revenue share percentage accepted from parents, 0 - 100 (default: 100)'
+        },
+        queryParameters: {
+            skipSimulation: 'flag (optional) - Skip the pre-flight eth_call simulation, e.g. for CI dry runs'
         },
         response: {
             success: 'boolean - Whether the operation succeeded',
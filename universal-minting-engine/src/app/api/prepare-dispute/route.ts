@@ -1,18 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getStoryClient } from '@/lib/story-client';
-import { uploadJSONToIPFS } from '@/lib/ipfs';
+import { getIPFSUrl, uploadJSONToIPFS } from '@/lib/ipfs';
 import { validateRequest, prepareDisputeRequestSchema } from '@/lib/validation';
-import { buildRaiseDisputeTransaction } from '@/lib/transaction-builders';
+import { buildRaiseDisputeTransaction, RAISABLE_DISPUTE_TAGS } from '@/lib/transaction-builders';
+import { isSimulationSkipped, simulateTransactionSteps } from '@/lib/simulation';
+import { addTransactionParams } from '@/lib/fees';
+import { createPublicClient } from '@/lib/config';
 import {
     handleValidationError,
     handleStoryClientError,
     handleIPFSError,
+    handleTransactionError,
+    handleSimulationError,
     handleInternalError,
     createSuccessResponse,
     logError,
     ErrorCode
 } from '@/lib/error-handler';
 import { withSecurityAndRateLimit, sanitizeRequestBody } from '@/lib/security';
+import { tagPins, withPinContext } from '@/lib/pins';
 import { PrepareDisputeRequest, PrepareTransactionResponse } from '@/types';
 
 /**
@@ -26,6 +32,7 @@ import { PrepareDisputeRequest, PrepareTransactionResponse } from '@/types';
  * - 9.1: Dispute raising transaction preparation with evidence upload
  * - 9.3: Evidence format validation and decentralized storage
  * - 9.5: Dispute parameter validation (tags, bond amounts)
+ * - Encodes DisputeModule.raiseDispute preceded by the WIP bond wrap/approval steps
  * - 1.1: Secure API without private key access
  * - 1.3: Return unsigned transaction data
  * - 3.1: Return JSON response with transaction fields
@@ -42,6 +49,7 @@ async function handlePOST(request: NextRequest) {
         }
 
         const requestData = validation.data as PrepareDisputeRequest;
+        tagPins({ userAddress: requestData.userAddress });
 
         // Initialize Story Protocol client
         let storyClient;
@@ -58,10 +66,9 @@ async function handlePOST(request: NextRequest) {
                 throw new Error('Target IP ID is required');
             }
 
-            // Validate dispute tag
-            const validTags = ['PLAGIARISM', 'NON_COMMERCIAL_USE', 'ATTRIBUTION', 'COMMERCIAL_USE', 'OTHER'];
-            if (!validTags.includes(requestData.targetTag)) {
-                throw new Error(`Invalid target tag. Must be one of: ${validTags.join(', ')}`);
+            // Validate dispute tag against the tags whitelisted on chain
+            if (!RAISABLE_DISPUTE_TAGS.includes(requestData.targetTag)) {
+                throw new Error(`Invalid target tag. Must be one of: ${RAISABLE_DISPUTE_TAGS.join(', ')}`);
             }
 
             // Validate bond amount (must be positive)
@@ -111,20 +118,37 @@ async function handlePOST(request: NextRequest) {
         let evidenceHash: string;
         let evidenceURI: string;
         try {
-            evidenceHash = await uploadJSONToIPFS(evidenceObject, 'dispute-evidence.json');
-            evidenceURI = `https://gateway.pinata.cloud/ipfs/${evidenceHash}`;
+            evidenceHash = await uploadJSONToIPFS(evidenceObject, 'dispute-evidence.json', 'evidence');
+            evidenceURI = getIPFSUrl(evidenceHash);
             console.log(`Dispute evidence uploaded to IPFS: ${evidenceHash}`);
         } catch (error) {
             return handleIPFSError(error, '/api/prepare-dispute', 'upload dispute evidence');
         }
 
-        // Build transaction for dispute raising
-        let transactionData;
+        // Build the ordered bond and dispute transactions
+        let disputeTransactions;
         try {
-            transactionData = await buildRaiseDisputeTransaction(requestData);
+            disputeTransactions = await buildRaiseDisputeTransaction(requestData, evidenceHash);
         } catch (error) {
-            logError('/api/prepare-dispute', ErrorCode.PARAMETER_ERROR, error);
-            return handleInternalError(error, '/api/prepare-dispute', { operation: 'build dispute transaction' });
+            return handleTransactionError(error, '/api/prepare-dispute', 'build dispute transaction');
+        }
+
+        const { transactions: builtTransactions, disputeParams } = disputeTransactions;
+
+        // Suggest the chain ID, nonce and EIP-1559 fees to sign with
+        const publicClient = createPublicClient();
+        const transactions = await addTransactionParams(publicClient, requestData.userAddress, builtTransactions);
+        // The raiseDispute call itself is always the last step
+        const transactionData = transactions[transactions.length - 1];
+
+        // Simulate from the user's address so a certain revert fails here, not in the wallet
+        let simulation;
+        try {
+            simulation = await simulateTransactionSteps(publicClient, requestData.userAddress, transactions, {
+                skip: isSimulationSkipped(request.nextUrl.searchParams)
+            });
+        } catch (error) {
+            return handleSimulationError(error, '/api/prepare-dispute');
         }
 
         // Prepare additional data for the response
@@ -132,14 +156,18 @@ async function handlePOST(request: NextRequest) {
             targetIpId: requestData.targetIpId,
             targetTag: requestData.targetTag,
             bondAmount: requestData.bond,
+            bondToken: disputeParams.bondToken,
             livenessPeriod: requestData.liveness,
             evidenceHash,
             evidenceURI,
             estimatedGas: transactionData.gasEstimate,
+            requiresApproval: transactions.length > 1,
+            previews: transactions.map(tx => tx.preview),
+            simulation,
             disputeParameters: {
-                targetIpId: requestData.targetIpId,
-                targetTag: requestData.targetTag,
-                evidenceHash: `0x${evidenceHash}`,
+                targetIpId: disputeParams.targetIpId,
+                targetTag: disputeParams.targetTag,
+                evidenceHash: disputeParams.disputeEvidenceHash,
                 bond: requestData.bond,
                 liveness: requestData.liveness
             }
@@ -162,7 +190,8 @@ async function handlePOST(request: NextRequest) {
             transactionData,
             disputeMetadata,
             undefined, // No uploaded files (evidence is uploaded as JSON)
-            additionalData
+            additionalData,
+            transactions
         );
 
     } catch (error) {
@@ -171,7 +200,7 @@ async function handlePOST(request: NextRequest) {
 }
 
 // Apply security and rate limiting middleware
-export const POST = withSecurityAndRateLimit(handlePOST);
+export const POST = withSecurityAndRateLimit(withPinContext(handlePOST));
 
 /**
  * GET /api/prepare-dispute
@@ -187,13 +216,17 @@ async function handleGET() {
             userAddress: 'string (required) - Ethereum address of the user raising the dispute',
             targetIpId: 'string (required) - IP ID being disputed',
             evidence: 'string (required) - Evidence supporting the dispute (min 10 characters, max 10000)',
-            targetTag: 'string (required) - Type of dispute (PLAGIARISM, NON_COMMERCIAL_USE, ATTRIBUTION, COMMERCIAL_USE, OTHER)',
-            bond: 'string (required) - Bond amount in wei (must be positive)',
+            targetTag: `string (required) - Type of dispute (${RAISABLE_DISPUTE_TAGS.join(', ')})`,
+            bond: 'string (required) - Bond amount in wei of WIP (must be positive)',
             liveness: 'number (required) - Liveness period in seconds (1 hour to 30 days)'
         },
+        queryParameters: {
+            skipSimulation: 'flag (optional) - Skip the pre-flight eth_call simulation, e.g. for CI dry runs'
+        },
         response: {
             success: 'boolean - Whether the operation succeeded',
             transaction: 'object - Transaction data for signing (to, data, value, gasEstimate)',
+            transactions: 'array - Ordered transactions to sign when the bond must be wrapped or approved first',
             metadata: 'object - Evidence IPFS hash information',
             additionalData: 'object - Dispute-specific information',
             error: 'object - Error information if success is false'
@@ -202,19 +235,19 @@ async function handleGET() {
             userAddress: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
             targetIpId: '0x1234567890123456789012345678901234567890',
             evidence: 'This IP asset appears to be a copy of my original work published at...',
-            targetTag: 'PLAGIARISM',
+            targetTag: 'IMPROPER_REGISTRATION',
             bond: '1000000000000000000',
             liveness: 86400
         },
         validTargetTags: [
-            'PLAGIARISM - Content copied without permission',
-            'NON_COMMERCIAL_USE - Commercial use of non-commercial licensed content',
-            'ATTRIBUTION - Missing or incorrect attribution',
-            'COMMERCIAL_USE - Unauthorized commercial use',
-            'OTHER - Other types of IP infringement'
+            'IMPROPER_REGISTRATION - Registered without proper rights (plagiarism, duplicate registration)',
+            'IMPROPER_USAGE - Used outside the scope of its license terms',
+            'IMPROPER_PAYMENT - Missing or incorrect royalty or license fee payments',
+            'CONTENT_STANDARDS_VIOLATION - Violates the content standards of the network'
         ],
         notes: [
             'Bond amount is required and will be locked during dispute resolution',
+            'The bond is paid in WIP; native IP is wrapped first when the WIP balance is short, then approved for the arbitration policy',
             'Evidence is uploaded to IPFS for permanent storage',
             'Liveness period determines how long the dispute remains active',
             'Dispute resolution follows Story Protocol governance processes',
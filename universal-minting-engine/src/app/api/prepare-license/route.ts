@@ -2,10 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getStoryClient } from '@/lib/story-client';
 import { validateRequest, prepareLicenseRequestSchema } from '@/lib/validation';
 import { buildMintLicenseTransaction, prepareMintLicenseParams } from '@/lib/transaction-builders';
+import { isSimulationSkipped, simulateTransactionSteps } from '@/lib/simulation';
+import { addTransactionParams } from '@/lib/fees';
+import { createPublicClient } from '@/lib/config';
 import {
     handleValidationError,
     handleStoryClientError,
     handleTransactionError,
+    handleSimulationError,
     handleInternalError,
     createSuccessResponse,
     logError,
@@ -121,39 +125,50 @@ async function handlePOST(request: NextRequest) {
             return handleInternalError(error, '/api/prepare-license', { operation: 'prepare license parameters' });
         }
 
-        // Build transaction for license token minting
-        let transactionData;
+        // Look up the minting fee on chain and build the approve + mint sequence
+        let licenseTransactions;
         try {
-            transactionData = await buildMintLicenseTransaction(requestData);
+            licenseTransactions = await buildMintLicenseTransaction(requestData);
         } catch (error) {
             return handleTransactionError(error, '/api/prepare-license', 'build license transaction');
         }
 
-        // Calculate estimated fees for license minting
-        // Note: In a real implementation, this would query the actual license terms
-        // to get the minting fee and calculate the total cost
-        const estimatedFeePerLicense = '1000000000000000000'; // 1 $IP token in wei (placeholder)
-        const totalEstimatedFee = (BigInt(estimatedFeePerLicense) * BigInt(requestData.amount || 1)).toString();
+        const { transactions: builtTransactions, mintingFee } = licenseTransactions;
 
-        // Add fee information to transaction
-        transactionData.value = totalEstimatedFee;
+        // Suggest the chain ID, nonce and EIP-1559 fees to sign with
+        const publicClient = createPublicClient();
+        const transactions = await addTransactionParams(publicClient, requestData.userAddress, builtTransactions);
+        const mintTransaction = transactions[transactions.length - 1];
+
+        // Simulate from the user's address so a certain revert fails here, not in the wallet
+        let simulation;
+        try {
+            simulation = await simulateTransactionSteps(publicClient, requestData.userAddress, transactions, {
+                skip: isSimulationSkipped(request.nextUrl.searchParams)
+            });
+        } catch (error) {
+            return handleSimulationError(error, '/api/prepare-license');
+        }
 
         // Prepare additional data for the response
         const additionalData = {
             licenseTermsId: requestData.licenseTermsId,
             licensorIpId: requestData.licensorIpId,
             amount: requestData.amount,
-            estimatedFeePerLicense,
-            totalEstimatedFee,
-            feeToken: 'WIP', // Placeholder - would be determined by license terms
+            receiver: storyParams.receiver,
+            totalMintingFee: mintingFee.amount,
+            feeToken: mintingFee.currencyToken,
+            maxMintingFee: requestData.maxMintingFee ?? mintingFee.amount,
+            requiresApproval: transactions.length > 1,
+            simulation,
         };
 
         console.log(`License minting transaction prepared for ${requestData.amount} licenses`);
-        console.log(`Estimated total fee: ${totalEstimatedFee} wei`);
+        console.log(`Minting fee: ${mintingFee.amount} of token ${mintingFee.currencyToken}`);
 
         // Construct successful response
         return createSuccessResponse(
-            transactionData,
+            mintTransaction,
             {
                 ipfsHash: '',
                 ipHash: '',
@@ -161,7 +176,8 @@ async function handlePOST(request: NextRequest) {
                 nftHash: ''
             }, // No metadata for license minting
             [], // No uploaded files
-            additionalData
+            additionalData,
+            transactions
         );
 
     } catch (error) {
@@ -185,12 +201,19 @@ async function handleGET() {
         parameters: {
             userAddress: 'string (required) - Ethereum address of the user',
             licenseTermsId: 'number (required) - ID of the license terms to mint',
-            licensorIpId: 'string (required) - IP ID of the licensor',
-            amount: 'number (required) - Number of license tokens to mint (1-10,000)'
+            licensorIpId: 'string (required) - IP ID (address) of the licensor',
+            amount: 'number (required) - Number of license tokens to mint (1-10,000)',
+            receiver: 'string (optional) - Address to receive the license tokens (default: userAddress)',
+            maxMintingFee: 'string (optional) - Maximum total minting fee in wei (default: the fee quoted on chain)',
+            maxRevenueShare: 'number (optional) - Maximum commercial revenue share percentage accepted (default: 100)'
+        },
+        queryParameters: {
+            skipSimulation: 'flag (optional) - Skip the pre-flight eth_call simulation, e.g. for CI dry runs'
         },
         response: {
             success: 'boolean - Whether the operation succeeded',
-            transaction: 'object - Transaction data for signing (to, data, value, gasEstimate)',
+            transaction: 'object - The mintLicenseTokens transaction (to, data, value, gasEstimate)',
+            transactions: 'array - All transactions in signing order (ERC-20 approval first, when required)',
             additionalData: 'object - License-specific information (fees, terms, etc.)',
             error: 'object - Error information if success is false'
         },
@@ -202,7 +225,7 @@ async function handleGET() {
         },
         notes: [
             'License minting requires payment of fees as specified in the license terms',
-            'The transaction value will include the total fee for all requested licenses',
+            'Fees are paid in the license currency token; approve the RoyaltyModule before minting',
             'Maximum of 10,000 license tokens can be minted in a single transaction',
             'License terms ID must exist on the Story Protocol network'
         ]
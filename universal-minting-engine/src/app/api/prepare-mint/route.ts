@@ -1,24 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getStoryClient } from '@/lib/story-client';
-import { uploadJSONToIPFS, uploadMultipleFilesToIPFS } from '@/lib/ipfs';
+import { getOnChainURI, resolveIPFSUri, uploadJSONToIPFS } from '@/lib/ipfs';
+import { uploadRequestFiles } from '@/lib/chunked-upload';
 import { generateMetadataHash } from '@/lib/metadata-builders';
 import { validateRequest, prepareTransactionRequestSchema } from '@/lib/validation';
-import { prepareRegisterIpAssetParams } from '@/lib/transaction-builders';
+import { buildRegisterIpAssetTransaction, prepareRegisterIpAssetParams } from '@/lib/transaction-builders';
+import { mapLicenseTerms } from '@/lib/license-terms';
+import { isSimulationSkipped, simulateTransactionSteps } from '@/lib/simulation';
+import { addTransactionParams } from '@/lib/fees';
+import { createPublicClient } from '@/lib/config';
 import { checkWalletBalance, estimateTransactionCost, getFaucetInfo } from '@/lib/wallet-utils';
 import {
     handleValidationError,
+    handleLicenseTermsError,
     handleStoryClientError,
     handleIPFSError,
-    handleFileUploadError,
+    handleChunkedUploadError,
+    handleTransactionError,
+    handleSimulationError,
     handleInternalError,
-    handleInsufficientFundsError,
-    isInsufficientFundsError,
     createSuccessResponse,
     logError,
     logSuccess,
     ErrorCode
 } from '@/lib/error-handler';
 import { withSecurityAndRateLimit, sanitizeRequestBody } from '@/lib/security';
+import { tagPins, withPinContext } from '@/lib/pins';
 import { PrepareTransactionRequest, PrepareTransactionResponse } from '@/types';
 
 /**
@@ -51,6 +58,15 @@ async function handlePOST(request: NextRequest) {
         }
 
         const requestData = validation.data as PrepareTransactionRequest;
+        tagPins({ userAddress: requestData.userAddress });
+
+        // Reject illegal PIL combinations before uploading anything
+        if (requestData.licenseTerms) {
+            const { errors } = mapLicenseTerms(requestData.licenseTerms);
+            if (errors.length > 0) {
+                return handleLicenseTermsError(errors, '/api/prepare-mint');
+            }
+        }
 
         // Initialize Story Protocol client
         let storyClient;
@@ -70,16 +86,11 @@ async function handlePOST(request: NextRequest) {
 
         if (requestData.files && requestData.files.length > 0) {
             try {
-                const fileUploads = requestData.files.map(file => ({
-                    data: file.content,
-                    filename: file.filename,
-                    contentType: file.mimeType,
-                    purpose: 'media' as const
-                }));
-                uploadedFiles = await uploadMultipleFilesToIPFS(fileUploads);
+                // Inline base64 files are uploaded now; files referenced by uploadId were uploaded in chunks
+                uploadedFiles = await uploadRequestFiles(requestData.files);
                 console.log(`Successfully uploaded ${uploadedFiles.length} files to IPFS`);
             } catch (error) {
-                return handleFileUploadError(error, '/api/prepare-mint');
+                return handleChunkedUploadError(error, '/api/prepare-mint');
             }
         }
 
@@ -88,7 +99,7 @@ async function handlePOST(request: NextRequest) {
         let ipMetadataURI: string;
         try {
             ipMetadataHash = await uploadJSONToIPFS(requestData.ipMetadata, 'ip-metadata.json');
-            ipMetadataURI = `https://gateway.pinata.cloud/ipfs/${ipMetadataHash}`;
+            ipMetadataURI = getOnChainURI(ipMetadataHash);
             console.log(`IP metadata uploaded to IPFS: ${ipMetadataHash}`);
         } catch (error) {
             return handleIPFSError(error, '/api/prepare-mint', 'upload IP metadata');
@@ -99,7 +110,7 @@ async function handlePOST(request: NextRequest) {
         let nftMetadataURI: string;
         try {
             nftMetadataHash = await uploadJSONToIPFS(requestData.nftMetadata, 'nft-metadata.json');
-            nftMetadataURI = `https://gateway.pinata.cloud/ipfs/${nftMetadataHash}`;
+            nftMetadataURI = getOnChainURI(nftMetadataHash);
             console.log(`NFT metadata uploaded to IPFS: ${nftMetadataHash}`);
         } catch (error) {
             return handleIPFSError(error, '/api/prepare-mint', 'upload NFT metadata');
@@ -145,145 +156,40 @@ async function handlePOST(request: NextRequest) {
             console.warn('Could not check wallet balance, proceeding with transaction preparation:', balanceError);
         }
 
-        // Prepare transaction using Story SDK
-        let transactionData;
+        // Encode the mint for the current network, attaching license terms when requested
+        let mintTransaction;
         try {
-            console.log('Preparing transaction with Story SDK...');
-
-            // Check current network gas price for debugging
-            try {
-                const { createPublicClient } = await import('@/lib/config');
-                const publicClient = createPublicClient();
-                const gasPrice = await publicClient.getGasPrice();
-                console.log(`Current network gas price: ${Number(gasPrice) / 1e9} Gwei`);
-            } catch (gasPriceError) {
-                console.warn('Could not fetch gas price:', gasPriceError);
-            }
-
             console.log('Story SDK parameters:', {
                 spgNftContract: storyParams.nft.spgNftContract,
                 recipient: requestData.userAddress,
-                ipMetadata: {
-                    ipMetadataURI: storyParams.ipMetadata.ipMetadataURI,
-                    ipMetadataHash: storyParams.ipMetadata.ipMetadataHash,
-                    nftMetadataURI: storyParams.ipMetadata.nftMetadataURI,
-                    nftMetadataHash: storyParams.ipMetadata.nftMetadataHash,
-                }
+                ipMetadata: storyParams.ipMetadata,
+                licenseTermsCount: storyParams.licenseTermsData.length
             });
 
-            // Build transaction manually to avoid Story SDK gas estimation issues
-            console.log('Building transaction manually to avoid gas estimation with dummy account...');
-
-            const { encodeFunctionData } = await import('viem');
-
-            // SPG contract mintAndRegisterIp function ABI
-            const mintAndRegisterIpAbi = [{
-                name: 'mintAndRegisterIp',
-                type: 'function',
-                inputs: [
-                    { name: 'spgNftContract', type: 'address' },
-                    { name: 'recipient', type: 'address' },
-                    {
-                        name: 'ipMetadata', type: 'tuple', components: [
-                            { name: 'ipMetadataURI', type: 'string' },
-                            { name: 'ipMetadataHash', type: 'bytes32' },
-                            { name: 'nftMetadataURI', type: 'string' },
-                            { name: 'nftMetadataHash', type: 'bytes32' }
-                        ]
-                    },
-                    { name: 'allowDuplicates', type: 'bool' }
-                ]
-            }];
-
-            const encodedData = encodeFunctionData({
-                abi: mintAndRegisterIpAbi,
-                functionName: 'mintAndRegisterIp',
-                args: [
-                    storyParams.nft.spgNftContract,
-                    requestData.userAddress as `0x${string}`,
-                    {
-                        ipMetadataURI: storyParams.ipMetadata.ipMetadataURI,
-                        ipMetadataHash: storyParams.ipMetadata.ipMetadataHash as `0x${string}`,
-                        nftMetadataURI: storyParams.ipMetadata.nftMetadataURI,
-                        nftMetadataHash: storyParams.ipMetadata.nftMetadataHash as `0x${string}`,
-                    },
-                    true // allowDuplicates
-                ]
+            mintTransaction = await buildRegisterIpAssetTransaction(requestData, {
+                ipMetadataHash: ipHash,
+                ipMetadataURI,
+                nftMetadataHash: nftHash,
+                nftMetadataURI
             });
-
-            // Create response object with encoded transaction data
-            const response = {
-                encodedTxData: {
-                    to: '0xbe39E1C756e921BD25DF86e7AAa31106d1eb0424', // SPG contract address from error
-                    data: encodedData
-                }
-            };
-
-            console.log('Story SDK response:', response);
-
-            // Extract transaction data and estimate gas with user's address
-            if (response.encodedTxData) {
-                let gasEstimate = '800000'; // Default fallback
-
-                try {
-                    const { createPublicClient } = await import('@/lib/config');
-                    const publicClient = createPublicClient();
-
-                    console.log('Estimating gas with user address:', requestData.userAddress);
-                    const estimatedGas = await publicClient.estimateGas({
-                        to: response.encodedTxData.to as `0x${string}`,
-                        data: response.encodedTxData.data as `0x${string}`,
-                        account: requestData.userAddress as `0x${string}`,
-                        value: BigInt(0)
-                    });
-
-                    // Add 20% buffer to the estimated gas
-                    const bufferedGas = (estimatedGas * BigInt(120)) / BigInt(100);
-                    gasEstimate = bufferedGas.toString();
-                    console.log(`Gas estimated: ${estimatedGas}, with buffer: ${gasEstimate}`);
-                } catch (gasError) {
-                    console.warn('Gas estimation failed, using default:', gasError);
-                }
-
-                transactionData = {
-                    to: response.encodedTxData.to,
-                    data: response.encodedTxData.data,
-                    value: '0', // IP registration typically doesn't require ETH
-                    gasEstimate
-                };
-            } else {
-                // Fallback if no encoded transaction data
-                transactionData = {
-                    to: storyParams.nft.spgNftContract,
-                    data: '0x',
-                    value: '0',
-                    gasEstimate: '800000'
-                };
-            }
-
         } catch (error) {
-            console.error('Story SDK transaction preparation failed:', error);
-            console.error('Error details:', error);
+            return handleTransactionError(error, '/api/prepare-mint', 'build mint transaction');
+        }
 
-            // Check if this is an insufficient funds error
-            if (isInsufficientFundsError(error)) {
-                console.log('Insufficient funds error detected, but user has 4.999 ETH. This may be a gas estimation or network issue.');
-                console.log('Original error:', error);
+        const { licenseTerms, ...builtTransaction } = mintTransaction;
 
-                // For now, let's not return the insufficient funds error since the user clearly has enough balance
-                // Instead, continue with the fallback transaction preparation
-                console.log('Proceeding with fallback transaction preparation despite insufficient funds error');
-            }
+        // Suggest the chain ID, nonce and EIP-1559 fees to sign with
+        const publicClient = createPublicClient();
+        const [transactionData] = await addTransactionParams(publicClient, requestData.userAddress, [builtTransaction]);
 
-            // Final fallback - return contract address for manual transaction
-            transactionData = {
-                to: storyParams.nft.spgNftContract,
-                data: '0x', // Client will need to encode this manually
-                value: '0',
-                gasEstimate: '800000'
-            };
-
-            console.warn('Using fallback transaction data - client must encode transaction manually');
+        // Simulate the mint from the user's address so a certain revert fails here, not in the wallet
+        let simulation;
+        try {
+            simulation = await simulateTransactionSteps(publicClient, requestData.userAddress, [transactionData], {
+                skip: isSimulationSkipped(request.nextUrl.searchParams)
+            });
+        } catch (error) {
+            return handleSimulationError(error, '/api/prepare-mint');
         }
 
         // Log successful operation
@@ -303,9 +209,19 @@ async function handlePOST(request: NextRequest) {
                 ipfsHash: ipMetadataHash,
                 ipHash,
                 nftIpfsHash: nftMetadataHash,
-                nftHash
+                nftHash,
+                ipMetadataURI,
+                ipMetadataUrl: resolveIPFSUri(ipMetadataURI),
+                nftMetadataURI,
+                nftMetadataUrl: resolveIPFSUri(nftMetadataURI)
             },
-            uploadedFiles
+            uploadedFiles,
+            {
+                // Terms IDs the mint will attach, reused when already registered
+                licenseTermsIds: licenseTerms.map(terms => terms.licenseTermsId),
+                licenseTerms,
+                simulation
+            }
         );
 
     } catch (error) {
@@ -314,7 +230,7 @@ async function handlePOST(request: NextRequest) {
 }
 
 // Apply security and rate limiting middleware
-export const POST = withSecurityAndRateLimit(handlePOST);
+export const POST = withSecurityAndRateLimit(withPinContext(handlePOST));
 
 /**
  * GET /api/prepare-mint
@@ -330,14 +246,20 @@ async function handleGET() {
             userAddress: 'string (required) - Ethereum address of the user',
             ipMetadata: 'object (required) - IP metadata object with title, description, creators',
             nftMetadata: 'object (required) - NFT metadata object with name, description',
-            licenseTerms: 'object (optional) - License terms configuration',
-            files: 'array (optional) - Array of file uploads with base64 data'
+            licenseTerms: 'object (optional) - License terms to attach; switches to mintAndRegisterIpAndAttachPILTerms',
+            files: 'array (optional) - Array of file uploads with base64 data, or { uploadId } of a completed /api/uploads upload; multipart requests send them as binary files parts',
+            spgNftContract: 'string (optional) - SPG NFT collection to mint into (defaults to the shared network collection)'
+        },
+        multipart: 'Send multipart/form-data with the JSON body in a payload part and each file as a binary part named files',
+        queryParameters: {
+            skipSimulation: 'flag (optional) - Skip the pre-flight eth_call simulation, e.g. for CI dry runs'
         },
         response: {
             success: 'boolean - Whether the operation succeeded',
             transaction: 'object - Transaction data for signing (to, data, value, gasEstimate)',
             metadata: 'object - IPFS hashes and content hashes',
-            uploadedFiles: 'array - Information about uploaded files',
+            uploadedFiles: 'array - Information about uploaded files; deduplicated is true when an earlier upload was reused',
+            additionalData: 'object - licenseTermsIds that will be reused or created, with a reused flag per terms',
             error: 'object - Error information if success is false'
         },
         example: {
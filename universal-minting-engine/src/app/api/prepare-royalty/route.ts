@@ -2,10 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getStoryClient } from '@/lib/story-client';
 import { validateRequest, prepareRoyaltyRequestSchema } from '@/lib/validation';
 import { buildRoyaltyTransaction, prepareRoyaltyParams } from '@/lib/transaction-builders';
+import { isSimulationSkipped, simulateTransactionSteps } from '@/lib/simulation';
+import { addTransactionParams } from '@/lib/fees';
+import { createPublicClient } from '@/lib/config';
 import {
     handleValidationError,
     handleStoryClientError,
     handleTransactionError,
+    handleSimulationError,
     handleInternalError,
     createSuccessResponse,
     logError,
@@ -139,30 +143,50 @@ async function handlePOST(request: NextRequest) {
             return handleInternalError(error, '/api/prepare-royalty', { operation: 'prepare royalty parameters' });
         }
 
-        // Build transaction for royalty operation
-        let transactionData;
+        // Build the ordered transactions for the royalty operation
+        let royaltyTransactions;
         try {
-            transactionData = await buildRoyaltyTransaction(requestData);
+            royaltyTransactions = await buildRoyaltyTransaction(requestData);
         } catch (error) {
             return handleTransactionError(error, '/api/prepare-royalty', 'build royalty transaction');
         }
 
+        const { transactions: builtTransactions, royaltyVault } = royaltyTransactions;
+
+        // Suggest the chain ID, nonce and EIP-1559 fees to sign with
+        const publicClient = createPublicClient();
+        const transactions = await addTransactionParams(publicClient, requestData.userAddress, builtTransactions);
+        // The royalty call itself is always the last step
+        const transactionData = transactions[transactions.length - 1];
+
+        // Simulate from the user's address so a certain revert fails here, not in the wallet
+        let simulation;
+        try {
+            simulation = await simulateTransactionSteps(publicClient, requestData.userAddress, transactions, {
+                skip: isSimulationSkipped(request.nextUrl.searchParams)
+            });
+        } catch (error) {
+            return handleSimulationError(error, '/api/prepare-royalty');
+        }
+
         // Calculate operation-specific data and fees
         let additionalData: Record<string, any> = {
             operation: requestData.operation,
             ipId: requestData.ipId,
+            previews: transactions.map(tx => tx.preview),
+            simulation,
         };
 
-        switch (requestData.operation) {
+        switch (storyParams.operation) {
             case 'pay':
                 additionalData = {
                     ...additionalData,
                     paymentAmount: requestData.amount,
                     paymentToken: requestData.token,
+                    payerIpId: storyParams.payerIpId,
+                    requiresApproval: transactions.length > 1,
                     estimatedGasFee: transactionData.gasEstimate,
                 };
-                // Set transaction value for payment operations
-                transactionData.value = requestData.amount!;
                 console.log(`Payment transaction prepared: ${requestData.amount} of ${requestData.token}`);
                 break;
 
@@ -171,6 +195,8 @@ async function handlePOST(request: NextRequest) {
                     ...additionalData,
                     currencyTokens: requestData.currencyTokens,
                     tokenCount: requestData.currencyTokens!.length,
+                    claimer: storyParams.claimer,
+                    childIpIds: storyParams.childIpIds,
                 };
                 console.log(`Claim transaction prepared for ${requestData.currencyTokens!.length} tokens`);
                 break;
@@ -180,6 +206,7 @@ async function handlePOST(request: NextRequest) {
                     ...additionalData,
                     transferAmount: requestData.amount,
                     recipient: requestData.recipient,
+                    royaltyVault,
                 };
                 console.log(`Transfer transaction prepared: ${requestData.amount} to ${requestData.recipient}`);
                 break;
@@ -196,7 +223,8 @@ async function handlePOST(request: NextRequest) {
                 nftHash: ''
             }, // No metadata for royalty operations
             [], // No uploaded files
-            additionalData
+            additionalData,
+            transactions
         );
 
     } catch (error) {
@@ -224,11 +252,15 @@ async function handleGET() {
             amount: 'string (conditional) - Amount for pay/transfer operations (in wei)',
             token: 'string (conditional) - Token address for payment operations',
             recipient: 'string (conditional) - Recipient address for transfer operations',
-            currencyTokens: 'array (conditional) - Array of currency token addresses for claim operations'
+            currencyTokens: 'array (conditional) - Array of currency token addresses for claim operations',
+            payerIpId: 'string (optional) - IP paying the royalty on behalf of, for pay operations (defaults to an external payer)',
+            claimer: 'string (optional) - Royalty token holder claiming revenue (defaults to the IP account)',
+            childIpIds: 'array (optional) - Descendant IP IDs whose revenue is collected before claiming',
+            royaltyPolicies: 'array (optional) - Royalty policy per child IP ID (defaults to LAP)'
         },
         operations: {
             pay: {
-                description: 'Pay royalties to an IP asset',
+                description: 'Pay royalties to an IP asset through RoyaltyModule.payRoyaltyOnBehalf, preceded by a token approval when needed',
                 requiredFields: ['userAddress', 'ipId', 'amount', 'token'],
                 example: {
                     userAddress: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
@@ -239,7 +271,7 @@ async function handleGET() {
                 }
             },
             claim: {
-                description: 'Claim revenue from an IP asset',
+                description: 'Claim revenue from an IP asset and its descendants through RoyaltyWorkflows.claimAllRevenue',
                 requiredFields: ['userAddress', 'ipId', 'currencyTokens'],
                 example: {
                     userAddress: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
@@ -249,7 +281,7 @@ async function handleGET() {
                 }
             },
             transfer: {
-                description: 'Transfer funds from IP account to wallet',
+                description: 'Transfer royalty tokens from the IP account to a wallet through the IP account execute()',
                 requiredFields: ['userAddress', 'ipId', 'amount', 'recipient'],
                 example: {
                     userAddress: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
@@ -260,10 +292,14 @@ async function handleGET() {
                 }
             }
         },
+        queryParameters: {
+            skipSimulation: 'flag (optional) - Skip the pre-flight eth_call simulation, e.g. for CI dry runs'
+        },
         response: {
             success: 'boolean - Whether the operation succeeded',
             transaction: 'object - Transaction data for signing (to, data, value, gasEstimate)',
-            additionalData: 'object - Operation-specific information (amounts, tokens, recipients)',
+            transactions: 'array - Ordered transactions to sign when an approval is required first, each with a decoded preview',
+            additionalData: 'object - Operation-specific information (amounts, tokens, recipients, previews)',
             error: 'object - Error information if success is false'
         },
         requirements: [
@@ -278,7 +314,8 @@ async function handleGET() {
             'Token addresses must be valid Ethereum addresses',
             'IP ownership validation is performed before transaction preparation',
             'Different operations require different sets of parameters',
-            'Transaction value is automatically set for payment operations'
+            'Payments are made in ERC-20 tokens (e.g. WIP), so transaction value is always 0',
+            'Transfers must be signed by the owner of the IP account'
         ]
     });
 }
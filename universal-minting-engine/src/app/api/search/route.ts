@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startAssetIndexer } from '@/lib/asset-indexer';
+import { decodeSearchCursor, searchAssets, startSearchIndexer } from '@/lib/asset-search';
+import { validateRequest, searchQuerySchema } from '@/lib/validation';
+import { handleValidationError, handleInternalError } from '@/lib/error-handler';
+import { withSecurityAndRateLimit } from '@/lib/security';
+
+/**
+ * GET /api/search?q=&tag=&ipType=&mediaType=&creator=&appId=&attribute=key:value&limit=&cursor=
+ *
+ * IP assets whose IP metadata matches every filter given, from the search index kept next to
+ * the asset index (see src/lib/asset-search.ts), newest registration first. q matches words of
+ * the title, description and tags; attribute can be repeated. Facets count the ipType, mediaType,
+ * tags, creators and app.id values among all matches; pass nextCursor back as cursor for the next page.
+ */
+async function handleGET(request: NextRequest) {
+    try {
+        const { searchParams } = request.nextUrl;
+        const attributes = searchParams.getAll('attribute');
+        const validation = validateRequest(searchQuerySchema, {
+            ...Object.fromEntries(searchParams.entries()),
+            attribute: attributes.length > 0 ? attributes : undefined
+        });
+
+        if (!validation.success) {
+            return handleValidationError(validation.error, '/api/search');
+        }
+
+        const { limit = '20', cursor, attribute = [], ...filters } = validation.data;
+        const position = cursor ? decodeSearchCursor(cursor) : undefined;
+        if (position === null) {
+            return handleValidationError('cursor: Invalid cursor; pass the nextCursor of a previous page', '/api/search');
+        }
+
+        startAssetIndexer();
+        startSearchIndexer();
+        const { results, total, facets, nextCursor, indexedBlock, pendingDocuments } = searchAssets(
+            {
+                ...filters,
+                attributes: attribute.map(entry => {
+                    const separator = entry.indexOf(':');
+                    return { key: entry.slice(0, separator), value: entry.slice(separator + 1) };
+                })
+            },
+            { limit: parseInt(limit), cursor: position }
+        );
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                results,
+                facets,
+                pagination: { limit: parseInt(limit), total, nextCursor },
+                metadata: { indexedBlock, pendingDocuments }
+            }
+        });
+
+    } catch (error) {
+        return handleInternalError(error, '/api/search');
+    }
+}
+
+// Apply security and rate limiting middleware
+export const GET = withSecurityAndRateLimit(handleGET);
+
+// Handle CORS preflight requests
+export const OPTIONS = withSecurityAndRateLimit(async () => {
+    return new NextResponse(null, { status: 200 });
+});
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { putChunk } from '@/lib/chunked-upload';
+import { validateRequest, chunkSha256Schema } from '@/lib/validation';
+import { handleValidationError, handleChunkedUploadError, handleInternalError } from '@/lib/error-handler';
+import { withSecurityAndRateLimit } from '@/lib/security';
+
+/**
+ * PUT /api/uploads/{uploadId}/chunks/{index}
+ *
+ * Stages one chunk of a chunked upload. The body is the raw chunk bytes and the
+ * X-Chunk-SHA256 header its hex SHA-256; a chunk that does not match is rejected.
+ * Sending a chunk again replaces it, so retries after a dropped connection are safe.
+ */
+async function handlePUT(request: NextRequest, { params }: { params: Promise<{ uploadId: string; index: string }> }) {
+    try {
+        const { uploadId, index } = await params;
+
+        const hashValidation = validateRequest(chunkSha256Schema, request.headers.get('x-chunk-sha256'));
+        if (!hashValidation.success) {
+            return handleValidationError(`X-Chunk-SHA256 header: ${hashValidation.error}`, '/api/uploads/{uploadId}/chunks/{index}');
+        }
+        if (!/^\d+$/.test(index)) {
+            return handleValidationError(`Invalid chunk index: ${index}`, '/api/uploads/{uploadId}/chunks/{index}');
+        }
+
+        const data = Buffer.from(await request.arrayBuffer());
+
+        try {
+            const status = await putChunk(uploadId, Number(index), data, hashValidation.data);
+            return NextResponse.json({
+                success: true,
+                data: {
+                    uploadId,
+                    index: Number(index),
+                    sha256: hashValidation.data.toLowerCase(),
+                    receivedChunks: status.receivedChunks.length,
+                    missingChunks: status.missingChunks
+                }
+            });
+        } catch (error) {
+            return handleChunkedUploadError(error, '/api/uploads/{uploadId}/chunks/{index}');
+        }
+
+    } catch (error) {
+        return handleInternalError(error, '/api/uploads/{uploadId}/chunks/{index}');
+    }
+}
+
+// Apply security and rate limiting middleware
+export const PUT = withSecurityAndRateLimit(handlePUT);
+
+// Handle CORS preflight requests
+export const OPTIONS = withSecurityAndRateLimit(async () => {
+    return new NextResponse(null, { status: 200 });
+});
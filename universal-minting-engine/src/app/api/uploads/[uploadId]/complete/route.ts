@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { completeUpload } from '@/lib/chunked-upload';
+import { handleChunkedUploadError, handleInternalError, logSuccess } from '@/lib/error-handler';
+import { withPinContext } from '@/lib/pins';
+import { withSecurityAndRateLimit } from '@/lib/security';
+
+/**
+ * POST /api/uploads/{uploadId}/complete
+ *
+ * Assembles the staged chunks and streams the file to the storage provider, returning
+ * the uploaded file. Fails with UPLOAD_INCOMPLETE, listing the missing chunks, until
+ * every chunk has arrived. Completing twice returns the same file.
+ */
+async function handlePOST(request: NextRequest, { params }: { params: Promise<{ uploadId: string }> }) {
+    try {
+        const { uploadId } = await params;
+
+        let uploadedFile;
+        try {
+            uploadedFile = await completeUpload(uploadId);
+        } catch (error) {
+            return handleChunkedUploadError(error, '/api/uploads/{uploadId}/complete');
+        }
+
+        logSuccess('/api/uploads/{uploadId}/complete', 'chunked upload completed', {
+            uploadId,
+            ipfsHash: uploadedFile.ipfsHash
+        });
+
+        return NextResponse.json({ success: true, data: { uploadId, uploadedFile } });
+
+    } catch (error) {
+        return handleInternalError(error, '/api/uploads/{uploadId}/complete');
+    }
+}
+
+// Apply security and rate limiting middleware
+export const POST = withSecurityAndRateLimit(withPinContext(handlePOST));
+
+// Handle CORS preflight requests
+export const OPTIONS = withSecurityAndRateLimit(async () => {
+    return new NextResponse(null, { status: 200 });
+});
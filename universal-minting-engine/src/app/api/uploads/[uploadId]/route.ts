@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUploadStatus } from '@/lib/chunked-upload';
+import { handleChunkedUploadError, handleInternalError } from '@/lib/error-handler';
+import { withSecurityAndRateLimit } from '@/lib/security';
+
+/**
+ * GET /api/uploads/{uploadId}
+ *
+ * Reports which chunks of an upload have arrived (with their SHA-256) and which are
+ * still missing, so a client can resume an interrupted upload
+ */
+async function handleGET(request: NextRequest, { params }: { params: Promise<{ uploadId: string }> }) {
+    try {
+        const { uploadId } = await params;
+
+        try {
+            return NextResponse.json({ success: true, data: await getUploadStatus(uploadId) });
+        } catch (error) {
+            return handleChunkedUploadError(error, '/api/uploads/{uploadId}');
+        }
+
+    } catch (error) {
+        return handleInternalError(error, '/api/uploads/{uploadId}');
+    }
+}
+
+// Apply security and rate limiting middleware
+export const GET = withSecurityAndRateLimit(handleGET);
+
+// Handle CORS preflight requests
+export const OPTIONS = withSecurityAndRateLimit(async () => {
+    return new NextResponse(null, { status: 200 });
+});
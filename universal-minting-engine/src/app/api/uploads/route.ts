@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initUpload } from '@/lib/chunked-upload';
+import { validateRequest, initUploadRequestSchema } from '@/lib/validation';
+import { handleValidationError, handleChunkedUploadError, handleInternalError, logSuccess } from '@/lib/error-handler';
+import { withSecurityAndRateLimit, sanitizeRequestBody } from '@/lib/security';
+
+/**
+ * POST /api/uploads
+ *
+ * Starts a resumable chunked upload for files too large to send inline as base64.
+ * The client then PUTs each chunk to /api/uploads/{uploadId}/chunks/{index} with its
+ * SHA-256, and POSTs /api/uploads/{uploadId}/complete once every chunk has arrived.
+ */
+async function handlePOST(request: NextRequest) {
+    try {
+        const body = await sanitizeRequestBody(request);
+        const validation = validateRequest(initUploadRequestSchema, body);
+
+        if (!validation.success) {
+            return handleValidationError(validation.error, '/api/uploads');
+        }
+
+        let session;
+        try {
+            session = await initUpload(validation.data);
+        } catch (error) {
+            return handleChunkedUploadError(error, '/api/uploads');
+        }
+
+        logSuccess('/api/uploads', 'chunked upload started', {
+            uploadId: session.uploadId,
+            totalSize: session.totalSize,
+            totalChunks: session.totalChunks
+        });
+
+        return NextResponse.json({ success: true, data: session });
+
+    } catch (error) {
+        return handleInternalError(error, '/api/uploads');
+    }
+}
+
+// Apply security and rate limiting middleware
+export const POST = withSecurityAndRateLimit(handlePOST);
+
+/**
+ * GET /api/uploads
+ *
+ * Returns API documentation and usage information
+ */
+async function handleGET() {
+    return NextResponse.json({
+        endpoint: '/api/uploads',
+        method: 'POST',
+        description: 'Starts a resumable chunked upload; the completed upload is referenced from prepare-mint by its uploadId',
+        parameters: {
+            filename: 'string (required) - Original filename',
+            contentType: 'string (required) - MIME type of the file',
+            totalSize: 'number (required) - File size in bytes, within the limit of its file category',
+            purpose: 'string (optional) - media, metadata, evidence or attachment (default: media)'
+        },
+        protocol: {
+            init: 'POST /api/uploads - returns uploadId, chunkSize and totalChunks',
+            chunk: 'PUT /api/uploads/{uploadId}/chunks/{index} - raw chunk bytes with an X-Chunk-SHA256 header (hex)',
+            status: 'GET /api/uploads/{uploadId} - receivedChunks and missingChunks, to resume after a dropped connection',
+            complete: 'POST /api/uploads/{uploadId}/complete - streams the file to storage and returns the uploaded file'
+        },
+        usage: 'Pass { "uploadId": "..." } in the files array of /api/prepare-mint or /api/prepare-batch-mint instead of inline base64',
+        example: {
+            filename: 'film.mp4',
+            contentType: 'video/mp4',
+            totalSize: 94371840,
+            purpose: 'media'
+        }
+    });
+}
+
+// Apply security middleware to GET endpoint
+export const GET = withSecurityAndRateLimit(handleGET);
+
+// Handle CORS preflight requests
+export const OPTIONS = withSecurityAndRateLimit(async () => {
+    return new NextResponse(null, { status: 200 });
+});
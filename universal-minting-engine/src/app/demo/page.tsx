@@ -17,11 +17,21 @@ interface TransactionData {
     data: string;
     value: string;
     gasEstimate?: string;
+    chainId?: number;
+    nonce?: number;
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
 }
 
+// Hex-encode an optional numeric transaction field for eth_sendTransaction
+const toRpcQuantity = (value?: string | number) =>
+    value === undefined ? undefined : `0x${BigInt(value).toString(16)}`;
+
 interface APIResponse {
     success: boolean;
     transaction?: TransactionData;
+    // Every step in order, e.g. an approval before the call, when there is more than one
+    transactions?: TransactionData[];
     metadata?: {
         ipfsHash: string;
         ipHash: string;
@@ -118,26 +128,6 @@ export default function DemoPage() {
         setUploadedFiles(files);
     }, []);
 
-    const convertFilesToBase64 = async (files: File[]) => {
-        const filePromises = files.map(async (file) => {
-            return new Promise<{ data: string, filename: string, contentType: string, purpose: string }>((resolve) => {
-                const reader = new FileReader();
-                reader.onload = () => {
-                    const base64 = (reader.result as string).split(',')[1];
-                    resolve({
-                        data: base64,
-                        filename: file.name,
-                        contentType: file.type,
-                        purpose: 'media'
-                    });
-                };
-                reader.readAsDataURL(file);
-            });
-        });
-
-        return Promise.all(filePromises);
-    };
-
     const executeTransaction = async (transactionData: TransactionData) => {
         console.log('executeTransaction called with:', {
             walletClient: !!walletClient,
@@ -174,6 +164,10 @@ export default function DemoPage() {
                             to: transactionData.to,
                             data: transactionData.data,
                             value: `0x${BigInt(transactionData.value).toString(16)}`,
+                            chainId: toRpcQuantity(transactionData.chainId),
+                            nonce: toRpcQuantity(transactionData.nonce),
+                            maxFeePerGas: toRpcQuantity(transactionData.maxFeePerGas),
+                            maxPriorityFeePerGas: toRpcQuantity(transactionData.maxPriorityFeePerGas),
                         }],
                     });
                     setTxHash(hash);
@@ -193,6 +187,12 @@ export default function DemoPage() {
                 value: BigInt(transactionData.value),
                 account: address,
                 chain: storyChain,
+                // Nonce and EIP-1559 fees suggested by the API; the wallet fills in any left out
+                ...(transactionData.nonce !== undefined && { nonce: transactionData.nonce }),
+                ...(transactionData.maxFeePerGas && transactionData.maxPriorityFeePerGas && {
+                    maxFeePerGas: BigInt(transactionData.maxFeePerGas),
+                    maxPriorityFeePerGas: BigInt(transactionData.maxPriorityFeePerGas),
+                }),
             });
 
             setTxHash(hash);
@@ -203,6 +203,24 @@ export default function DemoPage() {
         }
     };
 
+    // Send each step in order, waiting for it to be mined before the next: the steps carry
+    // consecutive nonces, and later steps rely on the allowance or balance earlier ones set
+    const executeTransactions = async (responseData: APIResponse) => {
+        const steps = responseData.transactions?.length ? responseData.transactions : [responseData.transaction!];
+        for (const [index, step] of steps.entries()) {
+            const hash = await executeTransaction(step);
+            if (index < steps.length - 1) {
+                if (!publicClient) {
+                    throw new Error('Network client not available to wait for the transaction');
+                }
+                const receipt = await publicClient.waitForTransactionReceipt({ hash });
+                if (receipt.status !== 'success') {
+                    throw new Error(`Transaction ${index + 1} of ${steps.length} reverted: ${hash}`);
+                }
+            }
+        }
+    };
+
     const handleIPRegistration = async (formData: any) => {
         if (!useDirectKeys && (!isConnected || !address)) {
             alert('Please connect your wallet first');
@@ -224,9 +242,6 @@ export default function DemoPage() {
         setTxHash(null);
 
         try {
-            // Convert uploaded files to base64 (only if files are uploaded)
-            const files = uploadedFiles.length > 0 ? await convertFilesToBase64(uploadedFiles) : [];
-
             const payload = {
                 userAddress: useDirectKeys ? formData.userAddress : address,
                 ipMetadata: {
@@ -252,16 +267,17 @@ export default function DemoPage() {
                     attributes: formData.attributes || []
                 },
                 // Only include license terms if they're enabled and have a valid URI
-                ...(formData.enableLicenseTerms && formData.licenseTerms && formData.licenseTerms.uri && { licenseTerms: formData.licenseTerms }),
-                ...(files.length > 0 && { files })
+                ...(formData.enableLicenseTerms && formData.licenseTerms && formData.licenseTerms.uri && { licenseTerms: formData.licenseTerms })
             };
 
+            // Send the payload as JSON alongside the raw files, without base64-encoding them
+            const body = new FormData();
+            body.append('payload', JSON.stringify(payload));
+            uploadedFiles.forEach(file => body.append('files', file));
+
             const response = await fetch('/api/prepare-mint', {
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(payload)
+                body
             });
 
             const data: APIResponse = await response.json();
@@ -278,7 +294,7 @@ export default function DemoPage() {
                         address,
                         walletClient: !!walletClient
                     });
-                    await executeTransaction(data.transaction);
+                    await executeTransactions(data);
                 }
             }
         } catch (error) {
@@ -334,7 +350,7 @@ export default function DemoPage() {
                 if (useDirectKeys && privateKey) {
                     alert('Direct key signing not implemented in this demo. Use wallet connection instead.');
                 } else {
-                    await executeTransaction(responseData.transaction);
+                    await executeTransactions(responseData);
                 }
             }
         } catch (error) {
@@ -45,7 +45,7 @@ export function AdvancedSettings({ onOperation, isLoading, useDirectKeys }: Adva
         // Dispute fields
         targetIpId: '',
         evidence: '',
-        targetTag: 'PLAGIARISM',
+        targetTag: 'IMPROPER_REGISTRATION',
         bond: '1000000000000000000',
         liveness: 86400
     });
@@ -594,10 +594,10 @@ export function AdvancedSettings({ onOperation, isLoading, useDirectKeys }: Adva
                             onChange={(e) => handleInputChange('targetTag', e.target.value)}
                             className={inputClassName}
                         >
-                            <option value="PLAGIARISM">Plagiarism</option>
-                            <option value="COPYRIGHT_INFRINGEMENT">Copyright Infringement</option>
-                            <option value="TRADEMARK_VIOLATION">Trademark Violation</option>
-                            <option value="INAPPROPRIATE_CONTENT">Inappropriate Content</option>
+                            <option value="IMPROPER_REGISTRATION">Improper Registration</option>
+                            <option value="IMPROPER_USAGE">Improper Usage</option>
+                            <option value="IMPROPER_PAYMENT">Improper Payment</option>
+                            <option value="CONTENT_STANDARDS_VIOLATION">Content Standards Violation</option>
                         </select>
                     </div>
 
@@ -38,8 +38,9 @@ export function TransactionResult({ result, txHash }: TransactionResultProps) {
         return null;
     };
 
-    const getIPFSUrl = (hash: string) => {
-        return `https://gateway.pinata.cloud/ipfs/${hash}`;
+    // Prefer the gateway URL the API resolved (on-chain URIs may be ipfs://), falling back to the public Pinata gateway
+    const getIPFSUrl = (hash: string, gatewayUrl?: string) => {
+        return gatewayUrl || `https://gateway.pinata.cloud/ipfs/${hash}`;
     };
 
     const copyToClipboard = (text: string) => {
@@ -191,7 +192,7 @@ export function TransactionResult({ result, txHash }: TransactionResultProps) {
                                         📋
                                     </button>
                                     <a
-                                        href={getIPFSUrl(result.metadata.ipfsHash)}
+                                        href={getIPFSUrl(result.metadata.ipfsHash, result.metadata.ipMetadataUrl)}
                                         target="_blank"
                                         rel="noopener noreferrer"
                                         className="p-1 hover:opacity-80"
@@ -217,7 +218,7 @@ export function TransactionResult({ result, txHash }: TransactionResultProps) {
                                         📋
                                     </button>
                                     <a
-                                        href={getIPFSUrl(result.metadata.nftIpfsHash)}
+                                        href={getIPFSUrl(result.metadata.nftIpfsHash, result.metadata.nftMetadataUrl)}
                                         target="_blank"
                                         rel="noopener noreferrer"
                                         className="p-1 hover:opacity-80"
@@ -314,6 +315,18 @@ export function TransactionResult({ result, txHash }: TransactionResultProps) {
                                         <span>🎯 View Your IP Asset</span>
                                     </a>
 
+                                    {getIpAssetId() && (
+                                        <a
+                                            href={`/api/ip/${getIpAssetId()}`}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="btn flex items-center justify-center space-x-2 text-white px-4 py-2 rounded-lg font-medium text-sm"
+                                            style={{ backgroundColor: 'var(--accent-purple)' }}
+                                        >
+                                            <span>IP Asset Details (API)</span>
+                                        </a>
+                                    )}
+
                                     <a
                                         href={getStoryExplorerUrl(txHash)}
                                         target="_blank"
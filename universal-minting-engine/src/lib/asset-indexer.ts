@@ -0,0 +1,506 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { Address, erc721Abi, getAddress, Hex, PublicClient, zeroHash } from 'viem';
+import { createPublicClient, getIndexerConfig, getNetworkConfig } from '@/lib/config';
+import { coreMetadataModuleAbi, ipAssetRegistryAbi, licensingModuleAbi } from '@/lib/story-abis';
+import { getStoryContracts, getStoryDeploymentBlock } from '@/lib/story-contracts';
+
+/**
+ * An IP asset registered with the IPAssetRegistry, with the current owner of its NFT
+ */
+export interface IndexedIpAsset {
+    ipId: Address;
+    owner: Address | null;
+    chainId: string;
+    nftContract: Address;
+    tokenId: string;
+    name: string;
+    // Token URI of the NFT at registration
+    metadataURI: string;
+    blockNumber: number;
+    blockTimestamp: number;
+}
+
+/**
+ * A derivative registered with the LicensingModule: the child IP under the parent's license terms
+ */
+export interface DerivativeLink {
+    parentIpId: Address;
+    childIpId: Address;
+    licenseTermsId: string;
+    licenseTemplate: Address;
+    blockNumber: number;
+}
+
+/**
+ * A metadata URI and hash set on an IP asset by the CoreMetadataModule
+ */
+export interface IndexedMetadata {
+    uri: string;
+    hash: Hex;
+    blockNumber: number;
+}
+
+/**
+ * The latest IP and NFT metadata set on an IP asset, null until one is set
+ */
+export interface IndexedIpMetadata {
+    ip: IndexedMetadata | null;
+    nft: IndexedMetadata | null;
+}
+
+/**
+ * How far the index got: the last block indexed and the chain head the latest sync indexes up to.
+ * It is syncing while behind that head, and before its first sync.
+ */
+export interface IndexerStatus {
+    indexedBlock: string | null;
+    headBlock: string | null;
+    syncing: boolean;
+}
+
+export interface IndexerSyncResult {
+    fromBlock: string;
+    toBlock: string;
+    ipAssetsIndexed: number;
+    transfersIndexed: number;
+    derivativesIndexed: number;
+    metadataIndexed: number;
+}
+
+interface IpAssetRow {
+    ip_id: string;
+    chain_id: string;
+    token_contract: string;
+    token_id: string;
+    name: string;
+    metadata_uri: string;
+    registration_date: number;
+    block_number: number;
+    owner: string | null;
+}
+
+// A token's owner as of a log, or as read with ownerOf
+interface OwnerUpdate {
+    tokenContract: string;
+    tokenId: string;
+    owner: string;
+    blockNumber: number;
+    logIndex: number;
+}
+
+interface DerivativeRow {
+    parent_ip_id: string;
+    child_ip_id: string;
+    license_terms_id: string;
+    license_template: string;
+    block_number: number;
+}
+
+interface MetadataRow {
+    kind: 'ip' | 'nft';
+    uri: string;
+    hash: string;
+    block_number: number;
+}
+
+// Raised when a table is added; an older database is indexed again from the start block, so the new
+// table gets the history the checkpoint has already passed
+const SCHEMA_VERSION = '3';
+
+// An owner read with ownerOf at the end of a block ranks after every Transfer logged in it
+const END_OF_BLOCK = Number.MAX_SAFE_INTEGER;
+
+// Token contracts per Transfer log query; RPC providers cap the addresses of one eth_getLogs filter
+const TRANSFER_ADDRESS_BATCH = 100;
+
+// Addresses are stored lowercased, so owners can be matched whatever their checksum casing
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS ip_assets (
+        ip_id TEXT PRIMARY KEY,
+        chain_id TEXT NOT NULL,
+        token_contract TEXT NOT NULL,
+        token_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        metadata_uri TEXT NOT NULL,
+        registration_date INTEGER NOT NULL,
+        block_number INTEGER NOT NULL,
+        log_index INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS ip_assets_token ON ip_assets (token_contract, token_id);
+
+    CREATE TABLE IF NOT EXISTS token_owners (
+        token_contract TEXT NOT NULL,
+        token_id TEXT NOT NULL,
+        owner TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        PRIMARY KEY (token_contract, token_id)
+    );
+    CREATE INDEX IF NOT EXISTS token_owners_owner ON token_owners (owner);
+
+    CREATE TABLE IF NOT EXISTS derivatives (
+        child_ip_id TEXT NOT NULL,
+        parent_ip_id TEXT NOT NULL,
+        license_terms_id TEXT NOT NULL,
+        license_template TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        PRIMARY KEY (child_ip_id, parent_ip_id)
+    );
+    CREATE INDEX IF NOT EXISTS derivatives_parent ON derivatives (parent_ip_id);
+
+    CREATE TABLE IF NOT EXISTS ip_metadata (
+        ip_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        uri TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        PRIMARY KEY (ip_id, kind)
+    );
+
+    CREATE TABLE IF NOT EXISTS indexer_state (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+    );
+`;
+
+// Open databases by path, so tests and configuration changes get their own
+const databases = new Map<string, Database.Database>();
+
+/**
+ * The index database of the configured network, for modules that keep tables derived from it
+ */
+export function getDatabase(): Database.Database {
+    const { databasePath } = getIndexerConfig();
+    let database = databases.get(databasePath);
+    if (!database) {
+        mkdirSync(path.dirname(databasePath), { recursive: true });
+        database = new Database(databasePath);
+        database.pragma('journal_mode = WAL');
+        database.exec(SCHEMA);
+        migrate(database);
+        databases.set(databasePath, database);
+    }
+    return database;
+}
+
+function migrate(database: Database.Database): void {
+    const version = database.prepare('SELECT value FROM indexer_state WHERE key = ?').get('schemaVersion') as { value: string } | undefined;
+    if (version?.value !== SCHEMA_VERSION) {
+        database.transaction(() => {
+            database.prepare('DELETE FROM indexer_state WHERE key = ?').run('indexedBlock');
+            database.prepare(`INSERT INTO indexer_state (key, value) VALUES ('schemaVersion', ?)
+                ON CONFLICT (key) DO UPDATE SET value = excluded.value`).run(SCHEMA_VERSION);
+        })();
+    }
+}
+
+/**
+ * Last block whose logs are in the index, or null before the first sync
+ */
+export function getIndexedBlock(): string | null {
+    const row = getDatabase().prepare('SELECT value FROM indexer_state WHERE key = ?').get('indexedBlock') as { value: string } | undefined;
+    return row?.value ?? null;
+}
+
+export function getIndexerStatus(): IndexerStatus {
+    const indexedBlock = getIndexedBlock();
+    const row = getDatabase().prepare('SELECT value FROM indexer_state WHERE key = ?').get('headBlock') as { value: string } | undefined;
+    const headBlock = row?.value ?? null;
+    return {
+        indexedBlock,
+        headBlock,
+        syncing: indexedBlock === null || headBlock === null || BigInt(indexedBlock) < BigInt(headBlock)
+    };
+}
+
+/**
+ * IP assets of this chain whose NFT the address owns, most recently registered first (a page of
+ * them, or all without one), and how many there are. Assets registered from another chain are left
+ * out: their token ID may match a token of the same contract address here.
+ */
+export function getAssetsByOwner(owner: string, page?: { limit: number; offset: number }): { assets: IndexedIpAsset[]; total: number } {
+    const database = getDatabase();
+    const chainId = BigInt(getNetworkConfig().chain.id).toString();
+    const from = `
+        FROM ip_assets a
+        JOIN token_owners o ON o.token_contract = a.token_contract AND o.token_id = a.token_id
+        WHERE o.owner = ? AND a.chain_id = ?`;
+
+    const { total } = database.prepare(`SELECT COUNT(*) AS total ${from}`).get(owner.toLowerCase(), chainId) as { total: number };
+    const rows = database.prepare(`SELECT a.*, o.owner ${from} ORDER BY a.block_number DESC, a.log_index DESC LIMIT ? OFFSET ?`)
+        .all(owner.toLowerCase(), chainId, page?.limit ?? -1, page?.offset ?? 0) as IpAssetRow[];
+
+    return { assets: rows.map(toIndexedIpAsset), total };
+}
+
+/**
+ * The indexed IP assets among the IDs, with the owner of their NFT when it is known
+ */
+export function getIndexedAssets(ipIds: string[]): IndexedIpAsset[] {
+    if (ipIds.length === 0) {
+        return [];
+    }
+    const rows = getDatabase().prepare(`
+        SELECT a.*, o.owner
+        FROM ip_assets a
+        LEFT JOIN token_owners o ON o.token_contract = a.token_contract AND o.token_id = a.token_id
+        WHERE a.ip_id IN (${ipIds.map(() => '?').join(', ')})`).all(...ipIds.map(ipId => ipId.toLowerCase())) as IpAssetRow[];
+    return rows.map(toIndexedIpAsset);
+}
+
+/**
+ * Derivative links of the IP assets: to their parents, or to their children
+ */
+export function getDerivativeLinks(ipIds: string[], direction: 'parents' | 'children'): DerivativeLink[] {
+    if (ipIds.length === 0) {
+        return [];
+    }
+    const column = direction === 'parents' ? 'child_ip_id' : 'parent_ip_id';
+    const rows = getDatabase().prepare(`
+        SELECT * FROM derivatives
+        WHERE ${column} IN (${ipIds.map(() => '?').join(', ')})
+        ORDER BY block_number, log_index`).all(...ipIds.map(ipId => ipId.toLowerCase())) as DerivativeRow[];
+
+    return rows.map(row => ({
+        parentIpId: getAddress(row.parent_ip_id),
+        childIpId: getAddress(row.child_ip_id),
+        licenseTermsId: row.license_terms_id,
+        licenseTemplate: getAddress(row.license_template),
+        blockNumber: row.block_number
+    }));
+}
+
+/**
+ * The IP and NFT metadata last set on the IP asset
+ */
+export function getIndexedMetadata(ipId: string): IndexedIpMetadata {
+    const rows = getDatabase().prepare('SELECT * FROM ip_metadata WHERE ip_id = ?').all(ipId.toLowerCase()) as MetadataRow[];
+    const find = (kind: MetadataRow['kind']): IndexedMetadata | null => {
+        const row = rows.find(candidate => candidate.kind === kind);
+        return row ? { uri: row.uri, hash: row.hash as Hex, blockNumber: row.block_number } : null;
+    };
+    return { ip: find('ip'), nft: find('nft') };
+}
+
+/**
+ * Index the IPRegistered logs of the IPAssetRegistry, the Transfer logs of the token contracts
+ * registered on this chain, the DerivativeRegistered logs of the LicensingModule and the
+ * MetadataURISet and NFTTokenURISet logs of the CoreMetadataModule, from the block after the
+ * checkpoint (on the first run INDEXER_START_BLOCK, or the block the IPAssetRegistry was deployed in) to the chain head, in ranges of INDEXER_BLOCK_RANGE blocks. Each range is written together
+ * with the checkpoint, so an interrupted sync resumes after the last complete range.
+ *
+ * A contract's transfers are followed from the first range it has a registration in, querying
+ * TRANSFER_ADDRESS_BATCH contracts at a time. Tokens minted before that have no Transfer in the
+ * index, so their owner is read with ownerOf.
+ */
+export async function syncAssetIndex(publicClient: PublicClient): Promise<IndexerSyncResult> {
+    const { startBlock, blockRange } = getIndexerConfig();
+    const database = getDatabase();
+    const chainId = BigInt(getNetworkConfig().chain.id).toString();
+    const indexedBlock = getIndexedBlock();
+    const fromBlock = indexedBlock !== null ? BigInt(indexedBlock) + BigInt(1) : startBlock ?? await getStoryDeploymentBlock(publicClient);
+    const toBlock = await publicClient.getBlockNumber();
+    database.prepare(`INSERT INTO indexer_state (key, value) VALUES ('headBlock', ?)
+        ON CONFLICT (key) DO UPDATE SET value = excluded.value`).run(toBlock.toString());
+
+    const insertAsset = database.prepare(`
+        INSERT OR IGNORE INTO ip_assets (ip_id, chain_id, token_contract, token_id, name, metadata_uri, registration_date, block_number, log_index)
+        VALUES (@ipId, @chainId, @tokenContract, @tokenId, @name, @metadataURI, @registrationDate, @blockNumber, @logIndex)`);
+    // Logs can be delivered again after a failed range; only a later transfer changes the owner
+    const setOwner = database.prepare(`
+        INSERT INTO token_owners (token_contract, token_id, owner, block_number, log_index)
+        VALUES (@tokenContract, @tokenId, @owner, @blockNumber, @logIndex)
+        ON CONFLICT (token_contract, token_id) DO UPDATE SET owner = excluded.owner, block_number = excluded.block_number, log_index = excluded.log_index
+        WHERE excluded.block_number > token_owners.block_number
+            OR (excluded.block_number = token_owners.block_number AND excluded.log_index > token_owners.log_index)`);
+    const insertDerivative = database.prepare(`
+        INSERT OR IGNORE INTO derivatives (child_ip_id, parent_ip_id, license_terms_id, license_template, block_number, log_index)
+        VALUES (@childIpId, @parentIpId, @licenseTermsId, @licenseTemplate, @blockNumber, @logIndex)`);
+    // Metadata can be set again after registration; the latest setting is kept
+    const setMetadata = database.prepare(`
+        INSERT INTO ip_metadata (ip_id, kind, uri, hash, block_number, log_index)
+        VALUES (@ipId, @kind, @uri, @hash, @blockNumber, @logIndex)
+        ON CONFLICT (ip_id, kind) DO UPDATE SET uri = excluded.uri, hash = excluded.hash, block_number = excluded.block_number, log_index = excluded.log_index
+        WHERE excluded.block_number > ip_metadata.block_number
+            OR (excluded.block_number = ip_metadata.block_number AND excluded.log_index > ip_metadata.log_index)`);
+    const hasOwner = database.prepare('SELECT 1 FROM token_owners WHERE token_contract = ? AND token_id = ?');
+    const setIndexedBlock = database.prepare(`INSERT INTO indexer_state (key, value) VALUES ('indexedBlock', ?)
+        ON CONFLICT (key) DO UPDATE SET value = excluded.value`);
+
+    let ipAssetsIndexed = 0;
+    let transfersIndexed = 0;
+    let derivativesIndexed = 0;
+    let metadataIndexed = 0;
+    for (let start = fromBlock; start <= toBlock; start += blockRange) {
+        const end = start + blockRange - BigInt(1) < toBlock ? start + blockRange - BigInt(1) : toBlock;
+
+        const registrations = (await publicClient.getContractEvents({
+            address: getStoryContracts().ipAssetRegistry,
+            abi: ipAssetRegistryAbi,
+            eventName: 'IPRegistered',
+            fromBlock: start,
+            toBlock: end
+        })).map(log => ({
+            ipId: log.args.ipId!.toLowerCase(),
+            chainId: log.args.chainId!.toString(),
+            tokenContract: log.args.tokenContract!.toLowerCase(),
+            tokenId: log.args.tokenId!.toString(),
+            name: log.args.name ?? '',
+            metadataURI: log.args.uri ?? '',
+            registrationDate: Number(log.args.registrationDate ?? 0),
+            blockNumber: Number(log.blockNumber),
+            logIndex: log.logIndex
+        }));
+        const localRegistrations = registrations.filter(registration => registration.chainId === chainId);
+
+        const knownContracts = (database.prepare('SELECT DISTINCT token_contract FROM ip_assets WHERE chain_id = ?').all(chainId) as Array<{ token_contract: string }>)
+            .map(row => row.token_contract);
+        const contracts = [...new Set([...knownContracts, ...localRegistrations.map(registration => registration.tokenContract)])];
+        const transfers: OwnerUpdate[] = [];
+        for (let batch = 0; batch < contracts.length; batch += TRANSFER_ADDRESS_BATCH) {
+            const logs = await publicClient.getContractEvents({
+                address: contracts.slice(batch, batch + TRANSFER_ADDRESS_BATCH) as Address[],
+                abi: erc721Abi,
+                eventName: 'Transfer',
+                fromBlock: start,
+                toBlock: end
+            });
+            transfers.push(...logs.map(log => ({
+                tokenContract: log.address.toLowerCase(),
+                tokenId: log.args.tokenId!.toString(),
+                owner: log.args.to!.toLowerCase(),
+                blockNumber: Number(log.blockNumber),
+                logIndex: log.logIndex
+            })));
+        }
+
+        // One log per child, listing each parent with the license terms it was derived under
+        const derivatives = (await publicClient.getContractEvents({
+            address: getStoryContracts().licensingModule,
+            abi: licensingModuleAbi,
+            eventName: 'DerivativeRegistered',
+            fromBlock: start,
+            toBlock: end
+        })).flatMap(log => (log.args.parentIpIds ?? []).map((parentIpId, index) => ({
+            childIpId: log.args.childIpId!.toLowerCase(),
+            parentIpId: parentIpId.toLowerCase(),
+            licenseTermsId: (log.args.licenseTermsIds?.[index] ?? BigInt(0)).toString(),
+            licenseTemplate: (log.args.licenseTemplate ?? '').toLowerCase(),
+            blockNumber: Number(log.blockNumber),
+            logIndex: log.logIndex
+        })));
+
+        const [ipMetadata, nftMetadata] = await Promise.all([
+            publicClient.getContractEvents({
+                address: getStoryContracts().coreMetadataModule,
+                abi: coreMetadataModuleAbi,
+                eventName: 'MetadataURISet',
+                fromBlock: start,
+                toBlock: end
+            }),
+            publicClient.getContractEvents({
+                address: getStoryContracts().coreMetadataModule,
+                abi: coreMetadataModuleAbi,
+                eventName: 'NFTTokenURISet',
+                fromBlock: start,
+                toBlock: end
+            })
+        ]);
+        const metadata = [
+            ...ipMetadata.map(log => ({ ipId: log.args.ipId, kind: 'ip', uri: log.args.metadataURI, hash: log.args.metadataHash, log })),
+            ...nftMetadata.map(log => ({ ipId: log.args.ipId, kind: 'nft', uri: log.args.nftTokenURI, hash: log.args.nftMetadataHash, log }))
+        ].map(({ ipId, kind, uri, hash, log }) => ({
+            ipId: ipId!.toLowerCase(),
+            kind,
+            uri: uri ?? '',
+            hash: (hash ?? zeroHash).toLowerCase(),
+            blockNumber: Number(log.blockNumber),
+            logIndex: log.logIndex
+        }));
+
+        const transferred = new Set(transfers.map(transfer => `${transfer.tokenContract}/${transfer.tokenId}`));
+        const unowned = localRegistrations.filter(registration =>
+            !transferred.has(`${registration.tokenContract}/${registration.tokenId}`)
+            && !hasOwner.get(registration.tokenContract, registration.tokenId));
+        const readOwners = await Promise.all(unowned.map(async registration => {
+            try {
+                const owner = await publicClient.readContract({
+                    address: registration.tokenContract as Address,
+                    abi: erc721Abi,
+                    functionName: 'ownerOf',
+                    args: [BigInt(registration.tokenId)],
+                    blockNumber: end
+                });
+                return { tokenContract: registration.tokenContract, tokenId: registration.tokenId, owner: owner.toLowerCase(), blockNumber: Number(end), logIndex: END_OF_BLOCK };
+            } catch (error) {
+                console.warn(`Failed to read the owner of token ${registration.tokenId} of ${registration.tokenContract}:`, error);
+                return null;
+            }
+        }));
+
+        database.transaction(() => {
+            registrations.forEach(registration => insertAsset.run(registration));
+            derivatives.forEach(derivative => insertDerivative.run(derivative));
+            metadata.forEach(entry => setMetadata.run(entry));
+            [...transfers, ...readOwners.filter(owner => owner !== null)].forEach(owner => setOwner.run(owner));
+            setIndexedBlock.run(end.toString());
+        })();
+        ipAssetsIndexed += registrations.length;
+        transfersIndexed += transfers.length;
+        derivativesIndexed += derivatives.length;
+        metadataIndexed += metadata.length;
+    }
+
+    return {
+        fromBlock: fromBlock.toString(),
+        toBlock: toBlock.toString(),
+        ipAssetsIndexed,
+        transfersIndexed,
+        derivativesIndexed,
+        metadataIndexed
+    };
+}
+
+let tailTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Start keeping the index current in the background: sync now, then again every
+ * INDEXER_POLL_INTERVAL_MS. Does nothing when already started or INDEXER_ENABLED=false.
+ */
+export function startAssetIndexer(publicClient: PublicClient = createPublicClient()): void {
+    const { enabled, pollIntervalMs } = getIndexerConfig();
+    if (!enabled || tailTimer) {
+        return;
+    }
+
+    const tail = async () => {
+        try {
+            await syncAssetIndex(publicClient);
+        } catch (error) {
+            console.warn('Asset index sync failed:', error);
+        }
+        tailTimer = setTimeout(tail, pollIntervalMs);
+        tailTimer.unref();
+    };
+
+    tailTimer = setTimeout(tail, 0);
+    tailTimer.unref();
+}
+
+function toIndexedIpAsset(row: IpAssetRow): IndexedIpAsset {
+    return {
+        ipId: getAddress(row.ip_id),
+        owner: row.owner ? getAddress(row.owner) : null,
+        chainId: row.chain_id,
+        nftContract: getAddress(row.token_contract),
+        tokenId: row.token_id,
+        name: row.name,
+        metadataURI: row.metadata_uri,
+        blockNumber: row.block_number,
+        blockTimestamp: row.registration_date
+    };
+}
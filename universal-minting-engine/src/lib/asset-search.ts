@@ -0,0 +1,419 @@
+import Database from 'better-sqlite3';
+import { Address, getAddress, isAddress } from 'viem';
+import { getDatabase, getIndexedBlock } from '@/lib/asset-indexer';
+import { getIndexerConfig, getSearchIndexConfig } from '@/lib/config';
+import { fetchMetadataJSON } from '@/lib/metadata-fetch';
+
+export const SEARCH_FACETS = ['ipType', 'mediaType', 'tags', 'creators', 'appId'] as const;
+export type SearchFacet = typeof SEARCH_FACETS[number];
+
+/**
+ * Search filters; every filter given must match. Text matches words of the title, description
+ * and tags by prefix, and the other filters match whole values, ignoring case.
+ */
+export interface SearchFilters {
+    q?: string;
+    tag?: string;
+    ipType?: string;
+    mediaType?: string;
+    creator?: string;
+    appId?: string;
+    attributes?: Array<{ key: string; value: string }>;
+}
+
+/**
+ * Position after the last result of a page: results are ordered by registration, newest first
+ */
+export interface SearchCursor {
+    blockNumber: number;
+    ipId: string;
+}
+
+/**
+ * An IP asset matching a search, with the IPMetadata fields the search index holds
+ */
+export interface SearchResult {
+    ipId: Address;
+    title: string | null;
+    description: string | null;
+    ipType: string | null;
+    mediaType: string | null;
+    appId: string | null;
+    tags: string[];
+    creators: Address[];
+    // Null when the index has no registration of the IP asset
+    owner: Address | null;
+    nftContract: Address | null;
+    tokenId: string | null;
+    blockNumber: number | null;
+}
+
+export interface FacetCount {
+    value: string;
+    count: number;
+}
+
+export interface SearchPage {
+    results: SearchResult[];
+    total: number;
+    facets: Record<SearchFacet, FacetCount[]>;
+    nextCursor: string | null;
+    indexedBlock: string | null;
+    // IP metadata documents not fetched yet, which searches cannot find
+    pendingDocuments: number;
+}
+
+export interface SearchRefreshResult {
+    indexed: number;
+    failed: number;
+}
+
+interface SearchDocument {
+    title: string | null;
+    description: string | null;
+    ipType: string | null;
+    mediaType: string | null;
+    appId: string | null;
+    tags: string[];
+    creators: string[];
+    attributes: Array<{ key: string; value: string }>;
+}
+
+interface PendingMetadata {
+    ip_id: string;
+    uri: string;
+    hash: string;
+}
+
+interface ResultRow {
+    ip_id: string;
+    title: string | null;
+    description: string | null;
+    ip_type: string | null;
+    media_type: string | null;
+    app_id: string | null;
+    owner: string | null;
+    token_contract: string | null;
+    token_id: string | null;
+    block_number: number | null;
+    sort_block: number;
+}
+
+// Values listed per facet, most frequent first
+const MAX_FACET_VALUES = 20;
+
+// Documents are keyed by IP ID like the index tables they are derived from; the IP metadata URIs
+// come from the CoreMetadataModule logs in ip_metadata, and a document is fetched again when the
+// metadata set on the IP asset changes
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS search_documents (
+        ip_id TEXT PRIMARY KEY,
+        metadata_uri TEXT NOT NULL,
+        metadata_hash TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        title TEXT,
+        description TEXT,
+        ip_type TEXT,
+        media_type TEXT,
+        app_id TEXT
+    );
+    CREATE INDEX IF NOT EXISTS search_documents_ip_type ON search_documents (ip_type COLLATE NOCASE);
+    CREATE INDEX IF NOT EXISTS search_documents_media_type ON search_documents (media_type COLLATE NOCASE);
+    CREATE INDEX IF NOT EXISTS search_documents_app_id ON search_documents (app_id COLLATE NOCASE);
+
+    CREATE TABLE IF NOT EXISTS search_tags (
+        ip_id TEXT NOT NULL,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (ip_id, tag)
+    );
+    CREATE INDEX IF NOT EXISTS search_tags_tag ON search_tags (tag);
+
+    CREATE TABLE IF NOT EXISTS search_creators (
+        ip_id TEXT NOT NULL,
+        address TEXT NOT NULL,
+        PRIMARY KEY (ip_id, address)
+    );
+    CREATE INDEX IF NOT EXISTS search_creators_address ON search_creators (address);
+
+    CREATE TABLE IF NOT EXISTS search_attributes (
+        ip_id TEXT NOT NULL,
+        key TEXT NOT NULL COLLATE NOCASE,
+        value TEXT NOT NULL COLLATE NOCASE,
+        PRIMARY KEY (ip_id, key, value)
+    );
+    CREATE INDEX IF NOT EXISTS search_attributes_key_value ON search_attributes (key, value);
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS search_text USING fts5(ip_id UNINDEXED, title, description, tags);
+`;
+
+// IP metadata without a document, set again since it was fetched, or failed fewer than the maximum attempts
+const PENDING_QUERY = `
+    SELECT m.ip_id, m.uri, m.hash, m.block_number
+    FROM ip_metadata m
+    LEFT JOIN search_documents d ON d.ip_id = m.ip_id
+    WHERE m.kind = 'ip' AND m.uri != ''
+        AND (d.ip_id IS NULL OR d.metadata_uri != m.uri OR d.metadata_hash != m.hash OR (d.status = 'failed' AND d.attempts < ?))`;
+
+const initialized = new WeakSet<Database.Database>();
+
+function getSearchDatabase(): Database.Database {
+    const database = getDatabase();
+    if (!initialized.has(database)) {
+        database.exec(SCHEMA);
+        initialized.add(database);
+    }
+    return database;
+}
+
+/**
+ * Fetch the IP metadata of up to SEARCH_INDEX_BATCH_SIZE IP assets whose document is missing,
+ * out of date or failed fewer than SEARCH_INDEX_MAX_ATTEMPTS times, newest first, and index its
+ * title, description, tags, attributes, creators, mediaType and app.id. Documents are fetched with
+ * fetchMetadataJSON, so a URI off IPFS or a body that is not a JSON object counts as a failure.
+ */
+export async function refreshSearchIndex(): Promise<SearchRefreshResult> {
+    const { batchSize, maxAttempts } = getSearchIndexConfig();
+    const database = getSearchDatabase();
+    const pending = database.prepare(`${PENDING_QUERY} ORDER BY m.block_number DESC LIMIT ?`).all(maxAttempts, batchSize) as PendingMetadata[];
+
+    const fetched = await Promise.all(pending.map(async metadata => {
+        try {
+            return { metadata, document: toSearchDocument(await fetchMetadataJSON(metadata.uri)) };
+        } catch (error) {
+            console.warn(`Failed to fetch the metadata of ${metadata.ip_id} for the search index:`, error);
+            return { metadata, document: null };
+        }
+    }));
+
+    database.transaction(() => fetched.forEach(({ metadata, document }) => writeDocument(database, metadata, document)))();
+    const indexed = fetched.filter(({ document }) => document !== null).length;
+    return { indexed, failed: fetched.length - indexed };
+}
+
+/**
+ * Search the indexed IP metadata: a page of matching IP assets after the cursor, how many match
+ * in total, and the most frequent values of each facet among them
+ */
+export function searchAssets(filters: SearchFilters, page: { limit: number; cursor?: SearchCursor }): SearchPage {
+    const database = getSearchDatabase();
+    const { where, params } = filterClauses(filters);
+    const matched = `
+        FROM search_documents d
+        LEFT JOIN ip_assets a ON a.ip_id = d.ip_id
+        LEFT JOIN token_owners o ON o.token_contract = a.token_contract AND o.token_id = a.token_id
+        WHERE ${where.join(' AND ')}`;
+
+    const cursorClause = page.cursor
+        ? ' AND (COALESCE(a.block_number, 0) < ? OR (COALESCE(a.block_number, 0) = ? AND d.ip_id < ?))'
+        : '';
+    const cursorParams = page.cursor ? [page.cursor.blockNumber, page.cursor.blockNumber, page.cursor.ipId.toLowerCase()] : [];
+    // One row past the page tells whether there is another page
+    const rows = database.prepare(`
+        SELECT d.*, o.owner, a.token_contract, a.token_id, a.block_number, COALESCE(a.block_number, 0) AS sort_block
+        ${matched}${cursorClause}
+        ORDER BY sort_block DESC, d.ip_id DESC
+        LIMIT ?`).all(...params, ...cursorParams, page.limit + 1) as ResultRow[];
+    const pageRows = rows.slice(0, page.limit);
+
+    const { total } = database.prepare(`SELECT COUNT(*) AS total ${matched}`).get(...params) as { total: number };
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+        results: toSearchResults(database, pageRows),
+        total,
+        facets: getFacets(database, matched, params),
+        nextCursor: rows.length > page.limit ? encodeSearchCursor({ blockNumber: last.sort_block, ipId: last.ip_id }) : null,
+        indexedBlock: getIndexedBlock(),
+        pendingDocuments: (database.prepare(`SELECT COUNT(*) AS pending FROM (${PENDING_QUERY})`)
+            .get(getSearchIndexConfig().maxAttempts) as { pending: number }).pending
+    };
+}
+
+export function encodeSearchCursor(cursor: SearchCursor): string {
+    return Buffer.from(`${cursor.blockNumber}:${cursor.ipId.toLowerCase()}`).toString('base64url');
+}
+
+/**
+ * The position a nextCursor encodes, or null when the cursor is malformed
+ */
+export function decodeSearchCursor(cursor: string): SearchCursor | null {
+    const match = Buffer.from(cursor, 'base64url').toString('utf-8').match(/^(\d+):(0x[0-9a-f]{40})$/);
+    return match ? { blockNumber: Number(match[1]), ipId: match[2] } : null;
+}
+
+let tailTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Start keeping the search index current in the background: fetch a batch of documents now, then
+ * again every INDEXER_POLL_INTERVAL_MS, or right away while whole batches are pending. Does
+ * nothing when already started or INDEXER_ENABLED=false.
+ */
+export function startSearchIndexer(): void {
+    const { enabled, pollIntervalMs } = getIndexerConfig();
+    if (!enabled || tailTimer) {
+        return;
+    }
+
+    const tail = async () => {
+        let fetched = 0;
+        try {
+            const { indexed, failed } = await refreshSearchIndex();
+            fetched = indexed + failed;
+        } catch (error) {
+            console.warn('Search index refresh failed:', error);
+        }
+        tailTimer = setTimeout(tail, fetched >= getSearchIndexConfig().batchSize ? 0 : pollIntervalMs);
+        tailTimer.unref();
+    };
+
+    tailTimer = setTimeout(tail, 0);
+    tailTimer.unref();
+}
+
+/**
+ * The IPMetadata fields the search index holds; fields of the wrong type are left out, so any
+ * JSON document can be indexed
+ */
+function toSearchDocument(metadata: unknown): SearchDocument {
+    const source = (metadata && typeof metadata === 'object' ? metadata : {}) as Record<string, unknown>;
+    const text = (value: unknown) => typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+    const list = (value: unknown) => Array.isArray(value) ? value : [];
+    const app = source.app && typeof source.app === 'object' ? source.app as Record<string, unknown> : {};
+
+    return {
+        title: text(source.title),
+        description: text(source.description),
+        ipType: text(source.ipType),
+        mediaType: text(source.mediaType),
+        appId: text(app.id),
+        tags: [...new Set(list(source.tags).map(text).filter((tag): tag is string => tag !== null).map(tag => tag.toLowerCase()))],
+        creators: [...new Set(list(source.creators)
+            .map(creator => creator && typeof creator === 'object' ? (creator as Record<string, unknown>).address : null)
+            .filter((address): address is string => typeof address === 'string' && isAddress(address, { strict: false }))
+            .map(address => address.toLowerCase()))],
+        attributes: list(source.attributes).flatMap(attribute => {
+            const { key, value } = (attribute && typeof attribute === 'object' ? attribute : {}) as Record<string, unknown>;
+            return typeof key === 'string' && (typeof value === 'string' || typeof value === 'number')
+                ? [{ key, value: String(value) }]
+                : [];
+        })
+    };
+}
+
+// Replace what is indexed for the IP asset; a failed fetch leaves it unsearchable until it is fetched
+function writeDocument(database: Database.Database, metadata: PendingMetadata, document: SearchDocument | null): void {
+    const previous = database.prepare('SELECT metadata_uri, metadata_hash, attempts FROM search_documents WHERE ip_id = ?')
+        .get(metadata.ip_id) as { metadata_uri: string; metadata_hash: string; attempts: number } | undefined;
+    const sameMetadata = previous?.metadata_uri === metadata.uri && previous?.metadata_hash === metadata.hash;
+
+    for (const table of ['search_tags', 'search_creators', 'search_attributes', 'search_text']) {
+        database.prepare(`DELETE FROM ${table} WHERE ip_id = ?`).run(metadata.ip_id);
+    }
+    database.prepare(`
+        INSERT INTO search_documents (ip_id, metadata_uri, metadata_hash, status, attempts, title, description, ip_type, media_type, app_id)
+        VALUES (@ipId, @uri, @hash, @status, @attempts, @title, @description, @ipType, @mediaType, @appId)
+        ON CONFLICT (ip_id) DO UPDATE SET metadata_uri = excluded.metadata_uri, metadata_hash = excluded.metadata_hash,
+            status = excluded.status, attempts = excluded.attempts, title = excluded.title, description = excluded.description,
+            ip_type = excluded.ip_type, media_type = excluded.media_type, app_id = excluded.app_id`).run({
+        ipId: metadata.ip_id,
+        uri: metadata.uri,
+        hash: metadata.hash,
+        status: document ? 'indexed' : 'failed',
+        attempts: document ? 0 : (sameMetadata && previous ? previous.attempts : 0) + 1,
+        title: document?.title ?? null,
+        description: document?.description ?? null,
+        ipType: document?.ipType ?? null,
+        mediaType: document?.mediaType ?? null,
+        appId: document?.appId ?? null
+    });
+    if (!document) {
+        return;
+    }
+
+    const insertTag = database.prepare('INSERT INTO search_tags (ip_id, tag) VALUES (?, ?)');
+    const insertCreator = database.prepare('INSERT INTO search_creators (ip_id, address) VALUES (?, ?)');
+    const insertAttribute = database.prepare('INSERT OR IGNORE INTO search_attributes (ip_id, key, value) VALUES (?, ?, ?)');
+    document.tags.forEach(tag => insertTag.run(metadata.ip_id, tag));
+    document.creators.forEach(address => insertCreator.run(metadata.ip_id, address));
+    document.attributes.forEach(({ key, value }) => insertAttribute.run(metadata.ip_id, key, value));
+    database.prepare('INSERT INTO search_text (ip_id, title, description, tags) VALUES (?, ?, ?, ?)')
+        .run(metadata.ip_id, document.title ?? '', document.description ?? '', document.tags.join(' '));
+}
+
+function filterClauses(filters: SearchFilters): { where: string[]; params: unknown[] } {
+    const where = ["d.status = 'indexed'"];
+    const params: unknown[] = [];
+
+    // Each word is matched as a quoted prefix, so FTS5 query syntax in the text is taken literally
+    const words = filters.q?.match(/[\p{L}\p{N}]+/gu) ?? [];
+    if (words.length > 0) {
+        where.push('d.ip_id IN (SELECT ip_id FROM search_text WHERE search_text MATCH ?)');
+        params.push(words.map(word => `"${word}"*`).join(' '));
+    }
+    if (filters.tag) {
+        where.push('d.ip_id IN (SELECT ip_id FROM search_tags WHERE tag = ?)');
+        params.push(filters.tag.trim().toLowerCase());
+    }
+    for (const [column, value] of [['ip_type', filters.ipType], ['media_type', filters.mediaType], ['app_id', filters.appId]]) {
+        if (value) {
+            where.push(`d.${column} = ? COLLATE NOCASE`);
+            params.push(value);
+        }
+    }
+    if (filters.creator) {
+        where.push('d.ip_id IN (SELECT ip_id FROM search_creators WHERE address = ?)');
+        params.push(filters.creator.toLowerCase());
+    }
+    for (const { key, value } of filters.attributes ?? []) {
+        where.push('d.ip_id IN (SELECT ip_id FROM search_attributes WHERE key = ? AND value = ?)');
+        params.push(key, value);
+    }
+
+    return { where, params };
+}
+
+function getFacets(database: Database.Database, matched: string, params: unknown[]): Record<SearchFacet, FacetCount[]> {
+    const count = (select: string) => database.prepare(`
+        WITH matched AS (SELECT d.ip_id ${matched})
+        SELECT value, COUNT(*) AS count FROM (${select})
+        WHERE value IS NOT NULL
+        GROUP BY value
+        ORDER BY count DESC, value
+        LIMIT ${MAX_FACET_VALUES}`).all(...params) as FacetCount[];
+    const documentColumn = (column: string) =>
+        count(`SELECT d.${column} AS value FROM search_documents d JOIN matched USING (ip_id)`);
+
+    return {
+        ipType: documentColumn('ip_type'),
+        mediaType: documentColumn('media_type'),
+        tags: count('SELECT t.tag AS value FROM search_tags t JOIN matched USING (ip_id)'),
+        creators: count('SELECT c.address AS value FROM search_creators c JOIN matched USING (ip_id)')
+            .map(facet => ({ ...facet, value: getAddress(facet.value) })),
+        appId: documentColumn('app_id')
+    };
+}
+
+function toSearchResults(database: Database.Database, rows: ResultRow[]): SearchResult[] {
+    const ipIds = rows.map(row => row.ip_id);
+    const placeholders = ipIds.map(() => '?').join(', ');
+    const tags = ipIds.length === 0 ? [] : database.prepare(`SELECT ip_id, tag FROM search_tags WHERE ip_id IN (${placeholders}) ORDER BY tag`)
+        .all(...ipIds) as Array<{ ip_id: string; tag: string }>;
+    const creators = ipIds.length === 0 ? [] : database.prepare(`SELECT ip_id, address FROM search_creators WHERE ip_id IN (${placeholders})`)
+        .all(...ipIds) as Array<{ ip_id: string; address: string }>;
+
+    return rows.map(row => ({
+        ipId: getAddress(row.ip_id),
+        title: row.title,
+        description: row.description,
+        ipType: row.ip_type,
+        mediaType: row.media_type,
+        appId: row.app_id,
+        tags: tags.filter(tag => tag.ip_id === row.ip_id).map(tag => tag.tag),
+        creators: creators.filter(creator => creator.ip_id === row.ip_id).map(creator => getAddress(creator.address)),
+        owner: row.owner ? getAddress(row.owner) : null,
+        nftContract: row.token_contract ? getAddress(row.token_contract) : null,
+        tokenId: row.token_id,
+        blockNumber: row.block_number
+    }));
+}
@@ -0,0 +1,394 @@
+import { createHash, randomUUID } from 'crypto';
+import { createWriteStream, openAsBlob } from 'fs';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { getUploadConfig } from '@/lib/config';
+import { isSniffedTypeCompatible } from '@/lib/content-sniffing';
+import {
+    createContentHash,
+    detectMimeTypeFromBuffer,
+    FILE_SIZE_LIMITS,
+    FileUpload,
+    getFileCategory,
+    getIPFSUrl,
+    uploadFileFromPathToIPFS,
+    uploadMultipartFileToIPFS,
+    uploadMultipleFilesToIPFS,
+    UploadedFile,
+    validateBlob
+} from '@/lib/ipfs';
+import { recordPin } from '@/lib/pins';
+import { uploadDeduplicated } from '@/lib/upload-cache';
+import { RequestFile } from '@/types';
+
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+// Staged chunks are named chunk-<index>-<sha256>, so a listing tells which chunks arrived intact
+const CHUNK_FILE_PATTERN = /^chunk-(\d+)-([0-9a-f]{64})$/;
+const SESSION_FILE = 'session.json';
+
+// Completions in progress per upload, so concurrent completes in one process share one assembly
+const pendingCompletions = new Map<string, Promise<UploadedFile>>();
+
+/**
+ * A chunked upload staged on the server until all of its chunks have arrived
+ */
+export interface UploadSession {
+    uploadId: string;
+    filename: string;
+    contentType: string;
+    purpose: FileUpload['purpose'];
+    totalSize: number;
+    chunkSize: number;
+    totalChunks: number;
+    createdAt: string;
+    expiresAt: string;
+    // Set once the assembled file has been sent to the storage provider
+    uploadedFile?: UploadedFile;
+}
+
+export interface UploadStatus extends UploadSession {
+    receivedChunks: Array<{ index: number; sha256: string }>;
+    missingChunks: number[];
+    completed: boolean;
+}
+
+export type ChunkedUploadFailure = 'not_found' | 'invalid' | 'hash_mismatch' | 'incomplete';
+
+/**
+ * Thrown for chunked upload requests that cannot be served: unknown or expired uploads,
+ * malformed chunks, chunks whose SHA-256 does not match, and completion with chunks missing
+ */
+export class ChunkedUploadError extends Error {
+    readonly reason: ChunkedUploadFailure;
+    readonly details?: Record<string, unknown>;
+
+    constructor(reason: ChunkedUploadFailure, message: string, details?: Record<string, unknown>) {
+        super(message);
+        this.name = 'ChunkedUploadError';
+        this.reason = reason;
+        this.details = details;
+    }
+}
+
+const sha256 = (data: Buffer): string => createHash('sha256').update(data).digest('hex');
+
+const sessionDir = (uploadId: string): string => {
+    if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+        throw new ChunkedUploadError('not_found', `Upload not found: ${uploadId}`);
+    }
+    return path.join(getUploadConfig().stagingDir, uploadId);
+};
+
+const expectedChunkSize = (session: UploadSession, index: number): number => {
+    return index < session.totalChunks - 1
+        ? session.chunkSize
+        : session.totalSize - session.chunkSize * (session.totalChunks - 1);
+};
+
+const readSession = async (uploadId: string): Promise<UploadSession> => {
+    const directory = sessionDir(uploadId);
+
+    let session: UploadSession;
+    try {
+        session = JSON.parse(await readFile(path.join(directory, SESSION_FILE), 'utf-8'));
+    } catch {
+        throw new ChunkedUploadError('not_found', `Upload not found: ${uploadId}`);
+    }
+
+    if (Date.parse(session.expiresAt) <= Date.now()) {
+        await rm(directory, { recursive: true, force: true });
+        throw new ChunkedUploadError('not_found', `Upload expired: ${uploadId}`);
+    }
+    return session;
+};
+
+const writeSession = async (session: UploadSession): Promise<void> => {
+    const directory = sessionDir(session.uploadId);
+    const stagingPath = path.join(directory, `${SESSION_FILE}.${randomUUID()}`);
+    await writeFile(stagingPath, JSON.stringify(session, null, 2));
+    await rename(stagingPath, path.join(directory, SESSION_FILE));
+};
+
+/**
+ * Staged chunks by index (putChunk removes the copy a resent chunk replaces)
+ */
+const listChunks = async (uploadId: string): Promise<Map<number, { file: string; sha256: string }>> => {
+    const chunks = new Map<number, { file: string; sha256: string }>();
+    for (const file of await readdir(sessionDir(uploadId))) {
+        const match = CHUNK_FILE_PATTERN.exec(file);
+        if (match) {
+            chunks.set(Number(match[1]), { file, sha256: match[2] });
+        }
+    }
+    return chunks;
+};
+
+const toStatus = async (session: UploadSession): Promise<UploadStatus> => {
+    const chunks = session.uploadedFile ? new Map() : await listChunks(session.uploadId);
+    const receivedChunks = Array.from(chunks.entries())
+        .map(([index, chunk]) => ({ index, sha256: chunk.sha256 }))
+        .sort((a, b) => a.index - b.index);
+    const missingChunks = session.uploadedFile
+        ? []
+        : Array.from({ length: session.totalChunks }, (_, index) => index).filter(index => !chunks.has(index));
+
+    return { ...session, receivedChunks, missingChunks, completed: !!session.uploadedFile };
+};
+
+/**
+ * Start a chunked upload. The file type and declared size are checked against the same
+ * limits as inline uploads; the client then sends `totalChunks` chunks of `chunkSize` bytes.
+ */
+export async function initUpload(params: {
+    filename: string;
+    contentType: string;
+    totalSize: number;
+    purpose?: FileUpload['purpose'];
+}): Promise<UploadSession> {
+    const category = getFileCategory(params.contentType);
+    if (category === 'unknown') {
+        throw new ChunkedUploadError('invalid', `Unsupported file type: ${params.contentType}`);
+    }
+
+    const sizeLimit = FILE_SIZE_LIMITS[category] || FILE_SIZE_LIMITS.default;
+    if (params.totalSize > sizeLimit) {
+        throw new ChunkedUploadError('invalid', `File size ${params.totalSize} bytes exceeds limit of ${sizeLimit} bytes for ${category} files`);
+    }
+
+    await purgeExpiredUploads();
+
+    const config = getUploadConfig();
+    const now = Date.now();
+    const session: UploadSession = {
+        uploadId: randomUUID(),
+        filename: params.filename,
+        contentType: params.contentType,
+        purpose: params.purpose || 'media',
+        totalSize: params.totalSize,
+        chunkSize: config.chunkSize,
+        totalChunks: Math.ceil(params.totalSize / config.chunkSize),
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + config.ttlMs).toISOString(),
+    };
+
+    await mkdir(sessionDir(session.uploadId), { recursive: true });
+    await writeSession(session);
+    return session;
+}
+
+/**
+ * Report which chunks have arrived, so a client can resume by sending only the missing ones
+ */
+export async function getUploadStatus(uploadId: string): Promise<UploadStatus> {
+    return toStatus(await readSession(uploadId));
+}
+
+/**
+ * Stage one chunk after checking its index, size and SHA-256. Sending a chunk again replaces it,
+ * so a chunk whose response was lost can simply be retried.
+ */
+export async function putChunk(uploadId: string, index: number, data: Buffer, expectedSha256: string): Promise<UploadStatus> {
+    const session = await readSession(uploadId);
+    if (session.uploadedFile) {
+        throw new ChunkedUploadError('invalid', `Upload ${uploadId} is already completed`);
+    }
+    if (pendingCompletions.has(uploadId)) {
+        throw new ChunkedUploadError('invalid', `Upload ${uploadId} is being completed`);
+    }
+
+    if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+        throw new ChunkedUploadError('invalid', `Chunk index must be between 0 and ${session.totalChunks - 1}`, { index });
+    }
+
+    const expectedSize = expectedChunkSize(session, index);
+    if (data.length !== expectedSize) {
+        throw new ChunkedUploadError('invalid', `Chunk ${index} must be ${expectedSize} bytes, received ${data.length}`, {
+            index,
+            expectedSize,
+            receivedSize: data.length
+        });
+    }
+
+    const actualSha256 = sha256(data);
+    if (actualSha256 !== expectedSha256.toLowerCase()) {
+        throw new ChunkedUploadError('hash_mismatch', `SHA-256 mismatch for chunk ${index}`, {
+            index,
+            expectedSha256,
+            actualSha256
+        });
+    }
+
+    // Write under a temporary name and rename, so a dropped connection never leaves a partial chunk
+    const directory = sessionDir(uploadId);
+    const stagingPath = path.join(directory, `.chunk-${index}-${randomUUID()}`);
+    await writeFile(stagingPath, data);
+    await rename(stagingPath, path.join(directory, `chunk-${index}-${actualSha256}`));
+
+    const replaced = (await readdir(directory))
+        .filter(file => CHUNK_FILE_PATTERN.exec(file)?.[1] === String(index) && !file.endsWith(actualSha256));
+    await Promise.all(replaced.map(file => rm(path.join(directory, file), { force: true })));
+
+    return toStatus(session);
+}
+
+/**
+ * Assemble the staged chunks, re-checking each one's SHA-256, and stream the file to the
+ * storage provider, reusing an earlier upload of the same content like inline uploads do.
+ * Completing an upload again, or while it is being completed, returns the same UploadedFile.
+ */
+export function completeUpload(uploadId: string): Promise<UploadedFile> {
+    const pending = pendingCompletions.get(uploadId);
+    if (pending) {
+        return pending;
+    }
+
+    const completion = assembleAndUpload(uploadId).finally(() => pendingCompletions.delete(uploadId));
+    pendingCompletions.set(uploadId, completion);
+    return completion;
+}
+
+async function assembleAndUpload(uploadId: string): Promise<UploadedFile> {
+    const session = await readSession(uploadId);
+    if (session.uploadedFile) {
+        return session.uploadedFile;
+    }
+
+    const chunks = await listChunks(uploadId);
+    const missingChunks = Array.from({ length: session.totalChunks }, (_, index) => index).filter(index => !chunks.has(index));
+    if (missingChunks.length > 0) {
+        throw new ChunkedUploadError('incomplete', `Upload ${uploadId} is missing ${missingChunks.length} chunk(s)`, { missingChunks });
+    }
+
+    const directory = sessionDir(uploadId);
+    const assembledPath = path.join(directory, `assembled-${randomUUID()}`);
+    const contentHash = createHash('sha256');
+    try {
+        // Chunks are read one at a time, so memory use is bounded by the chunk size
+        await pipeline(async function* () {
+            for (let index = 0; index < session.totalChunks; index++) {
+                const chunkPath = path.join(directory, chunks.get(index)!.file);
+                const data = await readFile(chunkPath);
+                if (sha256(data) !== chunks.get(index)!.sha256) {
+                    await rm(chunkPath, { force: true });
+                    throw new ChunkedUploadError('hash_mismatch', `Staged chunk ${index} is corrupted; send it again`, { index });
+                }
+                if (index === 0) {
+                    const detectedMimeType = detectMimeTypeFromBuffer(data);
+                    if (detectedMimeType && !isSniffedTypeCompatible(session.contentType, detectedMimeType, session.totalChunks === 1)) {
+                        throw new ChunkedUploadError('invalid', `MIME type mismatch: provided ${session.contentType}, detected ${detectedMimeType}`);
+                    }
+                }
+                contentHash.update(data);
+                yield data;
+            }
+        }, createWriteStream(assembledPath));
+
+        // Content sniffed as SVG, whatever its declared type, is sanitized like inline files before it is pinned
+        const validation = await validateBlob(await openAsBlob(assembledPath), session.filename, session.contentType);
+        if (!validation.isValid) {
+            throw new ChunkedUploadError('invalid', validation.error || 'Validation failed');
+        }
+        const contentType = validation.detectedMimeType === 'image/svg+xml' ? validation.detectedMimeType : session.contentType;
+        let sanitized: string[] | undefined;
+        let sanitizedHash: string | undefined;
+        if (validation.sanitizedContent) {
+            await writeFile(assembledPath, validation.sanitizedContent);
+            sanitized = validation.sanitized;
+            sanitizedHash = createContentHash(validation.sanitizedContent);
+        }
+
+        const { cid: ipfsHash, deduplicated } = await uploadDeduplicated(
+            sanitizedHash || contentHash.digest('hex'),
+            () => uploadFileFromPathToIPFS(assembledPath, session.filename, contentType, session.purpose),
+            { filename: session.filename, purpose: session.purpose }
+        );
+        const uploadedFile: UploadedFile = {
+            filename: session.filename,
+            ipfsHash,
+            purpose: session.purpose,
+            url: getIPFSUrl(ipfsHash),
+            deduplicated,
+            ...(sanitized && { sanitized })
+        };
+
+        await writeSession({ ...session, uploadedFile });
+        await Promise.all(Array.from(chunks.values()).map(chunk => rm(path.join(directory, chunk.file), { force: true })));
+        return uploadedFile;
+    } finally {
+        await rm(assembledPath, { force: true });
+    }
+}
+
+/**
+ * The file of a completed upload, for requests that reference it by upload ID
+ */
+export async function getCompletedUpload(uploadId: string): Promise<UploadedFile> {
+    const session = await readSession(uploadId);
+    if (!session.uploadedFile) {
+        throw new ChunkedUploadError('incomplete', `Upload ${uploadId} has not been completed`);
+    }
+    return session.uploadedFile;
+}
+
+// A prepare-* request referencing a completed upload reuses its pin, which is tagged with that request too
+async function referenceCompletedUpload(uploadId: string, purpose?: FileUpload['purpose']): Promise<UploadedFile> {
+    const uploadedFile = await getCompletedUpload(uploadId);
+    await recordPin(uploadedFile.ipfsHash, { filename: uploadedFile.filename, purpose: purpose || uploadedFile.purpose as FileUpload['purpose'] });
+    return uploadedFile;
+}
+
+/**
+ * Upload the files of a prepare-* request: inline and multipart files are sent to storage now,
+ * and files referenced by upload ID resolve to what their completed chunked upload stored.
+ * Order is kept.
+ */
+export async function uploadRequestFiles(files: RequestFile[]): Promise<UploadedFile[]> {
+    const inlineFiles = files.filter((file): file is Extract<RequestFile, { data: string }> => 'data' in file);
+    const [inlineUploads, otherUploads] = await Promise.all([
+        uploadMultipleFilesToIPFS(inlineFiles),
+        Promise.all(files.map(file => {
+            if ('file' in file) {
+                return uploadMultipartFileToIPFS(file);
+            }
+            return 'uploadId' in file ? referenceCompletedUpload(file.uploadId, file.purpose) : undefined;
+        }))
+    ]);
+
+    let inlineIndex = 0;
+    return files.map((file, index) => {
+        if ('data' in file) {
+            return inlineUploads[inlineIndex++];
+        }
+        const uploadedFile = otherUploads[index]!;
+        return file.purpose ? { ...uploadedFile, purpose: file.purpose } : uploadedFile;
+    });
+}
+
+/**
+ * Remove staged uploads past their expiry, returning how many were removed
+ */
+export async function purgeExpiredUploads(): Promise<number> {
+    const { stagingDir } = getUploadConfig();
+
+    let entries: string[];
+    try {
+        entries = await readdir(stagingDir);
+    } catch {
+        return 0;
+    }
+
+    let purged = 0;
+    for (const uploadId of entries.filter(entry => UPLOAD_ID_PATTERN.test(entry))) {
+        try {
+            const session: UploadSession = JSON.parse(await readFile(path.join(stagingDir, uploadId, SESSION_FILE), 'utf-8'));
+            if (Date.parse(session.expiresAt) <= Date.now()) {
+                await rm(path.join(stagingDir, uploadId), { recursive: true, force: true });
+                purged++;
+            }
+        } catch {
+            // Session still being created or already removed
+        }
+    }
+    return purged;
+}
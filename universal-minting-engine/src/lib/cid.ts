@@ -0,0 +1,231 @@
+import { createHash } from 'crypto';
+
+// Kubo and Pinata import defaults: 256 KiB chunks in a balanced DAG of at most 174 links per node
+const CHUNK_SIZE = 262144;
+const MAX_LINKS = 174;
+
+const SHA2_256_CODE = 0x12;
+const DAG_PB_CODE = 0x70;
+const RAW_CODE = 0x55;
+const UNIXFS_FILE_TYPE = 2;
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+export type CidVersion = 0 | 1;
+
+/**
+ * CIDs of one piece of content in both versions `ipfs add` can produce
+ */
+export interface ContentCids {
+    v0: string;
+    v1: string;
+}
+
+/**
+ * Thrown when a storage provider answers with a CID other than the one computed locally
+ * for the content sent, i.e. it stored different bytes or chunked them differently
+ */
+export class CidMismatchError extends Error {
+    readonly filename: string;
+    readonly expected: ContentCids;
+    readonly actual: string;
+
+    constructor(filename: string, expected: ContentCids, actual: string) {
+        super(`CID mismatch for ${filename}: expected ${expected.v0} or ${expected.v1}, storage returned ${actual}`);
+        this.name = 'CidMismatchError';
+        this.filename = filename;
+        this.expected = expected;
+        this.actual = actual;
+    }
+}
+
+interface DagNode {
+    // Binary CID: the bare multihash for CIDv0, version + codec + multihash for CIDv1
+    cid: Buffer;
+    // Bytes of file content under this node
+    fileSize: number;
+    // Encoded size of this node plus every block under it, as recorded in parent links
+    cumulativeSize: number;
+}
+
+const encodeVarint = (value: number): Buffer => {
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+        bytes.push((value % 0x80) | 0x80);
+        value = Math.floor(value / 0x80);
+    }
+    bytes.push(value);
+    return Buffer.from(bytes);
+};
+
+const varintField = (fieldNumber: number, value: number): Buffer => {
+    return Buffer.concat([encodeVarint(fieldNumber << 3), encodeVarint(value)]);
+};
+
+const bytesField = (fieldNumber: number, bytes: Uint8Array): Buffer => {
+    return Buffer.concat([encodeVarint((fieldNumber << 3) | 2), encodeVarint(bytes.length), bytes]);
+};
+
+/**
+ * Encode a dag-pb node. Links are written before Data, as the canonical dag-pb encoding requires.
+ */
+const encodeDagPbNode = (data: Buffer, links: DagNode[]): Buffer => {
+    return Buffer.concat([
+        ...links.map(link => bytesField(2, Buffer.concat([
+            bytesField(1, link.cid),
+            bytesField(2, Buffer.alloc(0)), // unnamed
+            varintField(3, link.cumulativeSize),
+        ]))),
+        bytesField(1, data),
+    ]);
+};
+
+const hashBlock = (block: Buffer): Buffer => {
+    const digest = createHash('sha256').update(block).digest();
+    return Buffer.concat([encodeVarint(SHA2_256_CODE), encodeVarint(digest.length), digest]);
+};
+
+const toCid = (version: CidVersion, codec: number, block: Buffer): Buffer => {
+    const multihash = hashBlock(block);
+    return version === 0 ? multihash : Buffer.concat([encodeVarint(1), encodeVarint(codec), multihash]);
+};
+
+const encodeBase58 = (bytes: Buffer): string => {
+    let value = BigInt(`0x${bytes.toString('hex') || '0'}`);
+    let encoded = '';
+    while (value > BigInt(0)) {
+        encoded = BASE58_ALPHABET[Number(value % BigInt(58))] + encoded;
+        value /= BigInt(58);
+    }
+    // Leading zero bytes are kept as leading '1's
+    const leadingZeros = bytes.findIndex(byte => byte !== 0);
+    return '1'.repeat(leadingZeros === -1 ? bytes.length : leadingZeros) + encoded;
+};
+
+// RFC 4648 base32, lowercase and unpadded, as used by multibase 'b'
+const encodeBase32 = (bytes: Buffer): string => {
+    let encoded = '';
+    let buffer = 0;
+    let bits = 0;
+    for (const byte of bytes) {
+        buffer = (buffer << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            encoded += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+        buffer &= (1 << bits) - 1;
+    }
+    if (bits > 0) {
+        encoded += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+    }
+    return encoded;
+};
+
+/**
+ * Leaves are UnixFS file nodes in dag-pb for CIDv0, and raw blocks for CIDv1 (--raw-leaves)
+ */
+const buildLeaf = (chunk: Buffer, version: CidVersion): DagNode => {
+    if (version === 1) {
+        return { cid: toCid(1, RAW_CODE, chunk), fileSize: chunk.length, cumulativeSize: chunk.length };
+    }
+
+    const unixfs = Buffer.concat([
+        varintField(1, UNIXFS_FILE_TYPE),
+        ...(chunk.length > 0 ? [bytesField(2, chunk)] : []),
+        varintField(3, chunk.length),
+    ]);
+    const block = encodeDagPbNode(unixfs, []);
+    return { cid: toCid(0, DAG_PB_CODE, block), fileSize: chunk.length, cumulativeSize: block.length };
+};
+
+const buildParent = (children: DagNode[], version: CidVersion): DagNode => {
+    const fileSize = children.reduce((total, child) => total + child.fileSize, 0);
+    const unixfs = Buffer.concat([
+        varintField(1, UNIXFS_FILE_TYPE),
+        varintField(3, fileSize),
+        ...children.map(child => varintField(4, child.fileSize)),
+    ]);
+    const block = encodeDagPbNode(unixfs, children);
+    return {
+        cid: toCid(version, DAG_PB_CODE, block),
+        fileSize,
+        cumulativeSize: block.length + children.reduce((total, child) => total + child.cumulativeSize, 0),
+    };
+};
+
+/**
+ * Link leaves into the balanced DAG and encode the root CID
+ */
+const encodeRoot = (leaves: DagNode[], version: CidVersion): string => {
+    let nodes = leaves;
+    while (nodes.length > 1) {
+        const parents: DagNode[] = [];
+        for (let index = 0; index < nodes.length; index += MAX_LINKS) {
+            parents.push(buildParent(nodes.slice(index, index + MAX_LINKS), version));
+        }
+        nodes = parents;
+    }
+
+    return version === 0 ? encodeBase58(nodes[0].cid) : `b${encodeBase32(nodes[0].cid)}`;
+};
+
+/**
+ * Compute the CID that `ipfs add` (and Pinata) assigns to `content`, without uploading it:
+ * a balanced UnixFS DAG of dag-pb nodes over 256 KiB chunks. CIDv0 is base58btc with
+ * dag-pb leaves; CIDv1 is base32 with raw leaves, as `ipfs add --cid-version=1` does.
+ */
+export function computeCid(content: Buffer | Uint8Array | string, version: CidVersion = 0): string {
+    const buffer = Buffer.isBuffer(content) ? content : Buffer.from(content);
+
+    const leaves: DagNode[] = [];
+    for (let offset = 0; offset < buffer.length || offset === 0; offset += CHUNK_SIZE) {
+        leaves.push(buildLeaf(buffer.subarray(offset, offset + CHUNK_SIZE), version));
+    }
+
+    return encodeRoot(leaves, version);
+}
+
+/**
+ * Compute both the CIDv0 and CIDv1 of `content`
+ */
+export function computeCids(content: Buffer | Uint8Array | string): ContentCids {
+    return { v0: computeCid(content, 0), v1: computeCid(content, 1) };
+}
+
+/**
+ * Compute both CIDs of content read from a stream, e.g. a staged file too large to buffer.
+ * Only one chunk is held in memory at a time.
+ */
+export async function computeStreamCids(stream: AsyncIterable<Buffer | Uint8Array | string>): Promise<ContentCids> {
+    const leaves: Record<CidVersion, DagNode[]> = { 0: [], 1: [] };
+    const addLeaf = (chunk: Buffer) => {
+        leaves[0].push(buildLeaf(chunk, 0));
+        leaves[1].push(buildLeaf(chunk, 1));
+    };
+
+    let pending = Buffer.alloc(0);
+    for await (const piece of stream) {
+        pending = Buffer.concat([pending, Buffer.isBuffer(piece) ? piece : Buffer.from(piece)]);
+        while (pending.length >= CHUNK_SIZE) {
+            addLeaf(pending.subarray(0, CHUNK_SIZE));
+            pending = pending.subarray(CHUNK_SIZE);
+        }
+    }
+    if (pending.length > 0 || leaves[0].length === 0) {
+        addLeaf(pending);
+    }
+
+    return { v0: encodeRoot(leaves[0], 0), v1: encodeRoot(leaves[1], 1) };
+}
+
+// A CIDv0 (base58btc multihash) or a base32 CIDv1, as written in ipfs://CID or gateway /ipfs/CID URIs
+const CID_IN_URI_PATTERN = /^(?:ipfs:\/\/(?:ipfs\/)?|[a-z][a-z0-9+.-]*:\/\/[^/]+\/ipfs\/)(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})(?:[/?#]|$)/;
+
+/**
+ * The CID an ipfs:// URI or an IPFS gateway URL points at, or null for any other URI
+ */
+export function extractCid(uri: string): string | null {
+    return CID_IN_URI_PATTERN.exec(uri.trim())?.[1] ?? null;
+}
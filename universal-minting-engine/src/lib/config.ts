@@ -4,7 +4,7 @@ import { Address, privateKeyToAccount } from 'viem/accounts';
 import { StoryClientConfig } from '@/types';
 
 // Network configuration types
-type NetworkType = 'aeneid' | 'mainnet';
+export type NetworkType = 'aeneid' | 'mainnet';
 
 interface NetworkConfig {
     rpcProviderUrl: string;
@@ -138,6 +138,107 @@ export const getPinataConfig = () => {
     };
 };
 
+// Backends that can store uploads; see src/lib/storage.ts
+export const STORAGE_PROVIDERS = ['pinata', 'kubo', 'filesystem'] as const;
+export type StorageProviderName = typeof STORAGE_PROVIDERS[number];
+
+// Storage backend selected with STORAGE_PROVIDER (defaults to Pinata)
+export const getStorageConfig = () => {
+    const provider = (process.env.STORAGE_PROVIDER || 'pinata') as StorageProviderName;
+    if (!STORAGE_PROVIDERS.includes(provider)) {
+        throw new Error(`Invalid storage provider: ${provider}. Must be one of: ${STORAGE_PROVIDERS.join(', ')}`);
+    }
+
+    return {
+        provider,
+        kuboApiUrl: process.env.KUBO_API_URL || 'http://127.0.0.1:5001',
+        filesystemDir: process.env.STORAGE_FS_DIR || '.ipfs-storage',
+    };
+};
+
+// Staging of resumable chunked uploads (see src/lib/chunked-upload.ts) and the
+// content hash to CID index that skips re-uploading unchanged files (see src/lib/upload-cache.ts)
+export const getUploadConfig = () => {
+    return {
+        stagingDir: process.env.UPLOAD_STAGING_DIR || '.upload-staging',
+        chunkSize: parseInt(process.env.UPLOAD_CHUNK_SIZE || String(5 * 1024 * 1024)),
+        ttlMs: parseInt(process.env.UPLOAD_TTL_MS || String(24 * 60 * 60 * 1000)),
+        dedup: process.env.UPLOAD_DEDUP !== 'false',
+        cidIndexPath: process.env.UPLOAD_CID_INDEX || '.upload-cache/cid-index.json',
+        // Unsafe SVG content is removed before upload, or with SVG_POLICY=reject fails the upload
+        svgPolicy: process.env.SVG_POLICY === 'reject' ? 'reject' as const : 'sanitize' as const,
+        // Multipart requests: largest text part (the JSON payload), most text and file parts, largest file part
+        multipartFieldSize: parseInt(process.env.UPLOAD_MULTIPART_FIELD_SIZE || String(5 * 1024 * 1024)),
+        multipartFields: parseInt(process.env.UPLOAD_MULTIPART_FIELDS || '10'),
+        multipartFiles: parseInt(process.env.UPLOAD_MULTIPART_FILES || '100'),
+        multipartFileSize: parseInt(process.env.UPLOAD_MULTIPART_FILE_SIZE || String(50 * 1024 * 1024)),
+    };
+};
+
+// Registry of the pins this engine created (see src/lib/pins.ts); pins not on chain after the
+// grace period are orphans that may be unpinned
+export const getPinConfig = () => {
+    return {
+        registryPath: process.env.PIN_REGISTRY_PATH || '.upload-cache/pins.json',
+        orphanGraceMs: parseInt(process.env.PIN_ORPHAN_GRACE_MS || String(24 * 60 * 60 * 1000)),
+        reconcileBlockRange: BigInt(process.env.PIN_RECONCILE_BLOCK_RANGE || '10000'),
+        // The pin endpoints are refused unless this token is configured and sent as a Bearer token
+        adminToken: process.env.PIN_ADMIN_TOKEN,
+    };
+};
+
+// Local index of IP assets and their owners built from chain logs (see src/lib/asset-indexer.ts),
+// kept per network; it backfills from the start block (by default the block the IPAssetRegistry
+// was deployed in, see getStoryDeploymentBlock) and then follows the chain head
+export const getIndexerConfig = () => {
+    return {
+        databasePath: process.env.INDEXER_DB_PATH || `.indexer/${getNetwork()}.db`,
+        startBlock: process.env.INDEXER_START_BLOCK ? BigInt(process.env.INDEXER_START_BLOCK) : null,
+        blockRange: BigInt(process.env.INDEXER_BLOCK_RANGE || '10000'),
+        pollIntervalMs: parseInt(process.env.INDEXER_POLL_INTERVAL_MS || '15000'),
+        // Set to false where another process keeps the database current
+        enabled: process.env.INDEXER_ENABLED !== 'false',
+    };
+};
+
+// Search index (see src/lib/asset-search.ts): IP metadata documents fetched per poll, and how
+// many times a document that cannot be fetched or parsed is tried
+export const getSearchIndexConfig = () => {
+    return {
+        batchSize: parseInt(process.env.SEARCH_INDEX_BATCH_SIZE || '25'),
+        maxAttempts: parseInt(process.env.SEARCH_INDEX_MAX_ATTEMPTS || '3'),
+    };
+};
+
+// Transfer log scans that find the tokens an address owns in given collections (see
+// src/lib/nft-enumeration.ts): the first block scanned (by default the block the IPAssetRegistry was
+// deployed in) and the largest block range per query, halved while the RPC refuses it
+export const getNftScanConfig = () => {
+    return {
+        startBlock: process.env.NFT_SCAN_START_BLOCK ? BigInt(process.env.NFT_SCAN_START_BLOCK) : null,
+        maxBlockRange: BigInt(process.env.NFT_SCAN_MAX_BLOCK_RANGE || '100000'),
+    };
+};
+
+// How metadata URIs are written on chain: gateway URLs, or canonical ipfs://CID URIs
+export const IPFS_URI_FORMATS = ['gateway', 'ipfs'] as const;
+export type IpfsUriFormat = typeof IPFS_URI_FORMATS[number];
+
+// Gateway that CIDs resolve through (IPFS_GATEWAY_URL, then PINATA_GATEWAY_URL) and the on-chain URI format;
+// metadata is only fetched from a gateway on a private address, e.g. a local Kubo node, with IPFS_GATEWAY_ALLOW_PRIVATE
+export const getIPFSConfig = () => {
+    const uriFormat = (process.env.IPFS_URI_FORMAT || 'gateway') as IpfsUriFormat;
+    if (!IPFS_URI_FORMATS.includes(uriFormat)) {
+        throw new Error(`Invalid IPFS URI format: ${uriFormat}. Must be one of: ${IPFS_URI_FORMATS.join(', ')}`);
+    }
+
+    return {
+        gatewayUrl: (process.env.IPFS_GATEWAY_URL || process.env.PINATA_GATEWAY_URL || 'https://gateway.pinata.cloud').replace(/\/+$/, ''),
+        uriFormat,
+        allowPrivateGateway: process.env.IPFS_GATEWAY_ALLOW_PRIVATE === 'true',
+    };
+};
+
 export const getApiConfig = () => {
     return {
         rateLimitRequests: parseInt(process.env.API_RATE_LIMIT_REQUESTS || '100'),
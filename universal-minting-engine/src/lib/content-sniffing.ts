@@ -0,0 +1,240 @@
+// Bytes of a file's start that sniffing looks at; enough for every signature and an SVG prolog
+export const SNIFF_BYTES = 4096;
+
+// JSON is only parsed whole up to the document size limit
+const MAX_JSON_SNIFF_BYTES = 5 * 1024 * 1024;
+
+// Alternative names for supported types, as clients send them
+const MIME_TYPE_ALIASES: Record<string, string> = {
+    'image/jpg': 'image/jpeg',
+    'audio/mp3': 'audio/mpeg',
+    'video/avi': 'video/x-msvideo'
+};
+
+// Text formats that cannot be told from plain text by their content
+const PLAIN_TEXT_TYPES = ['text/plain', 'text/markdown', 'text/csv'];
+
+// ISO base media files: QuickTime and MP4 share the box structure and brands are often mixed
+const ISO_MEDIA_TYPES = ['video/mp4', 'video/quicktime'];
+
+// Control characters allowed in text: tab, line feed, form feed and carriage return
+const TEXT_CONTROL_CHARACTERS = [0x09, 0x0A, 0x0C, 0x0D];
+
+// Top-level atoms a QuickTime file may start with when it has no ftyp box
+const QUICKTIME_ATOMS = ['moov', 'mdat', 'wide', 'free', 'skip', 'pnot'];
+
+const ascii = (content: Buffer, start: number, end: number): string => content.subarray(start, end).toString('latin1');
+
+/**
+ * MIME type of a file from its content: binary formats by their signature, SVG by its
+ * root element and JSON by parsing it. Other UTF-8 text is reported as text/plain, and
+ * anything else as null. Only the first SNIFF_BYTES are needed, except to recognise JSON.
+ */
+export function sniffMimeType(content: Buffer): string | null {
+    return sniffBinary(content) ?? sniffText(content);
+}
+
+/**
+ * Whether content sniffed as sniffedType may be uploaded as claimedType. Plain text is
+ * compatible with every text format, and with JSON as long as the content seen was not
+ * the complete file (a truncated document does not parse).
+ */
+export function isSniffedTypeCompatible(claimedType: string, sniffedType: string, complete: boolean): boolean {
+    const claimed = normalizeMimeType(claimedType);
+    const sniffed = normalizeMimeType(sniffedType);
+
+    if (claimed === sniffed) {
+        return true;
+    }
+    if (ISO_MEDIA_TYPES.includes(claimed) && ISO_MEDIA_TYPES.includes(sniffed)) {
+        return true;
+    }
+    if (sniffed === 'text/plain') {
+        return PLAIN_TEXT_TYPES.includes(claimed) || (claimed === 'application/json' && !complete);
+    }
+    // JSON and SVG are text too
+    return claimed === 'text/plain' && (sniffed === 'application/json' || sniffed === 'image/svg+xml');
+}
+
+/**
+ * The canonical name of a MIME type, without parameters
+ */
+export function normalizeMimeType(mimeType: string): string {
+    const type = mimeType.split(';')[0].trim().toLowerCase();
+    return MIME_TYPE_ALIASES[type] || type;
+}
+
+function sniffBinary(content: Buffer): string | null {
+    if (content.length < 4) {
+        return null;
+    }
+
+    if (content[0] === 0xFF && content[1] === 0xD8 && content[2] === 0xFF) {
+        return 'image/jpeg';
+    }
+    if (content[0] === 0x89 && ascii(content, 1, 4) === 'PNG') {
+        return 'image/png';
+    }
+    if (ascii(content, 0, 6) === 'GIF87a' || ascii(content, 0, 6) === 'GIF89a') {
+        return 'image/gif';
+    }
+    if (ascii(content, 0, 5) === '%PDF-') {
+        return 'application/pdf';
+    }
+    if (ascii(content, 0, 4) === 'OggS') {
+        return 'audio/ogg';
+    }
+
+    // RIFF containers carry their form type after the chunk size
+    if (ascii(content, 0, 4) === 'RIFF') {
+        switch (ascii(content, 8, 12)) {
+            case 'WEBP': return 'image/webp';
+            case 'WAVE': return 'audio/wav';
+            case 'AVI ': return 'video/x-msvideo';
+            default: return null;
+        }
+    }
+
+    if (content[0] === 0x1A && content[1] === 0x45 && content[2] === 0xDF && content[3] === 0xA3) {
+        return readEbmlDocType(content) === 'webm' ? 'video/webm' : 'video/x-matroska';
+    }
+
+    // ISO base media boxes start with a 32-bit size; the leading box is small, which keeps text out
+    const boxType = content[0] === 0x00 ? ascii(content, 4, 8) : null;
+    if (boxType === 'ftyp') {
+        return ascii(content, 8, 12) === 'qt  ' ? 'video/quicktime' : 'video/mp4';
+    }
+    if (boxType && QUICKTIME_ATOMS.includes(boxType)) {
+        return 'video/quicktime';
+    }
+
+    if (ascii(content, 0, 3) === 'ID3') {
+        return 'audio/mpeg';
+    }
+    if (ascii(content, 0, 4) === 'ADIF') {
+        return 'audio/aac';
+    }
+    if (content[0] === 0xFF) {
+        return sniffAudioFrame(content);
+    }
+
+    return null;
+}
+
+// An MPEG audio frame or an AAC ADTS frame; both start with a 12-bit sync word, ADTS has layer 0
+function sniffAudioFrame(content: Buffer): string | null {
+    if ((content[1] & 0xF6) === 0xF0) {
+        const samplingIndex = (content[2] >> 2) & 0x0F;
+        return samplingIndex <= 12 ? 'audio/aac' : null;
+    }
+
+    if ((content[1] & 0xE0) !== 0xE0) {
+        return null;
+    }
+    const version = (content[1] >> 3) & 0x03;
+    const layer = (content[1] >> 1) & 0x03;
+    const bitrateIndex = content[2] >> 4;
+    const sampleRateIndex = (content[2] >> 2) & 0x03;
+    // Reserved values rule out a frame header
+    if (version === 1 || layer === 0 || bitrateIndex === 0x0F || sampleRateIndex === 3) {
+        return null;
+    }
+    return 'audio/mpeg';
+}
+
+// The DocType of an EBML header ("webm" or "matroska"), or null when it is not in the content seen
+function readEbmlDocType(content: Buffer): string | null {
+    const end = Math.min(content.length, 64);
+    for (let offset = 4; offset + 2 < end; offset++) {
+        // DocType element ID 0x4282 with a one-byte size
+        if (content[offset] === 0x42 && content[offset + 1] === 0x82 && (content[offset + 2] & 0x80)) {
+            const size = content[offset + 2] & 0x7F;
+            return ascii(content, offset + 3, offset + 3 + size);
+        }
+    }
+    return null;
+}
+
+function sniffText(content: Buffer): string | null {
+    const text = decodeText(content.subarray(0, SNIFF_BYTES));
+    if (text === null || text.length === 0) {
+        return null;
+    }
+
+    if (hasSvgRoot(text)) {
+        return 'image/svg+xml';
+    }
+    if (/^\s*[[{]/.test(text) && content.length <= MAX_JSON_SNIFF_BYTES && parsesAsJson(content)) {
+        return 'application/json';
+    }
+    return 'text/plain';
+}
+
+// The content as UTF-8 without a byte order mark, or null when it is not text. A character
+// cut off at the end of the sniffed bytes is not an error.
+function decodeText(content: Buffer): string | null {
+    let text: string;
+    try {
+        text = new TextDecoder('utf-8', { fatal: true }).decode(content, { stream: true });
+    } catch {
+        return null;
+    }
+    for (let index = 0; index < text.length; index++) {
+        const code = text.charCodeAt(index);
+        if ((code < 0x20 && !TEXT_CONTROL_CHARACTERS.includes(code)) || code === 0x7F) {
+            return null;
+        }
+    }
+    return text;
+}
+
+function parsesAsJson(content: Buffer): boolean {
+    try {
+        JSON.parse(content.toString('utf-8').replace(/^\uFEFF/, ''));
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Whether the document's root element is <svg>. The prolog (XML declaration, processing
+ * instructions, comments and a DOCTYPE) is skipped in one pass without expanding anything;
+ * a DOCTYPE with an internal subset may declare entities, so such documents are not SVG here.
+ */
+function hasSvgRoot(text: string): boolean {
+    let position = skipWhitespace(text, 0);
+
+    while (position < text.length) {
+        let end: number;
+        if (text.startsWith('<?', position)) {
+            end = text.indexOf('?>', position + 2);
+            position = end === -1 ? -1 : end + 2;
+        } else if (text.startsWith('<!--', position)) {
+            end = text.indexOf('-->', position + 4);
+            position = end === -1 ? -1 : end + 3;
+        } else if (text.startsWith('<!DOCTYPE', position)) {
+            end = text.indexOf('>', position);
+            if (end !== -1 && text.substring(position, end).includes('[')) {
+                return false;
+            }
+            position = end === -1 ? -1 : end + 1;
+        } else {
+            break;
+        }
+
+        if (position === -1) {
+            return false;
+        }
+        position = skipWhitespace(text, position);
+    }
+
+    return /^<svg[\s/>]/.test(text.substring(position, position + 5));
+}
+
+function skipWhitespace(text: string, position: number): number {
+    while (position < text.length && /\s/.test(text[position])) {
+        position++;
+    }
+    return position;
+}
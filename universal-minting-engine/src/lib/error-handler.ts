@@ -1,5 +1,9 @@
 import { NextResponse } from 'next/server';
-import { PrepareTransactionResponse } from '@/types';
+import { BatchMintFailure, PrepareTransactionResponse, PreparedTransactionStep } from '@/types';
+import { SimulationRevertedError } from '@/lib/simulation';
+import { CidMismatchError } from '@/lib/cid';
+import { ChunkedUploadError } from '@/lib/chunked-upload';
+import { MultipartLimitError } from '@/lib/security';
 
 /**
  * Error handling utilities for API endpoints
@@ -12,11 +16,16 @@ export enum ErrorCode {
     INVALID_ADDRESS = 'INVALID_ADDRESS',
     INVALID_METADATA = 'INVALID_METADATA',
     MISSING_REQUIRED_FIELD = 'MISSING_REQUIRED_FIELD',
+    UPLOAD_NOT_FOUND = 'UPLOAD_NOT_FOUND',
+    UPLOAD_INCOMPLETE = 'UPLOAD_INCOMPLETE',
+    CHUNK_HASH_MISMATCH = 'CHUNK_HASH_MISMATCH',
+    IP_NOT_FOUND = 'IP_NOT_FOUND',
 
     // External Service Errors (5xx - retryable)
     STORY_CLIENT_ERROR = 'STORY_CLIENT_ERROR',
     IPFS_UPLOAD_ERROR = 'IPFS_UPLOAD_ERROR',
     FILE_UPLOAD_ERROR = 'FILE_UPLOAD_ERROR',
+    CID_MISMATCH = 'CID_MISMATCH',
     NETWORK_ERROR = 'NETWORK_ERROR',
 
     // System Errors (5xx)
@@ -25,9 +34,13 @@ export enum ErrorCode {
     CONFIGURATION_ERROR = 'CONFIGURATION_ERROR',
     TRANSACTION_ERROR = 'TRANSACTION_ERROR',
     INSUFFICIENT_FUNDS = 'INSUFFICIENT_FUNDS',
+    SIMULATION_REVERTED = 'SIMULATION_REVERTED',
 
     // Rate Limiting (4xx)
-    RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED'
+    RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
+
+    // Authorization (4xx)
+    UNAUTHORIZED = 'UNAUTHORIZED'
 }
 
 export interface ErrorDetails {
@@ -87,6 +100,12 @@ const ERROR_DEFINITIONS: Record<ErrorCode, Omit<ErrorDetails, 'details'>> = {
         retryable: true,
         statusCode: 503
     },
+    [ErrorCode.CID_MISMATCH]: {
+        code: ErrorCode.CID_MISMATCH,
+        message: 'Storage provider returned an unexpected CID',
+        retryable: false,
+        statusCode: 502
+    },
     [ErrorCode.NETWORK_ERROR]: {
         code: ErrorCode.NETWORK_ERROR,
         message: 'Network connection failed',
@@ -125,6 +144,47 @@ const ERROR_DEFINITIONS: Record<ErrorCode, Omit<ErrorDetails, 'details'>> = {
         retryable: false,
         statusCode: 400
     },
+    [ErrorCode.SIMULATION_REVERTED]: {
+        code: ErrorCode.SIMULATION_REVERTED,
+        message: 'Transaction would revert on chain',
+        retryable: false,
+        statusCode: 400
+    },
+
+    [ErrorCode.IP_NOT_FOUND]: {
+        code: ErrorCode.IP_NOT_FOUND,
+        message: 'IP asset not found',
+        retryable: false,
+        statusCode: 404
+    },
+
+    // Chunked uploads
+    [ErrorCode.UPLOAD_NOT_FOUND]: {
+        code: ErrorCode.UPLOAD_NOT_FOUND,
+        message: 'Upload not found or expired',
+        retryable: false,
+        statusCode: 404
+    },
+    [ErrorCode.UPLOAD_INCOMPLETE]: {
+        code: ErrorCode.UPLOAD_INCOMPLETE,
+        message: 'Upload is missing chunks',
+        retryable: false,
+        statusCode: 409
+    },
+    [ErrorCode.CHUNK_HASH_MISMATCH]: {
+        code: ErrorCode.CHUNK_HASH_MISMATCH,
+        message: 'Chunk does not match its SHA-256',
+        retryable: true,
+        statusCode: 400
+    },
+
+    // Authorization
+    [ErrorCode.UNAUTHORIZED]: {
+        code: ErrorCode.UNAUTHORIZED,
+        message: 'Missing or invalid credentials',
+        retryable: false,
+        statusCode: 401
+    },
 
     // Rate Limiting
     [ErrorCode.RATE_LIMIT_EXCEEDED]: {
@@ -283,11 +343,17 @@ function getErrorCategory(errorCode: ErrorCode): string {
         case ErrorCode.INVALID_METADATA:
         case ErrorCode.MISSING_REQUIRED_FIELD:
         case ErrorCode.PARAMETER_ERROR:
+        case ErrorCode.SIMULATION_REVERTED:
+        case ErrorCode.UPLOAD_NOT_FOUND:
+        case ErrorCode.UPLOAD_INCOMPLETE:
+        case ErrorCode.CHUNK_HASH_MISMATCH:
+        case ErrorCode.IP_NOT_FOUND:
             return 'validation';
 
         case ErrorCode.STORY_CLIENT_ERROR:
         case ErrorCode.IPFS_UPLOAD_ERROR:
         case ErrorCode.FILE_UPLOAD_ERROR:
+        case ErrorCode.CID_MISMATCH:
         case ErrorCode.NETWORK_ERROR:
             return 'external_service';
 
@@ -299,6 +365,9 @@ function getErrorCategory(errorCode: ErrorCode): string {
         case ErrorCode.RATE_LIMIT_EXCEEDED:
             return 'rate_limiting';
 
+        case ErrorCode.UNAUTHORIZED:
+            return 'authorization';
+
         default:
             return 'unknown';
     }
@@ -320,6 +389,62 @@ export function handleValidationError(
     );
 }
 
+/**
+ * Handle license terms that cannot be mapped onto valid PIL terms
+ */
+export function handleLicenseTermsError(
+    fieldErrors: Array<{ field: string; message: string }>,
+    endpoint: string
+): NextResponse<PrepareTransactionResponse> {
+    const validationError = fieldErrors.map(error => `licenseTerms.${error.field}: ${error.message}`).join('; ');
+    const requestId = logError(endpoint, ErrorCode.VALIDATION_ERROR, validationError);
+
+    return createErrorNextResponse(
+        ErrorCode.VALIDATION_ERROR,
+        'Invalid license terms',
+        { validationError, fieldErrors, requestId }
+    );
+}
+
+/**
+ * Handle a batch mint in which no item could be prepared
+ */
+export function handleBatchMintError(
+    failures: BatchMintFailure[],
+    endpoint: string
+): NextResponse<PrepareTransactionResponse> {
+    const allInvalid = failures.every(failure => failure.code === ErrorCode.VALIDATION_ERROR);
+    const errorCode = allInvalid ? ErrorCode.VALIDATION_ERROR : ErrorCode.IPFS_UPLOAD_ERROR;
+    const requestId = logError(endpoint, errorCode, `All ${failures.length} batch items failed`);
+
+    return createErrorNextResponse(
+        errorCode,
+        allInvalid ? 'Invalid batch items' : 'Failed to prepare any batch item',
+        { failures, requestId }
+    );
+}
+
+/**
+ * Handle a storage provider answering with a CID other than the one computed locally
+ */
+function handleCidMismatchError(
+    error: CidMismatchError,
+    endpoint: string
+): NextResponse<PrepareTransactionResponse> {
+    const requestId = logError(endpoint, ErrorCode.CID_MISMATCH, error, { filename: error.filename });
+
+    return createErrorNextResponse(
+        ErrorCode.CID_MISMATCH,
+        `Storage provider returned an unexpected CID for ${error.filename}`,
+        {
+            filename: error.filename,
+            expectedCid: error.expected,
+            actualCid: error.actual,
+            requestId
+        }
+    );
+}
+
 /**
  * Handle IPFS upload errors
  */
@@ -328,6 +453,10 @@ export function handleIPFSError(
     endpoint: string,
     operation: string = 'upload'
 ): NextResponse<PrepareTransactionResponse> {
+    if (error instanceof CidMismatchError) {
+        return handleCidMismatchError(error, endpoint);
+    }
+
     const requestId = logError(endpoint, ErrorCode.IPFS_UPLOAD_ERROR, error, { operation });
 
     return createErrorNextResponse(
@@ -370,6 +499,10 @@ export function handleFileUploadError(
     endpoint: string,
     filename?: string
 ): NextResponse<PrepareTransactionResponse> {
+    if (error instanceof CidMismatchError) {
+        return handleCidMismatchError(error, endpoint);
+    }
+
     const requestId = logError(endpoint, ErrorCode.FILE_UPLOAD_ERROR, error, { filename });
 
     return createErrorNextResponse(
@@ -391,6 +524,11 @@ export function handleTransactionError(
     endpoint: string,
     operation: string = 'build transaction'
 ): NextResponse<PrepareTransactionResponse> {
+    // Gas estimation reports a certain revert like simulation does
+    if (error instanceof SimulationRevertedError) {
+        return handleSimulationError(error, endpoint);
+    }
+
     const requestId = logError(endpoint, ErrorCode.TRANSACTION_ERROR, error, { operation });
 
     return createErrorNextResponse(
@@ -404,6 +542,78 @@ export function handleTransactionError(
     );
 }
 
+/**
+ * Handle failures of the pre-flight eth_call simulation, reporting the decoded revert reason
+ */
+export function handleSimulationError(
+    error: unknown,
+    endpoint: string
+): NextResponse<PrepareTransactionResponse> {
+    if (!(error instanceof SimulationRevertedError)) {
+        return handleTransactionError(error, endpoint, 'simulate transaction');
+    }
+
+    const requestId = logError(endpoint, ErrorCode.SIMULATION_REVERTED, error, {
+        step: error.step,
+        errorName: error.revert.errorName
+    });
+
+    return createErrorNextResponse(
+        ErrorCode.SIMULATION_REVERTED,
+        `Transaction step ${error.step} would revert with ${error.revert.errorName}`,
+        {
+            step: error.step,
+            description: error.description,
+            to: error.to,
+            errorName: error.revert.errorName,
+            args: error.revert.args,
+            revertData: error.revert.data,
+            requestId
+        }
+    );
+}
+
+const CHUNKED_UPLOAD_ERROR_CODES: Record<ChunkedUploadError['reason'], ErrorCode> = {
+    not_found: ErrorCode.UPLOAD_NOT_FOUND,
+    invalid: ErrorCode.VALIDATION_ERROR,
+    hash_mismatch: ErrorCode.CHUNK_HASH_MISMATCH,
+    incomplete: ErrorCode.UPLOAD_INCOMPLETE
+};
+
+/**
+ * Error code for a failed upload of a request's files, for reporting it per batch item
+ */
+export function getUploadErrorCode(error: unknown): ErrorCode {
+    if (error instanceof CidMismatchError) {
+        return ErrorCode.CID_MISMATCH;
+    }
+    if (error instanceof ChunkedUploadError) {
+        return CHUNKED_UPLOAD_ERROR_CODES[error.reason];
+    }
+    return ErrorCode.IPFS_UPLOAD_ERROR;
+}
+
+/**
+ * Handle chunked upload failures; anything else is reported as a file upload error
+ */
+export function handleChunkedUploadError(
+    error: unknown,
+    endpoint: string
+): NextResponse<PrepareTransactionResponse> {
+    if (!(error instanceof ChunkedUploadError)) {
+        return handleFileUploadError(error, endpoint);
+    }
+
+    const errorCode = CHUNKED_UPLOAD_ERROR_CODES[error.reason];
+    const requestId = logError(endpoint, errorCode, error, error.details);
+
+    return createErrorNextResponse(
+        errorCode,
+        error.message,
+        { ...error.details, requestId }
+    );
+}
+
 /**
  * Handle unexpected internal errors
  */
@@ -412,6 +622,11 @@ export function handleInternalError(
     endpoint: string,
     context?: Record<string, any>
 ): NextResponse<PrepareTransactionResponse> {
+    // A multipart body over the limits is the client's error, thrown while the route reads its body
+    if (error instanceof MultipartLimitError) {
+        return handleValidationError(error.message, endpoint);
+    }
+
     const requestId = logError(endpoint, ErrorCode.INTERNAL_ERROR, error, context);
 
     return createErrorNextResponse(
@@ -488,6 +703,9 @@ export function isInsufficientFundsError(error: any): boolean {
 
 /**
  * Create a successful response with proper formatting
+ * When the operation needs several transactions (e.g. an ERC-20 approval before the
+ * main call), `transactions` lists them in signing order and `transaction` is the main call.
+ * Batch responses leave out `metadata` and report it per item in `additionalData`.
  */
 export function createSuccessResponse(
     transaction: {
@@ -496,24 +714,23 @@ export function createSuccessResponse(
         value: string;
         gasEstimate?: string;
     },
-    metadata: {
-        ipfsHash: string;
-        ipHash: string;
-        nftIpfsHash: string;
-        nftHash: string;
-    },
+    metadata: PrepareTransactionResponse['metadata'],
     uploadedFiles?: Array<{
         filename: string;
         ipfsHash: string;
         purpose: string;
         url: string;
+        deduplicated?: boolean;
+        sanitized?: string[];
     }>,
-    additionalData?: Record<string, any>
+    additionalData?: Record<string, any>,
+    transactions?: PreparedTransactionStep[]
 ): NextResponse<PrepareTransactionResponse> {
     const response: PrepareTransactionResponse = {
         success: true,
         transaction,
-        metadata,
+        ...(transactions && transactions.length > 0 && { transactions }),
+        ...(metadata && { metadata }),
         uploadedFiles: uploadedFiles && uploadedFiles.length > 0 ? uploadedFiles : undefined,
         ...(additionalData && { additionalData })
     };
@@ -541,6 +758,9 @@ export function getRetryGuidance(errorCode: ErrorCode): string {
         case ErrorCode.FILE_UPLOAD_ERROR:
             return 'Retry the upload. If the problem persists, check file size and format requirements.';
 
+        case ErrorCode.CID_MISMATCH:
+            return 'The stored content does not match what was sent. Check the storage provider configuration (CID version, chunking) before retrying.';
+
         case ErrorCode.RATE_LIMIT_EXCEEDED:
             return 'Wait before retrying. Implement exponential backoff for best results.';
 
@@ -553,6 +773,24 @@ export function getRetryGuidance(errorCode: ErrorCode): string {
         case ErrorCode.TRANSACTION_ERROR:
             return 'Retry the transaction preparation. If the problem persists, check the request parameters.';
 
+        case ErrorCode.UPLOAD_NOT_FOUND:
+            return 'Start a new upload with POST /api/uploads; staged uploads expire after a day.';
+
+        case ErrorCode.UPLOAD_INCOMPLETE:
+            return 'Send the chunks listed in details.missingChunks, then complete the upload again.';
+
+        case ErrorCode.IP_NOT_FOUND:
+            return 'Check the IP ID and network; the IPAssetRegistry has no IP asset at that address.';
+
+        case ErrorCode.CHUNK_HASH_MISMATCH:
+            return 'Resend the chunk; it was corrupted in transit or hashed incorrectly.';
+
+        case ErrorCode.SIMULATION_REVERTED:
+            return 'Resolve the reported revert reason (balances, approvals, ownership or parameters) before retrying.';
+
+        case ErrorCode.UNAUTHORIZED:
+            return 'Send the configured admin token as an Authorization: Bearer header.';
+
         default:
             return 'Check the error details and retry if appropriate.';
     }
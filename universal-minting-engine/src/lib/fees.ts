@@ -0,0 +1,85 @@
+import { getAddress, PublicClient } from 'viem';
+import { getNetworkConfig } from '@/lib/config';
+import { FeeSuggestion, FeeTier, PreparedTransaction } from '@/types';
+
+// Number of recent blocks sampled with eth_feeHistory
+const FEE_HISTORY_BLOCKS = 10;
+
+/**
+ * Per tier: the priority fee percentile paid in recent blocks, and the headroom over the
+ * next block's base fee (as a percentage) so the transaction stays valid while base fees rise.
+ * A full block raises the base fee by 12.5%, so 125% survives about two full blocks.
+ */
+const FEE_TIER_SETTINGS: Record<FeeTier, { rewardPercentile: number; baseFeePercent: bigint }> = {
+    slow: { rewardPercentile: 10, baseFeePercent: BigInt(125) },
+    normal: { rewardPercentile: 50, baseFeePercent: BigInt(150) },
+    fast: { rewardPercentile: 90, baseFeePercent: BigInt(200) },
+};
+
+export const FEE_TIERS = Object.keys(FEE_TIER_SETTINGS) as FeeTier[];
+
+const median = (values: bigint[]): bigint => {
+    if (values.length === 0) {
+        return BigInt(0);
+    }
+    const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Suggest EIP-1559 fees for the slow, normal and fast tiers from eth_feeHistory:
+ * the median of each tier's priority fee percentile over recent blocks, on top of
+ * the next block's base fee with the tier's headroom
+ */
+export const getFeeSuggestions = async (publicClient: PublicClient): Promise<Record<FeeTier, FeeSuggestion>> => {
+    const history = await publicClient.getFeeHistory({
+        blockCount: FEE_HISTORY_BLOCKS,
+        blockTag: 'latest',
+        rewardPercentiles: FEE_TIERS.map(tier => FEE_TIER_SETTINGS[tier].rewardPercentile),
+    });
+    const nextBaseFee = history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? BigInt(0);
+
+    return Object.fromEntries(FEE_TIERS.map((tier, index) => {
+        const maxPriorityFeePerGas = median((history.reward ?? []).map(rewards => rewards[index] ?? BigInt(0)));
+        const maxFeePerGas = (nextBaseFee * FEE_TIER_SETTINGS[tier].baseFeePercent) / BigInt(100) + maxPriorityFeePerGas;
+        return [tier, {
+            maxFeePerGas: maxFeePerGas.toString(),
+            maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+        }];
+    })) as Record<FeeTier, FeeSuggestion>;
+};
+
+/**
+ * Add the chain ID, sequential nonces from the sender's pending count and fee suggestions
+ * to a sequence of prepared transactions. The normal tier fills maxFeePerGas and
+ * maxPriorityFeePerGas; all tiers are listed under feeTiers.
+ * Lookups that fail are left out so the wallet fills them in itself.
+ */
+export const addTransactionParams = async <T extends PreparedTransaction>(
+    publicClient: PublicClient,
+    from: string,
+    transactions: T[]
+): Promise<T[]> => {
+    const [fees, nonce] = await Promise.all([
+        getFeeSuggestions(publicClient).catch(error => {
+            console.warn('Fee history lookup failed, leaving fees to the wallet:', error);
+            return undefined;
+        }),
+        publicClient.getTransactionCount({ address: getAddress(from.toLowerCase()), blockTag: 'pending' }).catch(error => {
+            console.warn('Nonce lookup failed, leaving the nonce to the wallet:', error);
+            return undefined;
+        }),
+    ]);
+    const chainId = getNetworkConfig().chain.id;
+
+    return transactions.map((transaction, index) => ({
+        ...transaction,
+        chainId,
+        ...(nonce !== undefined && { nonce: nonce + index }),
+        ...(fees && {
+            maxFeePerGas: fees.normal.maxFeePerGas,
+            maxPriorityFeePerGas: fees.normal.maxPriorityFeePerGas,
+            feeTiers: fees,
+        }),
+    }));
+};
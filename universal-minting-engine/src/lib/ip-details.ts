@@ -0,0 +1,240 @@
+import { createHash } from 'crypto';
+import { Address, decodeAbiParameters, erc721Abi, getAddress, Hex, hexToString, pad, PublicClient, stringToHex, zeroAddress, zeroHash } from 'viem';
+import { getDerivativeLinks, getIndexedAssets, getIndexedBlock, getIndexedMetadata, IndexedMetadata } from '@/lib/asset-indexer';
+import { getNetworkConfig } from '@/lib/config';
+import { resolveIPFSUri } from '@/lib/ipfs';
+import { fromPILTerms } from '@/lib/license-terms';
+import { fetchMetadata } from '@/lib/metadata-fetch';
+import { generateMetadataHash } from '@/lib/metadata-builders';
+import {
+    disputeModuleAbi,
+    ipAccountStorageAbi,
+    ipAccountTokenAbi,
+    ipAssetRegistryAbi,
+    licenseRegistryAbi,
+    piLicenseTemplateAbi,
+    royaltyModuleAbi
+} from '@/lib/story-abis';
+import { getStoryContracts } from '@/lib/story-contracts';
+import { LicenseTermsConfig } from '@/types';
+
+// Keys the CoreMetadataModule stores metadata under in its namespace of the IP account storage
+const METADATA_URI = stringToHex('METADATA_URI', { size: 32 });
+const METADATA_HASH = stringToHex('METADATA_HASH', { size: 32 });
+const NFT_TOKEN_URI = stringToHex('NFT_TOKEN_URI', { size: 32 });
+const NFT_METADATA_HASH = stringToHex('NFT_METADATA_HASH', { size: 32 });
+
+type MetadataPointer = Pick<IndexedMetadata, 'uri' | 'hash'>;
+
+/**
+ * License terms attached to an IP asset; terms are decoded when the template is the PILicenseTemplate
+ */
+export interface AttachedLicenseTerms {
+    licenseTemplate: Address;
+    licenseTermsId: string;
+    terms: LicenseTermsConfig | null;
+}
+
+/**
+ * Metadata set on an IP asset, fetched and checked against the hash recorded on chain. Integrity
+ * is unavailable when there is no hash to check or the document could not be fetched.
+ */
+export interface VerifiedMetadata {
+    uri: string;
+    url: string;
+    onChainHash: Hex;
+    computedHash: Hex | null;
+    integrity: 'ok' | 'mismatch' | 'unavailable';
+    metadata: unknown;
+    error?: string;
+}
+
+/**
+ * An IP asset as read from chain and the asset index
+ */
+export interface IpAssetDetails {
+    ipId: Address;
+    owner: Address | null;
+    chainId: string;
+    nftContract: Address;
+    tokenId: string;
+    name: string | null;
+    // Null until the asset index has the registration
+    registration: { blockNumber: number; timestamp: number } | null;
+    licenseTerms: AttachedLicenseTerms[];
+    royaltyVault: Address | null;
+    dispute: { tagged: boolean };
+    parentsCount: number;
+    childrenCount: number;
+    ipMetadata: VerifiedMetadata | null;
+    nftMetadata: VerifiedMetadata | null;
+    indexedBlock: string | null;
+}
+
+/**
+ * Look up an IP asset: the NFT it is bound to and its owner, attached license terms, royalty vault,
+ * dispute tag and metadata from chain; its registration and derivative links from the asset index.
+ * Returns null when the IPAssetRegistry has no such IP asset.
+ */
+export async function getIpAssetDetails(publicClient: PublicClient, ipId: string): Promise<IpAssetDetails | null> {
+    const address = getAddress(ipId.toLowerCase());
+    const { ipAssetRegistry, disputeModule, royaltyModule } = getStoryContracts();
+
+    const registered = await publicClient.readContract({
+        address: ipAssetRegistry,
+        abi: ipAssetRegistryAbi,
+        functionName: 'isRegistered',
+        args: [address]
+    });
+    if (!registered) {
+        return null;
+    }
+
+    const [[chainId, nftContract, tokenId], licenseTerms, royaltyVault, tagged, { ip, nft }] = await Promise.all([
+        publicClient.readContract({ address, abi: ipAccountTokenAbi, functionName: 'token' }),
+        getAttachedLicenseTerms(publicClient, address),
+        publicClient.readContract({ address: royaltyModule, abi: royaltyModuleAbi, functionName: 'ipRoyaltyVaults', args: [address] }),
+        publicClient.readContract({ address: disputeModule, abi: disputeModuleAbi, functionName: 'isIpTagged', args: [address] }),
+        readMetadata(publicClient, address)
+    ]);
+
+    const [indexed] = getIndexedAssets([address]);
+    const [owner, ipMetadata, nftMetadata] = await Promise.all([
+        // The NFT of an IP asset registered from another chain is not readable here
+        chainId === BigInt(getNetworkConfig().chain.id) ? readOwner(publicClient, nftContract, tokenId) : Promise.resolve(null),
+        ip ? verifyMetadata(ip) : Promise.resolve(null),
+        nft ? verifyMetadata(nft) : Promise.resolve(null)
+    ]);
+
+    return {
+        ipId: address,
+        owner: owner ?? indexed?.owner ?? null,
+        chainId: chainId.toString(),
+        nftContract: getAddress(nftContract),
+        tokenId: tokenId.toString(),
+        name: indexed?.name || null,
+        registration: indexed ? { blockNumber: indexed.blockNumber, timestamp: indexed.blockTimestamp } : null,
+        licenseTerms,
+        royaltyVault: royaltyVault === zeroAddress ? null : royaltyVault,
+        dispute: { tagged },
+        parentsCount: getDerivativeLinks([address], 'parents').length,
+        childrenCount: getDerivativeLinks([address], 'children').length,
+        ipMetadata,
+        nftMetadata,
+        indexedBlock: getIndexedBlock()
+    };
+}
+
+async function getAttachedLicenseTerms(publicClient: PublicClient, ipId: Address): Promise<AttachedLicenseTerms[]> {
+    const { licenseRegistry, piLicenseTemplate } = getStoryContracts();
+    const count = await publicClient.readContract({
+        address: licenseRegistry,
+        abi: licenseRegistryAbi,
+        functionName: 'getAttachedLicenseTermsCount',
+        args: [ipId]
+    });
+
+    return Promise.all(Array.from({ length: Number(count) }, async (_, index) => {
+        const [licenseTemplate, licenseTermsId] = await publicClient.readContract({
+            address: licenseRegistry,
+            abi: licenseRegistryAbi,
+            functionName: 'getAttachedLicenseTerms',
+            args: [ipId, BigInt(index)]
+        });
+        const terms = licenseTemplate === piLicenseTemplate
+            ? fromPILTerms(await publicClient.readContract({
+                address: piLicenseTemplate,
+                abi: piLicenseTemplateAbi,
+                functionName: 'getLicenseTerms',
+                args: [licenseTermsId]
+            }))
+            : null;
+        return { licenseTemplate, licenseTermsId: licenseTermsId.toString(), terms };
+    }));
+}
+
+/**
+ * The IP and NFT metadata URIs and hashes the CoreMetadataModule last set, from the IP account
+ * storage, null when never set. The asset index, which follows the module's logs, is used when the
+ * storage cannot be read.
+ */
+async function readMetadata(publicClient: PublicClient, ipId: Address): Promise<{ ip: MetadataPointer | null; nft: MetadataPointer | null }> {
+    const namespace = pad(getStoryContracts().coreMetadataModule);
+    try {
+        const [[ipUri, nftUri], [ipHash, nftHash]] = await Promise.all([
+            publicClient.readContract({
+                address: ipId,
+                abi: ipAccountStorageAbi,
+                functionName: 'getBytesBatch',
+                args: [[namespace, namespace], [METADATA_URI, NFT_TOKEN_URI]]
+            }),
+            publicClient.readContract({
+                address: ipId,
+                abi: ipAccountStorageAbi,
+                functionName: 'getBytes32Batch',
+                args: [[namespace, namespace], [METADATA_HASH, NFT_METADATA_HASH]]
+            })
+        ]);
+        const pointer = (uri: string, hash: Hex): MetadataPointer | null => uri ? { uri, hash } : null;
+        return { ip: pointer(decodeStoredString(ipUri), ipHash), nft: pointer(decodeStoredString(nftUri), nftHash) };
+    } catch (error) {
+        console.warn(`Failed to read the metadata of ${ipId} from its IP account, using the asset index:`, error);
+        return getIndexedMetadata(ipId);
+    }
+}
+
+// Strings are stored ABI-encoded; bytes that do not decode are taken as UTF-8
+function decodeStoredString(value: Hex): string {
+    if (value === '0x') {
+        return '';
+    }
+    try {
+        return decodeAbiParameters([{ type: 'string' }], value)[0];
+    } catch {
+        return hexToString(value);
+    }
+}
+
+async function readOwner(publicClient: PublicClient, nftContract: Address, tokenId: bigint): Promise<Address | null> {
+    try {
+        return await publicClient.readContract({ address: nftContract, abi: erc721Abi, functionName: 'ownerOf', args: [tokenId] });
+    } catch (error) {
+        console.warn(`Failed to read the owner of token ${tokenId} of ${nftContract}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Fetch the metadata and recompute its hash. The engine hashes metadata with generateMetadataHash
+ * while other clients hash the uploaded bytes, so either matching the on-chain hash is ok. Only a
+ * body that parses as a JSON object is returned as metadata.
+ */
+async function verifyMetadata({ uri, hash }: MetadataPointer): Promise<VerifiedMetadata> {
+    const result: VerifiedMetadata = { uri, url: resolveIPFSUri(uri), onChainHash: hash, computedHash: null, integrity: 'unavailable', metadata: null };
+
+    let body: Buffer;
+    try {
+        body = await fetchMetadata(uri);
+    } catch (error) {
+        return { ...result, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const bytesHash: Hex = `0x${createHash('sha256').update(body).digest('hex')}`;
+    let metadata: Record<string, unknown> | null = null;
+    let engineHash: Hex | null = null;
+    try {
+        const parsed: unknown = JSON.parse(body.toString('utf-8'));
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+            metadata = parsed as Record<string, unknown>;
+            engineHash = `0x${generateMetadataHash(parsed as Parameters<typeof generateMetadataHash>[0])}`;
+        }
+    } catch {
+        // Not JSON; only the bytes can be hashed
+    }
+
+    if (hash === zeroHash) {
+        return { ...result, computedHash: bytesHash, metadata, error: 'No metadata hash is recorded on chain' };
+    }
+    const computedHash = engineHash === hash ? engineHash : bytesHash;
+    return { ...result, computedHash, integrity: computedHash === hash ? 'ok' : 'mismatch', metadata };
+}
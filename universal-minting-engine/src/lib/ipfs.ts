@@ -1,7 +1,16 @@
 import axios from 'axios';
-import FormData from 'form-data';
 import { createHash } from 'crypto';
-import { getPinataConfig } from '@/lib/config';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { ReadableStream as NodeReadableStream } from 'stream/web';
+import { CidMismatchError, computeCids, computeStreamCids, ContentCids } from '@/lib/cid';
+import { getIPFSConfig, getUploadConfig } from '@/lib/config';
+import { isSniffedTypeCompatible, sniffMimeType, SNIFF_BYTES } from '@/lib/content-sniffing';
+import { PinPurpose, recordPin } from '@/lib/pins';
+import { getStorageProvider } from '@/lib/storage';
+import { sanitizeSvg, SvgParseError } from '@/lib/svg-sanitizer';
+import { uploadDeduplicated } from '@/lib/upload-cache';
+import { MultipartFile } from '@/types';
 
 export interface FileUpload {
     data: string;              // Base64 encoded file data
@@ -15,6 +24,8 @@ export interface UploadedFile {
     ipfsHash: string;
     purpose: string;
     url: string;
+    deduplicated?: boolean;    // An earlier upload of the same content is still pinned and was reused
+    sanitized?: string[];      // Unsafe SVG content removed before upload
 }
 
 export interface FileValidationResult {
@@ -22,6 +33,9 @@ export interface FileValidationResult {
     error?: string;
     detectedMimeType?: string;
     fileSize?: number;
+    // SVGs only: the content to upload in place of the file, and what was removed from it
+    sanitizedContent?: Buffer;
+    sanitized?: string[];
 }
 
 // File size limits (in bytes)
@@ -68,32 +82,37 @@ export const SUPPORTED_MIME_TYPES = {
 };
 
 /**
- * Upload JSON metadata to IPFS using Pinata
+ * Serialize JSON exactly as it is uploaded, so its CID can be computed offline
  */
-export async function uploadJSONToIPFS(jsonMetadata: any, name: string = 'metadata.json'): Promise<string> {
-    const { jwt } = getPinataConfig();
+export function serializeJSON(jsonMetadata: unknown): Buffer {
+    return Buffer.from(JSON.stringify(jsonMetadata), 'utf-8');
+}
 
-    if (!jwt) {
-        throw new Error('PINATA_JWT environment variable is required');
+const verifyCid = (filename: string, expected: ContentCids, cid: string): string => {
+    if (cid !== expected.v0 && cid !== expected.v1) {
+        throw new CidMismatchError(filename, expected, cid);
     }
+    return cid;
+};
 
-    const url = 'https://api.pinata.cloud/pinning/pinJSONToIPFS';
-    const options = {
-        method: 'POST',
-        headers: {
-            Authorization: `Bearer ${jwt}`,
-            'Content-Type': 'application/json',
-        },
-        data: {
-            pinataOptions: { cidVersion: 0 },
-            pinataMetadata: { name },
-            pinataContent: jsonMetadata,
-        },
-    };
+/**
+ * Upload content through the configured storage provider and check the CID it returns
+ * against the CIDv0 and CIDv1 computed locally, throwing CidMismatchError on a difference.
+ * The pin is recorded in the pin registry for the current request.
+ */
+async function uploadVerified(content: Buffer, filename: string, contentType: string, purpose: PinPurpose): Promise<string> {
+    const expected = computeCids(content);
+    const cid = verifyCid(filename, expected, await getStorageProvider().uploadFile(content, filename, contentType));
+    await recordPin(cid, { filename, purpose });
+    return cid;
+}
 
+/**
+ * Upload JSON metadata to IPFS through the configured storage provider
+ */
+export async function uploadJSONToIPFS(jsonMetadata: any, name: string = 'metadata.json', purpose: PinPurpose = 'metadata'): Promise<string> {
     try {
-        const response = await axios(url, options);
-        return response.data.IpfsHash;
+        return await uploadVerified(serializeJSON(jsonMetadata), name, 'application/json', purpose);
     } catch (error) {
         console.error('Error uploading JSON to IPFS:', error);
         throw error;
@@ -101,32 +120,11 @@ export async function uploadJSONToIPFS(jsonMetadata: any, name: string = 'metada
 }
 
 /**
- * Upload text content to IPFS using Pinata
+ * Upload text content to IPFS through the configured storage provider
  */
-export async function uploadTextToIPFS(text: string, filename: string = 'file.txt'): Promise<string> {
-    const { jwt } = getPinataConfig();
-
-    if (!jwt) {
-        throw new Error('PINATA_JWT environment variable is required');
-    }
-
-    const url = 'https://api.pinata.cloud/pinning/pinFileToIPFS';
-    const data = new FormData();
-    const buffer = Buffer.from(text, 'utf-8');
-    data.append('file', buffer, { filename, contentType: 'text/plain' });
-
-    const options = {
-        method: 'POST',
-        headers: {
-            Authorization: `Bearer ${jwt}`,
-            ...data.getHeaders(),
-        },
-        data: data,
-    };
-
+export async function uploadTextToIPFS(text: string, filename: string = 'file.txt', purpose: PinPurpose = 'attachment'): Promise<string> {
     try {
-        const response = await axios(url, options);
-        return response.data.IpfsHash;
+        return await uploadVerified(Buffer.from(text, 'utf-8'), filename, 'text/plain', purpose);
     } catch (error) {
         console.error('Error uploading text to IPFS:', error);
         throw error;
@@ -134,57 +132,114 @@ export async function uploadTextToIPFS(text: string, filename: string = 'file.tx
 }
 
 /**
- * Upload file buffer to IPFS using Pinata
+ * Upload file buffer to IPFS through the configured storage provider
  */
 export async function uploadFileToIPFS(
     fileBuffer: Buffer,
     filename: string,
-    contentType: string
+    contentType: string,
+    purpose: PinPurpose = 'media'
 ): Promise<string> {
-    const { jwt } = getPinataConfig();
-
-    if (!jwt) {
-        throw new Error('PINATA_JWT environment variable is required');
+    try {
+        return await uploadVerified(fileBuffer, filename, contentType, purpose);
+    } catch (error) {
+        console.error('Error uploading file to IPFS:', error);
+        throw error;
     }
+}
 
-    const url = 'https://api.pinata.cloud/pinning/pinFileToIPFS';
-    const data = new FormData();
-    data.append('file', fileBuffer, { filename, contentType });
-
-    const options = {
-        method: 'POST',
-        headers: {
-            Authorization: `Bearer ${jwt}`,
-            ...data.getHeaders(),
-        },
-        data: data,
-    };
-
+/**
+ * Stream a file from disk to IPFS through the configured storage provider, verifying its CID.
+ * Used for staged chunked uploads, which may be too large to hold in memory.
+ */
+export async function uploadFileFromPathToIPFS(
+    filePath: string,
+    filename: string,
+    contentType: string,
+    purpose: PinPurpose = 'media'
+): Promise<string> {
     try {
-        const response = await axios(url, options);
-        return response.data.IpfsHash;
+        const expected = await computeStreamCids(createReadStream(filePath));
+        const cid = verifyCid(filename, expected, await getStorageProvider().uploadFile(createReadStream(filePath), filename, contentType));
+        await recordPin(cid, { filename, purpose });
+        return cid;
     } catch (error) {
-        console.error('Error uploading file to IPFS:', error);
+        console.error('Error uploading staged file to IPFS:', error);
         throw error;
     }
 }
 
 /**
- * Upload video file to IPFS using Pinata
+ * Read a Blob as a Node.js stream, for hashing or uploading it without buffering
  */
-export async function uploadVideoToIPFS(
-    videoBuffer: Buffer,
-    filename: string
+export function blobToStream(blob: Blob): Readable {
+    return Readable.fromWeb(blob.stream() as NodeReadableStream<Uint8Array>);
+}
+
+/**
+ * Stream a Blob, such as a multipart file part, to IPFS through the configured storage
+ * provider without buffering it as base64, verifying its CID
+ */
+export async function uploadBlobToIPFS(
+    blob: Blob,
+    filename: string,
+    contentType: string,
+    purpose: PinPurpose = 'media'
 ): Promise<string> {
-    const { jwt } = getPinataConfig();
+    try {
+        const expected = await computeStreamCids(blobToStream(blob));
+        const cid = verifyCid(filename, expected, await getStorageProvider().uploadFile(blobToStream(blob), filename, contentType));
+        await recordPin(cid, { filename, purpose });
+        return cid;
+    } catch (error) {
+        console.error('Error uploading file part to IPFS:', error);
+        throw error;
+    }
+}
 
-    if (!jwt) {
-        throw new Error('PINATA_JWT environment variable is required');
+/**
+ * Validate a multipart file part and upload it, the streamed counterpart of uploadMultipleFilesToIPFS
+ */
+export async function uploadMultipartFileToIPFS(part: MultipartFile): Promise<UploadedFile> {
+    const validation = await validateBlob(part.file, part.filename, part.contentType);
+    if (!validation.isValid) {
+        throw new Error(`File validation failed:\n${part.filename}: ${validation.error || 'Validation failed'}`);
     }
 
-    const url = 'https://api.pinata.cloud/pinning/pinFileToIPFS';
-    const data = new FormData();
+    try {
+        const contentType = validation.detectedMimeType || part.contentType;
+        const sanitized = validation.sanitizedContent;
+        const { cid: ipfsHash, deduplicated } = await uploadDeduplicated(
+            sanitized ? createContentHash(sanitized) : await createBlobContentHash(part.file),
+            () => sanitized
+                ? uploadFileToIPFS(sanitized, part.filename, contentType, part.purpose)
+                : uploadBlobToIPFS(part.file, part.filename, contentType, part.purpose),
+            part
+        );
+        return {
+            filename: part.filename,
+            ipfsHash,
+            purpose: part.purpose,
+            url: getIPFSUrl(ipfsHash),
+            deduplicated,
+            ...(validation.sanitized && { sanitized: validation.sanitized })
+        };
+    } catch (error) {
+        if (error instanceof CidMismatchError) {
+            throw error;
+        }
+        throw new Error(`Failed to upload ${part.filename}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
 
+/**
+ * Upload video file to IPFS through the configured storage provider
+ */
+export async function uploadVideoToIPFS(
+    videoBuffer: Buffer,
+    filename: string,
+    purpose: PinPurpose = 'media'
+): Promise<string> {
     // Determine content type based on file extension
     const ext = filename.toLowerCase().split('.').pop();
     let contentType = 'video/mp4'; // default
@@ -207,20 +262,8 @@ export async function uploadVideoToIPFS(
             break;
     }
 
-    data.append('file', videoBuffer, { filename, contentType });
-
-    const options = {
-        method: 'POST',
-        headers: {
-            Authorization: `Bearer ${jwt}`,
-            ...data.getHeaders(),
-        },
-        data: data,
-    };
-
     try {
-        const response = await axios(url, options);
-        return response.data.IpfsHash;
+        return await uploadVerified(videoBuffer, filename, contentType, purpose);
     } catch (error) {
         console.error('Error uploading video to IPFS:', error);
         throw error;
@@ -228,7 +271,7 @@ export async function uploadVideoToIPFS(
 }
 
 /**
- * Upload multiple files in parallel to IPFS
+ * Upload multiple files in parallel to IPFS, reusing the CIDs of content uploaded before
  */
 export async function uploadMultipleFilesToIPFS(files: FileUpload[]): Promise<UploadedFile[]> {
     if (!files || files.length === 0) {
@@ -248,22 +291,26 @@ export async function uploadMultipleFilesToIPFS(files: FileUpload[]): Promise<Up
             // Convert base64 to buffer
             const fileBuffer = Buffer.from(file.data, 'base64');
 
-            // Upload based on content type
-            let ipfsHash: string;
-            if (file.contentType.startsWith('video/')) {
-                ipfsHash = await uploadVideoToIPFS(fileBuffer, file.filename);
-            } else {
-                ipfsHash = await uploadFileToIPFS(fileBuffer, file.filename, file.contentType);
-            }
+            // Upload based on content type, unless the same bytes are still pinned from an earlier upload
+            const { cid: ipfsHash, deduplicated } = await uploadDeduplicated(createContentHash(fileBuffer), () => (
+                file.contentType.startsWith('video/')
+                    ? uploadVideoToIPFS(fileBuffer, file.filename, file.purpose)
+                    : uploadFileToIPFS(fileBuffer, file.filename, file.contentType, file.purpose)
+            ), file);
 
             return {
                 filename: file.filename,
                 ipfsHash,
                 purpose: file.purpose,
-                url: getIPFSUrl(ipfsHash)
+                url: getIPFSUrl(ipfsHash),
+                deduplicated,
+                ...(file.sanitized && { sanitized: file.sanitized })
             };
         } catch (error) {
             console.error(`Error uploading file ${file.filename}:`, error);
+            if (error instanceof CidMismatchError) {
+                throw error;
+            }
             throw new Error(`Failed to upload ${file.filename}: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     });
@@ -284,6 +331,17 @@ export function createContentHash(content: string | Buffer): string {
     return createHash('sha256').update(content).digest('hex');
 }
 
+/**
+ * Create the content hash of a Blob by streaming it
+ */
+export async function createBlobContentHash(blob: Blob): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of blobToStream(blob)) {
+        hash.update(chunk);
+    }
+    return hash.digest('hex');
+}
+
 /**
  * Create metadata hash
  */
@@ -346,45 +404,10 @@ export function detectMimeTypeFromExtension(filename: string): string | null {
 }
 
 /**
- * Detect MIME type from file buffer (magic numbers)
+ * Detect MIME type from file content (magic numbers, SVG root element, JSON)
  */
 export function detectMimeTypeFromBuffer(buffer: Buffer): string | null {
-    if (buffer.length < 4) return null;
-
-    // Check magic numbers for common file types
-    const header = buffer.subarray(0, 12);
-
-    // JPEG
-    if (header[0] === 0xFF && header[1] === 0xD8 && header[2] === 0xFF) {
-        return 'image/jpeg';
-    }
-
-    // PNG
-    if (header[0] === 0x89 && header[1] === 0x50 && header[2] === 0x4E && header[3] === 0x47) {
-        return 'image/png';
-    }
-
-    // GIF
-    if (header.subarray(0, 3).toString() === 'GIF') {
-        return 'image/gif';
-    }
-
-    // WebP
-    if (header.subarray(0, 4).toString() === 'RIFF' && header.subarray(8, 12).toString() === 'WEBP') {
-        return 'image/webp';
-    }
-
-    // MP4
-    if (header.subarray(4, 8).toString() === 'ftyp') {
-        return 'video/mp4';
-    }
-
-    // PDF
-    if (header.subarray(0, 4).toString() === '%PDF') {
-        return 'application/pdf';
-    }
-
-    return null;
+    return sniffMimeType(buffer);
 }
 
 /**
@@ -407,12 +430,67 @@ export function validateFile(
     filename: string,
     providedMimeType?: string
 ): FileValidationResult {
-    const fileSize = fileBuffer.length;
+    const validation = validateFileContent(fileBuffer, fileBuffer.length, filename, providedMimeType);
+    return validation.isValid && validation.detectedMimeType === 'image/svg+xml'
+        ? validateSvg(fileBuffer, validation)
+        : validation;
+}
+
+/**
+ * Validate a Blob, reading only the header needed to detect its type; SVGs, which are within
+ * the image size limit once validated, are read whole to sanitize them
+ */
+export async function validateBlob(
+    blob: Blob,
+    filename: string,
+    providedMimeType?: string
+): Promise<FileValidationResult> {
+    const header = Buffer.from(await blob.slice(0, SNIFF_BYTES).arrayBuffer());
+    const validation = validateFileContent(header, blob.size, filename, providedMimeType);
+    return validation.isValid && validation.detectedMimeType === 'image/svg+xml'
+        ? validateSvg(Buffer.from(await blob.arrayBuffer()), validation)
+        : validation;
+}
+
+// Strip scripts, event handlers and external references from a valid SVG, or reject it per SVG_POLICY
+function validateSvg(content: Buffer, validation: FileValidationResult): FileValidationResult {
+    let result;
+    try {
+        result = sanitizeSvg(content.toString('utf-8'));
+    } catch (error) {
+        if (error instanceof SvgParseError) {
+            return { isValid: false, error: `Invalid SVG: ${error.message}`, detectedMimeType: validation.detectedMimeType, fileSize: validation.fileSize };
+        }
+        throw error;
+    }
 
-    // Detect MIME type from multiple sources
-    const detectedFromBuffer = detectMimeTypeFromBuffer(fileBuffer);
+    if (result.removed.length === 0) {
+        return validation;
+    }
+    if (getUploadConfig().svgPolicy === 'reject') {
+        return {
+            isValid: false,
+            error: `SVG contains unsafe content: ${result.removed.join('; ')}`,
+            detectedMimeType: validation.detectedMimeType,
+            fileSize: validation.fileSize
+        };
+    }
+    return { ...validation, sanitizedContent: Buffer.from(result.svg, 'utf-8'), sanitized: result.removed };
+}
+
+// Shared by validateFile and validateBlob: the type is sniffed from the header, the size checked whole
+function validateFileContent(
+    header: Buffer,
+    fileSize: number,
+    filename: string,
+    providedMimeType?: string
+): FileValidationResult {
+    // Detect MIME type from multiple sources; content that is only known to be text
+    // defers to the extension and the provided type, which may name a text format
+    const detectedFromBuffer = detectMimeTypeFromBuffer(header);
     const detectedFromExtension = detectMimeTypeFromExtension(filename);
-    const detectedMimeType = detectedFromBuffer || detectedFromExtension || providedMimeType;
+    const detectedMimeType = (detectedFromBuffer !== 'text/plain' && detectedFromBuffer)
+        || detectedFromExtension || providedMimeType || detectedFromBuffer;
 
     if (!detectedMimeType) {
         return {
@@ -446,8 +524,9 @@ export function validateFile(
         };
     }
 
-    // Validate MIME type consistency
-    if (providedMimeType && detectedFromBuffer && providedMimeType !== detectedFromBuffer) {
+    // Validate MIME type consistency; JSON can only be checked when the whole file was read
+    const complete = header.length === fileSize;
+    if (providedMimeType && detectedFromBuffer && !isSniffedTypeCompatible(providedMimeType, detectedFromBuffer, complete)) {
         return {
             isValid: false,
             error: `MIME type mismatch: provided ${providedMimeType}, detected ${detectedFromBuffer}`,
@@ -464,10 +543,10 @@ export function validateFile(
 }
 
 /**
- * Validate multiple files
+ * Validate multiple files; sanitized SVGs come back with their sanitized data
  */
-export function validateFiles(files: FileUpload[]): { valid: FileUpload[]; invalid: Array<{ file: FileUpload; error: string }> } {
-    const valid: FileUpload[] = [];
+export function validateFiles(files: FileUpload[]): { valid: Array<FileUpload & { sanitized?: string[] }>; invalid: Array<{ file: FileUpload; error: string }> } {
+    const valid: Array<FileUpload & { sanitized?: string[] }> = [];
     const invalid: Array<{ file: FileUpload; error: string }> = [];
 
     for (const file of files) {
@@ -479,7 +558,11 @@ export function validateFiles(files: FileUpload[]): { valid: FileUpload[]; inval
                 // Update the file with detected MIME type if different
                 const updatedFile = {
                     ...file,
-                    contentType: validation.detectedMimeType || file.contentType
+                    contentType: validation.detectedMimeType || file.contentType,
+                    ...(validation.sanitizedContent && {
+                        data: validation.sanitizedContent.toString('base64'),
+                        sanitized: validation.sanitized
+                    })
                 };
                 valid.push(updatedFile);
             } else {
@@ -500,8 +583,23 @@ export function validateFiles(files: FileUpload[]): { valid: FileUpload[]; inval
 }
 
 /**
- * Get IPFS URL from hash
+ * Get IPFS URL from hash, through the configured gateway
  */
 export function getIPFSUrl(hash: string): string {
-    return `https://gateway.pinata.cloud/ipfs/${hash}`;
+    return `${getIPFSConfig().gatewayUrl}/ipfs/${hash}`;
+}
+
+/**
+ * Get the URI to record on chain for a hash: a canonical ipfs://CID URI when
+ * IPFS_URI_FORMAT=ipfs, so the record does not depend on one gateway, otherwise the gateway URL
+ */
+export function getOnChainURI(hash: string): string {
+    return getIPFSConfig().uriFormat === 'ipfs' ? `ipfs://${hash}` : getIPFSUrl(hash);
+}
+
+/**
+ * Resolve an ipfs://CID[/path] URI to a gateway URL; any other URI is returned unchanged
+ */
+export function resolveIPFSUri(uri: string): string {
+    return uri.startsWith('ipfs://') ? getIPFSUrl(uri.slice('ipfs://'.length).replace(/^ipfs\//, '')) : uri;
 }
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+
+/**
+ * A JSON document kept in one local file, for the engine's small indexes (upload CIDs, pins)
+ */
+export interface JsonStore<T> {
+    read(): Promise<T>;
+    update<R>(change: (data: T) => R): Promise<R>;
+}
+
+// Pending writes per file, so concurrent requests in one process do not drop each other's changes
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+/**
+ * Store for the file at getPath(), resolved on every access so it follows configuration changes.
+ * A missing file reads as empty(); updates are written to a sibling file and renamed over the
+ * store, so readers never see it half written.
+ */
+export function createJsonStore<T>(getPath: () => string, empty: () => T): JsonStore<T> {
+    const read = async (): Promise<T> => {
+        try {
+            return JSON.parse(await readFile(getPath(), 'utf-8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return empty();
+            }
+            throw error;
+        }
+    };
+
+    const update = <R>(change: (data: T) => R): Promise<R> => {
+        const filePath = getPath();
+        const write = (pendingWrites.get(filePath) || Promise.resolve()).then(async () => {
+            const data = await read();
+            const result = change(data);
+
+            await mkdir(path.dirname(filePath), { recursive: true });
+            const stagingPath = `${filePath}.${process.pid}.tmp`;
+            await writeFile(stagingPath, JSON.stringify(data, null, 2));
+            await rename(stagingPath, filePath);
+            return result;
+        });
+        pendingWrites.set(filePath, write.catch(() => undefined));
+        return write;
+    };
+
+    return { read, update };
+}
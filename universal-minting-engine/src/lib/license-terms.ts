@@ -0,0 +1,209 @@
+import { Address, getAddress, Hex, isAddress, isHex, zeroAddress } from 'viem';
+import { getStoryContracts } from '@/lib/story-contracts';
+import { LicenseTermsConfig } from '@/types';
+
+/**
+ * PIL terms struct as encoded on chain
+ */
+export type PILTermsStruct = {
+    transferable: boolean;
+    royaltyPolicy: Address;
+    defaultMintingFee: bigint;
+    expiration: bigint;
+    commercialUse: boolean;
+    commercialAttribution: boolean;
+    commercializerChecker: Address;
+    commercializerCheckerData: Hex;
+    commercialRevShare: number;
+    commercialRevCeiling: bigint;
+    derivativesAllowed: boolean;
+    derivativesAttribution: boolean;
+    derivativesApproval: boolean;
+    derivativesReciprocal: boolean;
+    derivativeRevCeiling: bigint;
+    currency: Address;
+    uri: string;
+};
+
+export interface LicenseTermsFieldError {
+    field: keyof LicenseTermsConfig;
+    message: string;
+}
+
+/**
+ * Thrown when license terms cannot be mapped onto valid PIL terms
+ */
+export class LicenseTermsValidationError extends Error {
+    readonly fieldErrors: LicenseTermsFieldError[];
+
+    constructor(fieldErrors: LicenseTermsFieldError[]) {
+        super(`Invalid license terms: ${fieldErrors.map(error => `${error.field}: ${error.message}`).join('; ')}`);
+        this.name = 'LicenseTermsValidationError';
+        this.fieldErrors = fieldErrors;
+    }
+}
+
+/**
+ * Map every LicenseTermsConfig field onto the PIL terms struct and check the
+ * PILicenseTemplate invariants, collecting every problem as a field-level error.
+ *
+ * Omitted fields take the PIL's zero value, except that commercial terms default
+ * their royalty policy to LAP and their currency to WIP (a zero address counts as
+ * omitted there, since commercial terms cannot use it). Amounts are in wei and
+ * commercialRevShare is a percentage (0-100).
+ */
+export const mapLicenseTerms = (
+    config: Partial<LicenseTermsConfig>
+): { terms: PILTermsStruct; errors: LicenseTermsFieldError[] } => {
+    const errors: LicenseTermsFieldError[] = [];
+    const { royaltyPolicyLap, wip } = getStoryContracts();
+    const commercialUse = config.commercialUse ?? false;
+
+    const toAmount = (field: keyof LicenseTermsConfig, value: string | undefined): bigint => {
+        if (value === undefined || value === '') {
+            return BigInt(0);
+        }
+        if (!/^\d+$/.test(value)) {
+            errors.push({ field, message: 'Must be a non-negative integer string (wei or seconds)' });
+            return BigInt(0);
+        }
+        return BigInt(value);
+    };
+
+    const toTermsAddress = (field: keyof LicenseTermsConfig, value: string | undefined, fallback: Address): Address => {
+        if (value === undefined || value === '' || (value === zeroAddress && commercialUse)) {
+            return fallback;
+        }
+        if (!isAddress(value, { strict: false })) {
+            errors.push({ field, message: 'Must be a valid Ethereum address' });
+            return fallback;
+        }
+        return getAddress(value.toLowerCase());
+    };
+
+    let commercialRevShare = 0;
+    if (config.commercialRevShare !== undefined) {
+        if (!Number.isFinite(config.commercialRevShare) || config.commercialRevShare < 0 || config.commercialRevShare > 100) {
+            errors.push({ field: 'commercialRevShare', message: 'Must be a percentage between 0 and 100' });
+        } else {
+            commercialRevShare = Math.round(config.commercialRevShare * 1_000_000);
+        }
+    }
+
+    let commercializerCheckerData: Hex = '0x';
+    if (config.commercializerCheckerData) {
+        if (!isHex(config.commercializerCheckerData)) {
+            errors.push({ field: 'commercializerCheckerData', message: 'Must be 0x-prefixed hex bytes' });
+        } else {
+            commercializerCheckerData = config.commercializerCheckerData;
+        }
+    }
+
+    const terms: PILTermsStruct = {
+        transferable: config.transferable ?? true,
+        royaltyPolicy: toTermsAddress('royaltyPolicy', config.royaltyPolicy, commercialUse ? royaltyPolicyLap : zeroAddress),
+        defaultMintingFee: toAmount('defaultMintingFee', config.defaultMintingFee),
+        expiration: toAmount('expiration', config.expiration),
+        commercialUse,
+        commercialAttribution: config.commercialAttribution ?? false,
+        commercializerChecker: toTermsAddress('commercializerChecker', config.commercializerChecker, zeroAddress),
+        commercializerCheckerData,
+        commercialRevShare,
+        commercialRevCeiling: toAmount('commercialRevCeiling', config.commercialRevCeiling),
+        derivativesAllowed: config.derivativesAllowed ?? false,
+        derivativesAttribution: config.derivativesAttribution ?? false,
+        derivativesApproval: config.derivativesApproval ?? false,
+        derivativesReciprocal: config.derivativesReciprocal ?? false,
+        derivativeRevCeiling: toAmount('derivativeRevCeiling', config.derivativeRevCeiling),
+        currency: toTermsAddress('currency', config.currency, commercialUse ? wip : zeroAddress),
+        uri: config.uri ?? '',
+    };
+
+    return { terms, errors: [...errors, ...validatePILTerms(terms)] };
+};
+
+/**
+ * Check the invariants PILicenseTemplate enforces when terms are registered
+ */
+export const validatePILTerms = (terms: PILTermsStruct): LicenseTermsFieldError[] => {
+    const errors: LicenseTermsFieldError[] = [];
+
+    if (terms.royaltyPolicy !== zeroAddress && terms.currency === zeroAddress) {
+        errors.push({ field: 'currency', message: 'A currency token is required when a royalty policy is set' });
+    }
+    if (terms.defaultMintingFee > BigInt(0) && terms.royaltyPolicy === zeroAddress) {
+        errors.push({ field: 'royaltyPolicy', message: 'A royalty policy is required when the default minting fee is greater than 0' });
+    }
+
+    if (terms.commercialUse) {
+        if (terms.royaltyPolicy === zeroAddress) {
+            errors.push({ field: 'royaltyPolicy', message: 'A royalty policy is required for commercial use' });
+        }
+    } else {
+        const commercialOnly: Array<[keyof LicenseTermsConfig, boolean]> = [
+            ['commercialAttribution', terms.commercialAttribution],
+            ['commercializerChecker', terms.commercializerChecker !== zeroAddress],
+            ['commercialRevShare', terms.commercialRevShare > 0],
+            ['commercialRevCeiling', terms.commercialRevCeiling > BigInt(0)],
+            ['derivativeRevCeiling', terms.derivativeRevCeiling > BigInt(0)],
+            ['royaltyPolicy', terms.royaltyPolicy !== zeroAddress],
+        ];
+        for (const [field, isSet] of commercialOnly) {
+            if (isSet) {
+                errors.push({ field, message: 'Cannot be set when commercial use is disabled' });
+            }
+        }
+    }
+
+    if (!terms.derivativesAllowed) {
+        const derivativeOnly: Array<[keyof LicenseTermsConfig, boolean]> = [
+            ['derivativesAttribution', terms.derivativesAttribution],
+            ['derivativesApproval', terms.derivativesApproval],
+            ['derivativesReciprocal', terms.derivativesReciprocal],
+            ['derivativeRevCeiling', terms.derivativeRevCeiling > BigInt(0)],
+        ];
+        for (const [field, isSet] of derivativeOnly) {
+            if (isSet) {
+                errors.push({ field, message: 'Cannot be set when derivatives are not allowed' });
+            }
+        }
+    }
+
+    return errors;
+};
+
+/**
+ * Map license terms onto the PIL terms struct, throwing a LicenseTermsValidationError
+ * with every field-level problem when the combination is illegal
+ */
+export const toPILTerms = (config: Partial<LicenseTermsConfig>): PILTermsStruct => {
+    const { terms, errors } = mapLicenseTerms(config);
+    if (errors.length > 0) {
+        throw new LicenseTermsValidationError(errors);
+    }
+    return terms;
+};
+
+/**
+ * Decode PIL terms read from chain into the LicenseTermsConfig shape requests use: amounts as
+ * decimal strings in wei or seconds, and commercialRevShare back to a percentage
+ */
+export const fromPILTerms = (terms: PILTermsStruct): LicenseTermsConfig => ({
+    transferable: terms.transferable,
+    royaltyPolicy: terms.royaltyPolicy,
+    defaultMintingFee: terms.defaultMintingFee.toString(),
+    expiration: terms.expiration.toString(),
+    commercialUse: terms.commercialUse,
+    commercialAttribution: terms.commercialAttribution,
+    commercializerChecker: terms.commercializerChecker,
+    commercializerCheckerData: terms.commercializerCheckerData,
+    commercialRevShare: terms.commercialRevShare / 1_000_000,
+    commercialRevCeiling: terms.commercialRevCeiling.toString(),
+    derivativesAllowed: terms.derivativesAllowed,
+    derivativesAttribution: terms.derivativesAttribution,
+    derivativesApproval: terms.derivativesApproval,
+    derivativesReciprocal: terms.derivativesReciprocal,
+    derivativeRevCeiling: terms.derivativeRevCeiling.toString(),
+    currency: terms.currency,
+    uri: terms.uri,
+});
@@ -0,0 +1,121 @@
+import { Address, getAddress } from 'viem';
+import { DerivativeLink, getDerivativeLinks, getIndexedAssets, getIndexedBlock } from '@/lib/asset-indexer';
+
+export type LineageDirection = 'ancestors' | 'descendants';
+
+// Popular IPs can have many derivatives; the graph stops growing past this many nodes
+const MAX_LINEAGE_NODES = 500;
+
+/**
+ * An IP asset in a lineage graph, at its shortest distance from the root
+ */
+export interface LineageNode {
+    ipId: Address;
+    depth: number;
+    // Null for IP assets the index has no registration of
+    name: string | null;
+    nftContract: Address | null;
+    tokenId: string | null;
+}
+
+/**
+ * The derivative links between IP assets reachable from the root in one direction, parents to
+ * children. Edges always point from parent to child, whichever way the graph was walked.
+ */
+export interface LineageGraph {
+    root: Address;
+    direction: LineageDirection;
+    depth: number;
+    nodes: LineageNode[];
+    edges: DerivativeLink[];
+    // Set when links continue past the depth or the node limit
+    truncated: boolean;
+    // Last block of the index the graph was built from
+    indexedBlock: string | null;
+}
+
+/**
+ * Walk the indexed derivative links from the IP asset, up to its ancestors or down to its
+ * descendants, at most depth links away. An IP asset reached along several paths (a derivative
+ * of several parents) is one node with an edge per link.
+ */
+export function getLineage(ipId: string, direction: LineageDirection, depth: number): LineageGraph {
+    const root = getAddress(ipId.toLowerCase());
+    const linkDirection = direction === 'ancestors' ? 'parents' : 'children';
+    const depths = new Map<Address, number>([[root, 0]]);
+    const edges = new Map<string, DerivativeLink>();
+
+    let frontier: Address[] = [root];
+    for (let level = 1; level <= depth && frontier.length > 0 && depths.size < MAX_LINEAGE_NODES; level++) {
+        const next: Address[] = [];
+        for (const link of getDerivativeLinks(frontier, linkDirection)) {
+            edges.set(`${link.parentIpId}/${link.childIpId}`, link);
+            const reached = direction === 'ancestors' ? link.parentIpId : link.childIpId;
+            if (!depths.has(reached) && depths.size < MAX_LINEAGE_NODES) {
+                depths.set(reached, level);
+                next.push(reached);
+            }
+        }
+        frontier = next;
+    }
+
+    const truncated = getDerivativeLinks(frontier, linkDirection).length > 0 || depths.size >= MAX_LINEAGE_NODES;
+    // Links between nodes at the limit and nodes left out are not part of the graph
+    const included = [...edges.values()].filter(edge => depths.has(edge.parentIpId) && depths.has(edge.childIpId));
+
+    const assets = new Map(getIndexedAssets([...depths.keys()]).map(asset => [asset.ipId, asset]));
+    const nodes = [...depths.entries()].map(([nodeIpId, nodeDepth]) => {
+        const asset = assets.get(nodeIpId);
+        return {
+            ipId: nodeIpId,
+            depth: nodeDepth,
+            name: asset?.name || null,
+            nftContract: asset?.nftContract ?? null,
+            tokenId: asset?.tokenId ?? null
+        };
+    });
+
+    return { root, direction, depth, nodes, edges: included, truncated, indexedBlock: getIndexedBlock() };
+}
+
+/**
+ * The graph in Graphviz DOT, parents above children, edges labelled with their license terms
+ */
+export function toDot(graph: LineageGraph): string {
+    const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    const quote = (text: string) => `"${escape(text)}"`;
+
+    const lines = [
+        'digraph lineage {',
+        '    node [shape=box];',
+        ...graph.nodes.map(node =>
+            `    ${quote(node.ipId)} [label="${nodeLabel(node).map(escape).join('\\n')}"${node.ipId === graph.root ? ', style=bold' : ''}];`),
+        ...graph.edges.map(edge =>
+            `    ${quote(edge.parentIpId)} -> ${quote(edge.childIpId)} [label=${quote(`terms ${edge.licenseTermsId}`)}];`),
+        '}'
+    ];
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * The graph as a Mermaid flowchart, parents above children, edges labelled with their license terms
+ */
+export function toMermaid(graph: LineageGraph): string {
+    const ids = new Map(graph.nodes.map((node, index) => [node.ipId, `ip${index}`]));
+    const quote = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+
+    const lines = [
+        'graph TD',
+        ...graph.nodes.map(node => `    ${ids.get(node.ipId)}[${quote(nodeLabel(node).join('<br/>'))}]`),
+        ...graph.edges.map(edge =>
+            `    ${ids.get(edge.parentIpId)} -->|${quote(`terms ${edge.licenseTermsId}`)}| ${ids.get(edge.childIpId)}`),
+        ...(ids.has(graph.root) ? [`    style ${ids.get(graph.root)} stroke-width:3px`] : [])
+    ];
+    return `${lines.join('\n')}\n`;
+}
+
+// The node's name, if indexed, over its shortened IP ID
+function nodeLabel(node: LineageNode): string[] {
+    const shortId = `${node.ipId.slice(0, 6)}…${node.ipId.slice(-4)}`;
+    return node.name ? [node.name, shortId] : [shortId];
+}
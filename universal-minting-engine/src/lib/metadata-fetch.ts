@@ -0,0 +1,144 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { getIPFSConfig } from '@/lib/config';
+import { FILE_SIZE_LIMITS, resolveIPFSUri } from '@/lib/ipfs';
+
+/**
+ * Thrown when a metadata document is not fetched: a URI that is not on IPFS, a gateway on a
+ * private address, a failed request, or a body over the size limit or not a JSON object
+ */
+export class MetadataFetchError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MetadataFetchError';
+    }
+}
+
+export interface MetadataFetchOptions {
+    timeoutMs?: number;
+    // Bytes read before the request is abandoned; the document file limit by default
+    maxBytes?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Unspecified, loopback, private, shared, link-local, benchmarking, multicast and reserved ranges;
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * The URL a metadata URI recorded on chain is fetched from. ipfs:// URIs, and /ipfs/ paths on any
+ * gateway, go through the configured gateway; data: URIs are read without a request. Anything else
+ * is refused, so a URI set on chain cannot point the server at a host of its choosing.
+ */
+export function resolveMetadataUrl(uri: string): URL {
+    let url: URL;
+    try {
+        url = new URL(resolveIPFSUri(uri.trim()));
+    } catch {
+        throw new MetadataFetchError('Invalid metadata URI');
+    }
+
+    const gateway = new URL(getIPFSConfig().gatewayUrl);
+    if (url.protocol === 'data:' || url.origin === gateway.origin) {
+        return url;
+    }
+    if ((url.protocol === 'https:' || url.protocol === 'http:') && url.pathname.startsWith('/ipfs/')) {
+        return new URL(resolveIPFSUri(`ipfs://${url.pathname.slice('/ipfs/'.length)}${url.search}`));
+    }
+    throw new MetadataFetchError(`Only ipfs:// URIs and ${gateway.origin} URLs are fetched`);
+}
+
+/**
+ * Fetch a metadata document recorded on chain (see resolveMetadataUrl). The gateway host must not
+ * resolve to a private or link-local address unless IPFS_GATEWAY_ALLOW_PRIVATE is set, redirects
+ * are not followed, and the body is read up to maxBytes.
+ */
+export async function fetchMetadata(uri: string, { timeoutMs = DEFAULT_TIMEOUT_MS, maxBytes = FILE_SIZE_LIMITS.document }: MetadataFetchOptions = {}): Promise<Buffer> {
+    const url = resolveMetadataUrl(uri);
+    if (url.protocol !== 'data:' && !getIPFSConfig().allowPrivateGateway) {
+        await assertPublicHost(url.hostname);
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(url.toString(), { signal: AbortSignal.timeout(timeoutMs), redirect: 'error' });
+    } catch (error) {
+        throw new MetadataFetchError(`Failed to fetch metadata: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!response.ok) {
+        await response.body?.cancel();
+        throw new MetadataFetchError(`Metadata request failed with status ${response.status}`);
+    }
+    if (Number(response.headers.get('content-length')) > maxBytes) {
+        await response.body?.cancel();
+        throw new MetadataFetchError(`Metadata is larger than ${maxBytes} bytes`);
+    }
+    return readBody(response, maxBytes);
+}
+
+/**
+ * Fetch a metadata document and parse it; a body that is not a JSON object is refused, not returned
+ */
+export async function fetchMetadataJSON(uri: string, options?: MetadataFetchOptions): Promise<Record<string, unknown>> {
+    const body = await fetchMetadata(uri, options);
+    let metadata: unknown;
+    try {
+        metadata = JSON.parse(body.toString('utf-8'));
+    } catch {
+        throw new MetadataFetchError('Metadata is not valid JSON');
+    }
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+        throw new MetadataFetchError('Metadata is not a JSON object');
+    }
+    return metadata as Record<string, unknown>;
+}
+
+async function assertPublicHost(hostname: string): Promise<void> {
+    const host = hostname.replace(/^\[|\]$/g, '');
+    let addresses: Array<{ address: string; family: number }>;
+    try {
+        addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true });
+    } catch (error) {
+        throw new MetadataFetchError(`Failed to resolve ${host}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (addresses.some(({ address, family }) => PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'))) {
+        throw new MetadataFetchError(`Metadata gateway ${host} resolves to a private address`);
+    }
+}
+
+async function readBody(response: Response, maxBytes: number): Promise<Buffer> {
+    if (!response.body) {
+        return Buffer.alloc(0);
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for (;;) {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+            chunk = await reader.read();
+        } catch (error) {
+            throw new MetadataFetchError(`Failed to fetch metadata: ${error instanceof Error ? error.message : error}`);
+        }
+        if (chunk.done) {
+            return Buffer.concat(chunks);
+        }
+        size += chunk.value.byteLength;
+        if (size > maxBytes) {
+            await reader.cancel();
+            throw new MetadataFetchError(`Metadata is larger than ${maxBytes} bytes`);
+        }
+        chunks.push(Buffer.from(chunk.value));
+    }
+}
@@ -0,0 +1,204 @@
+import { Address, erc721Abi, getAddress, parseAbiItem, PublicClient } from 'viem';
+import { getAssetsByOwner, getIndexerStatus, startAssetIndexer } from '@/lib/asset-indexer';
+import { getNetworkConfig, getNftScanConfig } from '@/lib/config';
+import { erc721EnumerableAbi, ipAssetRegistryAbi } from '@/lib/story-abis';
+import { getStoryContracts, getStoryDeploymentBlock } from '@/lib/story-contracts';
+
+// ERC-165 interface ID of ERC721Enumerable
+const ERC721_ENUMERABLE_INTERFACE_ID = '0x780e9d63';
+
+// All three parameters are indexed, which tells ERC-721 transfers from ERC-20 ones with the same topic
+const TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)');
+
+/**
+ * A token an address owns, with the IP asset it is registered as, if any
+ */
+export interface OwnedToken {
+    contractAddress: Address;
+    tokenId: bigint;
+    // Set when the token is registered with the IPAssetRegistry, which makes its collection a Story collection
+    ipId: Address | null;
+    source: 'enumerable' | 'transfer-logs' | 'index';
+}
+
+export interface TokenScanResult {
+    tokens: OwnedToken[];
+    // Last block of the Transfer log scan, or of the asset index, when either was used
+    scannedToBlock: string | null;
+    // True while the asset index is behind the chain head, so recent IP assets may be missing
+    syncing: boolean;
+}
+
+interface TransferLog {
+    address: Address;
+    args: { from?: Address; to?: Address; tokenId?: bigint };
+    blockNumber: bigint;
+    logIndex: number;
+}
+
+/**
+ * Find the tokens the owner holds: with tokenOfOwnerByIndex in the given collections that are
+ * ERC721Enumerable, and by replaying the owner's Transfer logs for the others. Each token is then
+ * looked up in the IPAssetRegistry, so Story collections are recognised whoever deployed them.
+ * Without contracts, the owner's IP assets are read from the asset index (see
+ * src/lib/asset-indexer.ts) rather than scanning the Transfer logs of every collection.
+ */
+export async function findOwnedTokens(publicClient: PublicClient, owner: Address, contracts?: Address[]): Promise<TokenScanResult> {
+    if (!contracts) {
+        return findIndexedTokens(publicClient, owner);
+    }
+
+    const tokens: Array<Omit<OwnedToken, 'ipId'>> = [];
+    const enumerable = await Promise.all(contracts.map(contract => supportsEnumerable(publicClient, contract)));
+    for (const [index, contract] of contracts.entries()) {
+        if (enumerable[index]) {
+            const tokenIds = await enumerateTokens(publicClient, contract, owner);
+            tokens.push(...tokenIds.map(tokenId => ({ contractAddress: contract, tokenId, source: 'enumerable' as const })));
+        }
+    }
+    const scanned = contracts.filter((_, index) => !enumerable[index]);
+
+    let scannedToBlock: string | null = null;
+    if (scanned.length > 0) {
+        const startBlock = getNftScanConfig().startBlock ?? await getStoryDeploymentBlock(publicClient);
+        const toBlock = await publicClient.getBlockNumber();
+        const logs = await scanTransferLogs(publicClient, owner, scanned, startBlock, toBlock);
+        tokens.push(...heldTokens(logs, owner).map(token => ({ ...token, source: 'transfer-logs' as const })));
+        scannedToBlock = toBlock.toString();
+    }
+
+    const ipIds = await Promise.all(tokens.map(token => lookUpIpId(publicClient, token.contractAddress, token.tokenId)));
+    return {
+        tokens: tokens.map((token, index) => ({ ...token, ipId: ipIds[index] })),
+        scannedToBlock,
+        syncing: false
+    };
+}
+
+// The owner's IP assets registered on this chain, as far as the index got; starts the indexer
+// if this process keeps it
+function findIndexedTokens(publicClient: PublicClient, owner: Address): TokenScanResult {
+    startAssetIndexer(publicClient);
+    const { assets } = getAssetsByOwner(owner);
+    const { indexedBlock, syncing } = getIndexerStatus();
+
+    return {
+        tokens: assets.map(asset => ({
+            contractAddress: asset.nftContract,
+            tokenId: BigInt(asset.tokenId),
+            ipId: asset.ipId,
+            source: 'index' as const
+        })),
+        scannedToBlock: indexedBlock,
+        syncing
+    };
+}
+
+/**
+ * The owner's Transfer logs, in or out, between the blocks. Queries start at NFT_SCAN_MAX_BLOCK_RANGE
+ * blocks; a range the RPC refuses (too many results, or too wide) is halved and retried, and the
+ * range grows back after each success.
+ */
+async function scanTransferLogs(
+    publicClient: PublicClient,
+    owner: Address,
+    contracts: Address[],
+    fromBlock: bigint,
+    toBlock: bigint
+): Promise<TransferLog[]> {
+    const { maxBlockRange } = getNftScanConfig();
+    const logs: TransferLog[] = [];
+
+    let range = maxBlockRange;
+    for (let start = fromBlock; start <= toBlock;) {
+        const end = start + range - BigInt(1) < toBlock ? start + range - BigInt(1) : toBlock;
+        try {
+            const [received, sent] = await Promise.all([
+                publicClient.getLogs({ address: contracts, event: TRANSFER_EVENT, args: { to: owner }, fromBlock: start, toBlock: end, strict: true }),
+                publicClient.getLogs({ address: contracts, event: TRANSFER_EVENT, args: { from: owner }, fromBlock: start, toBlock: end, strict: true })
+            ]);
+            logs.push(...received, ...sent);
+            start = end + BigInt(1);
+            range = range * BigInt(2) < maxBlockRange ? range * BigInt(2) : maxBlockRange;
+        } catch (error) {
+            if (range === BigInt(1)) {
+                throw error;
+            }
+            range = range / BigInt(2);
+        }
+    }
+
+    return logs;
+}
+
+// Tokens the owner holds after the transfers, replayed in chain order; a transfer to oneself
+// appears as received and sent, so logs are taken once each
+function heldTokens(logs: TransferLog[], owner: Address): Array<{ contractAddress: Address; tokenId: bigint }> {
+    const unique = new Map(logs.map(log => [`${log.blockNumber}:${log.logIndex}`, log]));
+    const ordered = [...unique.values()].sort((a, b) =>
+        a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1);
+
+    const held = new Map<string, { contractAddress: Address; tokenId: bigint }>();
+    for (const log of ordered) {
+        const key = `${log.address.toLowerCase()}/${log.args.tokenId}`;
+        if (log.args.to?.toLowerCase() === owner.toLowerCase()) {
+            held.set(key, { contractAddress: getAddress(log.address), tokenId: log.args.tokenId! });
+        } else {
+            held.delete(key);
+        }
+    }
+    return [...held.values()];
+}
+
+async function supportsEnumerable(publicClient: PublicClient, contract: Address): Promise<boolean> {
+    try {
+        return await publicClient.readContract({
+            address: contract,
+            abi: erc721EnumerableAbi,
+            functionName: 'supportsInterface',
+            args: [ERC721_ENUMERABLE_INTERFACE_ID]
+        });
+    } catch {
+        // Contracts without ERC-165 revert
+        return false;
+    }
+}
+
+async function enumerateTokens(publicClient: PublicClient, contract: Address, owner: Address): Promise<bigint[]> {
+    const balance = await publicClient.readContract({
+        address: contract,
+        abi: erc721Abi,
+        functionName: 'balanceOf',
+        args: [owner]
+    });
+
+    return Promise.all(Array.from({ length: Number(balance) }, (_, index) => publicClient.readContract({
+        address: contract,
+        abi: erc721EnumerableAbi,
+        functionName: 'tokenOfOwnerByIndex',
+        args: [owner, BigInt(index)]
+    })));
+}
+
+// The IP account of the token if the IPAssetRegistry has it registered
+async function lookUpIpId(publicClient: PublicClient, contract: Address, tokenId: bigint): Promise<Address | null> {
+    const { ipAssetRegistry } = getStoryContracts();
+    try {
+        const ipId = await publicClient.readContract({
+            address: ipAssetRegistry,
+            abi: ipAssetRegistryAbi,
+            functionName: 'ipId',
+            args: [BigInt(getNetworkConfig().chain.id), contract, tokenId]
+        });
+        const registered = await publicClient.readContract({
+            address: ipAssetRegistry,
+            abi: ipAssetRegistryAbi,
+            functionName: 'isRegistered',
+            args: [ipId]
+        });
+        return registered ? ipId : null;
+    } catch (error) {
+        console.warn(`Failed to look up the IP asset of token ${tokenId} of ${contract}:`, error);
+        return null;
+    }
+}
@@ -0,0 +1,310 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicClient } from 'viem';
+import { extractCid } from '@/lib/cid';
+import { getPinConfig, StorageProviderName } from '@/lib/config';
+import { createJsonStore } from '@/lib/json-store';
+import { getStorageProvider } from '@/lib/storage';
+import { coreMetadataModuleAbi } from '@/lib/story-abis';
+import { getStoryContracts } from '@/lib/story-contracts';
+import { MultipartFile } from '@/types';
+
+export type PinPurpose = MultipartFile['purpose'];
+
+/**
+ * The request uploads are made for; every pin created while handling it is tagged with it
+ */
+export interface PinContext {
+    requestId: string;
+    endpoint: string;
+    userAddress?: string;
+}
+
+/**
+ * A pin this engine created
+ */
+export interface PinRecord {
+    cid: string;
+    provider: StorageProviderName;
+    // The first upload's; reuses for another purpose do not relabel the content
+    filename: string;
+    purpose: PinPurpose;
+    // Every request that uploaded or reused the content, and their endpoints, oldest first
+    requestIds: string[];
+    endpoints: string[];
+    userAddress?: string;
+    createdAt: string;
+    // Last upload or reuse of the content; orphans are judged from here
+    lastUsedAt: string;
+    // Set by reconciliation once a registered IP's metadata URI is this pin, or metadata
+    // uploaded by one of its requests
+    onChain?: {
+        ipId: string;
+        metadataCid: string;
+        reconciledAt: string;
+    };
+}
+
+// onchain: anchored by a registered IP; pending: not yet, within the grace period; orphaned: past it;
+// retained: not uploaded for an IP registration, so reconciliation cannot tell whether it is used
+export type PinStatus = 'onchain' | 'pending' | 'orphaned' | 'retained';
+
+export const PIN_STATUSES: PinStatus[] = ['onchain', 'pending', 'orphaned', 'retained'];
+
+// Endpoints whose uploads are referenced from a registered IP's metadata URI. Dispute evidence and
+// license documents are referenced elsewhere on chain, so their pins are never taken for orphans.
+const REGISTRATION_ENDPOINTS = ['/api/prepare-mint', '/api/prepare-batch-mint', '/api/prepare-derivative', '/api/cli/mint-file'];
+const isRegistrationEndpoint = (endpoint: string): boolean =>
+    REGISTRATION_ENDPOINTS.includes(endpoint) || endpoint.startsWith('/api/uploads/');
+
+export interface PinFilter {
+    status?: PinStatus;
+    purpose?: PinPurpose;
+    userAddress?: string;
+    requestId?: string;
+}
+
+export interface ReconciliationResult {
+    fromBlock: string;
+    toBlock: string;
+    metadataURIsScanned: number;
+    anchored: string[];
+}
+
+export interface UnpinResult {
+    unpinned: string[];
+    failed: Array<{ cid: string; error: string }>;
+}
+
+interface PinRegistry {
+    pins: Record<string, PinRecord>;
+    // Last block whose MetadataURISet events were cross-checked against the pins
+    reconciledBlock?: string;
+}
+
+const registryStore = createJsonStore<PinRegistry>(() => getPinConfig().registryPath, () => ({ pins: {} }));
+
+const pinContext = new AsyncLocalStorage<PinContext>();
+
+/**
+ * Run a route handler with a pin context, so pins created while handling the request are
+ * tagged with its request ID and endpoint. The request ID is returned in X-Request-ID.
+ */
+export function withPinContext<T extends unknown[]>(
+    handler: (request: NextRequest, ...args: T) => Promise<NextResponse>
+) {
+    return (request: NextRequest, ...args: T): Promise<NextResponse> => {
+        const context: PinContext = {
+            requestId: `req_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+            endpoint: request.nextUrl.pathname
+        };
+
+        return pinContext.run(context, async () => {
+            const response = await handler(request, ...args);
+            response.headers.set('X-Request-ID', context.requestId);
+            return response;
+        });
+    };
+}
+
+/**
+ * Whether the request carries PIN_ADMIN_TOKEN as a Bearer token; never while it is unset. The
+ * registry lists user addresses and reconciling scans the chain, so every pin endpoint requires it.
+ * Tokens are compared as digests so the comparison takes the same time whatever their length.
+ */
+export function isPinAdminRequest(request: NextRequest): boolean {
+    const { adminToken } = getPinConfig();
+    const provided = request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1];
+    if (!adminToken || !provided) {
+        return false;
+    }
+    const digest = (token: string) => createHash('sha256').update(token).digest();
+    return timingSafeEqual(digest(provided), digest(adminToken));
+}
+
+/**
+ * Add tags known once the request is validated, e.g. the user address, to the current pin context
+ */
+export function tagPins(tags: Partial<Pick<PinContext, 'requestId' | 'userAddress'>>): void {
+    const context = pinContext.getStore();
+    if (context) {
+        Object.assign(context, tags);
+    }
+}
+
+/**
+ * Record that content was pinned, or reused, under the current pin context. A reuse adds its
+ * request and endpoint and keeps the first filename and purpose. The registry is bookkeeping:
+ * failing to write it is logged and never fails the upload.
+ */
+export async function recordPin(cid: string, details: { filename: string; purpose: PinPurpose }): Promise<void> {
+    const context = pinContext.getStore();
+    const now = new Date().toISOString();
+
+    try {
+        await registryStore.update(registry => {
+            const existing = registry.pins[cid];
+            const requestIds = existing?.requestIds || [];
+            const endpoints = existing?.endpoints || [];
+            registry.pins[cid] = {
+                ...existing,
+                cid,
+                provider: getStorageProvider().name,
+                filename: existing?.filename ?? details.filename,
+                purpose: existing?.purpose ?? details.purpose,
+                requestIds: context && !requestIds.includes(context.requestId) ? [...requestIds, context.requestId] : requestIds,
+                endpoints: context && !endpoints.includes(context.endpoint) ? [...endpoints, context.endpoint] : endpoints,
+                userAddress: context?.userAddress ?? existing?.userAddress,
+                createdAt: existing?.createdAt ?? now,
+                lastUsedAt: now
+            };
+        });
+    } catch (error) {
+        console.warn(`Failed to record pin ${cid}:`, error);
+    }
+}
+
+/**
+ * Status of a pin at the given time. Content is only taken for an orphan when every endpoint
+ * that used it uploads for IP registrations, so a pin another flow relies on is retained.
+ */
+export function getPinStatus(pin: PinRecord, now: number = Date.now()): PinStatus {
+    if (pin.onChain) {
+        return 'onchain';
+    }
+    if (pin.endpoints.length === 0 || !pin.endpoints.every(isRegistrationEndpoint)) {
+        return 'retained';
+    }
+    return now - Date.parse(pin.lastUsedAt) > getPinConfig().orphanGraceMs ? 'orphaned' : 'pending';
+}
+
+/**
+ * Pins matching the filter, newest first, with their status
+ */
+export async function listPins(filter: PinFilter = {}): Promise<{ pins: Array<PinRecord & { status: PinStatus }>; reconciledBlock?: string }> {
+    const { pins, reconciledBlock } = await registryStore.read();
+    const now = Date.now();
+
+    const matching = Object.values(pins)
+        .map(pin => ({ ...pin, status: getPinStatus(pin, now) }))
+        .filter(pin => (!filter.status || pin.status === filter.status)
+            && (!filter.purpose || pin.purpose === filter.purpose)
+            && (!filter.userAddress || pin.userAddress?.toLowerCase() === filter.userAddress.toLowerCase())
+            && (!filter.requestId || pin.requestIds.includes(filter.requestId)))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return { pins: matching, reconciledBlock };
+}
+
+/**
+ * Cross-check the pins against the metadata URIs of registered IP assets: the MetadataURISet
+ * events of the CoreMetadataModule since the last reconciled block. A pin whose CID is a
+ * registered metadata URI is on chain, and so is everything uploaded by the same request
+ * (the NFT metadata and files it refers to), even when another request reused it since.
+ *
+ * The first run starts far enough back to cover the oldest pin that is not on chain yet,
+ * assuming at least one second per block.
+ */
+export async function reconcilePins(publicClient: PublicClient): Promise<ReconciliationResult> {
+    const { reconcileBlockRange } = getPinConfig();
+    const { pins, reconciledBlock } = await registryStore.read();
+    const toBlock = await publicClient.getBlockNumber();
+
+    let fromBlock: bigint;
+    if (reconciledBlock !== undefined) {
+        fromBlock = BigInt(reconciledBlock) + BigInt(1);
+    } else {
+        const unanchored = Object.values(pins).filter(pin => !pin.onChain).map(pin => Date.parse(pin.createdAt));
+        const lookbackSeconds = unanchored.length > 0 ? Math.ceil((Date.now() - Math.min(...unanchored)) / 1000) + 3600 : 0;
+        fromBlock = toBlock > BigInt(lookbackSeconds) ? toBlock - BigInt(lookbackSeconds) : BigInt(0);
+    }
+
+    // CID of each registered metadata URI, to the IP asset it was set on
+    const registered = new Map<string, string>();
+    let metadataURIsScanned = 0;
+    for (let start = fromBlock; start <= toBlock; start += reconcileBlockRange) {
+        const end = start + reconcileBlockRange - BigInt(1) < toBlock ? start + reconcileBlockRange - BigInt(1) : toBlock;
+        const logs = await publicClient.getContractEvents({
+            address: getStoryContracts().coreMetadataModule,
+            abi: coreMetadataModuleAbi,
+            eventName: 'MetadataURISet',
+            fromBlock: start,
+            toBlock: end
+        });
+
+        for (const log of logs) {
+            metadataURIsScanned++;
+            const cid = log.args.metadataURI ? extractCid(log.args.metadataURI) : null;
+            if (cid && log.args.ipId) {
+                registered.set(cid, log.args.ipId);
+            }
+        }
+    }
+
+    const reconciledAt = new Date().toISOString();
+    const anchored = await registryStore.update(registry => {
+        const newlyAnchored: string[] = [];
+
+        // Requests whose metadata was registered, with the pin that proves it
+        const anchoredRequests = new Map<string, { ipId: string; metadataCid: string }>();
+        for (const pin of Object.values(registry.pins)) {
+            const ipId = registered.get(pin.cid);
+            if (ipId) {
+                pin.requestIds.forEach(requestId => anchoredRequests.set(requestId, { ipId, metadataCid: pin.cid }));
+            }
+        }
+
+        for (const pin of Object.values(registry.pins)) {
+            if (pin.onChain) {
+                continue;
+            }
+            const ipId = registered.get(pin.cid);
+            const anchor = ipId
+                ? { ipId, metadataCid: pin.cid }
+                : pin.requestIds.map(requestId => anchoredRequests.get(requestId)).find(Boolean);
+            if (anchor) {
+                pin.onChain = { ...anchor, reconciledAt };
+                newlyAnchored.push(pin.cid);
+            }
+        }
+
+        registry.reconciledBlock = toBlock.toString();
+        return newlyAnchored;
+    });
+
+    return {
+        fromBlock: fromBlock.toString(),
+        toBlock: toBlock.toString(),
+        metadataURIsScanned,
+        anchored
+    };
+}
+
+/**
+ * Unpin orphans from the configured storage provider and drop them from the registry.
+ * Reconcile first, so pins that made it on chain since the last run are not mistaken for orphans.
+ */
+export async function unpinOrphans(): Promise<UnpinResult> {
+    const provider = getStorageProvider();
+    const { pins: orphans } = await listPins({ status: 'orphaned' });
+    const result: UnpinResult = { unpinned: [], failed: [] };
+
+    for (const pin of orphans) {
+        if (pin.provider !== provider.name) {
+            result.failed.push({ cid: pin.cid, error: `Pinned with ${pin.provider}, not the configured ${provider.name} provider` });
+            continue;
+        }
+        try {
+            await provider.unpin(pin.cid);
+            result.unpinned.push(pin.cid);
+        } catch (error) {
+            result.failed.push({ cid: pin.cid, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+    }
+
+    await registryStore.update(registry => {
+        result.unpinned.forEach(cid => delete registry.pins[cid]);
+    });
+    return result;
+}
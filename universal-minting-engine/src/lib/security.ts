@@ -1,4 +1,28 @@
+import busboy from 'busboy';
+import { createWriteStream, openAsBlob } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
 import { NextRequest, NextResponse } from 'next/server';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ReadableStream as NodeReadableStream } from 'stream/web';
+import { getUploadConfig } from '@/lib/config';
+import { MultipartFile } from '@/types';
+
+// Largest request body accepted, checked against Content-Length and counted while a multipart body streams in
+const MAX_REQUEST_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Thrown when a multipart body goes over one of the multipart limits of the upload config;
+ * the request is refused rather than parsed with a part cut short
+ */
+export class MultipartLimitError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MultipartLimitError';
+    }
+}
 
 /**
  * Security headers configuration
@@ -27,8 +51,9 @@ export const SECURITY_HEADERS = {
 
     // CORS headers for API access
     'Access-Control-Allow-Origin': process.env.CORS_ORIGIN || '*',
-    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With, X-Chunk-SHA256',
+    'Access-Control-Expose-Headers': 'X-Request-ID',
     'Access-Control-Max-Age': '86400',
 
     // Cross-Origin policies (relaxed for API access)
@@ -156,9 +181,8 @@ export function validateRequestSize(request: NextRequest): boolean {
 
     if (contentLength) {
         const size = parseInt(contentLength, 10);
-        const maxSize = 50 * 1024 * 1024; // 50MB limit
 
-        if (size > maxSize) {
+        if (size > MAX_REQUEST_BYTES) {
             return false;
         }
     }
@@ -243,11 +267,164 @@ export function validateRequest(request: NextRequest): NextResponse | null {
     return null; // Request is valid
 }
 
+// Multipart field names are paths into the payload, e.g. files, items.0.files or items[0].files
+const MULTIPART_PATH_SEGMENT = /^\w+$/;
+const FORBIDDEN_PATH_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+const FILE_PURPOSES: Array<MultipartFile['purpose']> = ['media', 'metadata', 'evidence', 'attachment'];
+
+// Directories the file parts of multipart requests are spooled to, until releaseRequestFiles
+const requestSpools = new WeakMap<NextRequest, string>();
+
+/**
+ * Attach a file part at the payload path named by its field. A path ending in `files`
+ * appends to that array, with the purpose named after it if any (`files.evidence`) and
+ * media otherwise; any other path sets the slot, merging into an object the JSON payload
+ * already put there so it can supply the purpose, filename or content type.
+ */
+function attachMultipartFile(body: Record<string, unknown>, fieldName: string, part: Omit<MultipartFile, 'purpose'>): void {
+    let segments = fieldName.replace(/\[(\w+)\]/g, '.$1').split('.');
+    if (segments.some(segment => !MULTIPART_PATH_SEGMENT.test(segment) || FORBIDDEN_PATH_SEGMENTS.includes(segment))) {
+        throw new Error(`Multipart field name contains potentially dangerous patterns: ${fieldName}`);
+    }
+
+    let purpose: MultipartFile['purpose'] = 'media';
+    const named = segments[segments.length - 1] as MultipartFile['purpose'];
+    if (segments.length > 1 && segments[segments.length - 2] === 'files' && FILE_PURPOSES.includes(named)) {
+        purpose = named;
+        segments = segments.slice(0, -1);
+    }
+
+    let target = body;
+    for (let i = 0; i < segments.length - 1; i++) {
+        if (target[segments[i]] === null || typeof target[segments[i]] !== 'object') {
+            target[segments[i]] = /^\d+$/.test(segments[i + 1]) ? [] : {};
+        }
+        target = target[segments[i]] as Record<string, unknown>;
+    }
+
+    const key = segments[segments.length - 1];
+    const existing = target[key];
+    if (key === 'files' || Array.isArray(existing)) {
+        target[key] = [...(Array.isArray(existing) ? existing : []), { ...part, purpose }];
+    } else if (existing !== null && typeof existing === 'object') {
+        target[key] = { ...part, purpose, ...existing, file: part.file };
+    } else {
+        target[key] = { ...part, purpose };
+    }
+}
+
 /**
- * Sanitize request body
+ * Parse a multipart/form-data body as it streams in: the `payload` part holds the JSON
+ * fields and every file part is written to a temporary file and attached at its field name
+ * as a Blob backed by that file. Contents never pass through memory, JSON or base64, and are
+ * streamed from disk to storage; the files stay until releaseRequestFiles.
+ */
+async function parseMultipartBody(request: NextRequest): Promise<Record<string, unknown>> {
+    if (!request.body) {
+        throw new Error('Multipart request has no body');
+    }
+    const directory = await mkdtemp(path.join(tmpdir(), 'multipart-'));
+    requestSpools.set(request, directory);
+
+    let payload: string | undefined;
+    const parts: Array<{ fieldName: string; filename: string; mimeType: string; filePath: string }> = [];
+    const written: Promise<void>[] = [];
+    const config = getUploadConfig();
+    await new Promise<void>((resolve, reject) => {
+        const parser = busboy({
+            headers: { 'content-type': request.headers.get('content-type') || '' },
+            defParamCharset: 'utf8',
+            limits: {
+                fieldSize: config.multipartFieldSize,
+                fields: config.multipartFields,
+                files: config.multipartFiles,
+                fileSize: config.multipartFileSize
+            }
+        });
+        const source = Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>);
+        const fileStreams: Readable[] = [];
+        let received = 0;
+
+        // Stop reading the body once it is refused, closing the files being written
+        const fail = (error: Error) => {
+            reject(error);
+            source.unpipe(parser);
+            source.destroy();
+            fileStreams.forEach(stream => stream.destroy());
+        };
+
+        parser.on('field', (name, value, { nameTruncated, valueTruncated }) => {
+            if (nameTruncated || valueTruncated) {
+                fail(new MultipartLimitError(`Multipart field ${name} exceeds ${config.multipartFieldSize} bytes`));
+            } else if (name === 'payload') {
+                payload = value;
+            }
+        });
+        parser.on('file', (fieldName, stream, { filename, mimeType }) => {
+            const filePath = path.join(directory, String(parts.length));
+            parts.push({ fieldName, filename, mimeType, filePath });
+            fileStreams.push(stream);
+            stream.on('data', (chunk: Buffer) => {
+                received += chunk.length;
+                if (received > MAX_REQUEST_BYTES) {
+                    stream.destroy(new MultipartLimitError(`Multipart body exceeds ${MAX_REQUEST_BYTES} bytes`));
+                }
+            });
+            stream.on('limit', () => {
+                stream.destroy(new MultipartLimitError(`Multipart file ${fieldName} exceeds ${config.multipartFileSize} bytes`));
+            });
+            const write = pipeline(stream, createWriteStream(filePath));
+            write.catch(fail);
+            written.push(write);
+        });
+        parser.on('fieldsLimit', () => fail(new MultipartLimitError(`Multipart body has more than ${config.multipartFields} fields`)));
+        parser.on('filesLimit', () => fail(new MultipartLimitError(`Multipart body has more than ${config.multipartFiles} files`)));
+        parser.on('partsLimit', () => fail(new MultipartLimitError('Multipart body has too many parts')));
+        parser.on('error', fail);
+        parser.on('close', resolve);
+
+        source.on('error', fail).pipe(parser);
+    });
+    await Promise.all(written);
+
+    const body = sanitizeObject(payload !== undefined ? JSON.parse(payload) : {});
+    if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+        throw new Error('Multipart payload part must be a JSON object');
+    }
+
+    for (const { fieldName, filename: partFilename, mimeType, filePath } of parts) {
+        // Part names and types come from the client just like JSON fields do
+        const { filename, contentType } = sanitizeObject({
+            filename: partFilename,
+            contentType: (mimeType || 'application/octet-stream').split(';')[0]
+        });
+        attachMultipartFile(body, fieldName, { file: await openAsBlob(filePath, { type: contentType }), filename, contentType });
+    }
+
+    return body;
+}
+
+/**
+ * Remove the temporary files the multipart parts of the request were written to; the
+ * security wrappers call it once the handler has returned
+ */
+export async function releaseRequestFiles(request: NextRequest): Promise<void> {
+    const directory = requestSpools.get(request);
+    if (directory) {
+        requestSpools.delete(request);
+        await rm(directory, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Sanitize request body, from JSON or from multipart/form-data with a JSON `payload` part
  */
 export async function sanitizeRequestBody(request: NextRequest): Promise<any> {
     try {
+        if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+            return await parseMultipartBody(request);
+        }
         const body = await request.json();
         return sanitizeObject(body);
     } catch (error) {
@@ -298,6 +475,8 @@ export function withSecurity<T extends any[]>(
             }
 
             throw error;
+        } finally {
+            await releaseRequestFiles(request);
         }
     };
 }
@@ -370,6 +549,8 @@ export function withSecurityAndRateLimit<T extends any[]>(
             }
 
             throw error;
+        } finally {
+            await releaseRequestFiles(request);
         }
     };
 }
\ No newline at end of file
@@ -0,0 +1,191 @@
+import {
+    AbiErrorSignatureNotFoundError,
+    Address,
+    BaseError,
+    decodeErrorResult,
+    ExecutionRevertedError,
+    getAddress,
+    Hex,
+    PublicClient
+} from 'viem';
+import { storyErrorsAbi } from '@/lib/story-errors-abi';
+import { formatPreviewValue } from '@/lib/transaction-builders';
+import { PreparedTransaction, PreparedTransactionStep } from '@/types';
+
+/**
+ * Revert reason decoded against the Story contract errors
+ */
+export interface DecodedRevert {
+    errorName: string;
+    args: Record<string, unknown>;
+    data?: Hex;
+}
+
+/**
+ * Outcome of simulating one prepared step. Steps of a sequence are simulated together, each on
+ * the state (approvals, wrapped balances) the earlier ones leave; on a node without
+ * eth_simulateV1 the steps after the first are skipped.
+ */
+export interface StepSimulation {
+    step: number;
+    status: 'success' | 'skipped' | 'unavailable';
+    reason?: string;
+}
+
+/**
+ * Thrown when a prepared transaction would revert if sent
+ */
+export class SimulationRevertedError extends Error {
+    readonly step: number;
+    readonly description?: string;
+    readonly to: string;
+    readonly revert: DecodedRevert;
+
+    constructor(step: number, to: string, revert: DecodedRevert, description?: string) {
+        super(`Transaction step ${step} would revert: ${revert.errorName}`);
+        this.name = 'SimulationRevertedError';
+        this.step = step;
+        this.description = description;
+        this.to = to;
+        this.revert = revert;
+    }
+}
+
+type SimulatedTransaction = PreparedTransaction & Partial<Pick<PreparedTransactionStep, 'step' | 'description'>>;
+
+/**
+ * Whether the caller opted out of simulation with ?skipSimulation (any value but "false"/"0")
+ */
+export const isSimulationSkipped = (searchParams: URLSearchParams): boolean => {
+    const value = searchParams.get('skipSimulation');
+    return value !== null && value !== 'false' && value !== '0';
+};
+
+/**
+ * Pull the raw revert data out of a viem call error, if the node returned any
+ */
+const getRevertData = (error: BaseError): Hex | undefined => {
+    const cause = error.walk() as { data?: Hex | { data?: Hex } };
+    const data = typeof cause?.data === 'object' ? cause.data?.data : cause?.data;
+    return typeof data === 'string' && data.startsWith('0x') && data.length >= 10 ? data : undefined;
+};
+
+/**
+ * The decoded revert reason of a failed call or gas estimate, or undefined when it did not revert
+ * (an RPC failure, say)
+ */
+export const getRevertReason = (error: BaseError): DecodedRevert | undefined => {
+    const revertData = getRevertData(error);
+    if (revertData) {
+        return decodeRevertData(revertData);
+    }
+    if (error.walk(cause => cause instanceof ExecutionRevertedError)) {
+        return { errorName: 'ExecutionReverted', args: { reason: error.shortMessage } };
+    }
+    return undefined;
+};
+
+/**
+ * Decode revert data into the error name and named arguments.
+ * Error(string) and Panic(uint256) are decoded as well; unknown selectors are reported as-is.
+ */
+export const decodeRevertData = (data: Hex): DecodedRevert => {
+    try {
+        const { errorName, args, abiItem } = decodeErrorResult({ abi: storyErrorsAbi, data });
+        const inputs = abiItem.inputs ?? [];
+        return {
+            errorName,
+            args: Object.fromEntries(
+                inputs.map((input, index) => [input.name || `arg${index}`, formatPreviewValue(args?.[index])])
+            ),
+            data,
+        };
+    } catch (error) {
+        if (error instanceof AbiErrorSignatureNotFoundError) {
+            return { errorName: 'UnknownError', args: { selector: data.slice(0, 10) }, data };
+        }
+        throw error;
+    }
+};
+
+/**
+ * Simulate the prepared transactions from `from` and throw a SimulationRevertedError for the
+ * first one that would revert. A single transaction is run with eth_call; a sequence with
+ * eth_simulateV1, so the call after an approval or wrap step runs with the allowance it grants.
+ * RPC failures other than reverts do not block the response; the step is marked unavailable.
+ */
+export const simulateTransactionSteps = async (
+    publicClient: PublicClient,
+    from: string,
+    transactions: SimulatedTransaction[],
+    options: { skip?: boolean } = {}
+): Promise<StepSimulation[]> => {
+    const account = getAddress(from.toLowerCase());
+    const stepOf = (index: number) => transactions[index].step ?? index + 1;
+
+    if (transactions.length === 0) {
+        return [];
+    }
+    if (options.skip) {
+        return transactions.map((_, index) => ({ step: stepOf(index), status: 'skipped', reason: 'Simulation disabled with skipSimulation' }));
+    }
+
+    if (transactions.length > 1) {
+        let simulated;
+        try {
+            simulated = await publicClient.simulateCalls({
+                account,
+                calls: transactions.map(transaction => ({
+                    to: transaction.to as Address,
+                    data: transaction.data as Hex,
+                    value: BigInt(transaction.value || '0'),
+                })),
+            });
+        } catch (error) {
+            console.warn('Sequence simulation unavailable, simulating the first step only:', error instanceof BaseError ? error.shortMessage : error);
+        }
+
+        if (simulated) {
+            return simulated.results.map((result, index) => {
+                if (result.status === 'success') {
+                    return { step: stepOf(index), status: 'success' };
+                }
+                const revert = result.data && result.data.length >= 10
+                    ? decodeRevertData(result.data)
+                    : { errorName: 'ExecutionReverted', args: { reason: result.error.message } };
+                throw new SimulationRevertedError(stepOf(index), transactions[index].to, revert, transactions[index].description);
+            });
+        }
+    }
+
+    const [first, ...rest] = transactions;
+    return [
+        await simulateCall(publicClient, account, first, stepOf(0)),
+        ...rest.map((_, index) => ({ step: stepOf(index + 1), status: 'skipped' as const, reason: `Depends on step ${stepOf(0)} being mined first` })),
+    ];
+};
+
+// eth_call one transaction, throwing its decoded revert
+const simulateCall = async (publicClient: PublicClient, account: Address, transaction: SimulatedTransaction, step: number): Promise<StepSimulation> => {
+    try {
+        await publicClient.call({
+            account,
+            to: transaction.to as Address,
+            data: transaction.data as Hex,
+            value: BigInt(transaction.value || '0'),
+        });
+        return { step, status: 'success' };
+    } catch (error) {
+        if (!(error instanceof BaseError)) {
+            throw error;
+        }
+
+        const revert = getRevertReason(error);
+        if (revert) {
+            throw new SimulationRevertedError(step, transaction.to, revert, transaction.description);
+        }
+
+        console.warn(`Simulation of step ${step} unavailable:`, error.shortMessage);
+        return { step, status: 'unavailable', reason: error.shortMessage };
+    }
+};
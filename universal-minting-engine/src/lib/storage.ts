@@ -0,0 +1,174 @@
+import axios from 'axios';
+import FormData from 'form-data';
+import { createReadStream, createWriteStream } from 'fs';
+import { access, mkdir, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { computeCid, computeStreamCids } from '@/lib/cid';
+import { getPinataConfig, getStorageConfig, StorageProviderName } from '@/lib/config';
+
+/**
+ * Backend that pins uploaded content and returns its IPFS CID.
+ * Content is always sent as raw bytes (JSON already serialized), so the CID can be checked locally.
+ * Large files are passed as a stream so they are never buffered whole.
+ */
+export interface StorageProvider {
+    readonly name: StorageProviderName;
+    uploadFile(content: Buffer | Readable, filename: string, contentType: string): Promise<string>;
+    // Whether the CID is still pinned, e.g. before reusing an earlier upload
+    isPinned(cid: string): Promise<boolean>;
+    // Release the pin, e.g. of content that never made it on chain
+    unpin(cid: string): Promise<void>;
+}
+
+/**
+ * Pinata pinning service, authenticated with PINATA_JWT
+ */
+export function createPinataStorage(jwt: string | undefined): StorageProvider {
+    const requireJwt = (): string => {
+        if (!jwt) {
+            throw new Error('PINATA_JWT environment variable is required');
+        }
+        return jwt;
+    };
+
+    return {
+        name: 'pinata',
+
+        async uploadFile(content, filename, contentType) {
+            const data = new FormData();
+            data.append('file', content, { filename, contentType });
+            data.append('pinataOptions', JSON.stringify({ cidVersion: 0 }));
+
+            const response = await axios('https://api.pinata.cloud/pinning/pinFileToIPFS', {
+                method: 'POST',
+                headers: {
+                    Authorization: `Bearer ${requireJwt()}`,
+                    ...data.getHeaders(),
+                },
+                data,
+            });
+            return response.data.IpfsHash;
+        },
+
+        async isPinned(cid) {
+            // pinList filters by CID substring only, so the rows are checked for this exact CID
+            const response = await axios('https://api.pinata.cloud/data/pinList', {
+                method: 'GET',
+                headers: { Authorization: `Bearer ${requireJwt()}` },
+                params: { hashContains: cid, status: 'pinned', pageLimit: 10 },
+            });
+            const rows: Array<{ ipfs_pin_hash: string }> = response.data.rows || [];
+            return rows.some(row => row.ipfs_pin_hash === cid);
+        },
+
+        async unpin(cid) {
+            await axios(`https://api.pinata.cloud/pinning/unpin/${cid}`, {
+                method: 'DELETE',
+                headers: { Authorization: `Bearer ${requireJwt()}` },
+            });
+        },
+    };
+}
+
+/**
+ * Kubo (go-ipfs) node reached through its HTTP RPC API, e.g. a local `ipfs daemon`
+ */
+export function createKuboStorage(apiUrl: string): StorageProvider {
+    return {
+        name: 'kubo',
+
+        async uploadFile(content, filename, contentType) {
+            const data = new FormData();
+            data.append('file', content, { filename, contentType });
+
+            const response = await axios(`${apiUrl.replace(/\/$/, '')}/api/v0/add`, {
+                method: 'POST',
+                params: { 'cid-version': 0, pin: true },
+                headers: data.getHeaders(),
+                data,
+            });
+            return response.data.Hash;
+        },
+
+        async isPinned(cid) {
+            // pin/ls answers 500 "not pinned" for unpinned CIDs
+            const response = await axios(`${apiUrl.replace(/\/$/, '')}/api/v0/pin/ls`, {
+                method: 'POST',
+                params: { arg: cid },
+                validateStatus: status => status === 200 || status === 500,
+            });
+            if (response.status === 200) {
+                return true;
+            }
+            if (String(response.data?.Message).includes('not pinned')) {
+                return false;
+            }
+            throw new Error(`Kubo pin/ls failed: ${response.data?.Message || response.status}`);
+        },
+
+        async unpin(cid) {
+            await axios(`${apiUrl.replace(/\/$/, '')}/api/v0/pin/rm`, {
+                method: 'POST',
+                params: { arg: cid },
+            });
+        },
+    };
+}
+
+/**
+ * Stores content on the local filesystem under its CID, computed offline.
+ * Intended for development and tests; nothing is published to the IPFS network.
+ */
+export function createFilesystemStorage(directory: string): StorageProvider {
+    return {
+        name: 'filesystem',
+
+        async uploadFile(content) {
+            await mkdir(directory, { recursive: true });
+
+            if (Buffer.isBuffer(content)) {
+                const cid = computeCid(content);
+                await writeFile(path.join(directory, cid), content);
+                return cid;
+            }
+
+            // A stream can only be read once: write it out, then hash the written file
+            const stagingPath = path.join(directory, `.incoming-${process.pid}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`);
+            await pipeline(content, createWriteStream(stagingPath));
+            const { v0: cid } = await computeStreamCids(createReadStream(stagingPath));
+            await rename(stagingPath, path.join(directory, cid));
+            return cid;
+        },
+
+        async isPinned(cid) {
+            try {
+                await access(path.join(directory, cid));
+                return true;
+            } catch {
+                return false;
+            }
+        },
+
+        async unpin(cid) {
+            await rm(path.join(directory, cid), { force: true });
+        },
+    };
+}
+
+/**
+ * Storage provider selected by STORAGE_PROVIDER: pinata (default), kubo or filesystem
+ */
+export function getStorageProvider(): StorageProvider {
+    const config = getStorageConfig();
+
+    switch (config.provider) {
+        case 'kubo':
+            return createKuboStorage(config.kuboApiUrl);
+        case 'filesystem':
+            return createFilesystemStorage(config.filesystemDir);
+        default:
+            return createPinataStorage(getPinataConfig().jwt);
+    }
+}
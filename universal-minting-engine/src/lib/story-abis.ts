@@ -0,0 +1,534 @@
+/**
+ * Minimal ABI fragments for the Story Protocol periphery and core contracts
+ * that the transaction builders encode calls against.
+ *
+ * The core SDK only exports its generated ABIs internally, so the fragments
+ * used by this engine are kept here, copied verbatim from the SDK's
+ * generated contract bindings.
+ */
+
+const ipMetadataTuple = {
+    name: 'ipMetadata',
+    type: 'tuple',
+    components: [
+        { name: 'ipMetadataURI', type: 'string' },
+        { name: 'ipMetadataHash', type: 'bytes32' },
+        { name: 'nftMetadataURI', type: 'string' },
+        { name: 'nftMetadataHash', type: 'bytes32' }
+    ]
+} as const;
+
+const pilTermsTuple = {
+    name: 'terms',
+    type: 'tuple',
+    components: [
+        { name: 'transferable', type: 'bool' },
+        { name: 'royaltyPolicy', type: 'address' },
+        { name: 'defaultMintingFee', type: 'uint256' },
+        { name: 'expiration', type: 'uint256' },
+        { name: 'commercialUse', type: 'bool' },
+        { name: 'commercialAttribution', type: 'bool' },
+        { name: 'commercializerChecker', type: 'address' },
+        { name: 'commercializerCheckerData', type: 'bytes' },
+        { name: 'commercialRevShare', type: 'uint32' },
+        { name: 'commercialRevCeiling', type: 'uint256' },
+        { name: 'derivativesAllowed', type: 'bool' },
+        { name: 'derivativesAttribution', type: 'bool' },
+        { name: 'derivativesApproval', type: 'bool' },
+        { name: 'derivativesReciprocal', type: 'bool' },
+        { name: 'derivativeRevCeiling', type: 'uint256' },
+        { name: 'currency', type: 'address' },
+        { name: 'uri', type: 'string' }
+    ]
+} as const;
+
+/**
+ * RegistrationWorkflows - deploy SPG NFT collections and mint IP assets from them
+ */
+export const registrationWorkflowsAbi = [
+    {
+        name: 'mintAndRegisterIp',
+        type: 'function',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'spgNftContract', type: 'address' },
+            { name: 'recipient', type: 'address' },
+            ipMetadataTuple,
+            { name: 'allowDuplicates', type: 'bool' }
+        ],
+        outputs: [
+            { name: 'ipId', type: 'address' },
+            { name: 'tokenId', type: 'uint256' }
+        ]
+    },
+    {
+        name: 'createCollection',
+        type: 'function',
+        stateMutability: 'nonpayable',
+        inputs: [
+            {
+                name: 'spgNftInitParams',
+                type: 'tuple',
+                components: [
+                    { name: 'name', type: 'string' },
+                    { name: 'symbol', type: 'string' },
+                    { name: 'baseURI', type: 'string' },
+                    { name: 'contractURI', type: 'string' },
+                    { name: 'maxSupply', type: 'uint32' },
+                    { name: 'mintFee', type: 'uint256' },
+                    { name: 'mintFeeToken', type: 'address' },
+                    { name: 'mintFeeRecipient', type: 'address' },
+                    { name: 'owner', type: 'address' },
+                    { name: 'mintOpen', type: 'bool' },
+                    { name: 'isPublicMinting', type: 'bool' }
+                ]
+            }
+        ],
+        outputs: [{ name: 'spgNftContract', type: 'address' }]
+    },
+    {
+        name: 'CollectionCreated',
+        type: 'event',
+        anonymous: false,
+        inputs: [{ name: 'spgNftContract', type: 'address', indexed: true }]
+    }
+] as const;
+
+/**
+ * Workflow contracts (RegistrationWorkflows, LicenseAttachmentWorkflows, ...) - batch calls
+ * to the same contract through Multicall, which delegatecalls so msg.sender is kept
+ */
+export const workflowsMulticallAbi = [
+    {
+        name: 'multicall',
+        type: 'function',
+        stateMutability: 'nonpayable',
+        inputs: [{ name: 'data', type: 'bytes[]' }],
+        outputs: [{ name: 'results', type: 'bytes[]' }]
+    }
+] as const;
+
+/**
+ * LicenseAttachmentWorkflows - mint an NFT, register it as an IP and attach PIL terms
+ */
+export const licenseAttachmentWorkflowsAbi = [
+    {
+        name: 'mintAndRegisterIpAndAttachPILTerms',
+        type: 'function',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'spgNftContract', type: 'address' },
+            { name: 'recipient', type: 'address' },
+            ipMetadataTuple,
+            {
+                name: 'licenseTermsData',
+                type: 'tuple[]',
+                components: [
+                    pilTermsTuple,
+                    {
+                        name: 'licensingConfig',
+                        type: 'tuple',
+                        components: [
+                            { name: 'isSet', type: 'bool' },
+                            { name: 'mintingFee', type: 'uint256' },
+                            { name: 'licensingHook', type: 'address' },
+                            { name: 'hookData', type: 'bytes' },
+                            { name: 'commercialRevShare', type: 'uint32' },
+                            { name: 'disabled', type: 'bool' },
+                            { name: 'expectMinimumGroupRewardShare', type: 'uint32' },
+                            { name: 'expectGroupRewardPool', type: 'address' }
+                        ]
+                    }
+                ]
+            },
+            { name: 'allowDuplicates', type: 'bool' }
+        ],
+        outputs: [
+            { name: 'ipId', type: 'address' },
+            { name: 'tokenId', type: 'uint256' },
+            { name: 'licenseTermsIds', type: 'uint256[]' }
+        ]
+    }
+] as const;
+
+/**
+ * PILicenseTemplate - look up registered PIL terms
+ */
+export const piLicenseTemplateAbi = [
+    {
+        name: 'getLicenseTerms',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [{ name: 'selectedLicenseTermsId', type: 'uint256' }],
+        outputs: [pilTermsTuple]
+    },
+    {
+        name: 'getLicenseTermsId',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [pilTermsTuple],
+        outputs: [{ name: 'selectedLicenseTermsId', type: 'uint256' }]
+    },
+    {
+        name: 'totalRegisteredLicenseTerms',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [],
+        outputs: [{ name: '', type: 'uint256' }]
+    }
+] as const;
+
+/**
+ * DerivativeWorkflows - mint an NFT, register it as an IP and link it to its parents
+ */
+export const derivativeWorkflowsAbi = [
+    {
+        name: 'mintAndRegisterIpAndMakeDerivative',
+        type: 'function',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'spgNftContract', type: 'address' },
+            {
+                name: 'derivData',
+                type: 'tuple',
+                components: [
+                    { name: 'parentIpIds', type: 'address[]' },
+                    { name: 'licenseTemplate', type: 'address' },
+                    { name: 'licenseTermsIds', type: 'uint256[]' },
+                    { name: 'royaltyContext', type: 'bytes' },
+                    { name: 'maxMintingFee', type: 'uint256' },
+                    { name: 'maxRts', type: 'uint32' },
+                    { name: 'maxRevenueShare', type: 'uint32' }
+                ]
+            },
+            ipMetadataTuple,
+            { name: 'recipient', type: 'address' },
+            { name: 'allowDuplicates', type: 'bool' }
+        ],
+        outputs: [
+            { name: 'ipId', type: 'address' },
+            { name: 'tokenId', type: 'uint256' }
+        ]
+    }
+] as const;
+
+/**
+ * LicensingModule - mint license tokens, quote their minting fee, and the derivatives it logs
+ */
+export const licensingModuleAbi = [
+    {
+        name: 'mintLicenseTokens',
+        type: 'function',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'licensorIpId', type: 'address' },
+            { name: 'licenseTemplate', type: 'address' },
+            { name: 'licenseTermsId', type: 'uint256' },
+            { name: 'amount', type: 'uint256' },
+            { name: 'receiver', type: 'address' },
+            { name: 'royaltyContext', type: 'bytes' },
+            { name: 'maxMintingFee', type: 'uint256' },
+            { name: 'maxRevenueShare', type: 'uint32' }
+        ],
+        outputs: [{ name: 'startLicenseTokenId', type: 'uint256' }]
+    },
+    {
+        name: 'predictMintingLicenseFee',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'licensorIpId', type: 'address' },
+            { name: 'licenseTemplate', type: 'address' },
+            { name: 'licenseTermsId', type: 'uint256' },
+            { name: 'amount', type: 'uint256' },
+            { name: 'receiver', type: 'address' },
+            { name: 'royaltyContext', type: 'bytes' }
+        ],
+        outputs: [
+            { name: 'currencyToken', type: 'address' },
+            { name: 'tokenAmount', type: 'uint256' }
+        ]
+    },
+    {
+        name: 'DerivativeRegistered',
+        type: 'event',
+        anonymous: false,
+        inputs: [
+            { name: 'caller', type: 'address', indexed: true },
+            { name: 'childIpId', type: 'address', indexed: true },
+            { name: 'licenseTokenIds', type: 'uint256[]', indexed: false },
+            { name: 'parentIpIds', type: 'address[]', indexed: false },
+            { name: 'licenseTermsIds', type: 'uint256[]', indexed: false },
+            { name: 'licenseTemplate', type: 'address', indexed: false }
+        ]
+    }
+] as const;
+
+/**
+ * LicenseRegistry - the license terms attached to an IP asset
+ */
+export const licenseRegistryAbi = [
+    {
+        name: 'getAttachedLicenseTermsCount',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [{ name: 'ipId', type: 'address' }],
+        outputs: [{ name: '', type: 'uint256' }]
+    },
+    {
+        name: 'getAttachedLicenseTerms',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'ipId', type: 'address' },
+            { name: 'index', type: 'uint256' }
+        ],
+        outputs: [
+            { name: 'licenseTemplate', type: 'address' },
+            { name: 'licenseTermsId', type: 'uint256' }
+        ]
+    }
+] as const;
+
+/**
+ * RoyaltyModule - pay royalties and look up IP royalty vaults
+ */
+export const royaltyModuleAbi = [
+    {
+        name: 'payRoyaltyOnBehalf',
+        type: 'function',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'receiverIpId', type: 'address' },
+            { name: 'payerIpId', type: 'address' },
+            { name: 'token', type: 'address' },
+            { name: 'amount', type: 'uint256' }
+        ],
+        outputs: []
+    },
+    {
+        name: 'ipRoyaltyVaults',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [{ name: 'ipId', type: 'address' }],
+        outputs: [{ name: '', type: 'address' }]
+    }
+] as const;
+
+/**
+ * RoyaltyWorkflows - collect revenue from descendants and claim it in one call
+ */
+export const royaltyWorkflowsAbi = [
+    {
+        name: 'claimAllRevenue',
+        type: 'function',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'ancestorIpId', type: 'address' },
+            { name: 'claimer', type: 'address' },
+            { name: 'childIpIds', type: 'address[]' },
+            { name: 'royaltyPolicies', type: 'address[]' },
+            { name: 'currencyTokens', type: 'address[]' }
+        ],
+        outputs: [{ name: 'amountsClaimed', type: 'uint256[]' }]
+    }
+] as const;
+
+/**
+ * IP account implementation - execute arbitrary calls as the IP account
+ */
+export const ipAccountImplAbi = [
+    {
+        name: 'execute',
+        type: 'function',
+        stateMutability: 'payable',
+        inputs: [
+            { name: 'to', type: 'address' },
+            { name: 'value', type: 'uint256' },
+            { name: 'data', type: 'bytes' }
+        ],
+        outputs: [{ name: 'result', type: 'bytes' }]
+    }
+] as const;
+
+/**
+ * IP account implementation - the chain, contract and ID of the token the IP account is bound to
+ */
+export const ipAccountTokenAbi = [
+    {
+        name: 'token',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [],
+        outputs: [
+            { name: '', type: 'uint256' },
+            { name: '', type: 'address' },
+            { name: '', type: 'uint256' }
+        ]
+    }
+] as const;
+
+/**
+ * DisputeModule - raise disputes against IP assets and check whether one has tagged them
+ */
+export const disputeModuleAbi = [
+    {
+        name: 'isIpTagged',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [{ name: 'ipId', type: 'address' }],
+        outputs: [{ name: '', type: 'bool' }]
+    },
+    {
+        name: 'raiseDispute',
+        type: 'function',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'targetIpId', type: 'address' },
+            { name: 'disputeEvidenceHash', type: 'bytes32' },
+            { name: 'targetTag', type: 'bytes32' },
+            { name: 'data', type: 'bytes' }
+        ],
+        outputs: [{ name: 'disputeId', type: 'uint256' }]
+    }
+] as const;
+
+/**
+ * Wrapped IP (WIP) - wrap native IP into its ERC-20 form
+ */
+export const wrappedIpAbi = [
+    {
+        name: 'deposit',
+        type: 'function',
+        stateMutability: 'payable',
+        inputs: [],
+        outputs: []
+    }
+] as const;
+
+/**
+ * IPAssetRegistry - derive the IP account address of a token, check it is registered, and the
+ * registrations it logs
+ */
+export const ipAssetRegistryAbi = [
+    {
+        name: 'ipId',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'chainId', type: 'uint256' },
+            { name: 'tokenContract', type: 'address' },
+            { name: 'tokenId', type: 'uint256' }
+        ],
+        outputs: [{ name: '', type: 'address' }]
+    },
+    {
+        name: 'isRegistered',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [{ name: 'id', type: 'address' }],
+        outputs: [{ name: '', type: 'bool' }]
+    },
+    {
+        name: 'IPRegistered',
+        type: 'event',
+        anonymous: false,
+        inputs: [
+            { name: 'ipId', type: 'address', indexed: false },
+            { name: 'chainId', type: 'uint256', indexed: true },
+            { name: 'tokenContract', type: 'address', indexed: true },
+            { name: 'tokenId', type: 'uint256', indexed: true },
+            { name: 'name', type: 'string', indexed: false },
+            { name: 'uri', type: 'string', indexed: false },
+            { name: 'registrationDate', type: 'uint256', indexed: false }
+        ]
+    }
+] as const;
+
+/**
+ * IP account storage - values modules keep on the IP account, read by module namespace and key
+ */
+export const ipAccountStorageAbi = [
+    {
+        name: 'getBytesBatch',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'namespaces', type: 'bytes32[]' },
+            { name: 'keys', type: 'bytes32[]' }
+        ],
+        outputs: [{ name: 'values', type: 'bytes[]' }]
+    },
+    {
+        name: 'getBytes32Batch',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'namespaces', type: 'bytes32[]' },
+            { name: 'keys', type: 'bytes32[]' }
+        ],
+        outputs: [{ name: 'values', type: 'bytes32[]' }]
+    }
+] as const;
+
+/**
+ * CoreMetadataModule - the IP and NFT metadata URIs and hashes set on an IP asset
+ */
+export const coreMetadataModuleAbi = [
+    {
+        name: 'MetadataURISet',
+        type: 'event',
+        anonymous: false,
+        inputs: [
+            { name: 'ipId', type: 'address', indexed: true },
+            { name: 'metadataURI', type: 'string', indexed: false },
+            { name: 'metadataHash', type: 'bytes32', indexed: false }
+        ]
+    },
+    {
+        name: 'NFTTokenURISet',
+        type: 'event',
+        anonymous: false,
+        inputs: [
+            { name: 'ipId', type: 'address', indexed: true },
+            { name: 'nftTokenURI', type: 'string', indexed: false },
+            { name: 'nftMetadataHash', type: 'bytes32', indexed: false }
+        ]
+    }
+] as const;
+
+/**
+ * SPGNFT - read how many tokens a collection has minted
+ */
+export const spgNftAbi = [
+    {
+        name: 'totalSupply',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [],
+        outputs: [{ name: '', type: 'uint256' }]
+    }
+] as const;
+
+/**
+ * ERC721Enumerable - list the tokens of an owner, for collections that implement it (ERC-165)
+ */
+export const erc721EnumerableAbi = [
+    {
+        name: 'supportsInterface',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [{ name: 'interfaceId', type: 'bytes4' }],
+        outputs: [{ name: '', type: 'bool' }]
+    },
+    {
+        name: 'tokenOfOwnerByIndex',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'owner', type: 'address' },
+            { name: 'index', type: 'uint256' }
+        ],
+        outputs: [{ name: '', type: 'uint256' }]
+    }
+] as const;
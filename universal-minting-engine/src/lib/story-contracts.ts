@@ -0,0 +1,176 @@
+import { readFileSync } from 'fs';
+import { Address, getAddress, isAddress, PublicClient } from 'viem';
+import { getNetworkConfig, NetworkType } from '@/lib/config';
+
+/**
+ * Story Protocol periphery and core contracts the transaction builders call into
+ */
+export interface StoryContracts {
+    registrationWorkflows: Address;
+    licenseAttachmentWorkflows: Address;
+    derivativeWorkflows: Address;
+    licensingModule: Address;
+    licenseRegistry: Address;
+    piLicenseTemplate: Address;
+    royaltyModule: Address;
+    royaltyWorkflows: Address;
+    royaltyPolicyLap: Address;
+    disputeModule: Address;
+    arbitrationPolicyUma: Address;
+    ipAssetRegistry: Address;
+    coreMetadataModule: Address;
+    wip: Address;
+}
+
+export type StoryContractName = keyof StoryContracts;
+
+// Story Protocol deployments, keyed by network
+const storyContracts: Record<NetworkType, StoryContracts> = {
+    aeneid: {
+        registrationWorkflows: '0xbe39E1C756e921BD25DF86e7AAa31106d1eb0424',
+        licenseAttachmentWorkflows: '0xcC2E862bCee5B6036Db0de6E06Ae87e524a79fd8',
+        derivativeWorkflows: '0x9e2d496f72C547C2C535B167e06ED8729B374a4f',
+        licensingModule: '0x04fbd8a2e56dd85CFD5500A4A4DfA955B9f1dE6f',
+        licenseRegistry: '0x529a750E02d8E2f15649c13D69a465286a780e24',
+        piLicenseTemplate: '0x2E896b0b2Fdb7457499B56AAaA4AE55BCB4Cd316',
+        royaltyModule: '0xD2f60c40fEbccf6311f8B47c4f2Ec6b040400086',
+        royaltyWorkflows: '0x9515faE61E0c0447C6AC6dEe5628A2097aFE1890',
+        royaltyPolicyLap: '0xBe54FB168b3c982b7AaE60dB6CF75Bd8447b390E',
+        disputeModule: '0x9b7A9c70AFF961C799110954fc06F3093aeb94C5',
+        arbitrationPolicyUma: '0xfFD98c3877B8789124f02C7E8239A4b0Ef11E936',
+        ipAssetRegistry: '0x77319B4031e6eF1250907aa00018B8B1c67a244b',
+        coreMetadataModule: '0x6E81a25C99C6e8430aeC7353325EB138aFE5DC16',
+        wip: '0x1514000000000000000000000000000000000000',
+    },
+    mainnet: {
+        registrationWorkflows: '0xbe39E1C756e921BD25DF86e7AAa31106d1eb0424',
+        licenseAttachmentWorkflows: '0xcC2E862bCee5B6036Db0de6E06Ae87e524a79fd8',
+        derivativeWorkflows: '0x9e2d496f72C547C2C535B167e06ED8729B374a4f',
+        licensingModule: '0x04fbd8a2e56dd85CFD5500A4A4DfA955B9f1dE6f',
+        licenseRegistry: '0x529a750E02d8E2f15649c13D69a465286a780e24',
+        piLicenseTemplate: '0x2E896b0b2Fdb7457499B56AAaA4AE55BCB4Cd316',
+        royaltyModule: '0xD2f60c40fEbccf6311f8B47c4f2Ec6b040400086',
+        royaltyWorkflows: '0x9515faE61E0c0447C6AC6dEe5628A2097aFE1890',
+        royaltyPolicyLap: '0xBe54FB168b3c982b7AaE60dB6CF75Bd8447b390E',
+        disputeModule: '0x9b7A9c70AFF961C799110954fc06F3093aeb94C5',
+        arbitrationPolicyUma: '0xfFD98c3877B8789124f02C7E8239A4b0Ef11E936',
+        ipAssetRegistry: '0x77319B4031e6eF1250907aa00018B8B1c67a244b',
+        coreMetadataModule: '0x6E81a25C99C6e8430aeC7353325EB138aFE5DC16',
+        wip: '0x1514000000000000000000000000000000000000',
+    },
+};
+
+/**
+ * Environment variable overriding a single contract, e.g.
+ * registrationWorkflows -> STORY_REGISTRATION_WORKFLOWS_ADDRESS
+ */
+export const getContractEnvVar = (name: StoryContractName): string => {
+    return `STORY_${name.replace(/([A-Z])/g, '_$1').toUpperCase()}_ADDRESS`;
+};
+
+const toContractAddress = (name: StoryContractName, value: unknown, source: string): Address => {
+    if (typeof value !== 'string' || !isAddress(value, { strict: false })) {
+        throw new Error(`Invalid ${name} address in ${source}: ${String(value)}`);
+    }
+    return getAddress(value.toLowerCase());
+};
+
+/**
+ * Read per-network overrides from the JSON file named by STORY_CONTRACTS_CONFIG, shaped as
+ * { "aeneid": { "licensingModule": "0x...", "deploymentBlock": 123 }, "mainnet": { ... } }
+ */
+const readConfigOverrides = (network: NetworkType): Partial<Record<StoryContractName | 'deploymentBlock', unknown>> => {
+    const configPath = process.env.STORY_CONTRACTS_CONFIG;
+    if (!configPath) {
+        return {};
+    }
+
+    let parsed: Record<string, Partial<Record<StoryContractName | 'deploymentBlock', unknown>>>;
+    try {
+        parsed = JSON.parse(readFileSync(configPath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Failed to read Story contracts config ${configPath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return parsed[network] || {};
+};
+
+/**
+ * Resolve the Story contracts for a network (defaults to the configured one).
+ * Each address is taken from, in order: its STORY_<NAME>_ADDRESS environment variable,
+ * the STORY_CONTRACTS_CONFIG file, then the built-in deployment.
+ */
+export const getStoryContracts = (network: NetworkType = getNetworkConfig().network): StoryContracts => {
+    const configOverrides = readConfigOverrides(network);
+    const contracts = { ...storyContracts[network] };
+
+    for (const name of Object.keys(contracts) as StoryContractName[]) {
+        const envVar = getContractEnvVar(name);
+        if (process.env[envVar]) {
+            contracts[name] = toContractAddress(name, process.env[envVar], envVar);
+        } else if (configOverrides[name] !== undefined) {
+            contracts[name] = toContractAddress(name, configOverrides[name], process.env.STORY_CONTRACTS_CONFIG!);
+        }
+    }
+
+    return contracts;
+};
+
+// Deployment blocks found on chain, by network and IPAssetRegistry address
+const deploymentBlocks = new Map<string, Promise<bigint>>();
+
+/**
+ * The block the network's IPAssetRegistry was deployed in; nothing registered with Story is older,
+ * so log scans start there. Taken from the "deploymentBlock" of the network in the
+ * STORY_CONTRACTS_CONFIG file, otherwise found on chain as the first block where the registry has
+ * code and remembered. Finding it needs historical state; block 0 is used when the RPC has none.
+ */
+export const getStoryDeploymentBlock = async (publicClient: PublicClient, network: NetworkType = getNetworkConfig().network): Promise<bigint> => {
+    const configured = readConfigOverrides(network).deploymentBlock;
+    if (configured !== undefined) {
+        if (typeof configured !== 'number' || !Number.isSafeInteger(configured) || configured < 0) {
+            throw new Error(`Invalid deploymentBlock in ${process.env.STORY_CONTRACTS_CONFIG}: ${String(configured)}`);
+        }
+        return BigInt(configured);
+    }
+
+    const { ipAssetRegistry } = getStoryContracts(network);
+    const key = `${network}:${ipAssetRegistry}`;
+    let deploymentBlock = deploymentBlocks.get(key);
+    if (!deploymentBlock) {
+        deploymentBlock = findDeploymentBlock(publicClient, ipAssetRegistry);
+        deploymentBlocks.set(key, deploymentBlock);
+    }
+
+    try {
+        return await deploymentBlock;
+    } catch (error) {
+        // Tried again next time, as the RPC may have been briefly unavailable
+        deploymentBlocks.delete(key);
+        console.warn(`Failed to find the deployment block of the IPAssetRegistry at ${ipAssetRegistry}, starting from block 0:`, error);
+        return BigInt(0);
+    }
+};
+
+// Binary search for the first block where the contract has code
+const findDeploymentBlock = async (publicClient: PublicClient, address: Address): Promise<bigint> => {
+    const hasCode = async (blockNumber: bigint) => {
+        const code = await publicClient.getCode({ address, blockNumber });
+        return code !== undefined && code !== '0x';
+    };
+
+    let low = BigInt(0);
+    let high = await publicClient.getBlockNumber();
+    if (!await hasCode(high)) {
+        throw new Error(`No contract deployed at ${address}`);
+    }
+    while (low < high) {
+        const middle = (low + high) / BigInt(2);
+        if (await hasCode(middle)) {
+            high = middle;
+        } else {
+            low = middle + BigInt(1);
+        }
+    }
+    return low;
+};
@@ -0,0 +1,326 @@
+/**
+ * Custom errors raised by the Story Protocol contracts the prepared transactions call,
+ * including errors bubbled up from the core modules behind the workflow contracts
+ * and the OpenZeppelin/Solady errors of the token contracts.
+ *
+ * Copied verbatim from the SDK's generated contract bindings, deduplicated by signature.
+ */
+export const storyErrorsAbi = [
+    { type: 'error', name: 'AccessController__BothCallerAndRecipientAreNotRegisteredModule', inputs: [{ name: 'signer', type: 'address' }, { name: 'to', type: 'address' }] },
+    { type: 'error', name: 'AccessController__CallerIsNotIPAccountOrOwner', inputs: [] },
+    { type: 'error', name: 'AccessController__IPAccountIsNotValid', inputs: [{ name: 'ipAccount', type: 'address' }] },
+    { type: 'error', name: 'AccessController__IPAccountIsZeroAddress', inputs: [] },
+    { type: 'error', name: 'AccessController__OwnerIsIPAccount', inputs: [{ name: 'ipAccount', type: 'address' }, { name: 'owner', type: 'address' }] },
+    { type: 'error', name: 'AccessController__PermissionDenied', inputs: [{ name: 'ipAccount', type: 'address' }, { name: 'signer', type: 'address' }, { name: 'to', type: 'address' }, { name: 'func', type: 'bytes4' }] },
+    { type: 'error', name: 'AccessController__PermissionIsNotValid', inputs: [] },
+    { type: 'error', name: 'AccessController__SignerIsZeroAddress', inputs: [] },
+    { type: 'error', name: 'AccessController__ToAndFuncAreZeroAddressShouldCallSetAllPermissions', inputs: [] },
+    { type: 'error', name: 'AccessController__ZeroAccessManager', inputs: [] },
+    { type: 'error', name: 'AccessController__ZeroIPAccountRegistry', inputs: [] },
+    { type: 'error', name: 'AccessController__ZeroModuleRegistry', inputs: [] },
+    { type: 'error', name: 'AccessManagedInvalidAuthority', inputs: [{ name: 'authority', type: 'address' }] },
+    { type: 'error', name: 'AccessManagedRequiredDelay', inputs: [{ name: 'caller', type: 'address' }, { name: 'delay', type: 'uint32' }] },
+    { type: 'error', name: 'AccessManagedUnauthorized', inputs: [{ name: 'caller', type: 'address' }] },
+    { type: 'error', name: 'AddressEmptyCode', inputs: [{ name: 'target', type: 'address' }] },
+    { type: 'error', name: 'ERC1967InvalidImplementation', inputs: [{ name: 'implementation', type: 'address' }] },
+    { type: 'error', name: 'ERC1967NonPayable', inputs: [] },
+    { type: 'error', name: 'EnforcedPause', inputs: [] },
+    { type: 'error', name: 'ExpectedPause', inputs: [] },
+    { type: 'error', name: 'FailedCall', inputs: [] },
+    { type: 'error', name: 'InvalidInitialization', inputs: [] },
+    { type: 'error', name: 'NotInitializing', inputs: [] },
+    { type: 'error', name: 'UUPSUnauthorizedCallContext', inputs: [] },
+    { type: 'error', name: 'UUPSUnsupportedProxiableUUID', inputs: [{ name: 'slot', type: 'bytes32' }] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__BondAboveMax', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__CannotCancel', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__CannotDisputeAssertionIfTagIsInherited', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__CurrencyNotWhitelisted', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__DisputeNotFound', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__IpOwnerTimePercentAboveMax', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__LivenessAboveMax', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__LivenessBelowMin', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__MaxBondBelowMinimumBond', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__MinLivenessAboveMax', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__NoCounterEvidence', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__NotDisputeModule', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__NotOOV3', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__OnlyDisputePolicyUMA', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__OnlyTargetIpIdCanDisputeWithinTimeWindow', inputs: [{ name: 'elapsedTime', type: 'uint64' }, { name: 'liveness', type: 'uint64' }, { name: 'caller', type: 'address' }] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__ZeroAccessManager', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__ZeroDisputeModule', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__ZeroMaxLiveness', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__ZeroMinLiveness', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__ZeroOOV3', inputs: [] },
+    { type: 'error', name: 'ArbitrationPolicyUMA__ZeroRoyaltyModule', inputs: [] },
+    { type: 'error', name: 'ReentrancyGuardReentrantCall', inputs: [] },
+    { type: 'error', name: 'SafeERC20FailedOperation', inputs: [{ name: 'token', type: 'address' }] },
+    { type: 'error', name: 'AccessControlled__NotIpAccount', inputs: [{ name: 'ipAccount', type: 'address' }] },
+    { type: 'error', name: 'AccessControlled__ZeroAddress', inputs: [] },
+    { type: 'error', name: 'CoreMetadataModule__MetadataAlreadyFrozen', inputs: [] },
+    { type: 'error', name: 'CoreMetadataModule__ZeroAccessManager', inputs: [] },
+    { type: 'error', name: 'DerivativeWorkflows__CallerAndNotTokenOwner', inputs: [{ name: 'tokenId', type: 'uint256' }, { name: 'caller', type: 'address' }, { name: 'actualTokenOwner', type: 'address' }] },
+    { type: 'error', name: 'DerivativeWorkflows__CallerNotSigner', inputs: [{ name: 'caller', type: 'address' }, { name: 'signer', type: 'address' }] },
+    { type: 'error', name: 'DerivativeWorkflows__EmptyLicenseTokens', inputs: [] },
+    { type: 'error', name: 'DerivativeWorkflows__ZeroAddressParam', inputs: [] },
+    { type: 'error', name: 'LicensingHelper__ParentIpIdsAndLicenseTermsIdsMismatch', inputs: [] },
+    { type: 'error', name: 'PermissionHelper__ModulesAndSelectorsMismatch', inputs: [] },
+    { type: 'error', name: 'Workflow__CallerNotAuthorizedToMint', inputs: [] },
+    { type: 'error', name: 'DisputeModule__CannotBlacklistBaseArbitrationPolicy', inputs: [] },
+    { type: 'error', name: 'DisputeModule__DisputeAlreadyPropagated', inputs: [] },
+    { type: 'error', name: 'DisputeModule__DisputeWithoutInfringementTag', inputs: [] },
+    { type: 'error', name: 'DisputeModule__EvidenceHashAlreadyUsed', inputs: [] },
+    { type: 'error', name: 'DisputeModule__NotAbleToResolve', inputs: [] },
+    { type: 'error', name: 'DisputeModule__NotAllowedToWhitelist', inputs: [] },
+    { type: 'error', name: 'DisputeModule__NotArbitrationRelayer', inputs: [] },
+    { type: 'error', name: 'DisputeModule__NotDerivativeOrGroupIp', inputs: [] },
+    { type: 'error', name: 'DisputeModule__NotDisputeInitiator', inputs: [] },
+    { type: 'error', name: 'DisputeModule__NotInDisputeState', inputs: [] },
+    { type: 'error', name: 'DisputeModule__NotRegisteredIpId', inputs: [] },
+    { type: 'error', name: 'DisputeModule__NotWhitelistedArbitrationPolicy', inputs: [] },
+    { type: 'error', name: 'DisputeModule__NotWhitelistedDisputeTag', inputs: [] },
+    { type: 'error', name: 'DisputeModule__RelatedDisputeNotResolved', inputs: [] },
+    { type: 'error', name: 'DisputeModule__ZeroAccessController', inputs: [] },
+    { type: 'error', name: 'DisputeModule__ZeroAccessManager', inputs: [] },
+    { type: 'error', name: 'DisputeModule__ZeroArbitrationPolicy', inputs: [] },
+    { type: 'error', name: 'DisputeModule__ZeroArbitrationPolicyCooldown', inputs: [] },
+    { type: 'error', name: 'DisputeModule__ZeroDisputeEvidenceHash', inputs: [] },
+    { type: 'error', name: 'DisputeModule__ZeroDisputeTag', inputs: [] },
+    { type: 'error', name: 'DisputeModule__ZeroIPAssetRegistry', inputs: [] },
+    { type: 'error', name: 'DisputeModule__ZeroIPGraphACL', inputs: [] },
+    { type: 'error', name: 'DisputeModule__ZeroLicenseRegistry', inputs: [] },
+    { type: 'error', name: 'FnSelectorNotRecognized', inputs: [] },
+    { type: 'error', name: 'IPAccountStorage__InvalidBatchLengths', inputs: [] },
+    { type: 'error', name: 'IPAccountStorage__NotRegisteredModule', inputs: [{ name: 'module', type: 'address' }] },
+    { type: 'error', name: 'IPAccountStorage__ZeroIpAssetRegistry', inputs: [] },
+    { type: 'error', name: 'IPAccountStorage__ZeroLicenseRegistry', inputs: [] },
+    { type: 'error', name: 'IPAccountStorage__ZeroModuleRegistry', inputs: [] },
+    { type: 'error', name: 'IPAccount__ExpiredSignature', inputs: [] },
+    { type: 'error', name: 'IPAccount__InvalidCalldata', inputs: [] },
+    { type: 'error', name: 'IPAccount__InvalidOperation', inputs: [] },
+    { type: 'error', name: 'IPAccount__InvalidSignature', inputs: [] },
+    { type: 'error', name: 'IPAccount__InvalidSigner', inputs: [] },
+    { type: 'error', name: 'IPAccount__UUPSUpgradeDisabled', inputs: [] },
+    { type: 'error', name: 'IPAccount__ZeroAccessController', inputs: [] },
+    { type: 'error', name: 'OperationNotSupported', inputs: [] },
+    { type: 'error', name: 'SelfOwnDetected', inputs: [] },
+    { type: 'error', name: 'Unauthorized', inputs: [] },
+    { type: 'error', name: 'UnauthorizedCallContext', inputs: [] },
+    { type: 'error', name: 'UpgradeFailed', inputs: [] },
+    { type: 'error', name: 'GroupIPAssetRegistry__CallerIsNotGroupingModule', inputs: [{ name: 'caller', type: 'address' }] },
+    { type: 'error', name: 'GroupIPAssetRegistry__GroupRewardPoolNotRegistered', inputs: [{ name: 'groupPool', type: 'address' }] },
+    { type: 'error', name: 'GroupIPAssetRegistry__GroupSizeExceedsLimit', inputs: [{ name: 'groupSize', type: 'uint256' }, { name: 'limit', type: 'uint256' }] },
+    { type: 'error', name: 'GroupIPAssetRegistry__InvalidGroupRewardPool', inputs: [{ name: 'rewardPool', type: 'address' }] },
+    { type: 'error', name: 'GroupIPAssetRegistry__NotRegisteredGroupIP', inputs: [{ name: 'groupId', type: 'address' }] },
+    { type: 'error', name: 'GroupIPAssetRegistry__NotRegisteredIP', inputs: [{ name: 'ipId', type: 'address' }] },
+    { type: 'error', name: 'GroupIPAssetRegistry__PageSizeExceedsLimit', inputs: [{ name: 'pageSize', type: 'uint256' }, { name: 'limit', type: 'uint256' }] },
+    { type: 'error', name: 'IPAccountRegistry_ZeroERC6551Registry', inputs: [] },
+    { type: 'error', name: 'IPAccountRegistry_ZeroIpAccountImpl', inputs: [] },
+    { type: 'error', name: 'IPAccountRegistry_ZeroIpAccountImplBeacon', inputs: [] },
+    { type: 'error', name: 'IPAssetRegistry__InvalidToken', inputs: [{ name: 'contractAddress', type: 'address' }, { name: 'tokenId', type: 'uint256' }] },
+    { type: 'error', name: 'IPAssetRegistry__UnsupportedIERC721', inputs: [{ name: 'contractAddress', type: 'address' }] },
+    { type: 'error', name: 'IPAssetRegistry__UnsupportedIERC721Metadata', inputs: [{ name: 'contractAddress', type: 'address' }] },
+    { type: 'error', name: 'IPAssetRegistry__ZeroAccessManager', inputs: [] },
+    { type: 'error', name: 'IPAssetRegistry__ZeroAddress', inputs: [{ name: 'name', type: 'string' }] },
+    { type: 'error', name: 'StringsInsufficientHexLength', inputs: [{ name: 'value', type: 'uint256' }, { name: 'length', type: 'uint256' }] },
+    { type: 'error', name: 'ERC20InsufficientAllowance', inputs: [{ name: 'spender', type: 'address' }, { name: 'allowance', type: 'uint256' }, { name: 'needed', type: 'uint256' }] },
+    { type: 'error', name: 'ERC20InsufficientBalance', inputs: [{ name: 'sender', type: 'address' }, { name: 'balance', type: 'uint256' }, { name: 'needed', type: 'uint256' }] },
+    { type: 'error', name: 'ERC20InvalidApprover', inputs: [{ name: 'approver', type: 'address' }] },
+    { type: 'error', name: 'ERC20InvalidReceiver', inputs: [{ name: 'receiver', type: 'address' }] },
+    { type: 'error', name: 'ERC20InvalidSender', inputs: [{ name: 'sender', type: 'address' }] },
+    { type: 'error', name: 'ERC20InvalidSpender', inputs: [{ name: 'spender', type: 'address' }] },
+    { type: 'error', name: 'IpRoyaltyVault__EnforcedPause', inputs: [] },
+    { type: 'error', name: 'IpRoyaltyVault__GroupPoolMustClaimViaGroupingModule', inputs: [] },
+    { type: 'error', name: 'IpRoyaltyVault__InsufficientBalance', inputs: [{ name: 'vault', type: 'address' }, { name: 'account', type: 'address' }, { name: 'amount', type: 'uint256' }] },
+    { type: 'error', name: 'IpRoyaltyVault__InvalidTargetIpId', inputs: [] },
+    { type: 'error', name: 'IpRoyaltyVault__NegativeValueUnsafeCastingToUint256', inputs: [] },
+    { type: 'error', name: 'IpRoyaltyVault__NoClaimableTokens', inputs: [] },
+    { type: 'error', name: 'IpRoyaltyVault__NotAllowedToAddTokenToVault', inputs: [] },
+    { type: 'error', name: 'IpRoyaltyVault__NotWhitelistedRoyaltyToken', inputs: [] },
+    { type: 'error', name: 'IpRoyaltyVault__SameFromToAddress', inputs: [{ name: 'vault', type: 'address' }, { name: 'from', type: 'address' }] },
+    { type: 'error', name: 'IpRoyaltyVault__VaultDoesNotBelongToAnAncestor', inputs: [] },
+    { type: 'error', name: 'IpRoyaltyVault__VaultsMustClaimAsSelf', inputs: [] },
+    { type: 'error', name: 'IpRoyaltyVault__ZeroAmount', inputs: [] },
+    { type: 'error', name: 'IpRoyaltyVault__ZeroBalance', inputs: [{ name: 'vault', type: 'address' }, { name: 'account', type: 'address' }] },
+    { type: 'error', name: 'IpRoyaltyVault__ZeroDisputeModule', inputs: [] },
+    { type: 'error', name: 'IpRoyaltyVault__ZeroGroupingModule', inputs: [] },
+    { type: 'error', name: 'IpRoyaltyVault__ZeroIpAssetRegistry', inputs: [] },
+    { type: 'error', name: 'IpRoyaltyVault__ZeroRoyaltyModule', inputs: [] },
+    { type: 'error', name: 'LicenseAttachmentWorkflows__CallerNotSigner', inputs: [{ name: 'caller', type: 'address' }, { name: 'signer', type: 'address' }] },
+    { type: 'error', name: 'LicenseAttachmentWorkflows__NoLicenseTermsData', inputs: [] },
+    { type: 'error', name: 'LicenseAttachmentWorkflows__ZeroAddressParam', inputs: [] },
+    { type: 'error', name: 'LicenseRegistry__AddParentIpToIPGraphFailed', inputs: [{ name: 'childIpId', type: 'address' }, { name: 'parentIpIds', type: 'address[]' }] },
+    { type: 'error', name: 'LicenseRegistry__CallFailed', inputs: [] },
+    { type: 'error', name: 'LicenseRegistry__CallerNotLicensingModule', inputs: [] },
+    { type: 'error', name: 'LicenseRegistry__CannotAddIpWithExpirationToGroup', inputs: [{ name: 'ipId', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__DerivativeAlreadyRegistered', inputs: [{ name: 'childIpId', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__DerivativeIpAlreadyHasChild', inputs: [{ name: 'childIpId', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__DerivativeIpAlreadyHasLicense', inputs: [{ name: 'childIpId', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__DerivativeIsParent', inputs: [{ name: 'ipId', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__DuplicateParentIp', inputs: [{ name: 'ipId', type: 'address' }, { name: 'parentIpId', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__EmptyGroupCannotMintLicenseToken', inputs: [{ name: 'groupId', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__GroupCannotHasParentIp', inputs: [{ name: 'groupId', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__GroupIpAlreadyHasLicenseTerms', inputs: [{ name: 'groupId', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__GroupIpCommercialRevShareConfigMustNotLessThanIp', inputs: [{ name: 'groupId', type: 'address' }, { name: 'ipCommercialRevShare', type: 'uint32' }, { name: 'groupCommercialRevShare', type: 'uint32' }] },
+    { type: 'error', name: 'LicenseRegistry__GroupMustBeSoleParent', inputs: [{ name: 'childIpId', type: 'address' }, { name: 'groupId', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__IndexOutOfBounds', inputs: [{ name: 'ipId', type: 'address' }, { name: 'index', type: 'uint256' }, { name: 'length', type: 'uint256' }] },
+    { type: 'error', name: 'LicenseRegistry__IpExpectGroupRewardPoolNotMatch', inputs: [{ name: 'ipId', type: 'address' }, { name: 'expectGroupRewardPool', type: 'address' }, { name: 'groupId', type: 'address' }, { name: 'groupRewardPool', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__IpExpectGroupRewardPoolNotSet', inputs: [{ name: 'ipId', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__IpExpired', inputs: [{ name: 'ipId', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__IpHasNoGroupLicenseTerms', inputs: [{ name: 'groupId', type: 'address' }, { name: 'licenseTemplate', type: 'address' }, { name: 'licenseTermsId', type: 'uint256' }] },
+    { type: 'error', name: 'LicenseRegistry__IpLicenseDisabled', inputs: [{ name: 'ipId', type: 'address' }, { name: 'licenseTemplate', type: 'address' }, { name: 'licenseTermsId', type: 'uint256' }] },
+    { type: 'error', name: 'LicenseRegistry__IpLicensingHookDataNotMatchWithGroup', inputs: [{ name: 'ipId', type: 'address' }, { name: 'hookData', type: 'bytes' }, { name: 'groupHookData', type: 'bytes' }] },
+    { type: 'error', name: 'LicenseRegistry__IpLicensingHookNotMatchWithGroup', inputs: [{ name: 'ipId', type: 'address' }, { name: 'licensingHook', type: 'address' }, { name: 'groupLicensingHook', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__IpMintingFeeNotMatchWithGroup', inputs: [{ name: 'ipId', type: 'address' }, { name: 'mintingFee', type: 'uint256' }, { name: 'groupMintingFee', type: 'uint256' }] },
+    { type: 'error', name: 'LicenseRegistry__LicenseTermsAlreadyAttached', inputs: [{ name: 'ipId', type: 'address' }, { name: 'licenseTemplate', type: 'address' }, { name: 'licenseTermsId', type: 'uint256' }] },
+    { type: 'error', name: 'LicenseRegistry__LicenseTermsCannotAttachToGroupIp', inputs: [{ name: 'licenseTemplate', type: 'address' }, { name: 'licenseTermsId', type: 'uint256' }] },
+    { type: 'error', name: 'LicenseRegistry__LicenseTermsNotExists', inputs: [{ name: 'licenseTemplate', type: 'address' }, { name: 'licenseTermsId', type: 'uint256' }] },
+    { type: 'error', name: 'LicenseRegistry__LicensorIpHasNoLicenseTerms', inputs: [{ name: 'ipId', type: 'address' }, { name: 'licenseTemplate', type: 'address' }, { name: 'licenseTermsId', type: 'uint256' }] },
+    { type: 'error', name: 'LicenseRegistry__NotLicenseTemplate', inputs: [{ name: 'licenseTemplate', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__ParentIpExpired', inputs: [{ name: 'ipId', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__ParentIpHasNoLicenseTerms', inputs: [{ name: 'ipId', type: 'address' }, { name: 'licenseTermsId', type: 'uint256' }] },
+    { type: 'error', name: 'LicenseRegistry__ParentIpIsEmptyGroup', inputs: [{ name: 'groupId', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__ParentIpNotRegistered', inputs: [{ name: 'parentIpId', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__ParentIpTagged', inputs: [{ name: 'ipId', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__ParentIpUnmatchedLicenseTemplate', inputs: [{ name: 'ipId', type: 'address' }, { name: 'licenseTemplate', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__TooManyAncestors', inputs: [{ name: 'ipId', type: 'address' }, { name: 'ancestors', type: 'uint256' }, { name: 'maxAncestors', type: 'uint256' }] },
+    { type: 'error', name: 'LicenseRegistry__TooManyParents', inputs: [{ name: 'ipId', type: 'address' }, { name: 'parents', type: 'uint256' }, { name: 'maxParents', type: 'uint256' }] },
+    { type: 'error', name: 'LicenseRegistry__UnmatchedLicenseTemplate', inputs: [{ name: 'ipId', type: 'address' }, { name: 'licenseTemplate', type: 'address' }, { name: 'newLicenseTemplate', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__UnregisteredLicenseTemplate', inputs: [{ name: 'licenseTemplate', type: 'address' }] },
+    { type: 'error', name: 'LicenseRegistry__ZeroAccessManager', inputs: [] },
+    { type: 'error', name: 'LicenseRegistry__ZeroDisputeModule', inputs: [] },
+    { type: 'error', name: 'LicenseRegistry__ZeroGroupIpRegistry', inputs: [] },
+    { type: 'error', name: 'LicenseRegistry__ZeroIPGraphACL', inputs: [] },
+    { type: 'error', name: 'LicenseRegistry__ZeroLicenseTemplate', inputs: [] },
+    { type: 'error', name: 'LicenseRegistry__ZeroLicensingModule', inputs: [] },
+    { type: 'error', name: 'LicensingModule__DerivativesCannotAddLicenseTerms', inputs: [] },
+    { type: 'error', name: 'LicensingModule__LicenseTermsNotFound', inputs: [{ name: 'licenseTemplate', type: 'address' }, { name: 'licenseTermsId', type: 'uint256' }] },
+    { type: 'error', name: 'RoyaltyModule__CallFailed', inputs: [] },
+    { type: 'error', name: 'ERC721EnumerableForbiddenBatchMint', inputs: [] },
+    { type: 'error', name: 'ERC721IncorrectOwner', inputs: [{ name: 'sender', type: 'address' }, { name: 'tokenId', type: 'uint256' }, { name: 'owner', type: 'address' }] },
+    { type: 'error', name: 'ERC721InsufficientApproval', inputs: [{ name: 'operator', type: 'address' }, { name: 'tokenId', type: 'uint256' }] },
+    { type: 'error', name: 'ERC721InvalidApprover', inputs: [{ name: 'approver', type: 'address' }] },
+    { type: 'error', name: 'ERC721InvalidOperator', inputs: [{ name: 'operator', type: 'address' }] },
+    { type: 'error', name: 'ERC721InvalidOwner', inputs: [{ name: 'owner', type: 'address' }] },
+    { type: 'error', name: 'ERC721InvalidReceiver', inputs: [{ name: 'receiver', type: 'address' }] },
+    { type: 'error', name: 'ERC721InvalidSender', inputs: [{ name: 'sender', type: 'address' }] },
+    { type: 'error', name: 'ERC721NonexistentToken', inputs: [{ name: 'tokenId', type: 'uint256' }] },
+    { type: 'error', name: 'ERC721OutOfBoundsIndex', inputs: [{ name: 'owner', type: 'address' }, { name: 'index', type: 'uint256' }] },
+    { type: 'error', name: 'LicenseToken__AllLicenseTokensMustFromSameLicenseTemplate', inputs: [{ name: 'licenseTemplate', type: 'address' }, { name: 'anotherLicenseTemplate', type: 'address' }] },
+    { type: 'error', name: 'LicenseToken__CallerAndChildIPNotTokenOwner', inputs: [{ name: 'tokenId', type: 'uint256' }, { name: 'caller', type: 'address' }, { name: 'childIpIp', type: 'address' }, { name: 'actualTokenOwner', type: 'address' }] },
+    { type: 'error', name: 'LicenseToken__CallerNotLicensingModule', inputs: [] },
+    { type: 'error', name: 'LicenseToken__ChildIPAlreadyHasBeenMintedLicenseTokens', inputs: [{ name: 'childIpId', type: 'address' }] },
+    { type: 'error', name: 'LicenseToken__CommercialRevenueShareExceedMaxRevenueShare', inputs: [{ name: 'commercialRevenueShare', type: 'uint32' }, { name: 'maxRevenueShare', type: 'uint32' }, { name: 'ipId', type: 'address' }, { name: 'licenseTemplate', type: 'address' }, { name: 'licenseTermsId', type: 'uint256' }] },
+    { type: 'error', name: 'LicenseToken__InvalidRoyaltyPercent', inputs: [{ name: 'invalidRoyaltyPercent', type: 'uint32' }, { name: 'ipId', type: 'address' }, { name: 'licenseTemplate', type: 'address' }, { name: 'licenseTermsId', type: 'uint256' }] },
+    { type: 'error', name: 'LicenseToken__NotTransferable', inputs: [] },
+    { type: 'error', name: 'LicenseToken__RevokedLicense', inputs: [{ name: 'tokenId', type: 'uint256' }] },
+    { type: 'error', name: 'LicenseToken__ZeroAccessManager', inputs: [] },
+    { type: 'error', name: 'LicenseRegistry__LicenseTemplateCannotBeZeroAddress', inputs: [] },
+    { type: 'error', name: 'LicensingModule__CurrentLicenseNotAllowOverrideRoyaltyPercent', inputs: [{ name: 'licenseTemplate', type: 'address' }, { name: 'licenseTermsId', type: 'uint256' }, { name: 'newRoyaltyPercent', type: 'uint32' }] },
+    { type: 'error', name: 'LicensingModule__DerivativeAlreadyHasBeenMintedLicenseTokens', inputs: [{ name: 'childIpId', type: 'address' }] },
+    { type: 'error', name: 'LicensingModule__DisputedIpId', inputs: [] },
+    { type: 'error', name: 'LicensingModule__ExceedMaxRevenueShare', inputs: [{ name: 'ipId', type: 'address' }, { name: 'licenseTemplate', type: 'address' }, { name: 'licenseTermsId', type: 'uint256' }, { name: 'revenueShare', type: 'uint32' }, { name: 'maxRevenueShare', type: 'uint32' }] },
+    { type: 'error', name: 'LicensingModule__GroupIpCannotChangeHookData', inputs: [{ name: 'groupId', type: 'address' }] },
+    { type: 'error', name: 'LicensingModule__GroupIpCannotChangeIsSet', inputs: [{ name: 'groupId', type: 'address' }] },
+    { type: 'error', name: 'LicensingModule__GroupIpCannotChangeLicensingHook', inputs: [{ name: 'groupId', type: 'address' }] },
+    { type: 'error', name: 'LicensingModule__GroupIpCannotChangeMintingFee', inputs: [{ name: 'groupId', type: 'address' }] },
+    { type: 'error', name: 'LicensingModule__GroupIpCannotDecreaseRoyalty', inputs: [{ name: 'groupId', type: 'address' }, { name: 'newRoyaltyPercent', type: 'uint32' }, { name: 'oldRoyaltyPercent', type: 'uint32' }] },
+    { type: 'error', name: 'LicensingModule__GroupIpCannotSetExpectGroupRewardPool', inputs: [{ name: 'groupId', type: 'address' }] },
+    { type: 'error', name: 'LicensingModule__InvalidLicenseTermsId', inputs: [{ name: 'licenseTemplate', type: 'address' }, { name: 'licenseTermsId', type: 'uint256' }] },
+    { type: 'error', name: 'LicensingModule__InvalidLicensingHook', inputs: [{ name: 'hook', type: 'address' }] },
+    { type: 'error', name: 'LicensingModule__LicenseDenyMintLicenseToken', inputs: [{ name: 'licenseTemplate', type: 'address' }, { name: 'licenseTermsId', type: 'uint256' }, { name: 'licensorIpId', type: 'address' }] },
+    { type: 'error', name: 'LicensingModule__LicenseDisabled', inputs: [{ name: 'ipId', type: 'address' }, { name: 'licenseTemplate', type: 'address' }, { name: 'licenseTermsId', type: 'uint256' }] },
+    { type: 'error', name: 'LicensingModule__LicenseNotCompatibleForDerivative', inputs: [{ name: 'childIpId', type: 'address' }] },
+    { type: 'error', name: 'LicensingModule__LicenseTermsLengthMismatch', inputs: [{ name: 'ipLength', type: 'uint256' }, { name: 'licenseTermsLength', type: 'uint256' }] },
+    { type: 'error', name: 'LicensingModule__LicenseTokenNotCompatibleForDerivative', inputs: [{ name: 'childIpId', type: 'address' }, { name: 'licenseTokenIds', type: 'uint256[]' }] },
+    { type: 'error', name: 'LicensingModule__LicensingConfigMintingFeeBelowLicenseTerms', inputs: [{ name: 'licenseTemplate', type: 'address' }, { name: 'licenseTermsId', type: 'uint256' }, { name: 'licensingConfigMintingFee', type: 'uint256' }, { name: 'licenseTermsMintingFee', type: 'uint256' }] },
+    { type: 'error', name: 'LicensingModule__LicensingHookMintingFeeBelowLicenseTerms', inputs: [{ name: 'licensingHookMintingFee', type: 'uint256' }, { name: 'licenseTermsMintingFee', type: 'uint256' }] },
+    { type: 'error', name: 'LicensingModule__LicensorIpNotRegistered', inputs: [] },
+    { type: 'error', name: 'LicensingModule__MintAmountZero', inputs: [] },
+    { type: 'error', name: 'LicensingModule__MintingFeeExceedMaxMintingFee', inputs: [{ name: 'mintingFee', type: 'uint256' }, { name: 'maxMintingFee', type: 'uint256' }] },
+    { type: 'error', name: 'LicensingModule__MintingFeeRequiresRoyaltyPolicy', inputs: [] },
+    { type: 'error', name: 'LicensingModule__NoLicenseToken', inputs: [] },
+    { type: 'error', name: 'LicensingModule__NoParentIp', inputs: [] },
+    { type: 'error', name: 'LicensingModule__ReceiverZeroAddress', inputs: [] },
+    { type: 'error', name: 'LicensingModule__RoyaltyPolicyMismatch', inputs: [{ name: 'royaltyPolicy', type: 'address' }, { name: 'anotherRoyaltyPolicy', type: 'address' }] },
+    { type: 'error', name: 'LicensingModule__TooManyAncestorsForMintingLicenseTokenAllowRegisterDerivative', inputs: [{ name: 'licensorIpId', type: 'address' }, { name: 'ancestors', type: 'uint256' }, { name: 'maxAncestors', type: 'uint256' }] },
+    { type: 'error', name: 'LicensingModule__ZeroAccessManager', inputs: [] },
+    { type: 'error', name: 'LicensingModule__ZeroDisputeModule', inputs: [] },
+    { type: 'error', name: 'LicensingModule__ZeroIPGraphACL', inputs: [] },
+    { type: 'error', name: 'LicensingModule__ZeroLicenseRegistry', inputs: [] },
+    { type: 'error', name: 'LicensingModule__ZeroLicenseTemplate', inputs: [] },
+    { type: 'error', name: 'LicensingModule__ZeroLicenseToken', inputs: [] },
+    { type: 'error', name: 'LicensingModule__ZeroModuleRegistry', inputs: [] },
+    { type: 'error', name: 'LicensingModule__ZeroRoyaltyModule', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__CommercialDisabled_CantAddAttribution', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__CommercialDisabled_CantAddCommercializers', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__CommercialDisabled_CantAddDerivativeRevCeiling', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__CommercialDisabled_CantAddRevCeiling', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__CommercialDisabled_CantAddRevShare', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__CommercialDisabled_CantAddRoyaltyPolicy', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__CommercialEnabled_RoyaltyPolicyRequired', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__CommercializerCheckerDoesNotSupportHook', inputs: [{ name: 'checker', type: 'address' }] },
+    { type: 'error', name: 'PILicenseTemplate__CommercializerCheckerNotRegistered', inputs: [{ name: 'commercializerChecker', type: 'address' }] },
+    { type: 'error', name: 'PILicenseTemplate__CurrencyTokenNotWhitelisted', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__DerivativesDisabled_CantAddApproval', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__DerivativesDisabled_CantAddAttribution', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__DerivativesDisabled_CantAddDerivativeRevCeiling', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__DerivativesDisabled_CantAddReciprocal', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__MintingFeeRequiresRoyaltyPolicy', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__RoyaltyPolicyNotWhitelisted', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__RoyaltyPolicyRequiresCurrencyToken', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__ZeroAccessManager', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__ZeroLicenseRegistry', inputs: [] },
+    { type: 'error', name: 'PILicenseTemplate__ZeroRoyaltyModule', inputs: [] },
+    { type: 'error', name: 'RegistrationWorkflows__CallerNotSigner', inputs: [{ name: 'caller', type: 'address' }, { name: 'signer', type: 'address' }] },
+    { type: 'error', name: 'RegistrationWorkflows__ZeroAddressParam', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__AboveAccumulatedRoyaltyPoliciesLimit', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__AboveMaxPercent', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__AboveMaxRts', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__GroupRewardPoolNotWhitelisted', inputs: [{ name: 'groupId', type: 'address' }, { name: 'rewardPool', type: 'address' }] },
+    { type: 'error', name: 'RoyaltyModule__InvalidExternalRoyaltyPolicy', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__IpExpired', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__IpIsTagged', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__NoParentsOnLinking', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__NotAllowedCaller', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__NotWhitelistedOrRegisteredRoyaltyPolicy', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__NotWhitelistedRoyaltyToken', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__PaymentAmountIsTooLow', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__PolicyAlreadyRegisteredAsExternalRoyaltyPolicy', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__PolicyAlreadyWhitelistedOrRegistered', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__UnlinkableToParents', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__ZeroAccessManager', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__ZeroAccumulatedRoyaltyPoliciesLimit', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__ZeroAmount', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__ZeroDisputeModule', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__ZeroIpAssetRegistry', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__ZeroIpGraphAcl', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__ZeroLicenseRegistry', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__ZeroLicensingModule', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__ZeroParentIpId', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__ZeroReceiverVault', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__ZeroRoyaltyPolicy', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__ZeroRoyaltyToken', inputs: [] },
+    { type: 'error', name: 'RoyaltyModule__ZeroTreasury', inputs: [] },
+    { type: 'error', name: 'VaultController__ZeroIpRoyaltyVaultBeacon', inputs: [] },
+    { type: 'error', name: 'RoyaltyWorkflows__ZeroAddressParam', inputs: [] },
+    { type: 'error', name: 'AccessControlBadConfirmation', inputs: [] },
+    { type: 'error', name: 'AccessControlUnauthorizedAccount', inputs: [{ name: 'account', type: 'address' }, { name: 'neededRole', type: 'bytes32' }] },
+    { type: 'error', name: 'SPGNFT__CallerNotFeeRecipientOrAdmin', inputs: [] },
+    { type: 'error', name: 'SPGNFT__CallerNotOwner', inputs: [{ name: 'tokenId', type: 'uint256' }, { name: 'caller', type: 'address' }, { name: 'owner', type: 'address' }] },
+    { type: 'error', name: 'SPGNFT__CallerNotPeripheryContract', inputs: [] },
+    { type: 'error', name: 'SPGNFT__DuplicatedNFTMetadataHash', inputs: [{ name: 'spgNftContract', type: 'address' }, { name: 'tokenId', type: 'uint256' }, { name: 'nftMetadataHash', type: 'bytes32' }] },
+    { type: 'error', name: 'SPGNFT__MaxSupplyReached', inputs: [] },
+    { type: 'error', name: 'SPGNFT__MintingClosed', inputs: [] },
+    { type: 'error', name: 'SPGNFT__MintingDenied', inputs: [] },
+    { type: 'error', name: 'SPGNFT__ZeroAddressParam', inputs: [] },
+    { type: 'error', name: 'SPGNFT__ZeroMaxSupply', inputs: [] },
+    { type: 'error', name: 'AllowanceOverflow', inputs: [] },
+    { type: 'error', name: 'AllowanceUnderflow', inputs: [] },
+    { type: 'error', name: 'IPTransferFailed', inputs: [] },
+    { type: 'error', name: 'InsufficientAllowance', inputs: [] },
+    { type: 'error', name: 'InsufficientBalance', inputs: [] },
+    { type: 'error', name: 'InvalidPermit', inputs: [] },
+    { type: 'error', name: 'Permit2AllowanceIsFixedAtInfinity', inputs: [] },
+    { type: 'error', name: 'PermitExpired', inputs: [] },
+    { type: 'error', name: 'TotalSupplyOverflow', inputs: [] }
+] as const;
@@ -0,0 +1,353 @@
+/**
+ * Thrown for SVG documents that are not well-formed enough to sanitize
+ */
+export class SvgParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SvgParseError';
+    }
+}
+
+export interface SvgSanitizationResult {
+    svg: string;
+    // What was removed, e.g. "<script> element"; empty when the document was left as it was
+    removed: string[];
+}
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink';
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+
+// Elements kept when in the SVG namespace (compared by local name, lowercased); any other element
+// is removed with everything inside it
+const SVG_ELEMENTS = new Set([
+    'svg', 'g', 'defs', 'desc', 'title', 'metadata', 'symbol', 'use', 'switch', 'view', 'a', 'image', 'style',
+    'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'text', 'tspan', 'textpath',
+    'marker', 'pattern', 'clippath', 'mask', 'lineargradient', 'radialgradient', 'stop',
+    'animate', 'animatemotion', 'animatetransform', 'set', 'mpath',
+    'filter', 'feblend', 'fecolormatrix', 'fecomponenttransfer', 'fecomposite', 'feconvolvematrix',
+    'fediffuselighting', 'fedisplacementmap', 'fedistantlight', 'fedropshadow', 'feflood', 'fefunca',
+    'fefuncb', 'fefuncg', 'fefuncr', 'fegaussianblur', 'feimage', 'femerge', 'femergenode', 'femorphology',
+    'feoffset', 'fepointlight', 'fespecularlighting', 'fespotlight', 'fetile', 'feturbulence'
+]);
+
+// Attributes without a namespace prefix that are kept (compared lowercased)
+const SVG_ATTRIBUTES = new Set([
+    // Core, geometry and linking
+    'id', 'class', 'style', 'lang', 'tabindex', 'version', 'baseprofile', 'viewbox', 'preserveaspectratio',
+    'transform', 'width', 'height', 'x', 'y', 'x1', 'x2', 'y1', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy', 'fr',
+    'd', 'points', 'pathlength', 'href', 'target', 'type', 'media', 'requiredextensions', 'requiredfeatures', 'systemlanguage',
+    // Presentation
+    'alignment-baseline', 'baseline-shift', 'clip', 'clip-path', 'clip-rule', 'color', 'color-interpolation',
+    'color-interpolation-filters', 'color-rendering', 'direction', 'display', 'dominant-baseline', 'fill',
+    'fill-opacity', 'fill-rule', 'filter', 'flood-color', 'flood-opacity', 'font', 'font-family', 'font-size',
+    'font-size-adjust', 'font-stretch', 'font-style', 'font-variant', 'font-weight', 'image-rendering', 'isolation',
+    'letter-spacing', 'lighting-color', 'marker', 'marker-end', 'marker-mid', 'marker-start', 'mask', 'mix-blend-mode',
+    'opacity', 'overflow', 'paint-order', 'pointer-events', 'shape-rendering', 'stop-color', 'stop-opacity', 'stroke',
+    'stroke-dasharray', 'stroke-dashoffset', 'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit',
+    'stroke-opacity', 'stroke-width', 'text-anchor', 'text-decoration', 'text-rendering', 'transform-origin',
+    'unicode-bidi', 'vector-effect', 'visibility', 'word-spacing', 'writing-mode',
+    // Text, gradients, patterns, markers, clipping and masking
+    'dx', 'dy', 'rotate', 'textlength', 'lengthadjust', 'startoffset', 'method', 'spacing', 'side', 'offset',
+    'gradientunits', 'gradienttransform', 'spreadmethod', 'patternunits', 'patterncontentunits', 'patterntransform',
+    'markerunits', 'markerwidth', 'markerheight', 'refx', 'refy', 'orient', 'clippathunits', 'maskunits', 'maskcontentunits',
+    // Filters
+    'filterunits', 'primitiveunits', 'in', 'in2', 'result', 'stddeviation', 'mode', 'operator', 'k1', 'k2', 'k3', 'k4',
+    'values', 'tablevalues', 'slope', 'intercept', 'amplitude', 'exponent', 'kernelmatrix', 'kernelunitlength', 'order',
+    'divisor', 'bias', 'targetx', 'targety', 'edgemode', 'preservealpha', 'surfacescale', 'diffuseconstant',
+    'specularconstant', 'specularexponent', 'scale', 'xchannelselector', 'ychannelselector', 'radius', 'basefrequency',
+    'numoctaves', 'seed', 'stitchtiles', 'azimuth', 'elevation', 'z', 'pointsatx', 'pointsaty', 'pointsatz',
+    'limitingconeangle',
+    // Animation
+    'attributename', 'attributetype', 'begin', 'dur', 'end', 'min', 'max', 'restart', 'repeatcount', 'repeatdur',
+    'calcmode', 'keytimes', 'keysplines', 'keypoints', 'from', 'to', 'by', 'additive', 'accumulate', 'path'
+]);
+
+// Attributes kept with a prefix bound to one of these namespaces (xml is bound without a declaration)
+const NAMESPACED_ATTRIBUTES: Record<string, string[]> = {
+    [XLINK_NAMESPACE]: ['href', 'title'],
+    [XML_NAMESPACE]: ['lang', 'space']
+};
+
+// Attributes holding a URL that is loaded or navigated to; only fragments and raster data: URIs are kept
+const URL_ATTRIBUTES = ['href', 'src', 'srcdoc', 'data', 'action', 'formaction'];
+
+// Animation elements can set an attribute to a script URL or an event handler
+const ANIMATION_ELEMENTS = ['animate', 'set'];
+
+// Image data that may be embedded in href; SVG data could carry scripts of its own
+const SAFE_DATA_URI = /^data:image\/(png|jpeg|jpg|gif|webp);base64,/i;
+
+// A CSS url() or image-set() that is not a reference into the same document
+const EXTERNAL_CSS_URL = /(url|image-set)\(\s*(?!['"]?\s*#)/i;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' };
+
+interface Attribute {
+    name: string;
+    value: string;
+    raw: string;
+}
+
+interface OpenElement {
+    name: string;
+    dropped: boolean;
+    // Namespace URIs by prefix, '' for the default namespace
+    namespaces: Record<string, string>;
+    // Where the element starts in the output, to take back a <style> that turns out unsafe
+    outputStart: number;
+    text: string;
+}
+
+/**
+ * Remove what could run script or load content from elsewhere when an SVG is rendered. Only SVG
+ * elements and attributes on an allowlist are kept, so script, foreignObject, elements of other
+ * namespaces (XHTML iframe, embed, ...) and event handler attributes go. Of what is kept, href and
+ * other URL attributes and CSS url() pointing outside the document (raster data: URIs are kept),
+ * javascript: URLs, animations of URL attributes or handlers, processing instructions other than
+ * the XML declaration and stylesheets importing anything are removed too. CSS is matched after
+ * its escapes are decoded.
+ *
+ * The document is tokenized without expanding entities or loading a DTD; a DOCTYPE with an
+ * internal subset, mismatched tags and other malformed markup throw SvgParseError. Content
+ * that is kept is copied as it was, so a safe document comes back unchanged.
+ */
+export function sanitizeSvg(svg: string): SvgSanitizationResult {
+    const output: string[] = [];
+    const removed: string[] = [];
+    const stack: OpenElement[] = [];
+    const dropping = () => stack.some(element => element.dropped);
+    const emit = (markup: string) => {
+        if (!dropping()) {
+            output.push(markup);
+        }
+    };
+
+    let position = 0;
+    while (position < svg.length) {
+        if (svg[position] !== '<') {
+            const end = indexOrEnd(svg, '<', position);
+            const text = svg.substring(position, end);
+            if (stack.length > 0) {
+                stack[stack.length - 1].text += decodeEntities(text);
+            }
+            emit(text);
+            position = end;
+        } else if (svg.startsWith('<!--', position)) {
+            const end = requireIndex(svg, '-->', position + 4, 'Unterminated comment') + 3;
+            emit(svg.substring(position, end));
+            position = end;
+        } else if (svg.startsWith('<![CDATA[', position)) {
+            const end = requireIndex(svg, ']]>', position + 9, 'Unterminated CDATA section') + 3;
+            if (stack.length > 0) {
+                stack[stack.length - 1].text += svg.substring(position + 9, end - 3);
+            }
+            emit(svg.substring(position, end));
+            position = end;
+        } else if (svg.startsWith('<!DOCTYPE', position)) {
+            const end = requireIndex(svg, '>', position, 'Unterminated DOCTYPE') + 1;
+            if (svg.substring(position, end).includes('[')) {
+                throw new SvgParseError('DOCTYPE with an internal subset is not allowed');
+            }
+            emit(svg.substring(position, end));
+            position = end;
+        } else if (svg.startsWith('<?', position)) {
+            const end = requireIndex(svg, '?>', position + 2, 'Unterminated processing instruction') + 2;
+            const target = /^<\?([^\s?]*)/.exec(svg.substring(position, end))![1];
+            if (target === 'xml') {
+                emit(svg.substring(position, end));
+            } else if (!dropping()) {
+                removed.push(`<?${target}?> processing instruction`);
+            }
+            position = end;
+        } else if (svg.startsWith('</', position)) {
+            const end = requireIndex(svg, '>', position, 'Unterminated end tag') + 1;
+            const name = svg.substring(position + 2, end - 1).trim();
+            const element = stack.pop();
+            if (!element || element.name !== name) {
+                throw new SvgParseError(`Unexpected end tag </${name}>`);
+            }
+            if (!element.dropped && localName(name) === 'style' && hasExternalCss(element.text)) {
+                output.length = element.outputStart;
+                removed.push('<style> element with external references');
+            } else if (!element.dropped) {
+                emit(svg.substring(position, end));
+            }
+            position = end;
+        } else {
+            const tag = parseStartTag(svg, position);
+            const elementName = localName(tag.name);
+            const wasDropping = dropping();
+            const namespaces = declareNamespaces(tag.attributes, stack.length > 0 ? stack[stack.length - 1].namespaces : undefined);
+
+            let dropped = namespaces[prefix(tag.name)] !== SVG_NAMESPACE || !SVG_ELEMENTS.has(elementName);
+            if (!dropped && ANIMATION_ELEMENTS.includes(elementName)) {
+                const animated = tag.attributes.find(attribute => attribute.name === 'attributeName')?.value.trim() || '';
+                dropped = URL_ATTRIBUTES.includes(localName(animated)) || /^on/i.test(animated);
+            }
+            if (dropped && !wasDropping) {
+                removed.push(`<${tag.name}> element`);
+            }
+
+            const kept = tag.attributes.filter(attribute => {
+                const reason = unsafeAttribute(attribute, namespaces);
+                if (reason && !dropped && !wasDropping) {
+                    removed.push(`${reason} on <${tag.name}>`);
+                }
+                return !reason;
+            });
+
+            const markup = kept.length === tag.attributes.length
+                ? svg.substring(position, tag.end)
+                : `<${tag.name}${kept.map(attribute => attribute.raw).join('')}${tag.selfClosing ? '/>' : '>'}`;
+
+            if (!tag.selfClosing) {
+                stack.push({ name: tag.name, dropped, namespaces, outputStart: output.length, text: '' });
+            }
+            if (!dropped) {
+                emit(markup);
+            }
+            position = tag.end;
+        }
+    }
+
+    if (stack.length > 0) {
+        throw new SvgParseError(`Unclosed element <${stack[stack.length - 1].name}>`);
+    }
+
+    return { svg: removed.length > 0 ? output.join('') : svg, removed };
+}
+
+// Why an attribute is unsafe, or null when it can stay
+function unsafeAttribute({ name, value }: Attribute, namespaces: Record<string, string>): string | null {
+    const decoded = decodeEntities(value);
+    // Browsers ignore whitespace and control characters inside a URL scheme
+    const compact = decoded.split('').filter(character => character > ' ').join('');
+    if (URL_ATTRIBUTES.includes(localName(name)) && !compact.startsWith('#') && !SAFE_DATA_URI.test(compact)) {
+        return `external ${name}="${truncate(value)}"`;
+    }
+    if (!allowedAttribute(name, namespaces)) {
+        return `${name} attribute`;
+    }
+    if (/javascript:/i.test(compact)) {
+        return `javascript: URL in ${name}`;
+    }
+    if (hasExternalCss(decoded)) {
+        return `external url() in ${name}`;
+    }
+    return null;
+}
+
+function allowedAttribute(name: string, namespaces: Record<string, string>): boolean {
+    if (name === 'xmlns' || name.startsWith('xmlns:')) {
+        return true;
+    }
+    if (!name.includes(':')) {
+        return SVG_ATTRIBUTES.has(name.toLowerCase());
+    }
+    return NAMESPACED_ATTRIBUTES[namespaces[prefix(name)]]?.includes(localName(name)) ?? false;
+}
+
+// The namespaces in scope on an element: its parent's, with its own xmlns declarations. A document
+// declaring no default namespace is taken for SVG, as it is when inlined in HTML.
+function declareNamespaces(attributes: Attribute[], inherited?: Record<string, string>): Record<string, string> {
+    const namespaces = { ...(inherited ?? { '': SVG_NAMESPACE, xml: XML_NAMESPACE }) };
+    for (const { name, value } of attributes) {
+        if (name === 'xmlns' || name.startsWith('xmlns:')) {
+            namespaces[name.substring(6)] = decodeEntities(value);
+        }
+    }
+    return namespaces;
+}
+
+function hasExternalCss(css: string): boolean {
+    const decoded = decodeCssEscapes(css);
+    return EXTERNAL_CSS_URL.test(decoded) || /@import/i.test(decoded);
+}
+
+function parseStartTag(svg: string, start: number): { name: string; attributes: Attribute[]; selfClosing: boolean; end: number } {
+    const nameMatch = /^<([A-Za-z_][\w.:-]*)/.exec(svg.substring(start, start + 256));
+    if (!nameMatch) {
+        throw new SvgParseError(`Invalid markup at offset ${start}`);
+    }
+
+    const attributes: Attribute[] = [];
+    let position = start + nameMatch[0].length;
+    for (;;) {
+        const attributeStart = position;
+        position = skipWhitespace(svg, position);
+        if (svg.startsWith('/>', position)) {
+            return { name: nameMatch[1], attributes, selfClosing: true, end: position + 2 };
+        }
+        if (svg[position] === '>') {
+            return { name: nameMatch[1], attributes, selfClosing: false, end: position + 1 };
+        }
+        if (position === attributeStart) {
+            throw new SvgParseError(`Expected whitespace before attribute in <${nameMatch[1]}>`);
+        }
+
+        const attributeMatch = /^([A-Za-z_][\w.:-]*)\s*=\s*(["'])/.exec(svg.substring(position, position + 256));
+        if (!attributeMatch) {
+            throw new SvgParseError(`Invalid attribute in <${nameMatch[1]}>`);
+        }
+        const valueStart = position + attributeMatch[0].length;
+        const valueEnd = requireIndex(svg, attributeMatch[2], valueStart, `Unterminated attribute value in <${nameMatch[1]}>`);
+        if (svg.substring(valueStart, valueEnd).includes('<')) {
+            throw new SvgParseError(`Invalid attribute value in <${nameMatch[1]}>`);
+        }
+        attributes.push({
+            name: attributeMatch[1],
+            value: svg.substring(valueStart, valueEnd),
+            raw: svg.substring(attributeStart, valueEnd + 1)
+        });
+        position = valueEnd + 1;
+    }
+}
+
+// Character references and the predefined entities; any other entity is left as it is
+function decodeEntities(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);?/gi, (reference, name: string) => {
+        if (name[0] === '#') {
+            const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.substring(2), 16) : parseInt(name.substring(1), 10);
+            return code <= 0x10FFFF ? String.fromCodePoint(code) : reference;
+        }
+        return XML_ENTITIES[name] ?? reference;
+    });
+}
+
+// CSS escapes: up to six hex digits and an optional whitespace, or any other character taken as it is
+function decodeCssEscapes(css: string): string {
+    return css.replace(/\\(?:([0-9a-f]{1,6})\s?|([^\n]))/gi, (_, hex: string | undefined, character: string | undefined) => {
+        if (hex) {
+            const code = parseInt(hex, 16);
+            return code > 0 && code <= 0x10FFFF ? String.fromCodePoint(code) : '\uFFFD';
+        }
+        return character!;
+    });
+}
+
+const prefix = (name: string): string => name.includes(':') ? name.substring(0, name.indexOf(':')) : '';
+
+const localName = (name: string): string => name.substring(name.indexOf(':') + 1).toLowerCase();
+
+const truncate = (value: string): string => value.length > 60 ? `${value.substring(0, 57)}...` : value;
+
+function indexOrEnd(text: string, search: string, from: number): number {
+    const index = text.indexOf(search, from);
+    return index === -1 ? text.length : index;
+}
+
+function requireIndex(text: string, search: string, from: number, message: string): number {
+    const index = text.indexOf(search, from);
+    if (index === -1) {
+        throw new SvgParseError(message);
+    }
+    return index;
+}
+
+function skipWhitespace(text: string, position: number): number {
+    while (position < text.length && /\s/.test(text[position])) {
+        position++;
+    }
+    return position;
+}
@@ -1,13 +1,49 @@
 import {
     StoryClient,
     IpMetadata,
-    PILFlavor,
-    WIP_TOKEN_ADDRESS
+    DisputeTargetTag,
+    convertCIDtoHashIPFS
 } from '@story-protocol/core-sdk';
-import { Address, parseEther, PublicClient } from 'viem';
+import {
+    Abi,
+    AbiFunction,
+    Address,
+    BaseError,
+    decodeFunctionData,
+    encodeAbiParameters,
+    encodeFunctionData,
+    erc20Abi,
+    getAddress,
+    getContractAddress as getCreateAddress,
+    Hex,
+    Log,
+    parseEventLogs,
+    PublicClient,
+    maxUint32,
+    stringToHex,
+    zeroAddress
+} from 'viem';
 import { createHash } from 'crypto';
 import { getStoryClient, getNetworkInfo } from '@/lib/story-client';
 import { createPublicClient } from '@/lib/config';
+import { getStoryContracts } from '@/lib/story-contracts';
+import { PILTermsStruct, toPILTerms } from '@/lib/license-terms';
+import { getRevertReason, SimulationRevertedError } from '@/lib/simulation';
+import {
+    derivativeWorkflowsAbi,
+    disputeModuleAbi,
+    ipAccountImplAbi,
+    ipAssetRegistryAbi,
+    licenseAttachmentWorkflowsAbi,
+    licensingModuleAbi,
+    piLicenseTemplateAbi,
+    registrationWorkflowsAbi,
+    royaltyModuleAbi,
+    royaltyWorkflowsAbi,
+    spgNftAbi,
+    workflowsMulticallAbi,
+    wrappedIpAbi
+} from '@/lib/story-abis';
 import {
     PrepareTransactionRequest,
     PrepareDerivativeRequest,
@@ -16,58 +52,121 @@ import {
     PrepareCollectionRequest,
     PrepareDisputeRequest,
     PreparedTransaction,
-    LicenseTermsConfig
+    PreparedTransactionStep,
+    TransactionCallPreview
 } from '@/types';
 
+// Gas limit used for a step whose estimate depends on an earlier, unsent step
+const DEPENDENT_STEP_GAS_LIMIT = '500000';
+
+// Estimated gas a batch mint packs into one multicall before starting another transaction
+const MAX_BATCH_GAS = 15_000_000;
+
+// Upper bound of royalty tokens an IP can hand out (100% of its vault)
+const MAX_ROYALTY_TOKENS = 100_000_000;
+
+// Licensing config attached alongside new terms: unset, so the terms' own defaults apply
+const DEFAULT_LICENSING_CONFIG = {
+    isSet: false,
+    mintingFee: BigInt(0),
+    licensingHook: zeroAddress,
+    hookData: '0x' as Hex,
+    commercialRevShare: 0,
+    disabled: false,
+    expectMinimumGroupRewardShare: 0,
+    expectGroupRewardPool: zeroAddress,
+};
+
 /**
- * Contract addresses for different networks
+ * Dispute tags whitelisted by the DisputeModule that a user can raise
+ * (IN_DISPUTE is only applied by the protocol to derivatives of disputed IPs)
+ */
+export const RAISABLE_DISPUTE_TAGS: string[] = Object.values(DisputeTargetTag)
+    .filter(tag => tag !== DisputeTargetTag.IN_DISPUTE);
+
+/**
+ * Contract addresses for the current network
+ * SPG/NFT collections come from the network config, Story contracts from the registry
  */
 const getContractAddresses = () => {
     const networkInfo = getNetworkInfo();
     return {
         spgNftContract: networkInfo.defaultSPGNFTContractAddress,
         nftContract: networkInfo.defaultNFTContractAddress,
-        wipToken: WIP_TOKEN_ADDRESS,
+        ...getStoryContracts(networkInfo.network),
     };
 };
 
 /**
- * Generate IP metadata hash
+ * Normalize a user supplied address to its checksummed form.
+ * Request validation accepts any casing, while ABI encoding enforces EIP-55 checksums.
  */
-export const generateMetadataHash = (metadata: object): string => {
-    return createHash('sha256').update(JSON.stringify(metadata)).digest('hex');
+const toAddress = (address: string): Address => {
+    return getAddress(address.toLowerCase());
 };
 
 /**
- * Convert license terms config to PIL flavor
+ * Format a hex content hash as bytes32, accepting it with or without the 0x prefix
  */
-const convertLicenseTerms = (licenseTerms?: Partial<LicenseTermsConfig>) => {
-    if (!licenseTerms) {
-        return PILFlavor.commercialRemix({
-            commercialRevShare: 5, // 5% default
-            defaultMintingFee: parseEther('1'), // 1 $IP default
-            currency: WIP_TOKEN_ADDRESS,
-        });
-    }
+const toBytes32 = (hash: string): Hex => {
+    return (hash.startsWith('0x') ? hash : `0x${hash}`) as Hex;
+};
 
-    if (licenseTerms.commercialUse) {
-        // If no revenue sharing, use non-commercial license
-        if (!licenseTerms.commercialRevShare || licenseTerms.commercialRevShare === 0) {
-            return PILFlavor.nonCommercialSocialRemixing();
-        }
+/**
+ * Convert a percentage (0-100) into the uint32 representation used on chain,
+ * where 100% is 100,000,000
+ */
+const toOnChainPercentage = (percentage: number): number => {
+    return Math.round(percentage * 1_000_000);
+};
 
-        return PILFlavor.commercialRemix({
-            commercialRevShare: licenseTerms.commercialRevShare,
-            defaultMintingFee: parseEther(licenseTerms.defaultMintingFee || '0'),
-            currency: licenseTerms.currency as Address || WIP_TOKEN_ADDRESS,
-        });
-    } else {
-        return PILFlavor.nonCommercialSocialRemixing();
+/**
+ * Make decoded call arguments JSON safe (bigints become decimal strings)
+ */
+export const formatPreviewValue = (value: unknown): unknown => {
+    if (typeof value === 'bigint') {
+        return value.toString();
     }
+    if (Array.isArray(value)) {
+        return value.map(formatPreviewValue);
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, entry]) => [key, formatPreviewValue(entry)])
+        );
+    }
+    return value;
+};
+
+/**
+ * Decode prepared calldata back into a human-readable preview keyed by argument name
+ */
+export const decodeCallPreview = (abi: Abi, data: Hex, contract: string): TransactionCallPreview => {
+    const { functionName, args } = decodeFunctionData({ abi, data });
+    const abiFunction = abi.find(
+        (item): item is AbiFunction => item.type === 'function' && item.name === functionName
+    );
+    const inputs = abiFunction?.inputs ?? [];
+
+    return {
+        contract,
+        functionName,
+        args: Object.fromEntries(
+            inputs.map((input, index) => [input.name || `arg${index}`, formatPreviewValue(args?.[index])])
+        ),
+    };
 };
 
 /**
- * Estimate gas for a transaction
+ * Generate IP metadata hash
+ */
+export const generateMetadataHash = (metadata: object): string => {
+    return createHash('sha256').update(JSON.stringify(metadata)).digest('hex');
+};
+
+/**
+ * Estimate gas for a transaction. A transaction that would revert throws a SimulationRevertedError
+ * with the decoded reason (as step 1 unless given); other failures fall back to a default limit.
  */
 export const estimateGas = async (
     publicClient: PublicClient,
@@ -76,6 +175,8 @@ export const estimateGas = async (
         data: `0x${string}`;
         value?: bigint;
         from?: Address;
+        step?: number;
+        description?: string;
     }
 ): Promise<string> => {
     try {
@@ -90,43 +191,317 @@ export const estimateGas = async (
         const bufferedGas = (gasEstimate * BigInt(120)) / BigInt(100);
         return bufferedGas.toString();
     } catch (error) {
+        const revert = error instanceof BaseError ? getRevertReason(error) : undefined;
+        if (revert) {
+            throw new SimulationRevertedError(transaction.step ?? 1, transaction.to, revert, transaction.description);
+        }
         console.warn('Gas estimation failed:', error);
         // Return a reasonable default gas limit
         return '500000';
     }
 };
 
+type RegisterIpAssetHashes = {
+    ipMetadataHash: string;
+    ipMetadataURI: string;
+    nftMetadataHash: string;
+    nftMetadataURI: string;
+};
+
 /**
- * Build transaction parameters for IP asset registration
- * Note: This prepares the parameters that will be used by the Story SDK
+ * Encode the mint of one IP asset: LicenseAttachmentWorkflows.mintAndRegisterIpAndAttachPILTerms
+ * when license terms are requested, RegistrationWorkflows.mintAndRegisterIp otherwise
  */
-export const buildRegisterIpAssetTransaction = async (
-    request: PrepareTransactionRequest,
-    ipfsHashes: {
-        ipMetadataHash: string;
-        ipMetadataURI: string;
-        nftMetadataHash: string;
-        nftMetadataURI: string;
-    }
-): Promise<PreparedTransaction> => {
+const encodeRegisterIpAssetCall = (request: PrepareTransactionRequest, ipfsHashes: RegisterIpAssetHashes) => {
     const contracts = getContractAddresses();
+    const params = prepareRegisterIpAssetParams(request, ipfsHashes);
+    const recipient = toAddress(request.userAddress);
+    const ipMetadata = {
+        ipMetadataURI: params.ipMetadata.ipMetadataURI,
+        ipMetadataHash: toBytes32(params.ipMetadata.ipMetadataHash),
+        nftMetadataURI: params.ipMetadata.nftMetadataURI,
+        nftMetadataHash: toBytes32(params.ipMetadata.nftMetadataHash),
+    };
 
-    if (!contracts.spgNftContract) {
-        throw new Error('SPG NFT contract address not available for current network');
+    if (params.licenseTermsData.length > 0) {
+        return {
+            to: contracts.licenseAttachmentWorkflows,
+            data: encodeFunctionData({
+                abi: licenseAttachmentWorkflowsAbi,
+                functionName: 'mintAndRegisterIpAndAttachPILTerms',
+                args: [params.nft.spgNftContract, recipient, ipMetadata, params.licenseTermsData, true],
+            }),
+            spgNftContract: params.nft.spgNftContract,
+            terms: params.licenseTermsData.map(({ terms }) => terms),
+        };
     }
 
-    // Return transaction structure that will be used by the API endpoint
-    // The actual transaction encoding will be done by the Story SDK in the API
     return {
-        to: contracts.spgNftContract,
-        data: '0x', // Will be encoded by Story SDK
+        to: contracts.registrationWorkflows,
+        data: encodeFunctionData({
+            abi: registrationWorkflowsAbi,
+            functionName: 'mintAndRegisterIp',
+            args: [params.nft.spgNftContract, recipient, ipMetadata, true], // allowDuplicates
+        }),
+        spgNftContract: params.nft.spgNftContract,
+        terms: [] as PILTermsStruct[],
+    };
+};
+
+/**
+ * Build transaction for IP asset registration
+ * Encodes LicenseAttachmentWorkflows.mintAndRegisterIpAndAttachPILTerms when license terms
+ * are requested, RegistrationWorkflows.mintAndRegisterIp otherwise, and estimates gas
+ * against the caller's address
+ */
+export const buildRegisterIpAssetTransaction = async (
+    request: PrepareTransactionRequest,
+    ipfsHashes: RegisterIpAssetHashes
+): Promise<PreparedTransaction & { licenseTerms: ResolvedLicenseTerms[] }> => {
+    const publicClient = createPublicClient();
+    const { to, data, terms } = encodeRegisterIpAssetCall(request, ipfsHashes);
+
+    const [gasEstimate, licenseTerms] = await Promise.all([
+        estimateGas(publicClient, { to, data, from: toAddress(request.userAddress) }),
+        terms.length > 0 ? resolveLicenseTermsIds(publicClient, terms) : [],
+    ]);
+
+    return {
+        to,
+        data,
         value: '0',
-        gasEstimate: '500000',
+        gasEstimate,
+        licenseTerms,
     };
 };
 
 /**
- * Build transaction parameters for derivative IP asset registration
+ * One validated, uploaded item of a batch mint, keyed by its index in the request
+ */
+export interface BatchMintItem {
+    index: number;
+    request: PrepareTransactionRequest;
+    ipfsHashes: RegisterIpAssetHashes;
+}
+
+/**
+ * Where a batch item's IP asset lands: the transaction and call position that mints it,
+ * and the token ID and ipId it is expected to receive. The prediction holds unless other
+ * mints into the same collection are mined first; both are null when the chain could not be read.
+ */
+export interface BatchMintSlot {
+    index: number;
+    transaction: number;
+    call: number;
+    spgNftContract: string;
+    tokenId: string | null;
+    ipId: string | null;
+    licenseTerms: ResolvedLicenseTerms[];
+}
+
+/**
+ * Build the transactions for a batch mint from `signer`.
+ * Mints are grouped by workflow contract and packed into RegistrationWorkflows /
+ * LicenseAttachmentWorkflows multicalls of at most `maxGasPerTransaction` estimated gas;
+ * a chunk holding a single mint calls the workflow directly.
+ */
+export const buildBatchMintTransactions = async (
+    signer: string,
+    items: BatchMintItem[],
+    maxGasPerTransaction: number = MAX_BATCH_GAS
+): Promise<{ transactions: PreparedTransactionStep[]; slots: BatchMintSlot[] }> => {
+    const publicClient = createPublicClient();
+    const from = toAddress(signer);
+
+    const calls = await Promise.all(items.map(async item => {
+        const call = encodeRegisterIpAssetCall(item.request, item.ipfsHashes);
+        const gasEstimate = await estimateGas(publicClient, { to: call.to, data: call.data, from });
+        return { ...call, index: item.index, gas: Number(gasEstimate) };
+    }));
+
+    // Group by workflow contract in order of first appearance, then chunk each group by gas
+    const chunks: Array<typeof calls> = [];
+    const contractOrder = [...new Set(calls.map(call => call.to))];
+    for (const contract of contractOrder) {
+        let chunk: typeof calls = [];
+        let chunkGas = 0;
+        for (const call of calls.filter(candidate => candidate.to === contract)) {
+            if (chunk.length > 0 && chunkGas + call.gas > maxGasPerTransaction) {
+                chunks.push(chunk);
+                chunk = [];
+                chunkGas = 0;
+            }
+            chunk.push(call);
+            chunkGas += call.gas;
+        }
+        chunks.push(chunk);
+    }
+
+    const transactions: PreparedTransactionStep[] = chunks.map((chunk, chunkIndex) => {
+        const to = chunk[0].to;
+        return {
+            step: chunkIndex + 1,
+            description: `Mint ${chunk.length} IP asset${chunk.length === 1 ? '' : 's'} (items ${chunk.map(call => call.index).join(', ')})`,
+            to,
+            data: chunk.length === 1
+                ? chunk[0].data
+                : encodeFunctionData({ abi: workflowsMulticallAbi, functionName: 'multicall', args: [chunk.map(call => call.data)] }),
+            value: '0',
+            gasEstimate: chunk.reduce((total, call) => total + call.gas, 0).toString(),
+        };
+    });
+
+    // Mints run in transaction then call order, so token IDs and new terms IDs follow that order
+    const ordered = chunks.flatMap((chunk, chunkIndex) =>
+        chunk.map((call, callIndex) => ({ ...call, transaction: chunkIndex + 1, call: callIndex }))
+    );
+    const termsList = ordered.flatMap(call => call.terms);
+    const [tokenIds, licenseTerms] = await Promise.all([
+        predictTokenIds(publicClient, ordered.map(call => call.spgNftContract)),
+        termsList.length > 0 ? resolveLicenseTermsIds(publicClient, termsList) : [],
+    ]);
+    const ipIds = await predictIpIds(publicClient, ordered.map((call, position) => ({
+        spgNftContract: call.spgNftContract,
+        tokenId: tokenIds[position],
+    })));
+
+    let termsOffset = 0;
+    const slots = ordered.map((call, position) => {
+        const slotTerms = licenseTerms.slice(termsOffset, termsOffset + call.terms.length);
+        termsOffset += call.terms.length;
+        return {
+            index: call.index,
+            transaction: call.transaction,
+            call: call.call,
+            spgNftContract: call.spgNftContract,
+            tokenId: tokenIds[position]?.toString() ?? null,
+            ipId: ipIds[position],
+            licenseTerms: slotTerms,
+        };
+    });
+
+    return { transactions, slots: slots.sort((a, b) => a.index - b.index) };
+};
+
+/**
+ * Predict the token ID of each mint, in execution order.
+ * SPG collections mint token IDs sequentially from totalSupply + 1.
+ */
+const predictTokenIds = async (publicClient: PublicClient, spgNftContracts: Address[]): Promise<Array<bigint | null>> => {
+    const collections = [...new Set(spgNftContracts)];
+    const nextTokenIds = new Map<Address, bigint | null>(await Promise.all(collections.map(async collection => {
+        try {
+            const totalSupply = await publicClient.readContract({
+                address: collection,
+                abi: spgNftAbi,
+                functionName: 'totalSupply',
+            });
+            return [collection, totalSupply + BigInt(1)] as const;
+        } catch (error) {
+            console.warn(`Failed to read the total supply of ${collection}:`, error);
+            return [collection, null] as const;
+        }
+    })));
+
+    return spgNftContracts.map(collection => {
+        const tokenId = nextTokenIds.get(collection) ?? null;
+        if (tokenId !== null) {
+            nextTokenIds.set(collection, tokenId + BigInt(1));
+        }
+        return tokenId;
+    });
+};
+
+/**
+ * Look up the IP account address IPAssetRegistry derives for each predicted token
+ */
+const predictIpIds = async (
+    publicClient: PublicClient,
+    tokens: Array<{ spgNftContract: Address; tokenId: bigint | null }>
+): Promise<Array<string | null>> => {
+    const { ipAssetRegistry } = getContractAddresses();
+    const chainId = BigInt(getNetworkInfo().chain.id);
+
+    return Promise.all(tokens.map(async ({ spgNftContract, tokenId }) => {
+        if (tokenId === null) {
+            return null;
+        }
+        try {
+            return await publicClient.readContract({
+                address: ipAssetRegistry,
+                abi: ipAssetRegistryAbi,
+                functionName: 'ipId',
+                args: [chainId, spgNftContract, tokenId],
+            });
+        } catch (error) {
+            console.warn(`Failed to look up the ipId of token ${tokenId}:`, error);
+            return null;
+        }
+    }));
+};
+
+/**
+ * PIL terms resolved against the license template: `reused` terms are already registered
+ * under `licenseTermsId`, new ones will be registered under the predicted ID
+ * (null when the template could not be read)
+ */
+export interface ResolvedLicenseTerms {
+    licenseTermsId: string | null;
+    reused: boolean;
+}
+
+/**
+ * Look up the license terms IDs that attaching `termsList` will reuse or create.
+ * New terms are registered in order after the template's current total, so their
+ * IDs are a prediction that holds unless other terms are registered first.
+ */
+export const resolveLicenseTermsIds = async (
+    publicClient: PublicClient,
+    termsList: PILTermsStruct[]
+): Promise<ResolvedLicenseTerms[]> => {
+    const { piLicenseTemplate } = getContractAddresses();
+
+    try {
+        const [existingIds, totalRegistered] = await Promise.all([
+            Promise.all(termsList.map(terms => publicClient.readContract({
+                address: piLicenseTemplate,
+                abi: piLicenseTemplateAbi,
+                functionName: 'getLicenseTermsId',
+                args: [terms],
+            }))),
+            publicClient.readContract({
+                address: piLicenseTemplate,
+                abi: piLicenseTemplateAbi,
+                functionName: 'totalRegisteredLicenseTerms',
+            }),
+        ]);
+
+        // Identical new terms within one request are registered once
+        const predictedIds = new Map<string, bigint>();
+        let nextId = totalRegistered + BigInt(1);
+
+        return termsList.map((terms, index) => {
+            if (existingIds[index] > BigInt(0)) {
+                return { licenseTermsId: existingIds[index].toString(), reused: true };
+            }
+
+            const key = JSON.stringify(terms, (_, value) => typeof value === 'bigint' ? value.toString() : value);
+            if (!predictedIds.has(key)) {
+                predictedIds.set(key, nextId);
+                nextId += BigInt(1);
+            }
+            return { licenseTermsId: predictedIds.get(key)!.toString(), reused: false };
+        });
+    } catch (error) {
+        console.warn('Failed to resolve license terms IDs:', error);
+        return termsList.map(() => ({ licenseTermsId: null, reused: false }));
+    }
+};
+
+/**
+ * Build transaction for derivative IP asset registration
+ * Encodes DerivativeWorkflows.mintAndRegisterIpAndMakeDerivative and estimates gas
+ * against the caller's address
  */
 export const buildRegisterDerivativeTransaction = async (
     request: PrepareDerivativeRequest,
@@ -139,80 +514,441 @@ export const buildRegisterDerivativeTransaction = async (
 ): Promise<PreparedTransaction> => {
     const contracts = getContractAddresses();
 
-    const spgContract = request.spgNftContract as Address || contracts.spgNftContract;
-    if (!spgContract) {
-        throw new Error('SPG NFT contract address not available');
+    const params = prepareRegisterDerivativeParams(request, ipfsHashes);
+
+    const data = encodeFunctionData({
+        abi: derivativeWorkflowsAbi,
+        functionName: 'mintAndRegisterIpAndMakeDerivative',
+        args: [
+            params.nft.spgNftContract,
+            params.derivData,
+            params.ipMetadata,
+            toAddress(request.userAddress),
+            true // allowDuplicates
+        ]
+    });
+
+    const gasEstimate = await estimateGas(createPublicClient(), {
+        to: contracts.derivativeWorkflows,
+        data,
+        from: toAddress(request.userAddress),
+    });
+
+    return {
+        to: contracts.derivativeWorkflows,
+        data,
+        value: '0',
+        gasEstimate,
+    };
+};
+
+/**
+ * Build an ERC-20 approve step for `spender`, or null when the existing allowance
+ * already covers `amount`
+ */
+export const buildApprovalStep = async (
+    publicClient: PublicClient,
+    token: Address,
+    owner: Address,
+    spender: Address,
+    amount: bigint
+): Promise<PreparedTransaction | null> => {
+    if (amount === BigInt(0)) {
+        return null;
     }
 
+    const allowance = await publicClient.readContract({
+        address: token,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [owner, spender],
+    });
+
+    if (allowance >= amount) {
+        return null;
+    }
+
+    const data = encodeFunctionData({
+        abi: erc20Abi,
+        functionName: 'approve',
+        args: [spender, amount],
+    });
+
     return {
-        to: spgContract,
-        data: '0x', // Will be encoded by Story SDK
+        to: token,
+        data,
         value: '0',
-        gasEstimate: '500000',
+        gasEstimate: await estimateGas(publicClient, { to: token, data, from: owner }),
+    };
+};
+
+/**
+ * Build a WIP deposit step wrapping the native IP `owner` is short of to hold `amount` WIP,
+ * or null when the WIP balance already covers it
+ */
+export const buildWipWrapStep = async (
+    publicClient: PublicClient,
+    owner: Address,
+    amount: bigint
+): Promise<PreparedTransaction | null> => {
+    const { wip } = getContractAddresses();
+    const balance = await publicClient.readContract({
+        address: wip,
+        abi: erc20Abi,
+        functionName: 'balanceOf',
+        args: [owner],
+    });
+
+    if (balance >= amount) {
+        return null;
+    }
+
+    const shortfall = amount - balance;
+    const data = encodeFunctionData({
+        abi: wrappedIpAbi,
+        functionName: 'deposit',
+    });
+
+    return {
+        to: wip,
+        data,
+        value: shortfall.toString(),
+        gasEstimate: await estimateGas(publicClient, { to: wip, data, value: shortfall, from: owner }),
     };
 };
 
 /**
- * Build transaction parameters for license token minting
+ * Build the ordered transactions for license token minting
+ * Looks up the licensor's minting fee and currency on chain, then returns the
+ * ERC-20 approval for the RoyaltyModule (when needed) followed by
+ * LicensingModule.mintLicenseTokens
  */
 export const buildMintLicenseTransaction = async (
     request: PrepareLicenseRequest
-): Promise<PreparedTransaction> => {
-    const networkInfo = getNetworkInfo();
+): Promise<{
+    transactions: PreparedTransactionStep[];
+    mintingFee: { currencyToken: Address; amount: string };
+}> => {
+    const contracts = getContractAddresses();
 
-    // License minting typically goes through the licensing module
-    // The exact contract address will be determined by the Story SDK
-    return {
-        to: '0x0000000000000000000000000000000000000000', // Will be set by Story SDK
-        data: '0x', // Will be encoded by Story SDK
+    const publicClient = createPublicClient();
+    const params = prepareMintLicenseParams(request);
+
+    const [currencyToken, feeAmount] = await publicClient.readContract({
+        address: contracts.licensingModule,
+        abi: licensingModuleAbi,
+        functionName: 'predictMintingLicenseFee',
+        args: [
+            params.licensorIpId,
+            params.licenseTemplate,
+            params.licenseTermsId,
+            params.amount,
+            params.receiver,
+            params.royaltyContext,
+        ],
+    });
+
+    // Cap the fee at the quoted amount so the mint reverts if the licensor raises it
+    const maxMintingFee = params.maxMintingFee ?? feeAmount;
+
+    const data = encodeFunctionData({
+        abi: licensingModuleAbi,
+        functionName: 'mintLicenseTokens',
+        args: [
+            params.licensorIpId,
+            params.licenseTemplate,
+            params.licenseTermsId,
+            params.amount,
+            params.receiver,
+            params.royaltyContext,
+            maxMintingFee,
+            params.maxRevenueShare,
+        ],
+    });
+
+    const transactions: PreparedTransactionStep[] = [];
+
+    const approval = currencyToken !== zeroAddress
+        ? await buildApprovalStep(publicClient, currencyToken, params.payer, contracts.royaltyModule, feeAmount)
+        : null;
+
+    if (approval) {
+        transactions.push({
+            ...approval,
+            step: transactions.length + 1,
+            description: `Approve RoyaltyModule to spend the ${feeAmount} license minting fee`,
+        });
+    }
+
+    transactions.push({
+        to: contracts.licensingModule,
+        data,
         value: '0',
-        gasEstimate: '300000',
+        gasEstimate: approval
+            ? DEPENDENT_STEP_GAS_LIMIT
+            : await estimateGas(publicClient, { to: contracts.licensingModule, data, from: params.payer }),
+        step: transactions.length + 1,
+        description: `Mint ${params.amount} license token(s) for terms ${params.licenseTermsId}`,
+    });
+
+    return {
+        transactions,
+        mintingFee: {
+            currencyToken,
+            amount: feeAmount.toString(),
+        },
     };
 };
 
 /**
- * Build transaction parameters for royalty operations
+ * Build the ordered transactions for a royalty operation
+ * - pay: ERC-20 approval for the RoyaltyModule (when needed) followed by
+ *   RoyaltyModule.payRoyaltyOnBehalf
+ * - claim: RoyaltyWorkflows.claimAllRevenue across the given descendants
+ * - transfer: IP account execute() moving royalty tokens out of the IP account
+ * Every step carries a decoded preview of its call.
  */
 export const buildRoyaltyTransaction = async (
     request: PrepareRoyaltyRequest
-): Promise<PreparedTransaction> => {
-    // Royalty operations go through the royalty module
-    return {
-        to: '0x0000000000000000000000000000000000000000', // Will be set by Story SDK
-        data: '0x', // Will be encoded by Story SDK
-        value: request.operation === 'pay' ? request.amount || '0' : '0',
-        gasEstimate: '400000',
-    };
+): Promise<{
+    transactions: PreparedTransactionStep[];
+    royaltyVault?: Address;
+}> => {
+    const contracts = getContractAddresses();
+
+    const publicClient = createPublicClient();
+    const params = prepareRoyaltyParams(request);
+    const transactions: PreparedTransactionStep[] = [];
+
+    switch (params.operation) {
+        case 'pay': {
+            const approval = await buildApprovalStep(
+                publicClient,
+                params.token,
+                params.userAddress,
+                contracts.royaltyModule,
+                params.amount
+            );
+
+            if (approval) {
+                transactions.push({
+                    ...approval,
+                    step: transactions.length + 1,
+                    description: `Approve RoyaltyModule to spend ${params.amount} of the payment token`,
+                    preview: decodeCallPreview(erc20Abi, approval.data as Hex, 'ERC20'),
+                });
+            }
+
+            const data = encodeFunctionData({
+                abi: royaltyModuleAbi,
+                functionName: 'payRoyaltyOnBehalf',
+                args: [params.ipId, params.payerIpId, params.token, params.amount],
+            });
+
+            transactions.push({
+                to: contracts.royaltyModule,
+                data,
+                value: '0',
+                gasEstimate: approval
+                    ? DEPENDENT_STEP_GAS_LIMIT
+                    : await estimateGas(publicClient, { to: contracts.royaltyModule, data, from: params.userAddress }),
+                step: transactions.length + 1,
+                description: `Pay ${params.amount} in royalties to ${params.ipId}`,
+                preview: decodeCallPreview(royaltyModuleAbi, data, 'RoyaltyModule'),
+            });
+
+            return { transactions };
+        }
+
+        case 'claim': {
+            const royaltyPolicies = params.royaltyPolicies
+                ?? params.childIpIds.map(() => contracts.royaltyPolicyLap);
+
+            const data = encodeFunctionData({
+                abi: royaltyWorkflowsAbi,
+                functionName: 'claimAllRevenue',
+                args: [params.ipId, params.claimer, params.childIpIds, royaltyPolicies, params.currencyTokens],
+            });
+
+            transactions.push({
+                to: contracts.royaltyWorkflows,
+                data,
+                value: '0',
+                gasEstimate: await estimateGas(publicClient, { to: contracts.royaltyWorkflows, data, from: params.userAddress }),
+                step: 1,
+                description: `Claim revenue for ${params.claimer} in ${params.currencyTokens.length} currency token(s)`,
+                preview: decodeCallPreview(royaltyWorkflowsAbi, data, 'RoyaltyWorkflows'),
+            });
+
+            return { transactions };
+        }
+
+        case 'transfer': {
+            // The IP royalty vault is itself the royalty token (ERC-20) of the IP
+            const royaltyVault = await publicClient.readContract({
+                address: contracts.royaltyModule,
+                abi: royaltyModuleAbi,
+                functionName: 'ipRoyaltyVaults',
+                args: [params.ipId],
+            });
+
+            if (royaltyVault === zeroAddress) {
+                throw new Error(`IP ${params.ipId} has no royalty vault deployed`);
+            }
+
+            const transferData = encodeFunctionData({
+                abi: erc20Abi,
+                functionName: 'transfer',
+                args: [params.recipient, params.amount],
+            });
+
+            const data = encodeFunctionData({
+                abi: ipAccountImplAbi,
+                functionName: 'execute',
+                args: [royaltyVault, BigInt(0), transferData],
+            });
+
+            const preview = decodeCallPreview(ipAccountImplAbi, data, 'IPAccount');
+            preview.args.data = decodeCallPreview(erc20Abi, transferData, 'IpRoyaltyVault');
+
+            transactions.push({
+                to: params.ipId,
+                data,
+                value: '0',
+                gasEstimate: await estimateGas(publicClient, { to: params.ipId, data, from: params.userAddress }),
+                step: 1,
+                description: `Transfer ${params.amount} royalty tokens from the IP account to ${params.recipient}`,
+                preview,
+            });
+
+            return { transactions, royaltyVault };
+        }
+    }
 };
 
 /**
- * Build transaction parameters for NFT collection creation
+ * Build the RegistrationWorkflows.createCollection transaction deploying a new SPG NFT collection
+ * The collection is deployed with CREATE from the workflows contract, so its address is
+ * predicted from the contract's current nonce. Another collection deployed first shifts
+ * the nonce; use getCollectionAddressFromReceipt once the transaction is mined.
  */
 export const buildCreateCollectionTransaction = async (
     request: PrepareCollectionRequest
-): Promise<PreparedTransaction> => {
-    // Collection creation goes through the NFT client
+): Promise<PreparedTransaction & { predictedCollectionAddress: Address | null }> => {
+    const contracts = getContractAddresses();
+
+    const publicClient = createPublicClient();
+    const params = prepareCreateCollectionParams(request);
+
+    const data = encodeFunctionData({
+        abi: registrationWorkflowsAbi,
+        functionName: 'createCollection',
+        args: [params],
+    });
+
+    let predictedCollectionAddress: Address | null = null;
+    try {
+        const nonce = await publicClient.getTransactionCount({ address: contracts.registrationWorkflows });
+        predictedCollectionAddress = getCreateAddress({ from: contracts.registrationWorkflows, nonce: BigInt(nonce) });
+    } catch (error) {
+        console.warn('Failed to predict collection address:', error);
+    }
+
     return {
-        to: '0x0000000000000000000000000000000000000000', // Will be set by Story SDK
-        data: '0x', // Will be encoded by Story SDK
+        to: contracts.registrationWorkflows,
+        data,
         value: '0',
-        gasEstimate: '600000',
+        gasEstimate: await estimateGas(publicClient, {
+            to: contracts.registrationWorkflows,
+            data,
+            from: toAddress(request.userAddress),
+        }),
+        predictedCollectionAddress,
     };
 };
 
 /**
- * Build transaction parameters for dispute raising
+ * Read the deployed SPG NFT collection address from the CollectionCreated event
+ * of a mined createCollection transaction receipt
+ */
+export const getCollectionAddressFromReceipt = (receipt: { logs: Log[] }): Address | null => {
+    const contracts = getContractAddresses();
+    const [event] = parseEventLogs({
+        abi: registrationWorkflowsAbi,
+        eventName: 'CollectionCreated',
+        logs: receipt.logs.filter(log =>
+            log.address.toLowerCase() === contracts.registrationWorkflows.toLowerCase()
+        ),
+    });
+
+    return event ? event.args.spgNftContract : null;
+};
+
+/**
+ * Build the ordered transactions for raising a dispute
+ * The UMA arbitration policy pulls the bond in WIP, so the sequence is: wrap the
+ * missing native IP (when needed), approve the ArbitrationPolicyUMA for the bond
+ * (when needed), then DisputeModule.raiseDispute
  */
 export const buildRaiseDisputeTransaction = async (
-    request: PrepareDisputeRequest
-): Promise<PreparedTransaction> => {
-    // Dispute raising goes through the dispute module
-    return {
-        to: '0x0000000000000000000000000000000000000000', // Will be set by Story SDK
-        data: '0x', // Will be encoded by Story SDK
-        value: request.bond, // Bond amount required for dispute
-        gasEstimate: '400000',
-    };
+    request: PrepareDisputeRequest,
+    evidenceCid: string
+): Promise<{
+    transactions: PreparedTransactionStep[];
+    disputeParams: ReturnType<typeof prepareRaiseDisputeParams>;
+}> => {
+    const contracts = getContractAddresses();
+
+    const publicClient = createPublicClient();
+    const params = prepareRaiseDisputeParams(request, evidenceCid);
+    const userAddress = toAddress(request.userAddress);
+    const transactions: PreparedTransactionStep[] = [];
+
+    const wrap = await buildWipWrapStep(publicClient, userAddress, params.bond);
+    if (wrap) {
+        transactions.push({
+            ...wrap,
+            step: transactions.length + 1,
+            description: `Wrap ${wrap.value} wei of IP into WIP for the dispute bond`,
+            preview: decodeCallPreview(wrappedIpAbi, wrap.data as Hex, 'WIP'),
+        });
+    }
+
+    const approval = await buildApprovalStep(
+        publicClient,
+        params.bondToken,
+        userAddress,
+        contracts.arbitrationPolicyUma,
+        params.bond
+    );
+    if (approval) {
+        transactions.push({
+            ...approval,
+            step: transactions.length + 1,
+            description: `Approve ArbitrationPolicyUMA to spend the ${params.bond} WIP dispute bond`,
+            preview: decodeCallPreview(erc20Abi, approval.data as Hex, 'WIP'),
+        });
+    }
+
+    const data = encodeFunctionData({
+        abi: disputeModuleAbi,
+        functionName: 'raiseDispute',
+        args: [params.targetIpId, params.disputeEvidenceHash, params.targetTag, params.data],
+    });
+
+    transactions.push({
+        to: contracts.disputeModule,
+        data,
+        value: '0',
+        gasEstimate: transactions.length > 0
+            ? DEPENDENT_STEP_GAS_LIMIT
+            : await estimateGas(publicClient, { to: contracts.disputeModule, data, from: userAddress }),
+        step: transactions.length + 1,
+        description: `Raise a ${request.targetTag} dispute against ${params.targetIpId}`,
+        preview: decodeCallPreview(disputeModuleAbi, data, 'DisputeModule'),
+    });
+
+    return { transactions, disputeParams: params };
 };
 
 /**
@@ -234,7 +970,7 @@ export const getContractAddress = (contractType: 'spg' | 'nft' | 'wip'): Address
         case 'nft':
             return contracts.nftContract;
         case 'wip':
-            return contracts.wipToken;
+            return contracts.wip;
         default:
             return null;
     }
@@ -253,21 +989,23 @@ export const prepareRegisterIpAssetParams = (
     }
 ) => {
     const contracts = getContractAddresses();
+    const spgNftContract = request.spgNftContract
+        ? toAddress(request.spgNftContract)
+        : contracts.spgNftContract;
 
-    if (!contracts.spgNftContract) {
+    if (!spgNftContract) {
         throw new Error('SPG NFT contract address not available for current network');
     }
 
     return {
         nft: {
             type: 'mint' as const,
-            spgNftContract: contracts.spgNftContract
+            spgNftContract
         },
+        // Terms are only attached when requested; otherwise the IP is registered without a license
         licenseTermsData: request.licenseTerms ? [
-            { terms: convertLicenseTerms(request.licenseTerms) }
-        ] : [
-            { terms: convertLicenseTerms() }
-        ],
+            { terms: toPILTerms(request.licenseTerms), licensingConfig: DEFAULT_LICENSING_CONFIG }
+        ] : [],
         ipMetadata: {
             ipMetadataURI: ipfsHashes.ipMetadataURI,
             ipMetadataHash: ipfsHashes.ipMetadataHash,
@@ -290,7 +1028,7 @@ export const prepareRegisterDerivativeParams = (
     }
 ) => {
     const contracts = getContractAddresses();
-    const spgContract = request.spgNftContract as Address || contracts.spgNftContract;
+    const spgContract = request.spgNftContract ? toAddress(request.spgNftContract) : contracts.spgNftContract;
 
     if (!spgContract) {
         throw new Error('SPG NFT contract address not available');
@@ -302,14 +1040,19 @@ export const prepareRegisterDerivativeParams = (
             spgNftContract: spgContract
         },
         derivData: {
-            parentIpIds: request.parentIpIds as Address[],
-            licenseTermsIds: request.licenseTermsIds,
+            parentIpIds: request.parentIpIds.map(toAddress),
+            licenseTemplate: contracts.piLicenseTemplate,
+            licenseTermsIds: request.licenseTermsIds.map(id => BigInt(id)),
+            royaltyContext: '0x' as Hex,
+            maxMintingFee: BigInt(request.maxMintingFee || '0'),
+            maxRts: request.maxRts ?? MAX_ROYALTY_TOKENS,
+            maxRevenueShare: toOnChainPercentage(request.maxRevenueShare ?? 100),
         },
         ipMetadata: {
             ipMetadataURI: ipfsHashes.ipMetadataURI,
-            ipMetadataHash: `0x${ipfsHashes.ipMetadataHash}`,
+            ipMetadataHash: toBytes32(ipfsHashes.ipMetadataHash),
             nftMetadataURI: ipfsHashes.nftMetadataURI || ipfsHashes.ipMetadataURI,
-            nftMetadataHash: `0x${ipfsHashes.nftMetadataHash || ipfsHashes.ipMetadataHash}`,
+            nftMetadataHash: toBytes32(ipfsHashes.nftMetadataHash || ipfsHashes.ipMetadataHash),
         },
     };
 };
@@ -318,10 +1061,79 @@ export const prepareRegisterDerivativeParams = (
  * Prepare Story SDK request parameters for license token minting
  */
 export const prepareMintLicenseParams = (request: PrepareLicenseRequest) => {
+    const contracts = getContractAddresses();
+
+    const payer = toAddress(request.userAddress);
+
     return {
-        licenseTermsId: request.licenseTermsId,
-        licensorIpId: request.licensorIpId as Address,
-        amount: request.amount,
+        licensorIpId: toAddress(request.licensorIpId),
+        licenseTemplate: contracts.piLicenseTemplate,
+        licenseTermsId: BigInt(request.licenseTermsId),
+        amount: BigInt(request.amount ?? 1),
+        payer,
+        receiver: request.receiver ? toAddress(request.receiver) : payer,
+        royaltyContext: '0x' as Hex,
+        maxMintingFee: request.maxMintingFee !== undefined ? BigInt(request.maxMintingFee) : undefined,
+        maxRevenueShare: toOnChainPercentage(request.maxRevenueShare ?? 100),
+    };
+};
+
+/**
+ * Prepare SPG NFT collection init parameters
+ * Owner and mint fee recipient default to the requesting user, and an unset
+ * max supply means an uncapped (uint32 max) collection
+ */
+export const prepareCreateCollectionParams = (request: PrepareCollectionRequest) => {
+    const userAddress = toAddress(request.userAddress);
+    const mintFee = BigInt(request.mintFee || '0');
+    const mintFeeToken = request.mintFeeToken ? toAddress(request.mintFeeToken) : zeroAddress;
+
+    if (mintFee > BigInt(0) && mintFeeToken === zeroAddress) {
+        throw new Error('A mint fee token is required when the mint fee is greater than 0');
+    }
+
+    return {
+        name: request.name,
+        symbol: request.symbol,
+        baseURI: '',
+        contractURI: request.contractURI || '',
+        maxSupply: request.maxSupply ?? Number(maxUint32),
+        mintFee,
+        mintFeeToken,
+        mintFeeRecipient: request.mintFeeRecipient ? toAddress(request.mintFeeRecipient) : userAddress,
+        owner: request.owner ? toAddress(request.owner) : userAddress,
+        mintOpen: request.mintOpen ?? true,
+        isPublicMinting: request.isPublicMinting ?? true,
+    };
+};
+
+/**
+ * Prepare DisputeModule.raiseDispute parameters
+ * The evidence CID is reduced to its 32-byte sha256 digest and the tag is
+ * right-padded into bytes32, matching how the DisputeModule whitelists tags.
+ * The arbitration data is abi.encode(uint64 liveness, address bondToken, uint256 bond).
+ */
+export const prepareRaiseDisputeParams = (request: PrepareDisputeRequest, evidenceCid: string) => {
+    if (!RAISABLE_DISPUTE_TAGS.includes(request.targetTag)) {
+        throw new Error(`Invalid target tag. Must be one of: ${RAISABLE_DISPUTE_TAGS.join(', ')}`);
+    }
+
+    // Only WIP is whitelisted as a dispute bond token
+    const bondToken = getContractAddresses().wip;
+    const bond = BigInt(request.bond);
+    const liveness = BigInt(request.liveness);
+
+    return {
+        targetIpId: toAddress(request.targetIpId),
+        disputeEvidenceHash: convertCIDtoHashIPFS(evidenceCid) as Hex,
+        targetTag: stringToHex(request.targetTag, { size: 32 }),
+        data: encodeAbiParameters(
+            [{ type: 'uint64' }, { type: 'address' }, { type: 'uint256' }],
+            [liveness, bondToken, bond]
+        ),
+        bondToken,
+        bond,
+        liveness,
     };
 };
 
@@ -330,8 +1142,8 @@ export const prepareMintLicenseParams = (request: PrepareLicenseRequest) => {
  */
 export const prepareRoyaltyParams = (request: PrepareRoyaltyRequest) => {
     const baseParams = {
-        ipId: request.ipId as Address,
-        userAddress: request.userAddress as Address,
+        ipId: toAddress(request.ipId),
+        userAddress: toAddress(request.userAddress),
     };
 
     switch (request.operation) {
@@ -339,23 +1151,27 @@ export const prepareRoyaltyParams = (request: PrepareRoyaltyRequest) => {
             return {
                 ...baseParams,
                 operation: 'pay' as const,
-                amount: request.amount!,
-                token: request.token! as Address,
+                amount: BigInt(request.amount!),
+                token: toAddress(request.token!),
+                payerIpId: request.payerIpId ? toAddress(request.payerIpId) : zeroAddress,
             };
         case 'claim':
             return {
                 ...baseParams,
                 operation: 'claim' as const,
-                currencyTokens: (request.currencyTokens || []) as Address[],
+                currencyTokens: (request.currencyTokens || []).map(toAddress),
+                claimer: request.claimer ? toAddress(request.claimer) : baseParams.ipId,
+                childIpIds: (request.childIpIds || []).map(toAddress),
+                royaltyPolicies: request.royaltyPolicies?.map(toAddress),
             };
         case 'transfer':
             return {
                 ...baseParams,
                 operation: 'transfer' as const,
-                amount: request.amount!,
-                recipient: request.recipient! as Address,
+                amount: BigInt(request.amount!),
+                recipient: toAddress(request.recipient!),
             };
         default:
             throw new Error(`Unsupported royalty operation: ${request.operation}`);
     }
-};
\ No newline at end of file
+};
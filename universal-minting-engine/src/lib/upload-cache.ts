@@ -0,0 +1,97 @@
+import { getUploadConfig, StorageProviderName } from '@/lib/config';
+import { createJsonStore } from '@/lib/json-store';
+import { PinPurpose, recordPin } from '@/lib/pins';
+import { getStorageProvider } from '@/lib/storage';
+
+/**
+ * Where a previously uploaded content hash was pinned
+ */
+export interface CidIndexEntry {
+    cid: string;
+    provider: StorageProviderName;
+    recordedAt: string;
+}
+
+export type CidIndex = Record<string, CidIndexEntry>;
+
+export interface DeduplicatedUpload {
+    cid: string;
+    deduplicated: boolean;
+}
+
+const cidIndexStore = createJsonStore<CidIndex>(() => getUploadConfig().cidIndexPath, () => ({}));
+
+/**
+ * The content hash (SHA-256, as from createContentHash) to CID index, empty when none was written yet
+ */
+export function readCidIndex(): Promise<CidIndex> {
+    return cidIndexStore.read();
+}
+
+/**
+ * Record the CID a content hash was uploaded under
+ */
+export function recordCid(contentHash: string, cid: string): Promise<void> {
+    return cidIndexStore.update(index => {
+        index[contentHash] = { cid, provider: getStorageProvider().name, recordedAt: new Date().toISOString() };
+    });
+}
+
+/**
+ * Remove a content hash from the index, e.g. once its pin is gone
+ */
+export function forgetCid(contentHash: string): Promise<void> {
+    return cidIndexStore.update(index => {
+        delete index[contentHash];
+    });
+}
+
+/**
+ * The CID an earlier upload of this content hash is still pinned under, or null.
+ * An entry whose pin no longer exists is dropped so the content is uploaded again.
+ */
+export async function lookupCid(contentHash: string): Promise<string | null> {
+    const entry = (await readCidIndex())[contentHash];
+    if (!entry) {
+        return null;
+    }
+
+    if (!(await getStorageProvider().isPinned(entry.cid))) {
+        await forgetCid(contentHash);
+        return null;
+    }
+    return entry.cid;
+}
+
+/**
+ * Upload content unless the index holds a CID its hash is still pinned under; a reused pin is
+ * recorded for the current request like a new one. The index is only a shortcut: when it cannot
+ * be read or written, or the pin cannot be checked, the content is uploaded as if it had not been seen.
+ */
+export async function uploadDeduplicated(
+    contentHash: string,
+    upload: () => Promise<string>,
+    pin: { filename: string; purpose: PinPurpose }
+): Promise<DeduplicatedUpload> {
+    if (!getUploadConfig().dedup) {
+        return { cid: await upload(), deduplicated: false };
+    }
+
+    try {
+        const cid = await lookupCid(contentHash);
+        if (cid) {
+            await recordPin(cid, { filename: pin.filename, purpose: pin.purpose });
+            return { cid, deduplicated: true };
+        }
+    } catch (error) {
+        console.warn('Upload deduplication lookup failed, uploading:', error);
+    }
+
+    const cid = await upload();
+    try {
+        await recordCid(contentHash, cid);
+    } catch (error) {
+        console.warn('Failed to record uploaded CID for deduplication:', error);
+    }
+    return { cid, deduplicated: false };
+}
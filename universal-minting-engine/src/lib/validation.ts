@@ -75,31 +75,74 @@ const licenseTermsConfigSchema = z.object({
     commercializerChecker: ethereumAddressSchema,
     commercializerCheckerData: z.string(),
     commercialRevShare: z.number().min(0).max(100, 'Commercial revenue share must be between 0 and 100'),
+    commercialRevCeiling: z.string().regex(/^\d+$/, 'Commercial revenue ceiling must be a valid number string').optional(),
     derivativesAllowed: z.boolean(),
     derivativesAttribution: z.boolean(),
     derivativesApproval: z.boolean(),
     derivativesReciprocal: z.boolean(),
     derivativeRevShare: z.number().min(0).max(100, 'Derivative revenue share must be between 0 and 100'),
+    derivativeRevCeiling: z.string().regex(/^\d+$/, 'Derivative revenue ceiling must be a valid number string').optional(),
     currency: ethereumAddressSchema,
     uri: z.string().url('License terms URI must be a valid URL')
 });
 
-const fileUploadSchema = z.object({
+const filePurposeSchema = z.enum(['media', 'metadata', 'evidence', 'attachment'], {
+    errorMap: () => ({ message: 'Purpose must be one of: media, metadata, evidence, attachment' })
+});
+
+const inlineFileUploadSchema = z.object({
     data: base64Schema,
     filename: z.string().min(1, 'Filename is required').max(255, 'Filename must be less than 255 characters'),
     contentType: z.string().min(1, 'Content type is required'),
-    purpose: z.enum(['media', 'metadata', 'evidence', 'attachment'], {
-        errorMap: () => ({ message: 'Purpose must be one of: media, metadata, evidence, attachment' })
-    })
+    purpose: filePurposeSchema
+});
+
+// A file sent earlier through the chunked upload API, referenced by its upload ID
+const uploadedFileReferenceSchema = z.object({
+    uploadId: z.string().uuid('Invalid upload ID'),
+    purpose: filePurposeSchema.optional()
+});
+
+// A binary part of a multipart/form-data request
+const multipartFileSchema = z.object({
+    file: z.instanceof(Blob, { message: 'File part must be binary' }),
+    filename: z.string().min(1, 'Filename is required').max(255, 'Filename must be less than 255 characters'),
+    contentType: z.string().min(1, 'Content type is required'),
+    purpose: filePurposeSchema
 });
 
+const fileUploadSchema = z.union([inlineFileUploadSchema, multipartFileSchema, uploadedFileReferenceSchema]);
+
+// Chunked uploads: POST /api/uploads
+export const initUploadRequestSchema = z.object({
+    filename: z.string().min(1, 'Filename is required').max(255, 'Filename must be less than 255 characters'),
+    contentType: z.string().min(1, 'Content type is required'),
+    totalSize: z.number().int('Total size must be an integer').positive('Total size must be positive'),
+    purpose: filePurposeSchema.optional()
+});
+
+// Hex SHA-256 that must accompany every chunk
+export const chunkSha256Schema = z.string().regex(/^[0-9a-fA-F]{64}$/, 'Chunk SHA-256 must be 64 hex characters');
+
 // API request schemas
 export const prepareTransactionRequestSchema = z.object({
     userAddress: ethereumAddressSchema,
     ipMetadata: ipMetadataSchema,
     nftMetadata: nftMetadataSchema,
     licenseTerms: licenseTermsConfigSchema.optional(),
-    files: z.array(fileUploadSchema).optional()
+    files: z.array(fileUploadSchema).optional(),
+    spgNftContract: ethereumAddressSchema.optional()
+});
+
+// Upper bound of items accepted by /api/prepare-batch-mint
+export const MAX_BATCH_MINT_ITEMS = 50;
+
+// Items are validated one by one against prepareTransactionRequestSchema so one bad item does not fail the batch
+export const prepareBatchMintRequestSchema = z.object({
+    userAddress: ethereumAddressSchema,
+    items: z.array(z.record(z.unknown()), { invalid_type_error: 'Items must be an array of mint requests' })
+        .min(1, 'At least one item is required')
+        .max(MAX_BATCH_MINT_ITEMS, `At most ${MAX_BATCH_MINT_ITEMS} items can be minted in one batch`)
 });
 
 export const prepareDerivativeRequestSchema = z.object({
@@ -108,7 +151,10 @@ export const prepareDerivativeRequestSchema = z.object({
     licenseTermsIds: z.array(z.number().int().positive('License terms ID must be a positive integer')).min(1, 'At least one license terms ID is required'),
     ipMetadata: ipMetadataSchema,
     nftMetadata: nftMetadataSchema.optional(),
-    spgNftContract: ethereumAddressSchema.optional()
+    spgNftContract: ethereumAddressSchema.optional(),
+    maxMintingFee: z.string().regex(/^\d+$/, 'Max minting fee must be a valid number string').optional(),
+    maxRts: z.number().int().min(0).max(100000000, 'Max royalty tokens must be between 0 and 100,000,000').optional(),
+    maxRevenueShare: z.number().min(0).max(100, 'Max revenue share must be between 0 and 100').optional()
 }).refine(
     (data) => data.parentIpIds.length === data.licenseTermsIds.length,
     {
@@ -120,8 +166,11 @@ export const prepareDerivativeRequestSchema = z.object({
 export const prepareLicenseRequestSchema = z.object({
     userAddress: ethereumAddressSchema,
     licenseTermsId: z.number().int().positive('License terms ID must be a positive integer'),
-    licensorIpId: z.string().min(1, 'Licensor IP ID is required'),
-    amount: z.number().int().positive('Amount must be a positive integer')
+    licensorIpId: ethereumAddressSchema,
+    amount: z.number().int().positive('Amount must be a positive integer'),
+    receiver: ethereumAddressSchema.optional(),
+    maxMintingFee: z.string().regex(/^\d+$/, 'Max minting fee must be a valid number string').optional(),
+    maxRevenueShare: z.number().min(0).max(100, 'Max revenue share must be between 0 and 100').optional()
 });
 
 export const prepareRoyaltyRequestSchema = z.object({
@@ -133,7 +182,11 @@ export const prepareRoyaltyRequestSchema = z.object({
     amount: z.string().regex(/^\d+$/, 'Amount must be a valid number string').optional(),
     token: ethereumAddressSchema.optional(),
     recipient: ethereumAddressSchema.optional(),
-    currencyTokens: z.array(ethereumAddressSchema).optional()
+    currencyTokens: z.array(ethereumAddressSchema).optional(),
+    payerIpId: ethereumAddressSchema.optional(),
+    claimer: ethereumAddressSchema.optional(),
+    childIpIds: z.array(ethereumAddressSchema).optional(),
+    royaltyPolicies: z.array(ethereumAddressSchema).optional()
 }).refine(
     (data) => {
         // Validate required fields based on operation type
@@ -152,6 +205,12 @@ export const prepareRoyaltyRequestSchema = z.object({
         message: 'Missing required fields for the specified operation',
         path: ['operation']
     }
+).refine(
+    (data) => !data.royaltyPolicies || data.royaltyPolicies.length === (data.childIpIds || []).length,
+    {
+        message: 'Number of royalty policies must match number of child IP IDs',
+        path: ['royaltyPolicies']
+    }
 );
 
 export const prepareCollectionRequestSchema = z.object({
@@ -160,9 +219,19 @@ export const prepareCollectionRequestSchema = z.object({
     symbol: z.string().min(1, 'Collection symbol is required').max(10, 'Collection symbol must be less than 10 characters').regex(/^[A-Z0-9]+$/, 'Collection symbol must contain only uppercase letters and numbers'),
     isPublicMinting: z.boolean(),
     mintOpen: z.boolean(),
+    maxSupply: z.number().int().positive('Max supply must be a positive integer').max(4294967295, 'Max supply must fit in uint32').optional(),
+    mintFee: z.string().regex(/^\d+$/, 'Mint fee must be a valid number string').optional(),
+    mintFeeToken: ethereumAddressSchema.optional(),
     mintFeeRecipient: ethereumAddressSchema.optional(),
+    owner: ethereumAddressSchema.optional(),
     contractURI: z.string().url().optional()
-});
+}).refine(
+    (data) => !data.mintFee || /^0+$/.test(data.mintFee) || !!data.mintFeeToken,
+    {
+        message: 'Mint fee token is required when mint fee is greater than 0',
+        path: ['mintFeeToken']
+    }
+);
 
 export const prepareDisputeRequestSchema = z.object({
     userAddress: ethereumAddressSchema,
@@ -176,14 +245,69 @@ export const prepareDisputeRequestSchema = z.object({
 export const prepareCliMintRequestSchema = z.object({
     userAddress: ethereumAddressSchema,
     filePath: z.string().min(1, 'File path is required'),
-    fileData: base64Schema,
+    fileData: base64Schema.optional(),
+    file: multipartFileSchema.optional(),
     filename: z.string().min(1, 'Filename is required').max(255, 'Filename must be less than 255 characters'),
     contentType: z.string().min(1, 'Content type is required'),
     title: z.string().max(200, 'Title must be less than 200 characters').optional(),
     description: z.string().max(2000, 'Description must be less than 2000 characters').optional(),
     generateMetadata: z.boolean().optional(),
     contentHash: z.string().optional(),
-    licenseTerms: licenseTermsConfigSchema.optional()
+    licenseTerms: licenseTermsConfigSchema.optional(),
+    offline: z.boolean().optional()
+}).refine(data => !!data.fileData !== !!data.file, {
+    message: 'Provide the file either as base64 fileData or as a multipart file part',
+    path: ['fileData']
+});
+
+// Pin lifecycle: GET /api/pins query and POST /api/pins/unpin-orphans body
+export const listPinsQuerySchema = z.object({
+    status: z.enum(['onchain', 'pending', 'orphaned', 'retained'], {
+        errorMap: () => ({ message: 'Status must be one of: onchain, pending, orphaned, retained' })
+    }).optional(),
+    purpose: filePurposeSchema.optional(),
+    userAddress: ethereumAddressSchema.optional(),
+    requestId: z.string().min(1, 'Request ID must not be empty').optional()
+});
+
+export const unpinOrphansRequestSchema = z.object({
+    dryRun: z.boolean().optional()
+});
+
+// IP asset details: GET /api/ip/{ipId} path
+export const ipAssetParamsSchema = z.object({
+    ipId: ethereumAddressSchema
+});
+
+// IP lineage: GET /api/ip/{ipId}/lineage path and query
+export const lineageQuerySchema = z.object({
+    ipId: ethereumAddressSchema,
+    depth: z.string()
+        .regex(/^\d+$/, 'Depth must be a whole number')
+        .refine(depth => Number(depth) >= 1 && Number(depth) <= 10, 'Depth must be between 1 and 10')
+        .optional(),
+    direction: z.enum(['ancestors', 'descendants'], {
+        errorMap: () => ({ message: 'Direction must be one of: ancestors, descendants' })
+    }).optional(),
+    format: z.enum(['json', 'dot', 'mermaid'], {
+        errorMap: () => ({ message: 'Format must be one of: json, dot, mermaid' })
+    }).optional()
+});
+
+// IP asset search: GET /api/search query, with attribute repeatable as key:value
+export const searchQuerySchema = z.object({
+    q: z.string().max(200, 'Query must be 200 characters or less').optional(),
+    tag: z.string().min(1).max(100).optional(),
+    ipType: z.string().min(1).max(100).optional(),
+    mediaType: z.string().min(1).max(100).optional(),
+    creator: ethereumAddressSchema.optional(),
+    appId: z.string().min(1).max(100).optional(),
+    attribute: z.array(z.string().regex(/^[^:]+:.+$/, 'Attribute must be key:value')).max(10, 'At most 10 attribute filters').optional(),
+    limit: z.string()
+        .regex(/^\d+$/, 'Limit must be a whole number')
+        .refine(limit => Number(limit) >= 1 && Number(limit) <= 100, 'Limit must be between 1 and 100')
+        .optional(),
+    cursor: z.string().max(200).optional()
 });
 
 // Validation helper functions
@@ -218,5 +342,6 @@ export {
     ipMetadataSchema,
     nftMetadataSchema,
     licenseTermsConfigSchema,
+    multipartFileSchema,
     fileUploadSchema
 };
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { createPublicClient } from '@/lib/config';
-import { formatEther } from 'viem';
+import { FEE_TIERS, getFeeSuggestions } from '@/lib/fees';
+import { TierCost, TransactionCost, FeeTier } from '@/types';
+import { formatEther, formatGwei, PublicClient } from 'viem';
 
 /**
  * Wallet utility functions for balance checking and validation
@@ -28,14 +30,8 @@ export async function checkWalletBalance(
             address: address as `0x${string}`
         });
 
-        // Get actual current gas price from network
-        let gasPrice: bigint;
-        try {
-            gasPrice = await publicClient.getGasPrice();
-        } catch (gasPriceError) {
-            console.warn('Could not fetch gas price, using default:', gasPriceError);
-            gasPrice = BigInt(20) * BigInt(1e9); // 20 Gwei fallback
-        }
+        // Price the gas at the fast tier's max fee, the most a prepared transaction may pay
+        const gasPrice = await getTierGasPrice(publicClient, 'fast');
 
         // Calculate minimum required balance (gas limit * gas price)
         const minimumRequiredWei = estimatedGasLimit * gasPrice;
@@ -62,38 +58,46 @@ export async function checkWalletBalance(
 }
 
 /**
- * Get current gas price from the network
+ * Get the current gas price from the network, as the normal tier's EIP-1559 max fee
  */
 export async function getCurrentGasPrice(): Promise<bigint> {
+    return getTierGasPrice(createPublicClient(), 'normal');
+}
+
+/**
+ * A tier's max fee from fee history, falling back to the legacy gas price and then to 20 Gwei
+ * when the RPC does not answer eth_feeHistory
+ */
+async function getTierGasPrice(publicClient: PublicClient, tier: FeeTier): Promise<bigint> {
+    try {
+        const fees = await getFeeSuggestions(publicClient);
+        return BigInt(fees[tier].maxFeePerGas);
+    } catch (feeHistoryError) {
+        console.warn('Fee history lookup failed, using the gas price:', feeHistoryError);
+    }
     try {
-        const publicClient = createPublicClient();
         return await publicClient.getGasPrice();
-    } catch (error) {
-        console.error('Failed to get gas price:', error);
-        // Return default gas price (20 Gwei) if unable to fetch
-        return BigInt(20) * BigInt(1e9);
+    } catch (gasPriceError) {
+        console.warn('Could not fetch gas price, using default:', gasPriceError);
+        return BigInt(20) * BigInt(1e9); // 20 Gwei fallback
     }
 }
 
 /**
- * Estimate total transaction cost including gas
+ * Estimate total transaction cost including gas, for each fee tier.
+ * Each tier's total is an upper bound: the gas limit priced at that tier's maxFeePerGas.
  */
 export async function estimateTransactionCost(
     to: string,
     data: string,
     from: string,
     gasLimit?: bigint
-): Promise<{
-    gasLimit: bigint;
-    gasPrice: bigint;
-    totalCost: bigint;
-    totalCostEth: string;
-}> {
+): Promise<TransactionCost> {
     try {
         const publicClient = createPublicClient();
 
-        // Get current gas price
-        const gasPrice = await getCurrentGasPrice();
+        // Get EIP-1559 fee suggestions per tier
+        const fees = await getFeeSuggestions(publicClient);
 
         // Estimate gas if not provided
         let estimatedGas = gasLimit;
@@ -112,13 +116,21 @@ export async function estimateTransactionCost(
             }
         }
 
-        const totalCost = estimatedGas * gasPrice;
+        const gas = estimatedGas;
+        const tiers = Object.fromEntries(FEE_TIERS.map(tier => {
+            const totalCost = gas * BigInt(fees[tier].maxFeePerGas);
+            return [tier, {
+                ...fees[tier],
+                totalCostWei: totalCost.toString(),
+                totalCostEth: formatEther(totalCost)
+            }];
+        })) as Record<FeeTier, TierCost>;
 
         return {
-            gasLimit: estimatedGas,
-            gasPrice,
-            totalCost,
-            totalCostEth: formatEther(totalCost)
+            gasEstimate: gas.toString(),
+            gasPriceGwei: formatGwei(BigInt(fees.normal.maxFeePerGas)),
+            estimatedCostEth: tiers.normal.totalCostEth,
+            tiers
         };
     } catch (error) {
         console.error('Failed to estimate transaction cost:', error);
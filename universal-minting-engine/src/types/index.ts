@@ -10,23 +10,26 @@ export type { Address } from 'viem';
 // Base transaction response type
 export interface PrepareTransactionResponse {
     success: boolean;
-    transaction?: {
-        to: string;
-        data: string;
-        value: string;
-        gasEstimate?: string;
-    };
+    transaction?: PreparedTransaction;
+    transactions?: PreparedTransactionStep[];
     metadata?: {
         ipfsHash: string;
         ipHash: string;
         nftIpfsHash: string;
         nftHash: string;
+        // URIs as written on chain (ipfs:// or gateway, per IPFS_URI_FORMAT) and their gateway URLs
+        ipMetadataURI?: string;
+        ipMetadataUrl?: string;
+        nftMetadataURI?: string;
+        nftMetadataUrl?: string;
     };
     uploadedFiles?: Array<{
         filename: string;
         ipfsHash: string;
         purpose: string;
         url: string;
+        deduplicated?: boolean; // an earlier upload of the same content was reused
+        sanitized?: string[];   // unsafe SVG content removed before upload
     }>;
     error?: {
         code: string;
@@ -61,6 +64,33 @@ export interface PreparedTransaction {
     data: string;
     value: string;
     gasEstimate?: string;
+    chainId?: number;
+    nonce?: number; // suggested from the sender's pending transaction count
+    maxFeePerGas?: string; // wei, the normal fee tier
+    maxPriorityFeePerGas?: string; // wei, the normal fee tier
+    feeTiers?: Record<FeeTier, FeeSuggestion>;
+}
+
+// EIP-1559 fee speed tiers derived from eth_feeHistory
+export type FeeTier = 'slow' | 'normal' | 'fast';
+
+export interface FeeSuggestion {
+    maxFeePerGas: string; // wei
+    maxPriorityFeePerGas: string; // wei
+}
+
+// One transaction of an ordered sequence the wallet must sign and send in turn
+export interface PreparedTransactionStep extends PreparedTransaction {
+    step: number;
+    description: string;
+    preview?: TransactionCallPreview;
+}
+
+// Human-readable decoding of a prepared contract call
+export interface TransactionCallPreview {
+    contract: string;
+    functionName: string;
+    args: Record<string, unknown>;
 }
 
 // License terms configuration
@@ -85,16 +115,41 @@ export interface LicenseTermsConfig {
 }
 
 // Request types for different endpoints
+
+// A binary part of a multipart/form-data request, attached to the payload at its field name
+export interface MultipartFile {
+    file: Blob;
+    filename: string;
+    contentType: string;
+    purpose: 'media' | 'metadata' | 'evidence' | 'attachment';
+}
+
+// A file sent inline as base64 or as a multipart part, or one uploaded in chunks through /api/uploads
+export type RequestFile =
+    | { data: string; filename: string; contentType: string; purpose: 'media' | 'metadata' | 'evidence' | 'attachment' }
+    | MultipartFile
+    | { uploadId: string; purpose?: 'media' | 'metadata' | 'evidence' | 'attachment' };
+
 export interface PrepareTransactionRequest {
     userAddress: string;
     ipMetadata: IPMetadata;
     nftMetadata: NFTMetadata;
-    files?: Array<{
-        filename: string;
-        content: string; // base64 encoded
-        mimeType: string;
-    }>;
+    files?: RequestFile[];
     licenseTerms?: Partial<LicenseTermsConfig>;
+    spgNftContract?: string; // collection deployed via /api/prepare-collection, defaults to the network's shared one
+}
+
+export interface PrepareBatchMintRequest {
+    userAddress: string; // signs the batch; items without their own userAddress mint to it
+    items: Array<Omit<PrepareTransactionRequest, 'userAddress'> & { userAddress?: string }>;
+}
+
+// A batch item left out of the prepared transactions, by its index in the request
+export interface BatchMintFailure {
+    index: number;
+    code: string;
+    message: string;
+    details?: Record<string, unknown>;
 }
 
 export interface PrepareCollectionRequest {
@@ -118,6 +173,9 @@ export interface PrepareDerivativeRequest {
     ipMetadata: IPMetadata;
     nftMetadata?: NFTMetadata;
     spgNftContract?: string;
+    maxMintingFee?: string; // in wei, 0 means no limit
+    maxRts?: number; // royalty tokens, 0 - 100,000,000
+    maxRevenueShare?: number; // percentage, 0 - 100
 }
 
 export interface PrepareDisputeRequest {
@@ -135,6 +193,8 @@ export interface PrepareLicenseRequest {
     licenseTermsId: number;
     amount?: number;
     receiver?: string;
+    maxMintingFee?: string; // in wei, defaults to the on-chain predicted fee
+    maxRevenueShare?: number; // percentage, 0 - 100
 }
 
 export interface PrepareRoyaltyRequest {
@@ -145,12 +205,17 @@ export interface PrepareRoyaltyRequest {
     recipient?: string;
     currencyTokens?: string[];
     token?: string;
+    payerIpId?: string; // pay: IP paying on behalf of, zero address for external payers
+    claimer?: string; // claim: royalty token holder, defaults to the IP account
+    childIpIds?: string[]; // claim: descendants whose revenue flows up to ipId
+    royaltyPolicies?: string[]; // claim: royalty policy per child, defaults to LAP
 }
 
 export interface PrepareCliMintRequest {
     userAddress: string;
     filePath: string;
-    fileData: string; // base64 encoded
+    fileData?: string; // base64 encoded; required unless the file is sent as a multipart part
+    file?: MultipartFile;
     filename: string;
     contentType: string;
     title?: string;
@@ -158,6 +223,7 @@ export interface PrepareCliMintRequest {
     generateMetadata?: boolean;
     contentHash?: string;
     licenseTerms?: Partial<LicenseTermsConfig>;
+    offline?: boolean; // compute CIDs locally instead of uploading
 }
 
 // Creator and Attribute types
@@ -274,9 +340,16 @@ export interface WalletBalance {
 
 export interface TransactionCost {
     gasEstimate: string;
-    gasPriceGwei: string;
-    estimatedCostEth: string;
+    gasPriceGwei: string; // normal tier maxFeePerGas
+    estimatedCostEth: string; // normal tier
     estimatedCostUsd?: string;
+    tiers: Record<FeeTier, TierCost>;
+}
+
+// Upper bound cost of a transaction at one fee tier (gas limit x maxFeePerGas)
+export interface TierCost extends FeeSuggestion {
+    totalCostWei: string;
+    totalCostEth: string;
 }
 
 export interface FaucetInfo {
@@ -0,0 +1,175 @@
+import fc from 'fast-check';
+import { isSniffedTypeCompatible, sniffMimeType, SNIFF_BYTES } from '@/lib/content-sniffing';
+import { SUPPORTED_MIME_TYPES, validateBlob, validateFile } from '@/lib/ipfs';
+
+const bytes = (...parts: Array<string | number[]>) =>
+    Buffer.concat(parts.map(part => typeof part === 'string' ? Buffer.from(part, 'latin1') : Buffer.from(part)));
+
+// The first bytes of real files of each binary type, as written by common encoders and muxers
+const BINARY_HEADERS: Array<{ name: string; mimeType: string; header: Buffer }> = [
+    { name: 'JFIF JPEG', mimeType: 'image/jpeg', header: bytes([0xFF, 0xD8, 0xFF, 0xE0, 0x00, 0x10], 'JFIF', [0x00, 0x01, 0x01]) },
+    { name: 'Exif JPEG', mimeType: 'image/jpeg', header: bytes([0xFF, 0xD8, 0xFF, 0xE1, 0x2F, 0xFE], 'Exif', [0x00, 0x00]) },
+    { name: 'PNG', mimeType: 'image/png', header: bytes([0x89], 'PNG', [0x0D, 0x0A, 0x1A, 0x0A, 0x00, 0x00, 0x00, 0x0D], 'IHDR') },
+    { name: 'GIF87a', mimeType: 'image/gif', header: bytes('GIF87a', [0x40, 0x01, 0xF0, 0x00]) },
+    { name: 'GIF89a', mimeType: 'image/gif', header: bytes('GIF89a', [0x01, 0x00, 0x01, 0x00]) },
+    { name: 'WebP', mimeType: 'image/webp', header: bytes('RIFF', [0x24, 0x1A, 0x00, 0x00], 'WEBPVP8 ') },
+    { name: 'MP4', mimeType: 'video/mp4', header: bytes([0x00, 0x00, 0x00, 0x20], 'ftypisom', [0x00, 0x00, 0x02, 0x00], 'isomiso2avc1mp41') },
+    { name: 'MP4 (mp42)', mimeType: 'video/mp4', header: bytes([0x00, 0x00, 0x00, 0x18], 'ftypmp42', [0x00, 0x00, 0x00, 0x00], 'mp42isom') },
+    { name: 'QuickTime', mimeType: 'video/quicktime', header: bytes([0x00, 0x00, 0x00, 0x14], 'ftypqt  ', [0x20, 0x05, 0x03, 0x00], 'qt  ') },
+    { name: 'QuickTime without ftyp', mimeType: 'video/quicktime', header: bytes([0x00, 0x00, 0x00, 0x08], 'wide', [0x00, 0x1B, 0x2F, 0x1A], 'mdat') },
+    {
+        name: 'WebM',
+        mimeType: 'video/webm',
+        header: bytes([0x1A, 0x45, 0xDF, 0xA3, 0x9F, 0x42, 0x86, 0x81, 0x01, 0x42, 0xF7, 0x81, 0x01, 0x42, 0xF2, 0x81, 0x04,
+            0x42, 0xF3, 0x81, 0x08, 0x42, 0x82, 0x84], 'webm', [0x42, 0x87, 0x81, 0x04, 0x42, 0x85, 0x81, 0x02])
+    },
+    {
+        name: 'Matroska',
+        mimeType: 'video/x-matroska',
+        header: bytes([0x1A, 0x45, 0xDF, 0xA3, 0xA3, 0x42, 0x86, 0x81, 0x01, 0x42, 0xF7, 0x81, 0x01, 0x42, 0xF2, 0x81, 0x04,
+            0x42, 0xF3, 0x81, 0x08, 0x42, 0x82, 0x88], 'matroska', [0x42, 0x87, 0x81, 0x04, 0x42, 0x85, 0x81, 0x02])
+    },
+    { name: 'AVI', mimeType: 'video/x-msvideo', header: bytes('RIFF', [0xF8, 0x3C, 0x5A, 0x00], 'AVI LIST', [0x94, 0x11, 0x00, 0x00], 'hdrlavih') },
+    { name: 'MP3 with ID3v2', mimeType: 'audio/mpeg', header: bytes('ID3', [0x04, 0x00, 0x00, 0x00, 0x00, 0x00, 0x23], 'TSSE') },
+    { name: 'MP3 frame (MPEG-1 Layer III)', mimeType: 'audio/mpeg', header: bytes([0xFF, 0xFB, 0x90, 0x64, 0x00, 0x0F, 0xF0, 0x00]) },
+    { name: 'MP3 frame (MPEG-2 Layer III)', mimeType: 'audio/mpeg', header: bytes([0xFF, 0xF3, 0x84, 0xC4, 0x00, 0x00, 0x00, 0x03]) },
+    { name: 'WAV', mimeType: 'audio/wav', header: bytes('RIFF', [0x24, 0x08, 0x00, 0x00], 'WAVEfmt ', [0x10, 0x00, 0x00, 0x00, 0x01, 0x00]) },
+    { name: 'Ogg Vorbis', mimeType: 'audio/ogg', header: bytes('OggS', [0x00, 0x02, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00]) },
+    { name: 'AAC (ADTS)', mimeType: 'audio/aac', header: bytes([0xFF, 0xF1, 0x50, 0x80, 0x02, 0x1F, 0xFC]) },
+    { name: 'AAC (ADTS, MPEG-2)', mimeType: 'audio/aac', header: bytes([0xFF, 0xF9, 0x4C, 0x80, 0x01, 0xFF, 0xFC]) },
+    { name: 'PDF', mimeType: 'application/pdf', header: bytes('%PDF-1.7\n%', [0xE2, 0xE3, 0xCF, 0xD3], '\n') }
+];
+
+// Text formats, complete
+const TEXT_FILES: Array<{ name: string; mimeType: string; content: Buffer }> = [
+    {
+        name: 'SVG',
+        mimeType: 'image/svg+xml',
+        content: Buffer.from('<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"><rect width="10" height="10"/></svg>')
+    },
+    {
+        name: 'SVG with DOCTYPE',
+        mimeType: 'image/svg+xml',
+        content: Buffer.from('<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "http://www.w3.org/Graphics/SVG/1.1/DTD/svg11.dtd">\n<!-- exported -->\n<svg viewBox="0 0 1 1"/>')
+    },
+    { name: 'JSON', mimeType: 'application/json', content: Buffer.from('{"name":"Artwork","attributes":[{"key":"style","value":"abstract"}]}') },
+    { name: 'Markdown', mimeType: 'text/markdown', content: Buffer.from('# License\n\nCommercial use **allowed**.\n') },
+    { name: 'CSV', mimeType: 'text/csv', content: Buffer.from('tokenId,owner\n1,0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6\n') },
+    { name: 'Plain text', mimeType: 'text/plain', content: Buffer.from('Dispute evidence: see attached screenshots.\n') }
+];
+
+const ALL_SUPPORTED = Object.values(SUPPORTED_MIME_TYPES).flat();
+
+const anyBytes = (maxLength: number) => fc.uint8Array({ maxLength }).map(array => Buffer.from(array));
+
+// A JSON document whose top level is an object or an array
+const jsonDocument = fc.oneof(
+    fc.dictionary(fc.string(), fc.jsonValue()),
+    fc.array(fc.jsonValue())
+).map(value => JSON.stringify(value));
+
+// Text inside an XML comment
+const commentText = fc.string({ unit: 'grapheme' }).filter(text => !text.includes('--') && !text.endsWith('-'));
+
+const whitespace = fc.stringMatching(/^[ \t\r\n]{0,4}$/);
+
+describe('Content Sniffing Properties', () => {
+    it('should recognise real file headers whatever follows them', () => {
+        fc.assert(fc.property(fc.constantFrom(...BINARY_HEADERS), anyBytes(512), ({ mimeType, header }, rest) => {
+            expect(sniffMimeType(Buffer.concat([header, rest]))).toBe(mimeType);
+        }));
+    });
+
+    it('should reject every other binary type for a real file header', () => {
+        fc.assert(fc.property(fc.constantFrom(...BINARY_HEADERS), fc.constantFrom(...ALL_SUPPORTED), ({ mimeType, header }, claimed) => {
+            const sniffed = sniffMimeType(header)!;
+            const sameContainer = [mimeType, claimed].every(type => ['video/mp4', 'video/quicktime'].includes(type));
+            const alias = { 'image/jpg': 'image/jpeg', 'audio/mp3': 'audio/mpeg', 'video/avi': 'video/x-msvideo' }[claimed];
+
+            expect(isSniffedTypeCompatible(claimed, sniffed, false)).toBe(claimed === mimeType || alias === mimeType || sameContainer);
+        }));
+    });
+
+    it('should cover every supported MIME type', () => {
+        const samples = [...BINARY_HEADERS.map(sample => sample.header), ...TEXT_FILES.map(sample => sample.content)];
+
+        for (const mimeType of ALL_SUPPORTED) {
+            expect(samples.some(sample => isSniffedTypeCompatible(mimeType, sniffMimeType(sample)!, true))).toBe(true);
+        }
+    });
+
+    it('should only ever answer supported types or null, for any bytes', () => {
+        fc.assert(fc.property(anyBytes(SNIFF_BYTES + 64), content => {
+            const sniffed = sniffMimeType(content);
+            expect(sniffed === null || ALL_SUPPORTED.includes(sniffed)).toBe(true);
+        }));
+    });
+
+    it('should recognise text formats and accept them under their own type', () => {
+        for (const { mimeType, content } of TEXT_FILES) {
+            expect(isSniffedTypeCompatible(mimeType, sniffMimeType(content)!, true)).toBe(true);
+            expect(validateFile(content, 'upload', mimeType).isValid).toBe(true);
+        }
+    });
+
+    it('should treat any printable text as text', () => {
+        fc.assert(fc.property(fc.string({ unit: 'grapheme', minLength: 1 }), text => {
+            const sniffed = sniffMimeType(Buffer.from(text));
+            expect(['text/plain', 'application/json', 'image/svg+xml']).toContain(sniffed);
+            expect(isSniffedTypeCompatible('text/plain', sniffed!, true)).toBe(true);
+        }));
+    });
+
+    it('should recognise JSON documents, and accept truncated ones only when incomplete', () => {
+        fc.assert(fc.property(jsonDocument, fc.nat(), (json, cut) => {
+            expect(sniffMimeType(Buffer.from(json))).toBe('application/json');
+
+            const truncated = Buffer.from(json).subarray(0, cut % Buffer.byteLength(json));
+            const sniffed = sniffMimeType(truncated);
+            if (sniffed !== null && sniffed !== 'application/json') {
+                expect(isSniffedTypeCompatible('application/json', sniffed, false)).toBe(true);
+                expect(isSniffedTypeCompatible('application/json', sniffed, true)).toBe(false);
+            }
+        }));
+    });
+
+    it('should find the svg root element after any prolog', () => {
+        const prologPart = fc.oneof(
+            fc.constant('<?xml version="1.0" encoding="UTF-8" standalone="no"?>'),
+            commentText.map(text => `<!--${text}-->`),
+            fc.constant('<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "http://www.w3.org/Graphics/SVG/1.1/DTD/svg11.dtd">')
+        );
+
+        fc.assert(fc.property(fc.array(fc.tuple(whitespace, prologPart)), whitespace, fc.constantFrom(' ', '>', '/', '\n'), (prolog, space, next) => {
+            const document = `${prolog.map(([ws, part]) => ws + part).join('')}${space}<svg${next}`;
+            expect(sniffMimeType(Buffer.from(document))).toBe('image/svg+xml');
+        }));
+    });
+
+    it('should never take documents with an internal DTD subset, or another root, for SVG', () => {
+        const entities = fc.string({ unit: 'grapheme' }).filter(text => !text.includes('>'));
+
+        fc.assert(fc.property(entities, commentText, (subset, comment) => {
+            const withSubset = `<?xml version="1.0"?><!DOCTYPE svg [${subset}]><svg xmlns="http://www.w3.org/2000/svg">&lol;</svg>`;
+            const otherRoot = `<!--${comment}--><html><svg/></html>`;
+
+            expect(sniffMimeType(Buffer.from(withSubset))).not.toBe('image/svg+xml');
+            expect(sniffMimeType(Buffer.from(otherRoot))).not.toBe('image/svg+xml');
+        }));
+    });
+
+    it('should validate a Blob like the same content in a buffer', async () => {
+        const sample = fc.oneof(
+            fc.tuple(fc.constantFrom(...BINARY_HEADERS), anyBytes(256)).map(([{ header }, rest]) => Buffer.concat([header, rest])),
+            fc.constantFrom(...TEXT_FILES.map(sample => sample.content))
+        );
+
+        await fc.assert(fc.asyncProperty(sample, fc.constantFrom(...ALL_SUPPORTED), async (content, claimed) => {
+            const fromBuffer = validateFile(content, 'upload', claimed);
+            const fromBlob = await validateBlob(new Blob([content]), 'upload', claimed);
+
+            expect(fromBlob).toEqual(fromBuffer);
+            expect(fromBuffer.isValid).toBe(isSniffedTypeCompatible(claimed, sniffMimeType(content)!, true));
+        }));
+    });
+});
@@ -0,0 +1,261 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { getAddress, PublicClient } from 'viem';
+import { getAssetsByOwner, getDerivativeLinks, getIndexedAssets, getIndexedBlock, getIndexedMetadata, getIndexerStatus, syncAssetIndex } from '@/lib/asset-indexer';
+
+const CHAIN_ID = BigInt(1315);
+const COLLECTION = '0xc32A8a0FF3beDDDa58393d022aF433e78739FAbc';
+const ALICE = '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6';
+const BOB = '0x1111111111111111111111111111111111111111';
+const ZERO = '0x0000000000000000000000000000000000000000';
+
+const ipId = (tokenId: number) => `0x${tokenId.toString(16).padStart(40, 'a')}`;
+
+const registration = (tokenId: number, blockNumber: number, chainId = CHAIN_ID) => ({
+    args: {
+        ipId: ipId(tokenId),
+        chainId,
+        tokenContract: COLLECTION,
+        tokenId: BigInt(tokenId),
+        name: `1315: Artwork #${tokenId}`,
+        uri: `ipfs://QmToken${tokenId}`,
+        registrationDate: BigInt(1700000000 + tokenId)
+    },
+    blockNumber: BigInt(blockNumber),
+    logIndex: 1
+});
+
+const transfer = (tokenId: number, from: string, to: string, blockNumber: number) => ({
+    address: COLLECTION.toLowerCase(),
+    args: { from, to, tokenId: BigInt(tokenId) },
+    blockNumber: BigInt(blockNumber),
+    logIndex: 0
+});
+
+const derivative = (childTokenId: number, parents: Array<[number, number]>, blockNumber: number) => ({
+    args: {
+        childIpId: ipId(childTokenId),
+        parentIpIds: parents.map(([parentTokenId]) => ipId(parentTokenId)),
+        licenseTermsIds: parents.map(([, licenseTermsId]) => BigInt(licenseTermsId)),
+        licenseTemplate: '0x2E896b0b2Fdb7457499B56AAaA4AE55BCB4Cd316'
+    },
+    blockNumber: BigInt(blockNumber),
+    logIndex: 2
+});
+
+const metadataSet = (tokenId: number, uri: string, hash: string, blockNumber: number, logIndex = 3) => ({
+    args: { ipId: ipId(tokenId), metadataURI: uri, metadataHash: hash, nftTokenURI: uri, nftMetadataHash: hash },
+    blockNumber: BigInt(blockNumber),
+    logIndex
+});
+
+type Log = ReturnType<typeof registration> | ReturnType<typeof transfer> | ReturnType<typeof derivative> | ReturnType<typeof metadataSet>;
+
+interface ChainLogs {
+    registrations: Log[];
+    transfers: Log[];
+    derivatives?: Log[];
+    ipMetadata?: Log[];
+    nftMetadata?: Log[];
+}
+
+// A chain at the given height whose logs are served by block range, whose ownerOf returns owners,
+// and where the IPAssetRegistry has code from the deployment block
+function mockClient(head: number, logs: ChainLogs, owners: Record<string, string> = {}, deploymentBlock = 0) {
+    const inRange = (entries: Log[], fromBlock: bigint, toBlock: bigint) =>
+        entries.filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock);
+    const byEvent: Record<string, keyof ChainLogs> = { IPRegistered: 'registrations', Transfer: 'transfers', DerivativeRegistered: 'derivatives',
+        MetadataURISet: 'ipMetadata', NFTTokenURISet: 'nftMetadata' };
+
+    return {
+        getBlockNumber: jest.fn().mockResolvedValue(BigInt(head)),
+        getCode: jest.fn(async ({ blockNumber }) => blockNumber >= BigInt(deploymentBlock) ? '0x6080' : undefined),
+        getContractEvents: jest.fn(async ({ eventName, fromBlock, toBlock }) =>
+            inRange(logs[byEvent[eventName]] || [], fromBlock, toBlock)),
+        readContract: jest.fn(async ({ args }) => {
+            const owner = owners[args[0].toString()];
+            if (!owner) {
+                throw new Error('ERC721NonexistentToken');
+            }
+            return owner;
+        })
+    } as unknown as PublicClient & { getContractEvents: jest.Mock; readContract: jest.Mock };
+}
+
+describe('Asset Indexer', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), 'indexer-'));
+        process.env.INDEXER_DB_PATH = path.join(directory, 'assets.db');
+        process.env.INDEXER_BLOCK_RANGE = '100';
+    });
+
+    afterEach(async () => {
+        delete process.env.INDEXER_DB_PATH;
+        delete process.env.INDEXER_BLOCK_RANGE;
+        delete process.env.INDEXER_START_BLOCK;
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should index registered IP assets under the owners of their NFTs', async () => {
+        const client = mockClient(250, {
+            registrations: [registration(1, 10), registration(2, 120), registration(3, 130)],
+            transfers: [transfer(1, ZERO, ALICE, 10), transfer(2, ZERO, ALICE, 120), transfer(3, ZERO, BOB, 130)]
+        });
+
+        const result = await syncAssetIndex(client);
+        const page = getAssetsByOwner(ALICE.toLowerCase(), { limit: 1, offset: 0 });
+
+        expect(result).toEqual({ fromBlock: '0', toBlock: '250', ipAssetsIndexed: 3, transfersIndexed: 3, derivativesIndexed: 0, metadataIndexed: 0 });
+        expect(page.total).toBe(2);
+        expect(page.assets).toEqual([{
+            ipId: getAddress(ipId(2)),
+            owner: getAddress(ALICE),
+            chainId: '1315',
+            nftContract: COLLECTION,
+            tokenId: '2',
+            name: '1315: Artwork #2',
+            metadataURI: 'ipfs://QmToken2',
+            blockNumber: 120,
+            blockTimestamp: 1700000002
+        }]);
+        expect(getAssetsByOwner(ALICE, { limit: 10, offset: 1 }).assets.map(asset => asset.tokenId)).toEqual(['1']);
+        expect(getAssetsByOwner(ALICE).assets.map(asset => asset.tokenId)).toEqual(['2', '1']);
+    });
+
+    it('should resume after the checkpoint and follow later transfers', async () => {
+        const logs = { registrations: [registration(1, 10)], transfers: [transfer(1, ZERO, ALICE, 10)] };
+        await syncAssetIndex(mockClient(150, logs));
+
+        logs.transfers.push(transfer(1, ALICE, BOB, 160));
+        const client = mockClient(320, logs);
+        const result = await syncAssetIndex(client);
+
+        expect(result).toMatchObject({ fromBlock: '151', toBlock: '320' });
+        expect(getIndexedBlock()).toBe('320');
+        expect(client.getContractEvents.mock.calls
+            .filter(([args]) => args.eventName === 'Transfer')
+            .map(([args]) => [args.fromBlock, args.toBlock])).toEqual([
+            [BigInt(151), BigInt(250)],
+            [BigInt(251), BigInt(320)]
+        ]);
+        expect(getAssetsByOwner(ALICE, { limit: 10, offset: 0 }).total).toBe(0);
+        expect(getAssetsByOwner(BOB, { limit: 10, offset: 0 }).assets.map(asset => asset.tokenId)).toEqual(['1']);
+    });
+
+    it('should read the owner of tokens minted before the indexed range', async () => {
+        process.env.INDEXER_START_BLOCK = '1000';
+        const client = mockClient(1050, { registrations: [registration(7, 1020), registration(8, 1030)], transfers: [] }, { 7: ALICE });
+
+        await syncAssetIndex(client);
+
+        expect(client.readContract).toHaveBeenCalledWith(expect.objectContaining({ functionName: 'ownerOf', args: [BigInt(7)], blockNumber: BigInt(1050) }));
+        expect(getAssetsByOwner(ALICE, { limit: 10, offset: 0 }).assets.map(asset => asset.tokenId)).toEqual(['7']);
+    });
+
+    it('should start from the deployment block of the IPAssetRegistry', async () => {
+        // Another registry address, as deployment blocks are remembered per registry
+        process.env.STORY_IP_ASSET_REGISTRY_ADDRESS = '0x2222222222222222222222222222222222222222';
+        try {
+            const client = mockClient(250, { registrations: [registration(1, 140)], transfers: [transfer(1, ZERO, ALICE, 140)] }, {}, 137);
+
+            const result = await syncAssetIndex(client);
+
+            expect(result).toMatchObject({ fromBlock: '137', toBlock: '250', ipAssetsIndexed: 1 });
+        } finally {
+            delete process.env.STORY_IP_ASSET_REGISTRY_ADDRESS;
+        }
+    });
+
+    it('should report syncing until the index reaches the chain head', async () => {
+        const logs = { registrations: [registration(1, 10)], transfers: [transfer(1, ZERO, ALICE, 10)] };
+        expect(getIndexerStatus()).toEqual({ indexedBlock: null, headBlock: null, syncing: true });
+
+        const failing = mockClient(250, logs);
+        failing.getContractEvents.mockImplementation(async ({ eventName, fromBlock }) => {
+            if (fromBlock > BigInt(0)) {
+                throw new Error('RPC unavailable');
+            }
+            return eventName === 'IPRegistered' ? logs.registrations : eventName === 'Transfer' ? logs.transfers : [];
+        });
+        await expect(syncAssetIndex(failing)).rejects.toThrow('RPC unavailable');
+        expect(getIndexerStatus()).toEqual({ indexedBlock: '99', headBlock: '250', syncing: true });
+
+        await syncAssetIndex(mockClient(250, logs));
+        expect(getIndexerStatus()).toEqual({ indexedBlock: '250', headBlock: '250', syncing: false });
+    });
+
+    it('should not follow tokens of other chains', async () => {
+        const client = mockClient(50, { registrations: [registration(1, 10, BigInt(1))], transfers: [] });
+
+        await syncAssetIndex(client);
+
+        expect(client.getContractEvents).not.toHaveBeenCalledWith(expect.objectContaining({ eventName: 'Transfer' }));
+        expect(client.readContract).not.toHaveBeenCalled();
+    });
+
+    it('should list only the assets of this chain', async () => {
+        // Token 1 of the collection here is not the token 1 registered from chain 1
+        const client = mockClient(50, {
+            registrations: [registration(1, 10, BigInt(1)), registration(2, 20)],
+            transfers: [transfer(1, ZERO, ALICE, 5), transfer(2, ZERO, ALICE, 20)]
+        });
+
+        await syncAssetIndex(client);
+
+        expect(getAssetsByOwner(ALICE, { limit: 10, offset: 0 })).toMatchObject({ total: 1, assets: [{ tokenId: '2', chainId: '1315' }] });
+    });
+
+    it('should query the transfers of many contracts in batches', async () => {
+        const contract = (index: number) => `0x${index.toString(16).padStart(40, 'c')}`;
+        const registrations = Array.from({ length: 150 }, (_, index) => {
+            const log = registration(index + 1, 10);
+            return { ...log, args: { ...log.args, tokenContract: contract(index) } };
+        });
+        const client = mockClient(50, { registrations, transfers: [] }, Object.fromEntries(registrations.map((_, index) => [index + 1, ALICE])));
+
+        await syncAssetIndex(client);
+
+        expect(client.getContractEvents.mock.calls
+            .filter(([args]) => args.eventName === 'Transfer')
+            .map(([args]) => args.address.length)).toEqual([100, 50]);
+    });
+
+    it('should index derivatives with the license terms of each parent', async () => {
+        const client = mockClient(100, {
+            registrations: [registration(1, 10), registration(2, 20), registration(3, 30)],
+            transfers: [],
+            derivatives: [derivative(3, [[1, 5], [2, 7]], 30)]
+        });
+
+        await syncAssetIndex(client);
+
+        expect(getDerivativeLinks([ipId(3)], 'parents')).toEqual([
+            { parentIpId: getAddress(ipId(1)), childIpId: getAddress(ipId(3)), licenseTermsId: '5', licenseTemplate: '0x2E896b0b2Fdb7457499B56AAaA4AE55BCB4Cd316', blockNumber: 30 },
+            { parentIpId: getAddress(ipId(2)), childIpId: getAddress(ipId(3)), licenseTermsId: '7', licenseTemplate: '0x2E896b0b2Fdb7457499B56AAaA4AE55BCB4Cd316', blockNumber: 30 }
+        ]);
+        expect(getDerivativeLinks([ipId(2)], 'children').map(link => link.childIpId)).toEqual([getAddress(ipId(3))]);
+        expect(getIndexedAssets([ipId(1), ipId(9)]).map(asset => asset.tokenId)).toEqual(['1']);
+    });
+
+    it('should keep the latest IP and NFT metadata set on an IP asset', async () => {
+        const hash = (n: number) => `0x${n.toString().repeat(64)}`;
+        const client = mockClient(200, {
+            registrations: [registration(1, 10)],
+            transfers: [],
+            ipMetadata: [metadataSet(1, 'ipfs://QmFirst', hash(1), 10), metadataSet(1, 'ipfs://QmSecond', hash(2), 150)],
+            nftMetadata: [metadataSet(1, 'ipfs://QmNft', hash(3), 10, 4)]
+        });
+
+        const result = await syncAssetIndex(client);
+
+        expect(result.metadataIndexed).toBe(3);
+        expect(getIndexedMetadata(getAddress(ipId(1)))).toEqual({
+            ip: { uri: 'ipfs://QmSecond', hash: hash(2), blockNumber: 150 },
+            nft: { uri: 'ipfs://QmNft', hash: hash(3), blockNumber: 10 }
+        });
+        expect(getIndexedMetadata(ipId(2))).toEqual({ ip: null, nft: null });
+    });
+});
@@ -0,0 +1,182 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { getAddress, PublicClient } from 'viem';
+import { syncAssetIndex } from '@/lib/asset-indexer';
+import { decodeSearchCursor, refreshSearchIndex, searchAssets } from '@/lib/asset-search';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn(async () => [{ address: '203.0.113.10', family: 4 }]) }));
+
+const COLLECTION = '0xc32A8a0FF3beDDDa58393d022aF433e78739FAbc';
+const ALICE = '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6';
+const BOB = '0x1111111111111111111111111111111111111111';
+
+const ipId = (tokenId: number) => `0x${tokenId.toString(16).padStart(40, 'b')}`;
+const hash = (tokenId: number, version = 0) => `0x${(tokenId + version * 16).toString(16).padStart(64, '0')}`;
+
+// Token N is registered in block N * 10 with its IP metadata at ipfs://QmIpN, set again 1000 blocks
+// later for each version after the first
+function mockClient(tokenIds: number[], versions: Record<number, number> = {}) {
+    const logs: Record<string, Array<{ blockNumber: bigint }>> = {
+        IPRegistered: tokenIds.map(tokenId => ({
+            args: { ipId: ipId(tokenId), chainId: BigInt(1315), tokenContract: COLLECTION, tokenId: BigInt(tokenId), name: `Token ${tokenId}`, uri: '', registrationDate: BigInt(0) },
+            blockNumber: BigInt(tokenId * 10),
+            logIndex: 1
+        })),
+        MetadataURISet: tokenIds.map(tokenId => ({
+            args: { ipId: ipId(tokenId), metadataURI: `ipfs://QmIp${tokenId}`, metadataHash: hash(tokenId, versions[tokenId]) },
+            blockNumber: BigInt(tokenId * 10 + (versions[tokenId] || 0) * 1000),
+            logIndex: 2
+        }))
+    };
+    return {
+        getBlockNumber: jest.fn().mockResolvedValue(BigInt(1000 + Math.max(0, ...Object.values(versions)) * 1000)),
+        getContractEvents: jest.fn(async ({ eventName, fromBlock, toBlock }) =>
+            (logs[eventName] || []).filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)),
+        readContract: jest.fn().mockResolvedValue(ALICE)
+    } as unknown as PublicClient;
+}
+
+const DOCUMENTS: Record<string, object> = {
+    QmIp1: {
+        title: 'Sunset over the Harbour',
+        description: 'Oil painting of boats',
+        ipType: 'image',
+        mediaType: 'image/png',
+        tags: ['Art', 'painting'],
+        creators: [{ name: 'Alice', address: ALICE, contributionPercent: 100 }],
+        attributes: [{ key: 'Style', value: 'Impressionism' }],
+        app: { id: 'gallery', name: 'Gallery' }
+    },
+    QmIp2: {
+        title: 'Harbour Sounds',
+        description: 'Field recording',
+        ipType: 'audio',
+        mediaType: 'audio/mpeg',
+        tags: ['field-recording'],
+        creators: [{ name: 'Bob', address: BOB, contributionPercent: 100 }],
+        attributes: [{ key: 'duration', value: 180 }]
+    },
+    QmIp3: {
+        title: 'Night Sky',
+        ipType: 'image',
+        mediaType: 'image/jpeg',
+        tags: ['art'],
+        creators: [{ name: 'Alice', address: ALICE, contributionPercent: 50 }, { name: 'Nobody', address: 'not-an-address', contributionPercent: 50 }],
+        app: { id: 'gallery' }
+    }
+};
+
+describe('Asset Search', () => {
+    let directory: string;
+    let fetchSpy: jest.SpyInstance;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), 'search-'));
+        process.env.INDEXER_DB_PATH = path.join(directory, 'assets.db');
+        fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async url => {
+            const document = DOCUMENTS[url.toString().split('/').pop()!];
+            return document ? new Response(JSON.stringify(document)) : new Response('Not found', { status: 404 });
+        });
+    });
+
+    afterEach(async () => {
+        fetchSpy.mockRestore();
+        delete process.env.INDEXER_DB_PATH;
+        delete process.env.SEARCH_INDEX_MAX_ATTEMPTS;
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    const indexTokens = async (tokenIds: number[], versions?: Record<number, number>) => {
+        await syncAssetIndex(mockClient(tokenIds, versions));
+        return refreshSearchIndex();
+    };
+
+    it('should match words of the title, description and tags by prefix', async () => {
+        expect(await indexTokens([1, 2, 3])).toEqual({ indexed: 3, failed: 0 });
+
+        const page = searchAssets({ q: 'harb' }, { limit: 10 });
+
+        expect(page.total).toBe(2);
+        expect(page.results.map(result => result.title)).toEqual(['Harbour Sounds', 'Sunset over the Harbour']);
+        expect(page.results[1]).toMatchObject({
+            ipId: getAddress(ipId(1)),
+            tags: ['art', 'painting'],
+            creators: [getAddress(ALICE)],
+            appId: 'gallery',
+            owner: getAddress(ALICE),
+            nftContract: COLLECTION,
+            tokenId: '1',
+            blockNumber: 10
+        });
+        expect(searchAssets({ q: 'oil "paint' }, { limit: 10 }).results.map(result => result.tokenId)).toEqual(['1']);
+    });
+
+    it('should filter on tags, types, creators, app and attributes, ignoring case', async () => {
+        await indexTokens([1, 2, 3]);
+        const tokenIds = (filters: Parameters<typeof searchAssets>[0]) => searchAssets(filters, { limit: 10 }).results.map(result => result.tokenId);
+
+        expect(tokenIds({ tag: 'ART' })).toEqual(['3', '1']);
+        expect(tokenIds({ ipType: 'Image', mediaType: 'image/png' })).toEqual(['1']);
+        expect(tokenIds({ creator: ALICE.toUpperCase().replace('0X', '0x') })).toEqual(['3', '1']);
+        expect(tokenIds({ appId: 'gallery', q: 'sky' })).toEqual(['3']);
+        expect(tokenIds({ attributes: [{ key: 'style', value: 'impressionism' }] })).toEqual(['1']);
+        expect(tokenIds({ attributes: [{ key: 'duration', value: '180' }] })).toEqual(['2']);
+    });
+
+    it('should count facet values among all matches', async () => {
+        await indexTokens([1, 2, 3]);
+
+        const { facets } = searchAssets({ q: 'harbour' }, { limit: 1 });
+
+        expect(facets.ipType).toEqual([{ value: 'audio', count: 1 }, { value: 'image', count: 1 }]);
+        expect(facets.tags).toEqual([{ value: 'art', count: 1 }, { value: 'field-recording', count: 1 }, { value: 'painting', count: 1 }]);
+        expect(facets.creators).toEqual([{ value: BOB, count: 1 }, { value: getAddress(ALICE), count: 1 }]);
+        expect(facets.appId).toEqual([{ value: 'gallery', count: 1 }]);
+    });
+
+    it('should page through results with the cursor', async () => {
+        await indexTokens([1, 2, 3]);
+
+        const first = searchAssets({}, { limit: 2 });
+        const second = searchAssets({}, { limit: 2, cursor: decodeSearchCursor(first.nextCursor!)! });
+
+        expect(first.results.map(result => result.tokenId)).toEqual(['3', '2']);
+        expect(second.results.map(result => result.tokenId)).toEqual(['1']);
+        expect(second.nextCursor).toBeNull();
+        expect(second.total).toBe(3);
+        expect(decodeSearchCursor('not-a-cursor')).toBeNull();
+    });
+
+    it('should retry documents that cannot be fetched, up to the maximum attempts', async () => {
+        process.env.SEARCH_INDEX_MAX_ATTEMPTS = '2';
+
+        expect(await indexTokens([4])).toEqual({ indexed: 0, failed: 1 });
+        expect(searchAssets({}, { limit: 10 }).pendingDocuments).toBe(1);
+        expect(await refreshSearchIndex()).toEqual({ indexed: 0, failed: 1 });
+        expect(await refreshSearchIndex()).toEqual({ indexed: 0, failed: 0 });
+        expect(searchAssets({}, { limit: 10 })).toMatchObject({ total: 0, pendingDocuments: 0 });
+    });
+
+    it('should not fetch metadata URIs off IPFS', async () => {
+        const client = mockClient([1]);
+        const getContractEvents = (client.getContractEvents as jest.Mock).getMockImplementation()!;
+        (client.getContractEvents as jest.Mock).mockImplementation(async (query) => (await getContractEvents(query)).map((log: { args: object }) =>
+            query.eventName === 'MetadataURISet' ? { ...log, args: { ...log.args, metadataURI: 'http://169.254.169.254/QmIp1' } } : log));
+
+        await syncAssetIndex(client);
+
+        expect(await refreshSearchIndex()).toEqual({ indexed: 0, failed: 1 });
+        expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should fetch a document again when new metadata is set on the IP asset', async () => {
+        await indexTokens([1]);
+        fetchSpy.mockResolvedValue(new Response(JSON.stringify({ ...DOCUMENTS.QmIp1, title: 'Sunrise over the Harbour' })));
+
+        expect(await refreshSearchIndex()).toEqual({ indexed: 0, failed: 0 });
+        expect(await indexTokens([1], { 1: 1 })).toEqual({ indexed: 1, failed: 0 });
+        expect(searchAssets({ q: 'sunrise' }, { limit: 10 }).total).toBe(1);
+        expect(searchAssets({ q: 'sunset' }, { limit: 10 }).total).toBe(0);
+    });
+});
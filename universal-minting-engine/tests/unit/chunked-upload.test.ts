@@ -0,0 +1,184 @@
+import { createHash } from 'crypto';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { computeCid } from '@/lib/cid';
+import {
+    ChunkedUploadError,
+    completeUpload,
+    getCompletedUpload,
+    getUploadStatus,
+    initUpload,
+    putChunk,
+    uploadRequestFiles
+} from '@/lib/chunked-upload';
+import { getStorageProvider, StorageProvider } from '@/lib/storage';
+import { readCidIndex } from '@/lib/upload-cache';
+
+jest.mock('@/lib/storage', () => {
+    const actual = jest.requireActual('@/lib/storage');
+    return { ...actual, getStorageProvider: jest.fn(actual.getStorageProvider) };
+});
+
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+// A PNG signature followed by filler, sent in 8-byte chunks
+const content = Buffer.concat([Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]), Buffer.from('image bytes')]);
+const chunkOf = (index: number) => content.subarray(index * 8, index * 8 + 8);
+
+// Count the files sent to the configured storage provider
+const spyOnProviderUploads = () => {
+    const { getStorageProvider: actualProvider } = jest.requireActual('@/lib/storage');
+    const uploadFile = jest.fn();
+    (getStorageProvider as jest.Mock).mockImplementation(() => {
+        const provider: StorageProvider = actualProvider();
+        uploadFile.mockImplementation(provider.uploadFile);
+        return { ...provider, uploadFile };
+    });
+    return uploadFile;
+};
+
+describe('Chunked Uploads', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), 'uploads-'));
+        process.env.UPLOAD_STAGING_DIR = path.join(directory, 'staging');
+        process.env.UPLOAD_CHUNK_SIZE = '8';
+        process.env.STORAGE_PROVIDER = 'filesystem';
+        process.env.STORAGE_FS_DIR = path.join(directory, 'storage');
+        process.env.PIN_REGISTRY_PATH = path.join(directory, 'pins.json');
+        process.env.UPLOAD_CID_INDEX = path.join(directory, 'cid-index.json');
+    });
+
+    afterEach(async () => {
+        delete process.env.UPLOAD_STAGING_DIR;
+        delete process.env.UPLOAD_CHUNK_SIZE;
+        delete process.env.STORAGE_PROVIDER;
+        delete process.env.STORAGE_FS_DIR;
+        delete process.env.PIN_REGISTRY_PATH;
+        delete process.env.UPLOAD_CID_INDEX;
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    const startUpload = () => initUpload({ filename: 'art.png', contentType: 'image/png', totalSize: content.length });
+
+    it('should split the declared size into chunks', async () => {
+        const session = await startUpload();
+
+        expect(session.chunkSize).toBe(8);
+        expect(session.totalChunks).toBe(3);
+        expect(session.purpose).toBe('media');
+    });
+
+    it('should reject files over their category limit', async () => {
+        await expect(initUpload({ filename: 'huge.png', contentType: 'image/png', totalSize: 11 * 1024 * 1024 }))
+            .rejects.toMatchObject({ reason: 'invalid' });
+    });
+
+    it('should report received and missing chunks to resume from', async () => {
+        const { uploadId } = await startUpload();
+        await putChunk(uploadId, 2, chunkOf(2), sha256(chunkOf(2)));
+
+        const status = await getUploadStatus(uploadId);
+
+        expect(status.receivedChunks).toEqual([{ index: 2, sha256: sha256(chunkOf(2)) }]);
+        expect(status.missingChunks).toEqual([0, 1]);
+        expect(status.completed).toBe(false);
+    });
+
+    it('should reject chunks whose SHA-256 does not match', async () => {
+        const { uploadId } = await startUpload();
+
+        await expect(putChunk(uploadId, 0, chunkOf(0), sha256(chunkOf(1))))
+            .rejects.toMatchObject({ reason: 'hash_mismatch' });
+        expect((await getUploadStatus(uploadId)).missingChunks).toEqual([0, 1, 2]);
+    });
+
+    it('should reject chunks of the wrong size', async () => {
+        const { uploadId } = await startUpload();
+
+        await expect(putChunk(uploadId, 0, chunkOf(2), sha256(chunkOf(2))))
+            .rejects.toMatchObject({ reason: 'invalid' });
+    });
+
+    it('should refuse to complete with chunks missing', async () => {
+        const { uploadId } = await startUpload();
+        await putChunk(uploadId, 0, chunkOf(0), sha256(chunkOf(0)));
+
+        await expect(completeUpload(uploadId)).rejects.toMatchObject({
+            reason: 'incomplete',
+            details: { missingChunks: [1, 2] }
+        });
+    });
+
+    it('should store the assembled file under its CID and resolve it by upload ID', async () => {
+        const { uploadId } = await startUpload();
+        for (const index of [1, 0, 2, 1]) {
+            await putChunk(uploadId, index, chunkOf(index), sha256(chunkOf(index)));
+        }
+
+        const uploadedFile = await completeUpload(uploadId);
+
+        expect(uploadedFile.ipfsHash).toBe(computeCid(content));
+        expect(uploadedFile.filename).toBe('art.png');
+        expect(await completeUpload(uploadId)).toEqual(uploadedFile);
+        expect(await getCompletedUpload(uploadId)).toEqual(uploadedFile);
+        expect(await uploadRequestFiles([{ uploadId, purpose: 'attachment' }]))
+            .toEqual([{ ...uploadedFile, purpose: 'attachment' }]);
+    });
+
+    it('should assemble and upload once when completed concurrently', async () => {
+        const uploadSpy = spyOnProviderUploads();
+        const { uploadId } = await startUpload();
+        for (const index of [0, 1, 2]) {
+            await putChunk(uploadId, index, chunkOf(index), sha256(chunkOf(index)));
+        }
+
+        const completion = completeUpload(uploadId);
+        await expect(putChunk(uploadId, 0, chunkOf(0), sha256(chunkOf(0)))).rejects.toMatchObject({ reason: 'invalid' });
+        const [first, second] = await Promise.all([completion, completeUpload(uploadId)]);
+
+        expect(second).toEqual(first);
+        expect(uploadSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should record the assembled file for deduplication and reuse an earlier upload', async () => {
+        const upload = async () => {
+            const { uploadId } = await startUpload();
+            for (const index of [0, 1, 2]) {
+                await putChunk(uploadId, index, chunkOf(index), sha256(chunkOf(index)));
+            }
+            return completeUpload(uploadId);
+        };
+
+        const first = await upload();
+        const uploadSpy = spyOnProviderUploads();
+        const second = await upload();
+
+        expect(first.deduplicated).toBe(false);
+        expect((await readCidIndex())[sha256(content)]).toMatchObject({ cid: first.ipfsHash });
+        expect(second).toMatchObject({ ipfsHash: first.ipfsHash, deduplicated: true });
+        expect(uploadSpy).not.toHaveBeenCalled();
+    });
+
+    it('should sanitize an SVG declared as plain text', async () => {
+        const svg = Buffer.from('<svg><script>alert(1)</script></svg>');
+        const { uploadId, totalChunks } = await initUpload({ filename: 'notes.txt', contentType: 'text/plain', totalSize: svg.length });
+        for (let index = 0; index < totalChunks; index++) {
+            const chunk = svg.subarray(index * 8, index * 8 + 8);
+            await putChunk(uploadId, index, chunk, sha256(chunk));
+        }
+
+        const uploadedFile = await completeUpload(uploadId);
+        const stored = await readFile(path.join(directory, 'storage', uploadedFile.ipfsHash), 'utf-8');
+
+        expect(uploadedFile.sanitized).toEqual(expect.arrayContaining([expect.stringContaining('script')]));
+        expect(stored).not.toContain('script');
+    });
+
+    it('should treat unknown upload IDs as not found', async () => {
+        await expect(getUploadStatus('../../etc')).rejects.toBeInstanceOf(ChunkedUploadError);
+        await expect(getCompletedUpload('00000000-0000-4000-8000-000000000000')).rejects.toMatchObject({ reason: 'not_found' });
+    });
+});
@@ -0,0 +1,76 @@
+import { Readable } from 'stream';
+import { CidMismatchError, computeCid, computeCids, computeStreamCids, extractCid } from '@/lib/cid';
+
+describe('CID Computation', () => {
+    describe('computeCid', () => {
+        it('should match the CIDv0 that ipfs add assigns', () => {
+            expect(computeCid('')).toBe('QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH');
+            expect(computeCid('hello world')).toBe('Qmf412jQZiuVUtdgnB36FXFX7xg5V6KEbSJ4dpQuhkLyfD');
+            expect(computeCid(Buffer.from('hello world\n'))).toBe('QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o');
+        });
+
+        it('should chunk content larger than 256 KiB into a DAG', () => {
+            const content = Buffer.alloc(262144 * 2 + 1, 7);
+
+            expect(computeCid(content)).not.toBe(computeCid(content.subarray(0, 262144)));
+            expect(computeCid(content)).toBe(computeCid(Buffer.from(content)));
+        });
+
+        it('should match the CIDv1 that ipfs add --cid-version=1 assigns', () => {
+            expect(computeCid('', 1)).toBe('bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku');
+            expect(computeCid('hello world', 1)).toBe('bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e');
+        });
+
+        it('should link chunks of a CIDv1 DAG under a dag-pb root', () => {
+            const content = Buffer.alloc(262144 + 1, 7);
+
+            expect(computeCid(content, 1)).toMatch(/^bafybei[a-z2-7]+$/);
+        });
+    });
+
+    describe('computeCids', () => {
+        it('should compute both versions', () => {
+            expect(computeCids('hello world')).toEqual({
+                v0: 'Qmf412jQZiuVUtdgnB36FXFX7xg5V6KEbSJ4dpQuhkLyfD',
+                v1: 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e'
+            });
+        });
+    });
+
+    describe('computeStreamCids', () => {
+        it('should match computeCids however the stream is split', async () => {
+            const content = Buffer.alloc(262144 * 2 + 100, 3);
+            const pieces = [content.subarray(0, 1000), content.subarray(1000, 300000), content.subarray(300000)];
+
+            expect(await computeStreamCids(Readable.from(pieces))).toEqual(computeCids(content));
+            expect(await computeStreamCids(Readable.from([]))).toEqual(computeCids(''));
+        });
+    });
+
+    describe('extractCid', () => {
+        const cid = 'QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH';
+
+        it('should read the CID from ipfs:// URIs and gateway URLs', () => {
+            expect(extractCid(`ipfs://${cid}`)).toBe(cid);
+            expect(extractCid(`ipfs://ipfs/${cid}`)).toBe(cid);
+            expect(extractCid(`https://gateway.pinata.cloud/ipfs/${cid}`)).toBe(cid);
+            expect(extractCid(`https://ipfs.io/ipfs/${cid}/metadata.json`)).toBe(cid);
+        });
+
+        it('should return null for URIs that do not point at IPFS', () => {
+            expect(extractCid('https://example.com/metadata.json')).toBeNull();
+            expect(extractCid(`https://example.com/${cid}`)).toBeNull();
+            expect(extractCid('')).toBeNull();
+        });
+    });
+
+    describe('CidMismatchError', () => {
+        it('should name the expected and returned CIDs', () => {
+            const error = new CidMismatchError('nft.png', computeCids('image'), 'QmOther');
+
+            expect(error.name).toBe('CidMismatchError');
+            expect(error.message).toContain('CID mismatch for nft.png');
+            expect(error.message).toContain('QmOther');
+        });
+    });
+});
@@ -1,4 +1,4 @@
-import { getNetworkConfig, getPinataConfig, getApiConfig } from '@/lib/config';
+import { getNetworkConfig, getPinataConfig, getApiConfig, getIPFSConfig } from '@/lib/config';
 
 describe('Configuration', () => {
     describe('getNetworkConfig', () => {
@@ -26,4 +26,29 @@ describe('Configuration', () => {
             expect(config.rateLimitWindowMs).toBe(900000);
         });
     });
-});
\ No newline at end of file
+
+    describe('getIPFSConfig', () => {
+        afterEach(() => {
+            delete process.env.IPFS_GATEWAY_URL;
+            delete process.env.PINATA_GATEWAY_URL;
+            delete process.env.IPFS_URI_FORMAT;
+        });
+
+        it('should default to the Pinata gateway and gateway URIs', () => {
+            expect(getIPFSConfig()).toEqual({ gatewayUrl: 'https://gateway.pinata.cloud', uriFormat: 'gateway', allowPrivateGateway: false });
+        });
+
+        it('should prefer IPFS_GATEWAY_URL over PINATA_GATEWAY_URL', () => {
+            process.env.PINATA_GATEWAY_URL = 'https://example.mypinata.cloud';
+            expect(getIPFSConfig().gatewayUrl).toBe('https://example.mypinata.cloud');
+
+            process.env.IPFS_GATEWAY_URL = 'https://ipfs.example.com/';
+            expect(getIPFSConfig().gatewayUrl).toBe('https://ipfs.example.com');
+        });
+
+        it('should reject unknown URI formats', () => {
+            process.env.IPFS_URI_FORMAT = 'ar';
+            expect(() => getIPFSConfig()).toThrow('Invalid IPFS URI format: ar');
+        });
+    });
+});
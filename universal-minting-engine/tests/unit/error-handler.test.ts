@@ -7,12 +7,15 @@ import {
     handleStoryClientError,
     handleFileUploadError,
     handleTransactionError,
+    handleSimulationError,
     handleInternalError,
     getRetryGuidance,
     logError,
     logSuccess,
     ErrorCode
 } from '../../src/lib/error-handler';
+import { SimulationRevertedError } from '../../src/lib/simulation';
+import { CidMismatchError, computeCids } from '../../src/lib/cid';
 
 describe('Error Handler', () => {
     describe('createErrorResponse', () => {
@@ -103,12 +106,38 @@ describe('Error Handler', () => {
             expect(response.status).toBe(503);
         });
 
+        it('should report CID mismatches from uploads as CID_MISMATCH', async () => {
+            const expected = computeCids('image');
+            const response = handleFileUploadError(new CidMismatchError('nft.png', expected, 'QmOther'), '/api/test', 'nft.png');
+            const body = await response.json();
+
+            expect(response.status).toBe(502);
+            expect(body.error.code).toBe('CID_MISMATCH');
+            expect(body.error.retryable).toBe(false);
+            expect(body.error.details.expectedCid).toEqual(expected);
+            expect(body.error.details.actualCid).toBe('QmOther');
+        });
+
         it('should handle transaction errors', () => {
             const error = new Error('Transaction build failed');
             const response = handleTransactionError(error, '/api/test', 'build transaction');
             expect(response.status).toBe(500);
         });
 
+        it('should handle simulation reverts with the decoded error', async () => {
+            const error = new SimulationRevertedError(1, '0x04fbd8a2e56dd85CFD5500A4A4DfA955B9f1dE6f', {
+                errorName: 'LicensingModule__LicenseTermsNotFound',
+                args: { licenseTermsId: '99' }
+            });
+            const response = handleSimulationError(error, '/api/test');
+            const body = await response.json();
+
+            expect(response.status).toBe(400);
+            expect(body.error.code).toBe('SIMULATION_REVERTED');
+            expect(body.error.details.errorName).toBe('LicensingModule__LicenseTermsNotFound');
+            expect(body.error.details.args).toEqual({ licenseTermsId: '99' });
+        });
+
         it('should handle internal errors', () => {
             const error = new Error('Unexpected error');
             const response = handleInternalError(error, '/api/test');
@@ -218,6 +247,9 @@ describe('Error Handler', () => {
 
             const transactionError = createErrorResponse(ErrorCode.TRANSACTION_ERROR);
             expect(transactionError.statusCode).toBe(500);
+
+            const unauthorizedError = createErrorResponse(ErrorCode.UNAUTHORIZED);
+            expect(unauthorizedError.statusCode).toBe(401);
         });
 
         it('should have correct retryable flags', () => {
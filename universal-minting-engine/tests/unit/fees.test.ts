@@ -0,0 +1,108 @@
+import { PublicClient } from 'viem';
+import { addTransactionParams, getFeeSuggestions } from '@/lib/fees';
+import { PreparedTransactionStep } from '@/types';
+
+const userAddress = '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6';
+const gwei = (value: number) => BigInt(value) * BigInt(1e9);
+
+const feeHistory = {
+    oldestBlock: BigInt(100),
+    gasUsedRatio: [0.5, 0.5, 0.5],
+    // The last entry is the next block's base fee
+    baseFeePerGas: [gwei(8), gwei(9), gwei(10), gwei(10)],
+    reward: [
+        [gwei(1), gwei(2), gwei(5)],
+        [gwei(1), gwei(3), gwei(6)],
+        [gwei(2), gwei(2), gwei(9)]
+    ]
+};
+
+describe('Fee Suggestions', () => {
+    const mockGetFeeHistory = jest.fn();
+    const mockGetTransactionCount = jest.fn();
+    const publicClient = {
+        getFeeHistory: mockGetFeeHistory,
+        getTransactionCount: mockGetTransactionCount
+    } as unknown as PublicClient;
+
+    beforeEach(() => {
+        mockGetFeeHistory.mockReset();
+        mockGetTransactionCount.mockReset();
+        jest.spyOn(console, 'warn').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('getFeeSuggestions', () => {
+        it('should derive tiers from fee history percentiles and the next base fee', async () => {
+            mockGetFeeHistory.mockResolvedValue(feeHistory);
+
+            const fees = await getFeeSuggestions(publicClient);
+
+            expect(mockGetFeeHistory).toHaveBeenCalledWith({
+                blockCount: 10,
+                blockTag: 'latest',
+                rewardPercentiles: [10, 50, 90]
+            });
+            expect(fees.slow).toEqual({
+                maxFeePerGas: (gwei(10) * BigInt(125) / BigInt(100) + gwei(1)).toString(),
+                maxPriorityFeePerGas: gwei(1).toString()
+            });
+            expect(fees.normal).toEqual({
+                maxFeePerGas: (gwei(15) + gwei(2)).toString(),
+                maxPriorityFeePerGas: gwei(2).toString()
+            });
+            expect(fees.fast).toEqual({
+                maxFeePerGas: (gwei(20) + gwei(6)).toString(),
+                maxPriorityFeePerGas: gwei(6).toString()
+            });
+        });
+
+        it('should suggest no priority fee when blocks report no rewards', async () => {
+            mockGetFeeHistory.mockResolvedValue({ ...feeHistory, reward: undefined });
+
+            const fees = await getFeeSuggestions(publicClient);
+
+            expect(fees.normal.maxPriorityFeePerGas).toBe('0');
+        });
+    });
+
+    describe('addTransactionParams', () => {
+        const steps: PreparedTransactionStep[] = [
+            { step: 1, description: 'Approve', to: '0x1514000000000000000000000000000000000000', data: '0x', value: '0' },
+            { step: 2, description: 'Mint', to: '0x04fbd8a2e56dd85CFD5500A4A4DfA955B9f1dE6f', data: '0x', value: '0' }
+        ];
+
+        it('should add the chain ID, sequential nonces and normal tier fees', async () => {
+            mockGetFeeHistory.mockResolvedValue(feeHistory);
+            mockGetTransactionCount.mockResolvedValue(7);
+
+            const prepared = await addTransactionParams(publicClient, userAddress, steps);
+
+            expect(mockGetTransactionCount).toHaveBeenCalledWith({
+                address: '0x742d35Cc6634C0532925A3B8D4C9dB96C4B4d8B6',
+                blockTag: 'pending'
+            });
+            expect(prepared.map(step => step.nonce)).toEqual([7, 8]);
+            expect(prepared[0].chainId).toBe(1315);
+            expect(prepared[0].maxFeePerGas).toBe((gwei(15) + gwei(2)).toString());
+            expect(prepared[0].maxPriorityFeePerGas).toBe(gwei(2).toString());
+            expect(Object.keys(prepared[1].feeTiers!)).toEqual(['slow', 'normal', 'fast']);
+            expect(prepared[1].description).toBe('Mint');
+        });
+
+        it('should leave out fees and nonces it could not look up', async () => {
+            mockGetFeeHistory.mockRejectedValue(new Error('eth_feeHistory not supported'));
+            mockGetTransactionCount.mockRejectedValue(new Error('RPC unavailable'));
+
+            const [prepared] = await addTransactionParams(publicClient, userAddress, steps);
+
+            expect(prepared.chainId).toBe(1315);
+            expect(prepared).not.toHaveProperty('nonce');
+            expect(prepared).not.toHaveProperty('maxFeePerGas');
+            expect(prepared).not.toHaveProperty('feeTiers');
+        });
+    });
+});
@@ -0,0 +1,208 @@
+import { createHash } from 'crypto';
+import { encodeAbiParameters, pad, PublicClient, stringToHex, zeroAddress, zeroHash } from 'viem';
+import { getIndexedAssets, getIndexedMetadata } from '@/lib/asset-indexer';
+import { getIpAssetDetails } from '@/lib/ip-details';
+import { toPILTerms } from '@/lib/license-terms';
+import { generateMetadataHash } from '@/lib/metadata-builders';
+import { IPMetadata } from '@/types';
+
+jest.mock('@/lib/asset-indexer', () => ({
+    getDerivativeLinks: jest.fn((_ipIds: string[], direction: 'parents' | 'children') => direction === 'children' ? [{}, {}] : [{}]),
+    getIndexedAssets: jest.fn(),
+    getIndexedBlock: jest.fn(() => '5000'),
+    getIndexedMetadata: jest.fn()
+}));
+jest.mock('dns/promises', () => ({ lookup: jest.fn(async () => [{ address: '203.0.113.10', family: 4 }]) }));
+
+const IP_ID = '0x9dC2FF73EcaD2eDF89A4c2e95C5c7adaf7018f1a';
+const COLLECTION = '0xc32A8a0FF3beDDDa58393d022aF433e78739FAbc';
+const OWNER = '0x742d35Cc6634C0532925a3B8D4C9dB96C4B4d8B6';
+const VAULT = '0x1111111111111111111111111111111111111111';
+const PIL_TEMPLATE = '0x2E896b0b2Fdb7457499B56AAaA4AE55BCB4Cd316';
+const OTHER_TEMPLATE = '0x2222222222222222222222222222222222222222';
+const CORE_METADATA_MODULE = '0x6E81a25C99C6e8430aeC7353325EB138aFE5DC16';
+
+const IP_METADATA: IPMetadata = { title: 'Artwork', description: 'An artwork', ipType: 'image', relationships: [], createdAt: '1700000000' };
+const IP_METADATA_BODY = JSON.stringify(IP_METADATA);
+const NFT_METADATA_BODY = JSON.stringify({ name: 'Artwork NFT', image: 'ipfs://QmImage' });
+const sha256 = (content: string) => `0x${createHash('sha256').update(content).digest('hex')}`;
+
+const pilTerms = toPILTerms({ commercialUse: true, commercialRevShare: 10, defaultMintingFee: '100' });
+
+const IP_METADATA_HASH = `0x${generateMetadataHash(IP_METADATA)}`;
+const NFT_METADATA_HASH = sha256('{"name":"Someone else\'s NFT"}');
+const encodeString = (value: string) => encodeAbiParameters([{ type: 'string' }], [value]);
+
+// The IP account storage of the CoreMetadataModule namespace, by key
+const storage: Record<string, string> = {
+    METADATA_URI: encodeString('ipfs://QmIp'),
+    METADATA_HASH: IP_METADATA_HASH,
+    NFT_TOKEN_URI: encodeString('ipfs://QmNft'),
+    NFT_METADATA_HASH
+};
+const readStorage = ([namespaces, keys]: [string[], string[]]) => keys.map((key, index) => {
+    if (namespaces[index] !== pad(CORE_METADATA_MODULE)) {
+        throw new Error(`Unexpected namespace ${namespaces[index]}`);
+    }
+    return Object.entries(storage).find(([name]) => stringToHex(name, { size: 32 }) === key)?.[1];
+});
+
+function mockClient({ registered = true } = {}) {
+    const readContract = jest.fn(async ({ functionName, args }) => {
+        switch (functionName) {
+            case 'isRegistered':
+                return registered;
+            case 'token':
+                return [BigInt(1315), COLLECTION, BigInt(42)];
+            case 'ownerOf':
+                return OWNER;
+            case 'getAttachedLicenseTermsCount':
+                return BigInt(2);
+            case 'getAttachedLicenseTerms':
+                return args[1] === BigInt(0) ? [PIL_TEMPLATE, BigInt(7)] : [OTHER_TEMPLATE, BigInt(3)];
+            case 'getLicenseTerms':
+                return pilTerms;
+            case 'ipRoyaltyVaults':
+                return VAULT;
+            case 'isIpTagged':
+                return false;
+            case 'getBytesBatch':
+                return readStorage(args).map(value => value ?? '0x');
+            case 'getBytes32Batch':
+                return readStorage(args).map(value => value ?? zeroHash);
+            default:
+                throw new Error(`Unexpected call to ${functionName}`);
+        }
+    });
+    return { readContract } as unknown as PublicClient & { readContract: jest.Mock };
+}
+
+describe('IP Asset Details', () => {
+    let fetchSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (getIndexedAssets as jest.Mock).mockReturnValue([{
+            ipId: IP_ID, owner: null, chainId: '1315', nftContract: COLLECTION, tokenId: '42',
+            name: '1315: Artwork #42', metadataURI: 'ipfs://QmNft', blockNumber: 120, blockTimestamp: 1700000042
+        }]);
+        // The index has not caught up with the NFT metadata set since
+        (getIndexedMetadata as jest.Mock).mockReturnValue({
+            ip: { uri: 'ipfs://QmIp', hash: IP_METADATA_HASH, blockNumber: 120 },
+            nft: null
+        });
+        fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async url =>
+            new Response(url.toString().endsWith('QmIp') ? IP_METADATA_BODY : NFT_METADATA_BODY));
+    });
+
+    afterEach(() => {
+        fetchSpy.mockRestore();
+    });
+
+    it('should combine on-chain state with the index and decode PIL terms', async () => {
+        const details = await getIpAssetDetails(mockClient(), IP_ID.toLowerCase());
+
+        expect(details).toMatchObject({
+            ipId: IP_ID,
+            owner: OWNER,
+            chainId: '1315',
+            nftContract: COLLECTION,
+            tokenId: '42',
+            name: '1315: Artwork #42',
+            registration: { blockNumber: 120, timestamp: 1700000042 },
+            royaltyVault: VAULT,
+            dispute: { tagged: false },
+            parentsCount: 1,
+            childrenCount: 2,
+            indexedBlock: '5000'
+        });
+        expect(details!.licenseTerms).toEqual([
+            {
+                licenseTemplate: PIL_TEMPLATE,
+                licenseTermsId: '7',
+                terms: expect.objectContaining({ commercialUse: true, commercialRevShare: 10, defaultMintingFee: '100' })
+            },
+            { licenseTemplate: OTHER_TEMPLATE, licenseTermsId: '3', terms: null }
+        ]);
+    });
+
+    it('should recompute the metadata hashes and report their integrity', async () => {
+        const details = await getIpAssetDetails(mockClient(), IP_ID);
+
+        expect(details!.ipMetadata).toMatchObject({ integrity: 'ok', metadata: IP_METADATA });
+        expect(details!.nftMetadata).toMatchObject({ integrity: 'mismatch', computedHash: sha256(NFT_METADATA_BODY) });
+        expect(fetchSpy).toHaveBeenCalledWith(expect.stringContaining('/ipfs/QmIp'), expect.anything());
+    });
+
+    it('should read the metadata from the IP account rather than the index', async () => {
+        const details = await getIpAssetDetails(mockClient(), IP_ID);
+
+        expect(details!.nftMetadata).toMatchObject({ uri: 'ipfs://QmNft', onChainHash: NFT_METADATA_HASH });
+        expect(getIndexedMetadata).not.toHaveBeenCalled();
+    });
+
+    it('should leave out metadata that was never set', async () => {
+        const client = mockClient();
+        const readContract = client.readContract.getMockImplementation()!;
+        client.readContract.mockImplementation(async (call) => call.functionName === 'getBytesBatch'
+            ? [storage.METADATA_URI, '0x']
+            : readContract(call));
+
+        const details = await getIpAssetDetails(client, IP_ID);
+
+        expect(details!.ipMetadata).toMatchObject({ uri: 'ipfs://QmIp', integrity: 'ok' });
+        expect(details!.nftMetadata).toBeNull();
+    });
+
+    it('should fall back to the index when the IP account storage cannot be read', async () => {
+        const client = mockClient();
+        const readContract = client.readContract.getMockImplementation()!;
+        client.readContract.mockImplementation(async (call) => call.functionName === 'getBytes32Batch'
+            ? Promise.reject(new Error('execution reverted'))
+            : readContract(call));
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => { });
+
+        const details = await getIpAssetDetails(client, IP_ID);
+
+        expect(details!.ipMetadata).toMatchObject({ uri: 'ipfs://QmIp', integrity: 'ok' });
+        expect(details!.nftMetadata).toBeNull();
+        warn.mockRestore();
+    });
+
+    it('should report unreachable metadata as unavailable', async () => {
+        fetchSpy.mockRejectedValue(new Error('gateway timeout'));
+
+        const details = await getIpAssetDetails(mockClient(), IP_ID);
+
+        expect(details!.ipMetadata).toMatchObject({ integrity: 'unavailable', computedHash: null, error: 'Failed to fetch metadata: gateway timeout' });
+    });
+
+    it('should not return a body that is not a JSON object as metadata', async () => {
+        fetchSpy.mockImplementation(async () => new Response('<html>not metadata</html>'));
+
+        const details = await getIpAssetDetails(mockClient(), IP_ID);
+
+        expect(details!.ipMetadata).toMatchObject({ integrity: 'mismatch', metadata: null, computedHash: sha256('<html>not metadata</html>') });
+    });
+
+    it('should accept an IP ID whatever its checksum', async () => {
+        const mixedCase = IP_ID.replace('9dC2', '9Dc2');
+
+        expect((await getIpAssetDetails(mockClient(), mixedCase))!.ipId).toBe(IP_ID);
+    });
+
+    it('should return null for an address that is not a registered IP asset', async () => {
+        const client = mockClient({ registered: false });
+
+        expect(await getIpAssetDetails(client, IP_ID)).toBeNull();
+        expect(client.readContract).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave out a royalty vault that has not been deployed', async () => {
+        const client = mockClient();
+        const readContract = client.readContract.getMockImplementation()!;
+        client.readContract.mockImplementation(async (call) => call.functionName === 'ipRoyaltyVaults' ? zeroAddress : readContract(call));
+
+        expect((await getIpAssetDetails(client, IP_ID))!.royaltyVault).toBeNull();
+    });
+});
@@ -4,12 +4,28 @@ import {
     getFileCategory,
     validateFile,
     validateFiles,
+    validateBlob,
     createContentHash,
+    createBlobContentHash,
     createMetadataHash,
+    uploadFileToIPFS,
+    uploadJSONToIPFS,
+    uploadBlobToIPFS,
+    getIPFSUrl,
+    getOnChainURI,
+    resolveIPFSUri,
     FileUpload,
     SUPPORTED_MIME_TYPES,
     FILE_SIZE_LIMITS
 } from '../../src/lib/ipfs';
+import { CidMismatchError, computeCid } from '../../src/lib/cid';
+import { getStorageProvider } from '../../src/lib/storage';
+
+jest.mock('../../src/lib/storage');
+jest.mock('../../src/lib/pins');
+
+const mockUploadFile = jest.fn();
+(getStorageProvider as jest.Mock).mockReturnValue({ name: 'pinata', uploadFile: mockUploadFile });
 
 describe('IPFS Service', () => {
     describe('detectMimeTypeFromExtension', () => {
@@ -37,6 +53,13 @@ describe('IPFS Service', () => {
             expect(detectMimeTypeFromBuffer(pngBuffer)).toBe('image/png');
         });
 
+        it('should detect audio and video containers', () => {
+            expect(detectMimeTypeFromBuffer(Buffer.from('RIFF\x24\x08\x00\x00WAVEfmt ', 'latin1'))).toBe('audio/wav');
+            expect(detectMimeTypeFromBuffer(Buffer.from('RIFF\x24\x08\x00\x00AVI LIST', 'latin1'))).toBe('video/x-msvideo');
+            expect(detectMimeTypeFromBuffer(Buffer.from('ID3\x04\x00\x00\x00\x00\x00\x00', 'latin1'))).toBe('audio/mpeg');
+            expect(detectMimeTypeFromBuffer(Buffer.from('\x00\x00\x00\x14ftypqt  ', 'latin1'))).toBe('video/quicktime');
+        });
+
         it('should return null for unknown file types', () => {
             const unknownBuffer = Buffer.from([0x00, 0x00, 0x00, 0x00]);
             expect(detectMimeTypeFromBuffer(unknownBuffer)).toBeNull();
@@ -86,6 +109,97 @@ describe('IPFS Service', () => {
             expect(result.isValid).toBe(false);
             expect(result.error).toContain('MIME type mismatch');
         });
+
+        it('should reject text uploaded as a binary type', () => {
+            const result = validateFile(Buffer.from('<html><script>alert(1)</script></html>'), 'art.png', 'image/png');
+
+            expect(result.isValid).toBe(false);
+            expect(result.error).toBe('MIME type mismatch: provided image/png, detected text/plain');
+        });
+
+        it('should accept text formats under their own type, and JSON only when it parses', () => {
+            expect(validateFile(Buffer.from('a,b\n1,2\n'), 'data.csv', 'text/csv').detectedMimeType).toBe('text/csv');
+            expect(validateFile(Buffer.from('{"name":"NFT"}'), 'data.json', 'application/json').isValid).toBe(true);
+            expect(validateFile(Buffer.from('{"name":'), 'data.json', 'application/json').isValid).toBe(false);
+        });
+
+        it('should only take documents with an svg root for SVG', () => {
+            const svg = Buffer.from('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg"/>');
+            const entities = Buffer.from('<!DOCTYPE svg [<!ENTITY a "aaaa">]><svg>&a;</svg>');
+
+            expect(validateFile(svg, 'art.svg', 'image/svg+xml').isValid).toBe(true);
+            expect(validateFile(entities, 'art.svg', 'image/svg+xml').error).toContain('MIME type mismatch');
+        });
+    });
+
+    describe('validateBlob', () => {
+        it('should validate a Blob from its header and size', async () => {
+            const png = new Blob([Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])]);
+
+            await expect(validateBlob(png, 'image.png', 'image/png')).resolves.toEqual({
+                isValid: true,
+                detectedMimeType: 'image/png',
+                fileSize: 8
+            });
+        });
+
+        it('should detect MIME type mismatch and size limits without reading the whole Blob', async () => {
+            const png = new Blob([Buffer.from([0x89, 0x50, 0x4E, 0x47]), Buffer.alloc(FILE_SIZE_LIMITS.image)]);
+
+            const mismatch = await validateBlob(png.slice(0, 8), 'image.jpg', 'image/jpeg');
+            expect(mismatch.error).toContain('MIME type mismatch');
+
+            const tooLarge = await validateBlob(png, 'image.png', 'image/png');
+            expect(tooLarge.isValid).toBe(false);
+            expect(tooLarge.error).toContain('exceeds limit');
+        });
+    });
+
+    describe('SVG sanitization', () => {
+        const unsafe = '<svg xmlns="http://www.w3.org/2000/svg" onload="steal()"><script>alert(1)</script><rect/></svg>';
+        const sanitized = '<svg xmlns="http://www.w3.org/2000/svg"><rect/></svg>';
+
+        afterEach(() => {
+            delete process.env.SVG_POLICY;
+        });
+
+        it('should return the sanitized SVG and what was removed', async () => {
+            const result = validateFile(Buffer.from(unsafe), 'art.svg', 'image/svg+xml');
+
+            expect(result.isValid).toBe(true);
+            expect(result.sanitizedContent?.toString()).toBe(sanitized);
+            expect(result.sanitized).toEqual(['onload attribute on <svg>', '<script> element']);
+            await expect(validateBlob(new Blob([unsafe]), 'art.svg', 'image/svg+xml')).resolves.toEqual(result);
+        });
+
+        it('should upload the sanitized data of inline files', () => {
+            const { valid } = validateFiles([{ data: Buffer.from(unsafe).toString('base64'), filename: 'art.svg', contentType: 'image/svg+xml', purpose: 'media' }]);
+
+            expect(Buffer.from(valid[0].data, 'base64').toString()).toBe(sanitized);
+            expect(valid[0].sanitized).toHaveLength(2);
+        });
+
+        it('should leave safe SVGs alone', () => {
+            const result = validateFile(Buffer.from(sanitized), 'art.svg', 'image/svg+xml');
+
+            expect(result).toEqual({ isValid: true, detectedMimeType: 'image/svg+xml', fileSize: sanitized.length });
+        });
+
+        it('should reject unsafe SVGs, listing what would be removed, when configured', () => {
+            process.env.SVG_POLICY = 'reject';
+
+            const result = validateFile(Buffer.from(unsafe), 'art.svg', 'image/svg+xml');
+
+            expect(result.isValid).toBe(false);
+            expect(result.error).toBe('SVG contains unsafe content: onload attribute on <svg>; <script> element');
+        });
+
+        it('should reject SVGs that cannot be parsed', () => {
+            const result = validateFile(Buffer.from('<svg><g></svg>'), 'art.svg', 'image/svg+xml');
+
+            expect(result.isValid).toBe(false);
+            expect(result.error).toBe('Invalid SVG: Unexpected end tag </svg>');
+        });
     });
 
     describe('validateFiles', () => {
@@ -124,6 +238,10 @@ describe('IPFS Service', () => {
             expect(hash1).toHaveLength(64); // SHA256 hex length
         });
 
+        it('should hash a Blob like the same content in a buffer', async () => {
+            await expect(createBlobContentHash(new Blob(['test content']))).resolves.toBe(createContentHash('test content'));
+        });
+
         it('should create different hashes for different content', () => {
             const hash1 = createContentHash('content1');
             const hash2 = createContentHash('content2');
@@ -151,4 +269,77 @@ describe('IPFS Service', () => {
             expect(hash1).not.toBe(hash2);
         });
     });
-});
\ No newline at end of file
+
+    describe('upload CID verification', () => {
+        beforeEach(() => {
+            mockUploadFile.mockReset();
+            jest.spyOn(console, 'error').mockImplementation(() => { });
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should accept the CIDv0 or CIDv1 of the uploaded content', async () => {
+            const content = Buffer.from('image');
+
+            mockUploadFile.mockResolvedValueOnce(computeCid(content));
+            await expect(uploadFileToIPFS(content, 'nft.png', 'image/png')).resolves.toBe(computeCid(content));
+
+            mockUploadFile.mockResolvedValueOnce(computeCid(content, 1));
+            await expect(uploadFileToIPFS(content, 'nft.png', 'image/png')).resolves.toBe(computeCid(content, 1));
+        });
+
+        it('should upload JSON as the serialized bytes its CID is computed from', async () => {
+            const metadata = { title: 'My IP Asset' };
+            mockUploadFile.mockResolvedValue(computeCid(JSON.stringify(metadata)));
+
+            await expect(uploadJSONToIPFS(metadata, 'ip-metadata.json')).resolves.toBe(computeCid(JSON.stringify(metadata)));
+            expect(mockUploadFile).toHaveBeenCalledWith(Buffer.from(JSON.stringify(metadata)), 'ip-metadata.json', 'application/json');
+        });
+
+        it('should stream a Blob to storage and verify its CID', async () => {
+            const content = Buffer.from('image');
+            mockUploadFile.mockResolvedValue(computeCid(content));
+
+            await expect(uploadBlobToIPFS(new Blob([content]), 'nft.png', 'image/png')).resolves.toBe(computeCid(content));
+            expect(mockUploadFile.mock.calls[0][0]).not.toBeInstanceOf(Buffer);
+        });
+
+        it('should reject a CID that does not match the content', async () => {
+            mockUploadFile.mockResolvedValue('QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH');
+
+            await expect(uploadFileToIPFS(Buffer.from('image'), 'nft.png', 'image/png'))
+                .rejects.toBeInstanceOf(CidMismatchError);
+        });
+    });
+
+    describe('gateway and on-chain URIs', () => {
+        const cid = 'Qmf412jQZiuVUtdgnB36FXFX7xg5V6KEbSJ4dpQuhkLyfD';
+
+        afterEach(() => {
+            delete process.env.IPFS_GATEWAY_URL;
+            delete process.env.IPFS_URI_FORMAT;
+        });
+
+        it('should build gateway URLs from the configured gateway', () => {
+            process.env.IPFS_GATEWAY_URL = 'https://ipfs.example.com';
+            expect(getIPFSUrl(cid)).toBe(`https://ipfs.example.com/ipfs/${cid}`);
+        });
+
+        it('should write gateway URLs on chain by default and ipfs:// URIs when configured', () => {
+            expect(getOnChainURI(cid)).toBe(`https://gateway.pinata.cloud/ipfs/${cid}`);
+
+            process.env.IPFS_URI_FORMAT = 'ipfs';
+            expect(getOnChainURI(cid)).toBe(`ipfs://${cid}`);
+        });
+
+        it('should resolve ipfs:// URIs to gateway URLs', () => {
+            process.env.IPFS_GATEWAY_URL = 'https://ipfs.example.com';
+
+            expect(resolveIPFSUri(`ipfs://${cid}`)).toBe(`https://ipfs.example.com/ipfs/${cid}`);
+            expect(resolveIPFSUri(`ipfs://ipfs/${cid}/image.png`)).toBe(`https://ipfs.example.com/ipfs/${cid}/image.png`);
+            expect(resolveIPFSUri('https://example.com/metadata.json')).toBe('https://example.com/metadata.json');
+        });
+    });
+});
@@ -0,0 +1,170 @@
+import { zeroAddress } from 'viem';
+import { LicenseTermsConfig } from '@/types';
+import { fromPILTerms, LicenseTermsValidationError, mapLicenseTerms, toPILTerms } from '@/lib/license-terms';
+
+const royaltyPolicyLap = '0xBe54FB168b3c982b7AaE60dB6CF75Bd8447b390E';
+const wip = '0x1514000000000000000000000000000000000000';
+
+describe('License Terms Mapping', () => {
+    it('should map every field onto the PIL terms struct', () => {
+        const terms = toPILTerms({
+            transferable: false,
+            royaltyPolicy: royaltyPolicyLap,
+            defaultMintingFee: '1000000000000000000',
+            expiration: '86400',
+            commercialUse: true,
+            commercialAttribution: true,
+            commercializerChecker: '0x1234567890123456789012345678901234567890',
+            commercializerCheckerData: '0xabcd',
+            commercialRevShare: 12.5,
+            commercialRevCeiling: '5000',
+            derivativesAllowed: true,
+            derivativesAttribution: true,
+            derivativesApproval: true,
+            derivativesReciprocal: true,
+            derivativeRevCeiling: '7000',
+            currency: wip,
+            uri: 'https://example.com/license.json'
+        });
+
+        expect(terms).toEqual({
+            transferable: false,
+            royaltyPolicy: royaltyPolicyLap,
+            defaultMintingFee: BigInt('1000000000000000000'),
+            expiration: BigInt(86400),
+            commercialUse: true,
+            commercialAttribution: true,
+            commercializerChecker: '0x1234567890123456789012345678901234567890',
+            commercializerCheckerData: '0xabcd',
+            commercialRevShare: 12_500_000,
+            commercialRevCeiling: BigInt(5000),
+            derivativesAllowed: true,
+            derivativesAttribution: true,
+            derivativesApproval: true,
+            derivativesReciprocal: true,
+            derivativeRevCeiling: BigInt(7000),
+            currency: wip,
+            uri: 'https://example.com/license.json'
+        });
+    });
+
+    it('should keep commercial use with a 0% revenue share commercial', () => {
+        const terms = toPILTerms({ commercialUse: true, commercialRevShare: 0 });
+
+        expect(terms.commercialUse).toBe(true);
+        expect(terms.commercialRevShare).toBe(0);
+        expect(terms.royaltyPolicy).toBe(royaltyPolicyLap);
+        expect(terms.currency).toBe(wip);
+    });
+
+    it('should treat zero addresses as unset for commercial terms', () => {
+        const terms = toPILTerms({ commercialUse: true, royaltyPolicy: zeroAddress, currency: zeroAddress });
+
+        expect(terms.royaltyPolicy).toBe(royaltyPolicyLap);
+        expect(terms.currency).toBe(wip);
+    });
+
+    it('should default non-commercial terms to zero values', () => {
+        const terms = toPILTerms({ commercialUse: false });
+
+        expect(terms.royaltyPolicy).toBe(zeroAddress);
+        expect(terms.currency).toBe(zeroAddress);
+        expect(terms.defaultMintingFee).toBe(BigInt(0));
+        expect(terms.commercializerCheckerData).toBe('0x');
+        expect(terms.uri).toBe('');
+    });
+
+    it('should report commercial-only fields set without commercial use', () => {
+        const { errors } = mapLicenseTerms({
+            commercialUse: false,
+            commercialAttribution: true,
+            commercialRevShare: 10,
+            commercialRevCeiling: '100',
+            derivativesAllowed: true
+        });
+
+        expect(errors.map(error => error.field)).toEqual([
+            'commercialAttribution',
+            'commercialRevShare',
+            'commercialRevCeiling'
+        ]);
+        expect(errors[0].message).toBe('Cannot be set when commercial use is disabled');
+    });
+
+    it('should report derivative-only fields set without derivatives', () => {
+        const { errors } = mapLicenseTerms({
+            commercialUse: true,
+            derivativesAllowed: false,
+            derivativesAttribution: true,
+            derivativesReciprocal: true,
+            derivativeRevCeiling: '100'
+        });
+
+        expect(errors.map(error => error.field)).toEqual([
+            'derivativesAttribution',
+            'derivativesReciprocal',
+            'derivativeRevCeiling'
+        ]);
+    });
+
+    it('should require a royalty policy for a minting fee', () => {
+        const { errors } = mapLicenseTerms({ commercialUse: false, defaultMintingFee: '10' });
+
+        expect(errors).toEqual([{
+            field: 'royaltyPolicy',
+            message: 'A royalty policy is required when the default minting fee is greater than 0'
+        }]);
+    });
+
+    it('should report malformed field values', () => {
+        const { errors } = mapLicenseTerms({
+            commercialUse: true,
+            defaultMintingFee: '1.5',
+            commercialRevShare: 120,
+            commercializerCheckerData: 'not-hex',
+            currency: '0x123' as `0x${string}`
+        });
+
+        expect(errors.map(error => error.field)).toEqual([
+            'commercialRevShare',
+            'commercializerCheckerData',
+            'defaultMintingFee',
+            'currency'
+        ]);
+    });
+
+    it('should throw every field error at once', () => {
+        try {
+            toPILTerms({ commercialUse: false, commercialAttribution: true, derivativesApproval: true });
+            fail('Expected toPILTerms to throw');
+        } catch (error) {
+            expect(error).toBeInstanceOf(LicenseTermsValidationError);
+            expect((error as LicenseTermsValidationError).fieldErrors.map(fieldError => fieldError.field))
+                .toEqual(['commercialAttribution', 'derivativesApproval']);
+        }
+    });
+
+    it('should decode PIL terms back into the terms they were mapped from', () => {
+        const config: LicenseTermsConfig = {
+            transferable: true,
+            royaltyPolicy: royaltyPolicyLap,
+            defaultMintingFee: '250',
+            expiration: '0',
+            commercialUse: true,
+            commercialAttribution: false,
+            commercializerChecker: zeroAddress,
+            commercializerCheckerData: '0x',
+            commercialRevShare: 7.25,
+            commercialRevCeiling: '0',
+            derivativesAllowed: true,
+            derivativesAttribution: true,
+            derivativesApproval: false,
+            derivativesReciprocal: true,
+            derivativeRevCeiling: '0',
+            currency: wip,
+            uri: ''
+        };
+
+        expect(fromPILTerms(toPILTerms(config))).toEqual(config);
+    });
+});
@@ -0,0 +1,85 @@
+import { getAddress } from 'viem';
+import { DerivativeLink, getDerivativeLinks, getIndexedAssets } from '@/lib/asset-indexer';
+import { getLineage, toDot, toMermaid } from '@/lib/lineage';
+
+jest.mock('@/lib/asset-indexer', () => ({
+    getDerivativeLinks: jest.fn(),
+    getIndexedAssets: jest.fn(),
+    getIndexedBlock: jest.fn(() => '5000')
+}));
+
+const ip = (n: number) => getAddress(`0x${n.toString().padStart(40, '0')}`);
+
+const link = (parent: number, child: number, licenseTermsId: number): DerivativeLink => ({
+    parentIpId: ip(parent),
+    childIpId: ip(child),
+    licenseTermsId: licenseTermsId.toString(),
+    licenseTemplate: '0x2E896b0b2Fdb7457499B56AAaA4AE55BCB4Cd316',
+    blockNumber: 100
+});
+
+// 1 and 2 are originals; 3 derives from both, 4 from 3 and 5 from 4
+const LINKS = [link(1, 3, 5), link(2, 3, 7), link(3, 4, 5), link(4, 5, 9)];
+
+describe('IP Lineage', () => {
+    beforeEach(() => {
+        (getDerivativeLinks as jest.Mock).mockImplementation((ipIds: string[], direction: 'parents' | 'children') =>
+            LINKS.filter(candidate => ipIds.includes(direction === 'parents' ? candidate.childIpId : candidate.parentIpId)));
+        (getIndexedAssets as jest.Mock).mockImplementation((ipIds: string[]) =>
+            ipIds.filter(ipId => ipId !== ip(2)).map(ipId => ({ ipId, name: `Work ${parseInt(ipId, 16)}`, nftContract: ip(99), tokenId: '1' })));
+    });
+
+    it('should walk up to every parent, with an edge per license', () => {
+        const graph = getLineage(ip(4).toLowerCase(), 'ancestors', 3);
+
+        expect(graph.root).toBe(ip(4));
+        expect(graph.nodes.map(node => [node.ipId, node.depth])).toEqual([[ip(4), 0], [ip(3), 1], [ip(1), 2], [ip(2), 2]]);
+        expect(graph.nodes[3]).toEqual({ ipId: ip(2), depth: 2, name: null, nftContract: null, tokenId: null });
+        expect(graph.edges.map(edge => [edge.parentIpId, edge.childIpId, edge.licenseTermsId])).toEqual([
+            [ip(3), ip(4), '5'],
+            [ip(1), ip(3), '5'],
+            [ip(2), ip(3), '7']
+        ]);
+        expect(graph).toMatchObject({ direction: 'ancestors', depth: 3, truncated: false, indexedBlock: '5000' });
+    });
+
+    it('should stop at the depth and report that the graph goes on', () => {
+        const graph = getLineage(ip(1), 'descendants', 2);
+
+        expect(graph.nodes.map(node => node.ipId)).toEqual([ip(1), ip(3), ip(4)]);
+        expect(graph.edges.map(edge => edge.childIpId)).toEqual([ip(3), ip(4)]);
+        expect(graph.truncated).toBe(true);
+    });
+
+    it('should accept an IP ID whatever its checksum', () => {
+        const graph = getLineage('0x9Dc2ff73EcaD2eDF89A4c2e95C5c7adaf7018f1a', 'ancestors', 1);
+
+        expect(graph.root).toBe('0x9dC2FF73EcaD2eDF89A4c2e95C5c7adaf7018f1a');
+    });
+
+    it('should render DOT and Mermaid with parents pointing to children', () => {
+        const graph = getLineage(ip(3), 'ancestors', 1);
+
+        expect(toDot(graph)).toBe([
+            'digraph lineage {',
+            '    node [shape=box];',
+            `    "${ip(3)}" [label="Work 3\\n0x0000…0003", style=bold];`,
+            `    "${ip(1)}" [label="Work 1\\n0x0000…0001"];`,
+            `    "${ip(2)}" [label="0x0000…0002"];`,
+            `    "${ip(1)}" -> "${ip(3)}" [label="terms 5"];`,
+            `    "${ip(2)}" -> "${ip(3)}" [label="terms 7"];`,
+            '}',
+            ''
+        ].join('\n'));
+        expect(toMermaid(graph)).toBe([
+            'graph TD',
+            '    ip0["Work 3<br/>0x0000…0003"]',
+            '    ip1["Work 1<br/>0x0000…0001"]',
+            '    ip2["0x0000…0002"]',
+            '    ip1 -->|"terms 5"| ip0',
+            '    ip2 -->|"terms 7"| ip0',
+            '    style ip0 stroke-width:3px',
+            ''
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,80 @@
+import { lookup } from 'dns/promises';
+import { fetchMetadata, fetchMetadataJSON, MetadataFetchError, resolveMetadataUrl } from '@/lib/metadata-fetch';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+const GATEWAY = 'https://gateway.example.com';
+
+describe('Metadata Fetch', () => {
+    let fetchSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        process.env.IPFS_GATEWAY_URL = GATEWAY;
+        (lookup as jest.Mock).mockReset().mockResolvedValue([{ address: '203.0.113.10', family: 4 }]);
+        fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async () => new Response('{"name":"Artwork"}'));
+    });
+
+    afterEach(() => {
+        fetchSpy.mockRestore();
+        delete process.env.IPFS_GATEWAY_URL;
+        delete process.env.IPFS_GATEWAY_ALLOW_PRIVATE;
+    });
+
+    it('should fetch ipfs:// URIs and /ipfs/ paths of other gateways through the configured gateway', async () => {
+        expect(resolveMetadataUrl('ipfs://QmMeta').toString()).toBe(`${GATEWAY}/ipfs/QmMeta`);
+        expect(resolveMetadataUrl('https://ipfs.io/ipfs/QmMeta/1.json').toString()).toBe(`${GATEWAY}/ipfs/QmMeta/1.json`);
+        expect(await fetchMetadataJSON('ipfs://QmMeta')).toEqual({ name: 'Artwork' });
+        expect(fetchSpy).toHaveBeenCalledWith(`${GATEWAY}/ipfs/QmMeta`, expect.objectContaining({ redirect: 'error' }));
+    });
+
+    it('should refuse URLs off the gateway without a request', async () => {
+        await expect(fetchMetadata('http://169.254.169.254/latest/meta-data/')).rejects.toThrow(MetadataFetchError);
+        await expect(fetchMetadata('https://evil.example/token.json')).rejects.toThrow(`Only ipfs:// URIs and ${GATEWAY} URLs are fetched`);
+        await expect(fetchMetadata('file:///etc/passwd')).rejects.toThrow(MetadataFetchError);
+        expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a gateway resolving to a private or link-local address unless allowed', async () => {
+        (lookup as jest.Mock).mockResolvedValue([{ address: '203.0.113.10', family: 4 }, { address: 'fe80::1', family: 6 }]);
+        await expect(fetchMetadata('ipfs://QmMeta')).rejects.toThrow('resolves to a private address');
+
+        process.env.IPFS_GATEWAY_URL = 'http://127.0.0.1:8080';
+        await expect(fetchMetadata('ipfs://QmMeta')).rejects.toThrow('resolves to a private address');
+        expect(fetchSpy).not.toHaveBeenCalled();
+
+        process.env.IPFS_GATEWAY_ALLOW_PRIVATE = 'true';
+        expect((await fetchMetadata('ipfs://QmMeta')).toString()).toBe('{"name":"Artwork"}');
+    });
+
+    it('should stop reading a body over the size limit', async () => {
+        fetchSpy.mockImplementation(async () => new Response(new ReadableStream({
+            pull(controller) {
+                controller.enqueue(new Uint8Array(1024));
+            }
+        })));
+
+        await expect(fetchMetadata('ipfs://QmLarge', { maxBytes: 4096 })).rejects.toThrow('Metadata is larger than 4096 bytes');
+
+        fetchSpy.mockImplementation(async () => new Response('{}', { headers: { 'Content-Length': String(10 * 1024 * 1024) } }));
+        await expect(fetchMetadata('ipfs://QmLarge')).rejects.toThrow(`Metadata is larger than ${5 * 1024 * 1024} bytes`);
+    });
+
+    it('should refuse bodies that are not JSON objects and failed requests', async () => {
+        fetchSpy.mockImplementation(async () => new Response('<html>login</html>'));
+        await expect(fetchMetadataJSON('ipfs://QmPage')).rejects.toThrow('Metadata is not valid JSON');
+
+        fetchSpy.mockImplementation(async () => new Response('[1, 2]'));
+        await expect(fetchMetadataJSON('ipfs://QmList')).rejects.toThrow('Metadata is not a JSON object');
+
+        fetchSpy.mockImplementation(async () => new Response('Not found', { status: 404 }));
+        await expect(fetchMetadataJSON('ipfs://QmGone')).rejects.toThrow('Metadata request failed with status 404');
+    });
+
+    it('should read data: URIs without resolving a host', async () => {
+        fetchSpy.mockRestore();
+        const uri = `data:application/json;base64,${Buffer.from('{"name":"On chain"}').toString('base64')}`;
+
+        expect(await fetchMetadataJSON(uri)).toEqual({ name: 'On chain' });
+        expect(lookup).not.toHaveBeenCalled();
+    });
+});
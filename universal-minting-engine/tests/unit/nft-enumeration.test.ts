@@ -0,0 +1,163 @@
+import { Address, getAddress, PublicClient } from 'viem';
+import { getAssetsByOwner, getIndexerStatus, startAssetIndexer } from '@/lib/asset-indexer';
+import { findOwnedTokens } from '@/lib/nft-enumeration';
+
+jest.mock('@/lib/asset-indexer', () => ({
+    getAssetsByOwner: jest.fn(),
+    getIndexerStatus: jest.fn(),
+    startAssetIndexer: jest.fn()
+}));
+
+const OWNER = '0x742d35Cc6634C0532925A3B8D4C9dB96C4B4d8B6';
+const OTHER = '0x1111111111111111111111111111111111111111';
+const ZERO = '0x0000000000000000000000000000000000000000';
+const COLLECTION = '0xc32A8a0FF3beDDDa58393d022aF433e78739FAbc';
+const ENUMERABLE = '0x2222222222222222222222222222222222222222';
+
+let logIndex = 0;
+const transfer = (from: string, to: string, tokenId: number, blockNumber: number, address = COLLECTION) => ({
+    address,
+    args: { from, to, tokenId: BigInt(tokenId) },
+    blockNumber: BigInt(blockNumber),
+    logIndex: logIndex++
+});
+
+type Transfer = ReturnType<typeof transfer>;
+
+interface ChainOptions {
+    transfers?: Transfer[];
+    // Widest block range getLogs accepts
+    maxRange?: number;
+    enumerable?: Record<string, bigint[]>;
+    // Tokens registered as IP assets, by token ID
+    registered?: number[];
+    // First block where the IPAssetRegistry has code
+    deploymentBlock?: number;
+}
+
+function mockClient({ transfers = [], maxRange = Infinity, enumerable = {}, registered = [], deploymentBlock = 0 }: ChainOptions) {
+    const getLogs = jest.fn(async ({ address, args, fromBlock, toBlock }) => {
+        if (Number(toBlock - fromBlock) + 1 > maxRange) {
+            throw new Error('query exceeds max block range');
+        }
+        return transfers.filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock
+            && (!address || address.includes(log.address))
+            && (!args.to || log.args.to === args.to)
+            && (!args.from || log.args.from === args.from));
+    });
+
+    const readContract = jest.fn(async ({ address, functionName, args }) => {
+        switch (functionName) {
+            case 'supportsInterface':
+                if (!(address in enumerable)) {
+                    throw new Error('execution reverted');
+                }
+                return true;
+            case 'balanceOf':
+                return BigInt(enumerable[address].length);
+            case 'tokenOfOwnerByIndex':
+                return enumerable[address][Number(args[1])];
+            // The IP account of token N is 0x000…N, N written in decimal
+            case 'ipId':
+                return `0x${args[2].toString().padStart(40, '0')}`;
+            case 'isRegistered':
+                return registered.includes(Number(args[0].replace(/^0x0*/, '')));
+            default:
+                throw new Error(`Unexpected call to ${functionName}`);
+        }
+    });
+
+    const getCode = jest.fn(async ({ blockNumber }) => blockNumber >= BigInt(deploymentBlock) ? '0x6080' : undefined);
+
+    return { getBlockNumber: jest.fn().mockResolvedValue(BigInt(5000)), getLogs, readContract, getCode } as unknown as PublicClient & { getLogs: jest.Mock; readContract: jest.Mock };
+}
+
+describe('NFT Enumeration', () => {
+    afterEach(() => {
+        delete process.env.NFT_SCAN_MAX_BLOCK_RANGE;
+    });
+
+    it('should replay transfers to find the tokens held, whatever their IDs', async () => {
+        const client = mockClient({
+            transfers: [
+                transfer(ZERO, OWNER, 3, 100),
+                transfer(ZERO, OWNER, 25, 200),
+                transfer(ZERO, OWNER, 1234, 300),
+                transfer(OWNER, OTHER, 25, 400),
+                transfer(OWNER, OWNER, 1234, 500),
+                transfer(ZERO, OTHER, 4, 600)
+            ],
+            registered: [1234]
+        });
+
+        const { tokens, scannedToBlock } = await findOwnedTokens(client, OWNER, [COLLECTION]);
+
+        expect(scannedToBlock).toBe('5000');
+        expect(tokens).toEqual([
+            { contractAddress: COLLECTION, tokenId: BigInt(3), ipId: null, source: 'transfer-logs' },
+            { contractAddress: COLLECTION, tokenId: BigInt(1234), ipId: `0x${'1234'.padStart(40, '0')}`, source: 'transfer-logs' }
+        ]);
+    });
+
+    it('should halve the block range while the RPC refuses it', async () => {
+        process.env.NFT_SCAN_MAX_BLOCK_RANGE = '4000';
+        const client = mockClient({ transfers: [transfer(ZERO, OWNER, 7, 4500)], maxRange: 1000 });
+
+        const { tokens } = await findOwnedTokens(client, OWNER, [COLLECTION]);
+        const ranges = client.getLogs.mock.calls
+            .filter(([{ args }]) => args.to)
+            .map(([{ fromBlock, toBlock }]) => Number(toBlock - fromBlock) + 1);
+
+        expect(tokens.map(token => token.tokenId)).toEqual([BigInt(7)]);
+        // Refused at 4000 and 2000, then doubled again after a range succeeds
+        expect(ranges.slice(0, 4)).toEqual([4000, 2000, 1000, 2000]);
+    });
+
+    it('should list the tokens of ERC721Enumerable collections without scanning logs', async () => {
+        const client = mockClient({ enumerable: { [ENUMERABLE]: [BigInt(42), BigInt(99)] }, registered: [42] });
+
+        const { tokens, scannedToBlock } = await findOwnedTokens(client, OWNER, [ENUMERABLE as Address]);
+
+        expect(scannedToBlock).toBeNull();
+        expect(client.getLogs).not.toHaveBeenCalled();
+        expect(tokens.map(token => [token.tokenId, token.ipId !== null, token.source])).toEqual([
+            [BigInt(42), true, 'enumerable'],
+            [BigInt(99), false, 'enumerable']
+        ]);
+    });
+
+    it('should start scanning at the deployment block of the IPAssetRegistry', async () => {
+        // Another registry address, as deployment blocks are remembered per registry
+        process.env.STORY_IP_ASSET_REGISTRY_ADDRESS = '0x3333333333333333333333333333333333333333';
+        try {
+            const client = mockClient({ transfers: [transfer(ZERO, OWNER, 5, 2500)], deploymentBlock: 2000 });
+
+            const { tokens } = await findOwnedTokens(client, OWNER, [COLLECTION]);
+
+            expect(tokens.map(token => token.tokenId)).toEqual([BigInt(5)]);
+            expect(client.getLogs.mock.calls.map(([{ fromBlock }]) => fromBlock)).toEqual([BigInt(2000), BigInt(2000)]);
+        } finally {
+            delete process.env.STORY_IP_ASSET_REGISTRY_ADDRESS;
+        }
+    });
+
+    it('should read the IP assets of the owner from the index when no collection is given', async () => {
+        (getAssetsByOwner as jest.Mock).mockReturnValue({
+            assets: [{ ipId: getAddress(`0x${'7'.padStart(40, '0')}`), nftContract: COLLECTION, tokenId: '7' }],
+            total: 1
+        });
+        (getIndexerStatus as jest.Mock).mockReturnValue({ indexedBlock: '4000', headBlock: '5000', syncing: true });
+        const client = mockClient({ transfers: [transfer(ZERO, OWNER, 1, 10)] });
+
+        const scan = await findOwnedTokens(client, OWNER);
+
+        expect(startAssetIndexer).toHaveBeenCalledWith(client);
+        expect(getAssetsByOwner).toHaveBeenCalledWith(OWNER);
+        expect(client.getLogs).not.toHaveBeenCalled();
+        expect(scan).toEqual({
+            tokens: [{ contractAddress: COLLECTION, tokenId: BigInt(7), ipId: getAddress(`0x${'7'.padStart(40, '0')}`), source: 'index' }],
+            scannedToBlock: '4000',
+            syncing: true
+        });
+    });
+});
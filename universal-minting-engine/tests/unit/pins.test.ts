@@ -0,0 +1,192 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicClient } from 'viem';
+import { isPinAdminRequest, listPins, PinPurpose, reconcilePins, recordPin, tagPins, unpinOrphans, withPinContext } from '@/lib/pins';
+import { getStorageProvider } from '@/lib/storage';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Record pins as if uploaded while handling a request to the endpoint, returning its request ID
+async function pinDuring(endpoint: string, pins: Array<{ cid: string; purpose: PinPurpose }>, userAddress?: string): Promise<string> {
+    const handler = withPinContext(async () => {
+        tagPins({ userAddress });
+        for (const pin of pins) {
+            await recordPin(pin.cid, { filename: `${pin.cid}.json`, purpose: pin.purpose });
+        }
+        return NextResponse.json({ success: true });
+    });
+
+    const response = await handler(new NextRequest(`http://localhost:3000${endpoint}`, { method: 'POST' }));
+    return response.headers.get('X-Request-ID') as string;
+}
+
+// A client whose chain is at the given heights on successive calls, with MetadataURISet logs
+function mockClient(blockNumbers: number[], logs: Array<{ ipId: string; metadataURI: string }>) {
+    const getBlockNumber = jest.fn();
+    blockNumbers.forEach(blockNumber => getBlockNumber.mockResolvedValueOnce(BigInt(blockNumber)));
+    const getContractEvents = jest.fn().mockResolvedValueOnce(logs.map(args => ({ args }))).mockResolvedValue([]);
+    return { getBlockNumber, getContractEvents } as unknown as PublicClient & { getContractEvents: jest.Mock };
+}
+
+describe('Pin Lifecycle', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), 'pins-'));
+        process.env.PIN_REGISTRY_PATH = path.join(directory, 'pins.json');
+        process.env.STORAGE_PROVIDER = 'filesystem';
+        process.env.STORAGE_FS_DIR = path.join(directory, 'storage');
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        delete process.env.PIN_REGISTRY_PATH;
+        delete process.env.PIN_RECONCILE_BLOCK_RANGE;
+        delete process.env.STORAGE_PROVIDER;
+        delete process.env.STORAGE_FS_DIR;
+        delete process.env.PIN_ADMIN_TOKEN;
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should tag pins with the request, endpoint, user address and purpose', async () => {
+        const userAddress = '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6';
+        const requestId = await pinDuring('/api/prepare-mint', [{ cid: 'QmMedia', purpose: 'media' }, { cid: 'QmMeta', purpose: 'metadata' }], userAddress);
+
+        const { pins } = await listPins({ userAddress: userAddress.toLowerCase(), purpose: 'metadata' });
+
+        expect(requestId).toMatch(/^req_/);
+        expect(pins).toHaveLength(1);
+        expect(pins[0]).toMatchObject({
+            cid: 'QmMeta',
+            provider: 'filesystem',
+            requestIds: [requestId],
+            endpoints: ['/api/prepare-mint'],
+            userAddress,
+            status: 'pending'
+        });
+    });
+
+    it('should add the requests that reuse a pin', async () => {
+        const first = await pinDuring('/api/prepare-mint', [{ cid: 'QmMedia', purpose: 'media' }]);
+        const second = await pinDuring('/api/prepare-mint', [{ cid: 'QmMedia', purpose: 'media' }]);
+
+        const { pins } = await listPins({ requestId: second });
+
+        expect(pins).toHaveLength(1);
+        expect(pins[0].requestIds).toEqual([first, second]);
+    });
+
+    it('should take registration uploads for orphans after the grace period only', async () => {
+        await pinDuring('/api/prepare-mint', [{ cid: 'QmMeta', purpose: 'metadata' }]);
+        await pinDuring('/api/prepare-dispute', [{ cid: 'QmEvidence', purpose: 'evidence' }]);
+        await recordPin('QmUntagged', { filename: 'license.json', purpose: 'attachment' });
+
+        expect((await listPins({ status: 'orphaned' })).pins).toEqual([]);
+
+        jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * DAY);
+        const { pins } = await listPins();
+
+        expect(Object.fromEntries(pins.map(pin => [pin.cid, pin.status]))).toEqual({
+            QmMeta: 'orphaned',
+            QmEvidence: 'retained',
+            QmUntagged: 'retained'
+        });
+    });
+
+    it('should keep a pin reused by another endpoint, labelled as first uploaded', async () => {
+        await pinDuring('/api/prepare-dispute', [{ cid: 'QmShared', purpose: 'evidence' }]);
+        await pinDuring('/api/prepare-mint', [{ cid: 'QmShared', purpose: 'media' }]);
+
+        jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * DAY);
+        const { pins } = await listPins();
+
+        expect(pins).toHaveLength(1);
+        expect(pins[0]).toMatchObject({
+            purpose: 'evidence',
+            endpoints: ['/api/prepare-dispute', '/api/prepare-mint'],
+            status: 'retained'
+        });
+    });
+
+    it('should only take requests bearing the configured admin token for admin requests', () => {
+        const request = (authorization?: string) => new NextRequest('http://localhost:3000/api/pins', {
+            headers: authorization ? { authorization } : {}
+        });
+
+        expect(isPinAdminRequest(request('Bearer secret'))).toBe(false);
+
+        process.env.PIN_ADMIN_TOKEN = 'secret';
+        expect(isPinAdminRequest(request('Bearer secret'))).toBe(true);
+        expect(isPinAdminRequest(request('Bearer secret2'))).toBe(false);
+        expect(isPinAdminRequest(request('secret'))).toBe(false);
+        expect(isPinAdminRequest(request())).toBe(false);
+    });
+
+    describe('reconcilePins', () => {
+        it('should anchor every pin of a request whose metadata URI was registered', async () => {
+            const metadataCid = 'QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH';
+            await pinDuring('/api/prepare-mint', [{ cid: 'QmMedia', purpose: 'media' }, { cid: metadataCid, purpose: 'metadata' }]);
+            await pinDuring('/api/prepare-mint', [{ cid: 'QmUnsigned', purpose: 'metadata' }]);
+
+            const result = await reconcilePins(mockClient([5000], [
+                { ipId: '0x1111111111111111111111111111111111111111', metadataURI: `ipfs://${metadataCid}` },
+                { ipId: '0x2222222222222222222222222222222222222222', metadataURI: 'https://example.com/metadata.json' }
+            ]));
+
+            expect(result).toMatchObject({ toBlock: '5000', metadataURIsScanned: 2 });
+            expect(result.anchored.sort()).toEqual(['QmMedia', metadataCid].sort());
+
+            const { pins } = await listPins({ status: 'onchain' });
+            expect(pins.map(pin => pin.onChain?.metadataCid)).toEqual([metadataCid, metadataCid]);
+            expect((await listPins({ status: 'pending' })).pins.map(pin => pin.cid)).toEqual(['QmUnsigned']);
+        });
+
+        it('should resume after the last reconciled block in chunks of the block range', async () => {
+            process.env.PIN_RECONCILE_BLOCK_RANGE = '10000';
+            const client = mockClient([5000, 25000], []);
+
+            await reconcilePins(client);
+            client.getContractEvents.mockClear();
+            const result = await reconcilePins(client);
+
+            expect(result).toMatchObject({ fromBlock: '5001', toBlock: '25000' });
+            expect(client.getContractEvents.mock.calls.map(([args]) => [args.fromBlock, args.toBlock])).toEqual([
+                [BigInt(5001), BigInt(15000)],
+                [BigInt(15001), BigInt(25000)]
+            ]);
+        });
+    });
+
+    describe('unpinOrphans', () => {
+        it('should unpin orphans and drop them from the registry', async () => {
+            const storage = getStorageProvider();
+            const orphan = await storage.uploadFile(Buffer.from('{"name":"never minted"}'), 'ip-metadata.json', 'application/json');
+            const evidence = await storage.uploadFile(Buffer.from('{"claim":"copied"}'), 'dispute-evidence.json', 'application/json');
+            await pinDuring('/api/prepare-mint', [{ cid: orphan, purpose: 'metadata' }]);
+            await pinDuring('/api/prepare-dispute', [{ cid: evidence, purpose: 'evidence' }]);
+
+            jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * DAY);
+            const result = await unpinOrphans();
+
+            expect(result).toEqual({ unpinned: [orphan], failed: [] });
+            expect(await storage.isPinned(orphan)).toBe(false);
+            expect(await storage.isPinned(evidence)).toBe(true);
+            expect((await listPins()).pins.map(pin => pin.cid)).toEqual([evidence]);
+        });
+
+        it('should report orphans pinned with another provider instead of unpinning them', async () => {
+            process.env.STORAGE_PROVIDER = 'pinata';
+            await pinDuring('/api/prepare-mint', [{ cid: 'QmPinata', purpose: 'metadata' }]);
+            process.env.STORAGE_PROVIDER = 'filesystem';
+
+            jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * DAY);
+            const result = await unpinOrphans();
+
+            expect(result.unpinned).toEqual([]);
+            expect(result.failed).toEqual([{ cid: 'QmPinata', error: expect.stringContaining('Pinned with pinata') }]);
+            expect((await listPins()).pins).toHaveLength(1);
+        });
+    });
+});
@@ -5,6 +5,9 @@ import {
     sanitizeObject,
     validateRequestSize,
     validateContentType,
+    sanitizeRequestBody,
+    releaseRequestFiles,
+    MultipartLimitError,
     SECURITY_HEADERS
 } from '@/lib/security';
 
@@ -235,6 +238,110 @@ describe('Security Module', () => {
         });
     });
 
+    describe('sanitizeRequestBody', () => {
+        const multipartRequests: NextRequest[] = [];
+
+        function createMultipartRequest(parts: Array<[string, string | File]>): NextRequest {
+            const body = new FormData();
+            parts.forEach(([name, value]) => body.append(name, value));
+            const request = new NextRequest('http://localhost:3000/api/test', { method: 'POST', body });
+            multipartRequests.push(request);
+            return request;
+        }
+
+        afterEach(async () => {
+            await Promise.all(multipartRequests.splice(0).map(releaseRequestFiles));
+        });
+
+        it('should parse and sanitize JSON bodies', async () => {
+            const request = new NextRequest('http://localhost:3000/api/test', {
+                method: 'POST',
+                headers: { 'content-type': 'application/json' },
+                body: JSON.stringify({ name: '  John  ' })
+            });
+
+            await expect(sanitizeRequestBody(request)).resolves.toEqual({ name: 'John' });
+        });
+
+        it('should attach multipart file parts to the JSON payload', async () => {
+            const image = new File([Buffer.from('image')], 'image.png', { type: 'image/png' });
+            const body = await sanitizeRequestBody(createMultipartRequest([
+                ['payload', JSON.stringify({ userAddress: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6' })],
+                ['files', image],
+                ['files', new File(['notes'], 'notes.txt', { type: 'text/plain' })]
+            ]));
+
+            expect(body.userAddress).toBe('0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6');
+            expect(body.files).toHaveLength(2);
+            expect(body.files[0]).toMatchObject({ filename: 'image.png', contentType: 'image/png', purpose: 'media' });
+            expect(body.files[0].file).toBeInstanceOf(Blob);
+            expect(Buffer.from(await body.files[0].file.arrayBuffer()).toString()).toBe('image');
+        });
+
+        it('should merge file parts into nested payload entries', async () => {
+            const body = await sanitizeRequestBody(createMultipartRequest([
+                ['payload', JSON.stringify({ items: [{ files: [] }, { files: [{ purpose: 'evidence' }] }] })],
+                ['items[1].files.0', new File(['evidence'], 'evidence.txt', { type: 'text/plain' })],
+                ['file', new File(['art'], 'art.png', { type: 'image/png' })]
+            ]));
+
+            expect(body.items[0].files).toEqual([]);
+            expect(body.items[1].files[0]).toMatchObject({ filename: 'evidence.txt', purpose: 'evidence' });
+            expect(body.file).toMatchObject({ filename: 'art.png', contentType: 'image/png' });
+        });
+
+        it('should take the purpose of a file part from its field name and remove its file once released', async () => {
+            const request = createMultipartRequest([
+                ['payload', '{}'],
+                ['files.evidence', new File(['report'], 'report.pdf', { type: 'application/pdf' })],
+                ['items[0].files[metadata]', new File(['{}'], 'metadata.json', { type: 'application/json' })]
+            ]);
+
+            const body = await sanitizeRequestBody(request);
+
+            expect(body.files[0]).toMatchObject({ filename: 'report.pdf', contentType: 'application/pdf', purpose: 'evidence' });
+            expect(body.items[0].files[0]).toMatchObject({ filename: 'metadata.json', purpose: 'metadata' });
+            expect(await body.files[0].file.text()).toBe('report');
+
+            await releaseRequestFiles(request);
+            await expect(body.files[0].file.text()).rejects.toThrow();
+        });
+
+        it('should refuse multipart bodies over the limits instead of truncating them', async () => {
+            process.env.UPLOAD_MULTIPART_FIELD_SIZE = '16';
+            process.env.UPLOAD_MULTIPART_FILE_SIZE = '4';
+            process.env.UPLOAD_MULTIPART_FILES = '1';
+            try {
+                await expect(sanitizeRequestBody(createMultipartRequest([
+                    ['payload', JSON.stringify({ description: 'longer than sixteen bytes' })]
+                ]))).rejects.toThrow(new MultipartLimitError('Multipart field payload exceeds 16 bytes'));
+
+                await expect(sanitizeRequestBody(createMultipartRequest([
+                    ['files', new File(['image bytes'], 'image.png', { type: 'image/png' })]
+                ]))).rejects.toThrow(new MultipartLimitError('Multipart file files exceeds 4 bytes'));
+
+                await expect(sanitizeRequestBody(createMultipartRequest([
+                    ['files', new File(['a'], 'a.txt', { type: 'text/plain' })],
+                    ['files', new File(['b'], 'b.txt', { type: 'text/plain' })]
+                ]))).rejects.toThrow(new MultipartLimitError('Multipart body has more than 1 files'));
+            } finally {
+                delete process.env.UPLOAD_MULTIPART_FIELD_SIZE;
+                delete process.env.UPLOAD_MULTIPART_FILE_SIZE;
+                delete process.env.UPLOAD_MULTIPART_FILES;
+            }
+        });
+
+        it('should reject dangerous multipart field names and payloads', async () => {
+            await expect(sanitizeRequestBody(createMultipartRequest([
+                ['__proto__.files', new File(['x'], 'x.txt')]
+            ]))).rejects.toThrow('dangerous');
+
+            await expect(sanitizeRequestBody(createMultipartRequest([
+                ['payload', JSON.stringify({ title: '<script>alert(1)</script>' })]
+            ]))).rejects.toThrow('dangerous');
+        });
+    });
+
     describe('Security Headers', () => {
         it('should include all required security headers', () => {
             const requiredHeaders = [
@@ -0,0 +1,186 @@
+import {
+    BaseError,
+    encodeErrorResult,
+    ExecutionRevertedError,
+    getAddress,
+    HttpRequestError,
+    PublicClient,
+    RawContractError
+} from 'viem';
+import { storyErrorsAbi } from '@/lib/story-errors-abi';
+import {
+    decodeRevertData,
+    isSimulationSkipped,
+    SimulationRevertedError,
+    simulateTransactionSteps
+} from '@/lib/simulation';
+
+const userAddress = '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6';
+const licenseTemplate = '0x2E896b0b2Fdb7457499B56AAaA4AE55BCB4Cd316';
+
+const mintStep = {
+    step: 1,
+    description: 'Mint license tokens',
+    to: '0x04fbd8a2e56dd85CFD5500A4A4DfA955B9f1dE6f',
+    data: '0x1234',
+    value: '0'
+};
+
+const licenseTermsNotFound = encodeErrorResult({
+    abi: storyErrorsAbi,
+    errorName: 'LicensingModule__LicenseTermsNotFound',
+    args: [licenseTemplate, BigInt(99)]
+});
+
+const revertWith = (data: `0x${string}`) =>
+    new BaseError('Execution reverted', { cause: new RawContractError({ data }) });
+
+describe('Transaction Simulation', () => {
+    const mockCall = jest.fn();
+    const mockSimulateCalls = jest.fn();
+    const publicClient = { call: mockCall, simulateCalls: mockSimulateCalls } as unknown as PublicClient;
+
+    beforeEach(() => {
+        mockCall.mockReset();
+        mockSimulateCalls.mockReset();
+        jest.spyOn(console, 'warn').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('decodeRevertData', () => {
+        it('should decode Story custom errors with named arguments', () => {
+            expect(decodeRevertData(licenseTermsNotFound)).toEqual({
+                errorName: 'LicensingModule__LicenseTermsNotFound',
+                args: { licenseTemplate, licenseTermsId: '99' },
+                data: licenseTermsNotFound
+            });
+        });
+
+        it('should decode Error(string) reverts', () => {
+            const data = encodeErrorResult({
+                abi: [{ type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] }],
+                errorName: 'Error',
+                args: ['Not allowed']
+            });
+
+            expect(decodeRevertData(data)).toMatchObject({ errorName: 'Error', args: { message: 'Not allowed' } });
+        });
+
+        it('should report unknown selectors', () => {
+            expect(decodeRevertData('0xdeadbeef')).toMatchObject({
+                errorName: 'UnknownError',
+                args: { selector: '0xdeadbeef' }
+            });
+        });
+    });
+
+    describe('simulateTransactionSteps', () => {
+        it('should call each independent step from the user address', async () => {
+            mockCall.mockResolvedValue({ data: '0x' });
+
+            const results = await simulateTransactionSteps(publicClient, userAddress.toLowerCase(), [mintStep]);
+
+            expect(results).toEqual([{ step: 1, status: 'success' }]);
+            expect(mockCall).toHaveBeenCalledWith({
+                account: getAddress(userAddress.toLowerCase()),
+                to: mintStep.to,
+                data: mintStep.data,
+                value: BigInt(0)
+            });
+        });
+
+        it('should simulate a sequence of steps together, each on the state of the ones before', async () => {
+            mockSimulateCalls.mockResolvedValue({ results: [{ status: 'success' }, { status: 'success' }] });
+
+            const results = await simulateTransactionSteps(publicClient, userAddress, [
+                { ...mintStep, description: 'Approve the minting fee' },
+                { ...mintStep, step: 2 }
+            ]);
+
+            expect(results).toEqual([{ step: 1, status: 'success' }, { step: 2, status: 'success' }]);
+            expect(mockSimulateCalls).toHaveBeenCalledWith({
+                account: getAddress(userAddress),
+                calls: [
+                    { to: mintStep.to, data: mintStep.data, value: BigInt(0) },
+                    { to: mintStep.to, data: mintStep.data, value: BigInt(0) }
+                ]
+            });
+            expect(mockCall).not.toHaveBeenCalled();
+        });
+
+        it('should throw the decoded revert reason of the step after an approval', async () => {
+            mockSimulateCalls.mockResolvedValue({
+                results: [{ status: 'success' }, { status: 'failure', data: licenseTermsNotFound, error: new Error('reverted') }]
+            });
+
+            const error = await simulateTransactionSteps(publicClient, userAddress, [
+                { ...mintStep, description: 'Approve the minting fee' },
+                { ...mintStep, step: 2 }
+            ]).catch(caught => caught);
+
+            expect(error).toBeInstanceOf(SimulationRevertedError);
+            expect(error.step).toBe(2);
+            expect(error.revert.errorName).toBe('LicensingModule__LicenseTermsNotFound');
+        });
+
+        it('should skip steps that depend on an earlier unsent step when the node cannot simulate a sequence', async () => {
+            mockSimulateCalls.mockRejectedValue(new HttpRequestError({ url: 'https://rpc.example', status: 400 }));
+            mockCall.mockResolvedValue({ data: '0x' });
+
+            const results = await simulateTransactionSteps(publicClient, userAddress, [
+                { ...mintStep, description: 'Approve the minting fee' },
+                { ...mintStep, step: 2 }
+            ]);
+
+            expect(mockCall).toHaveBeenCalledTimes(1);
+            expect(results[1]).toEqual({ step: 2, status: 'skipped', reason: 'Depends on step 1 being mined first' });
+        });
+
+        it('should throw the decoded revert reason', async () => {
+            mockCall.mockRejectedValue(revertWith(licenseTermsNotFound));
+
+            const error = await simulateTransactionSteps(publicClient, userAddress, [mintStep])
+                .catch(caught => caught);
+
+            expect(error).toBeInstanceOf(SimulationRevertedError);
+            expect(error.step).toBe(1);
+            expect(error.description).toBe('Mint license tokens');
+            expect(error.revert.errorName).toBe('LicensingModule__LicenseTermsNotFound');
+            expect(error.revert.args.licenseTermsId).toBe('99');
+        });
+
+        it('should treat reverts without data as reverted', async () => {
+            mockCall.mockRejectedValue(new BaseError('Execution reverted', { cause: new ExecutionRevertedError() }));
+
+            await expect(simulateTransactionSteps(publicClient, userAddress, [mintStep]))
+                .rejects.toBeInstanceOf(SimulationRevertedError);
+        });
+
+        it('should not block on RPC failures', async () => {
+            mockCall.mockRejectedValue(new HttpRequestError({ url: 'https://rpc.example', status: 502 }));
+
+            const results = await simulateTransactionSteps(publicClient, userAddress, [mintStep]);
+
+            expect(results[0].status).toBe('unavailable');
+        });
+
+        it('should skip every step when simulation is disabled', async () => {
+            const results = await simulateTransactionSteps(publicClient, userAddress, [mintStep], { skip: true });
+
+            expect(mockCall).not.toHaveBeenCalled();
+            expect(results[0].status).toBe('skipped');
+        });
+    });
+
+    describe('isSimulationSkipped', () => {
+        it('should read the skipSimulation query flag', () => {
+            expect(isSimulationSkipped(new URLSearchParams('skipSimulation'))).toBe(true);
+            expect(isSimulationSkipped(new URLSearchParams('skipSimulation=true'))).toBe(true);
+            expect(isSimulationSkipped(new URLSearchParams('skipSimulation=false'))).toBe(false);
+            expect(isSimulationSkipped(new URLSearchParams())).toBe(false);
+        });
+    });
+});
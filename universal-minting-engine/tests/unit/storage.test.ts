@@ -0,0 +1,178 @@
+import axios from 'axios';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { computeCid } from '@/lib/cid';
+import {
+    createFilesystemStorage,
+    createKuboStorage,
+    createPinataStorage,
+    getStorageProvider
+} from '@/lib/storage';
+
+jest.mock('axios');
+
+const mockAxios = axios as unknown as jest.Mock;
+
+describe('Storage Providers', () => {
+    beforeEach(() => {
+        mockAxios.mockReset();
+    });
+
+    describe('createFilesystemStorage', () => {
+        let directory: string;
+
+        beforeEach(async () => {
+            directory = await mkdtemp(path.join(tmpdir(), 'storage-'));
+        });
+
+        afterEach(async () => {
+            await rm(directory, { recursive: true, force: true });
+        });
+
+        it('should store files under their computed CID', async () => {
+            const storage = createFilesystemStorage(directory);
+
+            const cid = await storage.uploadFile(Buffer.from('hello world'), 'hello.txt', 'text/plain');
+
+            expect(cid).toBe('Qmf412jQZiuVUtdgnB36FXFX7xg5V6KEbSJ4dpQuhkLyfD');
+            expect((await readFile(path.join(directory, cid))).toString()).toBe('hello world');
+        });
+
+        it('should return the CID ipfs add would assign', async () => {
+            const content = Buffer.alloc(262144 + 1, 1);
+
+            const cid = await createFilesystemStorage(directory).uploadFile(content, 'large.bin', 'application/octet-stream');
+
+            expect(cid).toBe(computeCid(content));
+        });
+
+        it('should report stored CIDs as pinned', async () => {
+            const storage = createFilesystemStorage(directory);
+            const cid = await storage.uploadFile(Buffer.from('hello world'), 'hello.txt', 'text/plain');
+
+            expect(await storage.isPinned(cid)).toBe(true);
+            expect(await storage.isPinned('QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH')).toBe(false);
+        });
+
+        it('should unpin by deleting the stored file', async () => {
+            const storage = createFilesystemStorage(directory);
+            const cid = await storage.uploadFile(Buffer.from('hello world'), 'hello.txt', 'text/plain');
+
+            await storage.unpin(cid);
+            await storage.unpin(cid);
+
+            expect(await storage.isPinned(cid)).toBe(false);
+        });
+    });
+
+    describe('createKuboStorage', () => {
+        it('should add and pin content through the node HTTP API', async () => {
+            mockAxios.mockResolvedValue({ data: { Name: 'nft.png', Hash: 'QmKubo', Size: '12' } });
+
+            const cid = await createKuboStorage('http://127.0.0.1:5001/')
+                .uploadFile(Buffer.from('image'), 'nft.png', 'image/png');
+
+            expect(cid).toBe('QmKubo');
+            expect(mockAxios).toHaveBeenCalledWith('http://127.0.0.1:5001/api/v0/add', expect.objectContaining({
+                method: 'POST',
+                params: { 'cid-version': 0, pin: true }
+            }));
+        });
+
+        it('should check pins with pin/ls', async () => {
+            const storage = createKuboStorage('http://127.0.0.1:5001');
+
+            mockAxios.mockResolvedValueOnce({ status: 200, data: { Keys: { QmKubo: { Type: 'recursive' } } } });
+            expect(await storage.isPinned('QmKubo')).toBe(true);
+
+            mockAxios.mockResolvedValueOnce({ status: 500, data: { Message: 'path \'QmKubo\' is not pinned' } });
+            expect(await storage.isPinned('QmKubo')).toBe(false);
+
+            mockAxios.mockResolvedValueOnce({ status: 500, data: { Message: 'context deadline exceeded' } });
+            await expect(storage.isPinned('QmKubo')).rejects.toThrow('context deadline exceeded');
+        });
+
+        it('should unpin with pin/rm', async () => {
+            mockAxios.mockResolvedValue({ status: 200, data: { Pins: ['QmKubo'] } });
+
+            await createKuboStorage('http://127.0.0.1:5001').unpin('QmKubo');
+
+            expect(mockAxios).toHaveBeenCalledWith('http://127.0.0.1:5001/api/v0/pin/rm', expect.objectContaining({
+                method: 'POST',
+                params: { arg: 'QmKubo' }
+            }));
+        });
+    });
+
+    describe('createPinataStorage', () => {
+        it('should pin files with the JWT', async () => {
+            mockAxios.mockResolvedValue({ data: { IpfsHash: 'QmPinata' } });
+
+            const cid = await createPinataStorage('jwt-token')
+                .uploadFile(Buffer.from('{"name":"NFT"}'), 'nft-metadata.json', 'application/json');
+
+            expect(cid).toBe('QmPinata');
+            expect(mockAxios).toHaveBeenCalledWith('https://api.pinata.cloud/pinning/pinFileToIPFS', expect.objectContaining({
+                method: 'POST'
+            }));
+            expect(mockAxios.mock.calls[0][1].headers.Authorization).toBe('Bearer jwt-token');
+        });
+
+        it('should check pins through the pin list', async () => {
+            mockAxios.mockResolvedValueOnce({ data: { count: 1, rows: [{ ipfs_pin_hash: 'QmPinata' }] } });
+            expect(await createPinataStorage('jwt-token').isPinned('QmPinata')).toBe(true);
+            expect(mockAxios).toHaveBeenCalledWith('https://api.pinata.cloud/data/pinList', expect.objectContaining({
+                params: { hashContains: 'QmPinata', status: 'pinned', pageLimit: 10 }
+            }));
+
+            mockAxios.mockResolvedValueOnce({ data: { count: 0, rows: [] } });
+            expect(await createPinataStorage('jwt-token').isPinned('QmPinata')).toBe(false);
+        });
+
+        it('should not take other pins in the list for the CID', async () => {
+            mockAxios.mockResolvedValueOnce({ data: { count: 1, rows: [{ ipfs_pin_hash: 'QmPinataOther' }] } });
+
+            expect(await createPinataStorage('jwt-token').isPinned('QmPinata')).toBe(false);
+        });
+
+        it('should unpin through the unpin endpoint', async () => {
+            mockAxios.mockResolvedValue({ data: 'OK' });
+
+            await createPinataStorage('jwt-token').unpin('QmPinata');
+
+            expect(mockAxios).toHaveBeenCalledWith('https://api.pinata.cloud/pinning/unpin/QmPinata', expect.objectContaining({
+                method: 'DELETE'
+            }));
+        });
+
+        it('should require PINATA_JWT', async () => {
+            await expect(createPinataStorage(undefined).uploadFile(Buffer.from('{}'), 'metadata.json', 'application/json'))
+                .rejects.toThrow('PINATA_JWT environment variable is required');
+            expect(mockAxios).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getStorageProvider', () => {
+        afterEach(() => {
+            delete process.env.STORAGE_PROVIDER;
+        });
+
+        it('should default to Pinata', () => {
+            expect(getStorageProvider().name).toBe('pinata');
+        });
+
+        it('should select the provider named by STORAGE_PROVIDER', () => {
+            process.env.STORAGE_PROVIDER = 'filesystem';
+            expect(getStorageProvider().name).toBe('filesystem');
+
+            process.env.STORAGE_PROVIDER = 'kubo';
+            expect(getStorageProvider().name).toBe('kubo');
+        });
+
+        it('should reject unknown providers', () => {
+            process.env.STORAGE_PROVIDER = 's3';
+            expect(() => getStorageProvider()).toThrow('Invalid storage provider: s3');
+        });
+    });
+});
@@ -0,0 +1,106 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PublicClient } from 'viem';
+import { getContractEnvVar, getStoryContracts, getStoryDeploymentBlock } from '@/lib/story-contracts';
+
+describe('Story Contracts Registry', () => {
+    const originalEnv = process.env;
+    let configDir: string;
+
+    beforeEach(() => {
+        process.env = { ...originalEnv };
+        configDir = mkdtempSync(join(tmpdir(), 'story-contracts-'));
+    });
+
+    afterEach(() => {
+        process.env = originalEnv;
+        rmSync(configDir, { recursive: true, force: true });
+    });
+
+    const writeConfig = (config: object) => {
+        const configPath = join(configDir, 'story-contracts.json');
+        writeFileSync(configPath, JSON.stringify(config));
+        process.env.STORY_CONTRACTS_CONFIG = configPath;
+    };
+
+    it('should resolve the built-in deployment for the configured network', () => {
+        const contracts = getStoryContracts();
+
+        expect(contracts.registrationWorkflows).toBe('0xbe39E1C756e921BD25DF86e7AAa31106d1eb0424');
+        expect(contracts.wip).toBe('0x1514000000000000000000000000000000000000');
+    });
+
+    it('should name override variables after the contract', () => {
+        expect(getContractEnvVar('registrationWorkflows')).toBe('STORY_REGISTRATION_WORKFLOWS_ADDRESS');
+        expect(getContractEnvVar('piLicenseTemplate')).toBe('STORY_PI_LICENSE_TEMPLATE_ADDRESS');
+        expect(getContractEnvVar('wip')).toBe('STORY_WIP_ADDRESS');
+    });
+
+    it('should apply per-network overrides from the config file', () => {
+        writeConfig({
+            aeneid: { licensingModule: '0x1111111111111111111111111111111111111111' },
+            mainnet: { licensingModule: '0x2222222222222222222222222222222222222222' }
+        });
+
+        expect(getStoryContracts('aeneid').licensingModule).toBe('0x1111111111111111111111111111111111111111');
+        expect(getStoryContracts('mainnet').licensingModule).toBe('0x2222222222222222222222222222222222222222');
+        expect(getStoryContracts('aeneid').royaltyModule).toBe('0xD2f60c40fEbccf6311f8B47c4f2Ec6b040400086');
+    });
+
+    it('should prefer environment variables over the config file', () => {
+        writeConfig({ aeneid: { disputeModule: '0x1111111111111111111111111111111111111111' } });
+        process.env.STORY_DISPUTE_MODULE_ADDRESS = '0x3333333333333333333333333333333333333333';
+
+        expect(getStoryContracts('aeneid').disputeModule).toBe('0x3333333333333333333333333333333333333333');
+    });
+
+    it('should reject invalid override addresses', () => {
+        process.env.STORY_ROYALTY_MODULE_ADDRESS = 'not-an-address';
+
+        expect(() => getStoryContracts('aeneid')).toThrow('Invalid royaltyModule address in STORY_ROYALTY_MODULE_ADDRESS');
+    });
+
+    describe('getStoryDeploymentBlock', () => {
+        // A chain where the contract at the address has code from the deployment block
+        const mockClient = (head: number, deploymentBlock: number) => ({
+            getBlockNumber: jest.fn().mockResolvedValue(BigInt(head)),
+            getCode: jest.fn(async ({ blockNumber }) => blockNumber >= BigInt(deploymentBlock) ? '0x6080' : '0x')
+        }) as unknown as PublicClient & { getCode: jest.Mock };
+
+        it('should find the first block where the IPAssetRegistry has code, once', async () => {
+            process.env.STORY_IP_ASSET_REGISTRY_ADDRESS = '0x4444444444444444444444444444444444444444';
+            const client = mockClient(1000000, 654321);
+
+            expect(await getStoryDeploymentBlock(client, 'aeneid')).toBe(BigInt(654321));
+            expect(client.getCode.mock.calls.length).toBeLessThanOrEqual(22);
+            expect(await getStoryDeploymentBlock(client, 'aeneid')).toBe(BigInt(654321));
+            expect(client.getCode.mock.calls.length).toBeLessThanOrEqual(22);
+        });
+
+        it('should prefer the deployment block of the config file', async () => {
+            writeConfig({ aeneid: { deploymentBlock: 1234 } });
+            const client = mockClient(1000000, 654321);
+
+            expect(await getStoryDeploymentBlock(client, 'aeneid')).toBe(BigInt(1234));
+            expect(client.getCode).not.toHaveBeenCalled();
+        });
+
+        it('should start from block 0 when historical state is unavailable', async () => {
+            process.env.STORY_IP_ASSET_REGISTRY_ADDRESS = '0x5555555555555555555555555555555555555555';
+            const client = mockClient(1000000, 654321);
+            client.getCode.mockRejectedValue(new Error('missing trie node'));
+            jest.spyOn(console, 'warn').mockImplementation(() => { });
+
+            expect(await getStoryDeploymentBlock(client, 'aeneid')).toBe(BigInt(0));
+
+            jest.restoreAllMocks();
+        });
+    });
+
+    it('should report unreadable config files', () => {
+        process.env.STORY_CONTRACTS_CONFIG = join(configDir, 'missing.json');
+
+        expect(() => getStoryContracts('aeneid')).toThrow('Failed to read Story contracts config');
+    });
+});
@@ -0,0 +1,111 @@
+import { sanitizeSvg, SvgParseError } from '@/lib/svg-sanitizer';
+
+const svg = (body: string, attributes = '') =>
+    `<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"${attributes}>${body}</svg>`;
+
+describe('SVG Sanitizer', () => {
+    it('should leave safe documents byte for byte', () => {
+        const safe = svg(
+            '<defs><linearGradient id="g"><stop offset="0" stop-color="#fff"/></linearGradient></defs>' +
+            '<!-- artwork --><rect width="10" height="10" fill="url(#g)"/><use xlink:href="#g"/>' +
+            '<image href="data:image/png;base64,iVBORw0KGgo="/><style><![CDATA[rect { fill: url(\'#g\'); }]]></style>'
+        );
+
+        expect(sanitizeSvg(safe)).toEqual({ svg: safe, removed: [] });
+    });
+
+    it('should remove scripts and foreignObject with everything inside them', () => {
+        const result = sanitizeSvg(svg('<script>alert(1)</script><rect/><foreignObject><div onclick="x()"><script>y()</script></div></foreignObject>'));
+
+        expect(result.svg).toBe(svg('<rect/>'));
+        expect(result.removed).toEqual(['<script> element', '<foreignObject> element']);
+    });
+
+    it('should remove event handler attributes and keep the rest of the element', () => {
+        const result = sanitizeSvg(svg('<rect width="10" onmouseover=\'steal()\' height="10"/>', ' onload="boot()"'));
+
+        expect(result.svg).toBe(svg('<rect width="10" height="10"/>'));
+        expect(result.removed).toEqual(['onload attribute on <svg>', 'onmouseover attribute on <rect>']);
+    });
+
+    it('should remove external and script hrefs, however they are encoded', () => {
+        const result = sanitizeSvg(svg(
+            '<image href="https://tracker.example.com/pixel.png"/>' +
+            '<a xlink:href="&#106;ava&#x09;script:alert(1)"><text>x</text></a>' +
+            '<image href="data:image/svg+xml;base64,PHN2Zy8+"/>'
+        ));
+
+        expect(result.svg).toBe(svg('<image/><a><text>x</text></a><image/>'));
+        expect(result.removed).toEqual([
+            'external href="https://tracker.example.com/pixel.png" on <image>',
+            'external xlink:href="&#106;ava&#x09;script:alert(1)" on <a>',
+            'external href="data:image/svg+xml;base64,PHN2Zy8+" on <image>'
+        ]);
+    });
+
+    it('should remove external CSS references and stylesheet processing instructions', () => {
+        const result = sanitizeSvg(
+            '<?xml-stylesheet href="https://example.com/x.css"?>' +
+            svg('<style>@import url(https://example.com/x.css);</style><rect style="fill: url( https://example.com/p.svg#p)"/>')
+        );
+
+        expect(result.svg).toBe(svg('<rect/>'));
+        expect(result.removed).toEqual([
+            '<?xml-stylesheet?> processing instruction',
+            '<style> element with external references',
+            'external url() in style on <rect>'
+        ]);
+    });
+
+    it('should remove elements outside the SVG namespace or the allowlist', () => {
+        const result = sanitizeSvg(svg(
+            '<iframe xmlns="http://www.w3.org/1999/xhtml" srcdoc="&lt;script&gt;alert(1)&lt;/script&gt;"></iframe>' +
+            '<embed xmlns="http://www.w3.org/1999/xhtml" src="https://evil.example/x.swf"/>' +
+            '<a xmlns="http://www.w3.org/1999/xhtml" href="#g">x</a><x:rect xmlns:x="urn:other"/><handler/><rect/>'
+        ));
+
+        expect(result.svg).toBe(svg('<rect/>'));
+        expect(result.removed).toEqual(['<iframe> element', '<embed> element', '<a> element', '<x:rect> element', '<handler> element']);
+    });
+
+    it('should treat src, srcdoc, data, action and formaction like href and drop unknown attributes', () => {
+        const result = sanitizeSvg(svg('<rect src="https://evil.example/x" data="x.svg" formaction="https://evil.example" inkscape:label="x" xml:space="preserve" mystery="1"/>'));
+
+        expect(result.svg).toBe(svg('<rect xml:space="preserve"/>'));
+        expect(result.removed).toEqual([
+            'external src="https://evil.example/x" on <rect>',
+            'external data="x.svg" on <rect>',
+            'external formaction="https://evil.example" on <rect>',
+            'inkscape:label attribute on <rect>',
+            'mystery attribute on <rect>'
+        ]);
+    });
+
+    it('should decode CSS escapes and entities before looking for url() and @import', () => {
+        const result = sanitizeSvg(svg(
+            '<style>@\\69mport "https://evil/x.css";</style><style>&#64;import "https://evil/y.css";</style>' +
+            '<rect style="fill:\\75rl(https://evil/track)"/>'
+        ));
+
+        expect(result.svg).toBe(svg('<rect/>'));
+        expect(result.removed).toEqual([
+            '<style> element with external references',
+            '<style> element with external references',
+            'external url() in style on <rect>'
+        ]);
+    });
+
+    it('should remove animations that set hrefs or event handlers', () => {
+        const result = sanitizeSvg(svg('<a><set attributeName="href" to="javascript:alert(1)"/><animate attributeName="x" values="0;1"/></a>'));
+
+        expect(result.svg).toBe(svg('<a><animate attributeName="x" values="0;1"/></a>'));
+        expect(result.removed).toEqual(['<set> element']);
+    });
+
+    it('should refuse malformed documents and internal DTD subsets', () => {
+        expect(() => sanitizeSvg('<svg><g></svg>')).toThrow(SvgParseError);
+        expect(() => sanitizeSvg('<svg><rect width=10/></svg>')).toThrow('Invalid attribute in <rect>');
+        expect(() => sanitizeSvg('<svg><script>')).toThrow('Unclosed element <script>');
+        expect(() => sanitizeSvg('<!DOCTYPE svg [<!ENTITY x "y">]><svg>&x;</svg>')).toThrow('internal subset');
+    });
+});
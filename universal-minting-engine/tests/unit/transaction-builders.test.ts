@@ -0,0 +1,668 @@
+import { convertHashIPFStoCID } from '@story-protocol/core-sdk';
+import {
+    BaseError,
+    decodeAbiParameters,
+    decodeFunctionData,
+    encodeEventTopics,
+    erc20Abi,
+    ExecutionRevertedError,
+    getContractAddress,
+    hexToString,
+    HttpRequestError,
+    Log
+} from 'viem';
+import { createPublicClient } from '@/lib/config';
+import { SimulationRevertedError } from '@/lib/simulation';
+import {
+    derivativeWorkflowsAbi,
+    disputeModuleAbi,
+    ipAccountImplAbi,
+    licenseAttachmentWorkflowsAbi,
+    licensingModuleAbi,
+    registrationWorkflowsAbi,
+    royaltyModuleAbi,
+    royaltyWorkflowsAbi,
+    workflowsMulticallAbi
+} from '@/lib/story-abis';
+import {
+    buildBatchMintTransactions,
+    buildCreateCollectionTransaction,
+    buildMintLicenseTransaction,
+    buildRaiseDisputeTransaction,
+    buildRegisterDerivativeTransaction,
+    buildRegisterIpAssetTransaction,
+    buildRoyaltyTransaction,
+    getCollectionAddressFromReceipt,
+    prepareRaiseDisputeParams,
+    prepareRegisterDerivativeParams
+} from '@/lib/transaction-builders';
+import {
+    PrepareCollectionRequest,
+    PrepareDerivativeRequest,
+    PrepareDisputeRequest,
+    PrepareLicenseRequest,
+    PrepareRoyaltyRequest,
+    PrepareTransactionRequest
+} from '@/types';
+
+jest.mock('@/lib/config', () => ({
+    ...jest.requireActual('@/lib/config'),
+    createPublicClient: jest.fn()
+}));
+
+const mockEstimateGas = jest.fn();
+const mockReadContract = jest.fn();
+const mockGetTransactionCount = jest.fn();
+
+const userAddress = '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6';
+const ipMetadataHash = 'a'.repeat(64);
+const nftMetadataHash = 'b'.repeat(64);
+
+const derivativeRequest: PrepareDerivativeRequest = {
+    userAddress,
+    parentIpIds: ['0x1234567890123456789012345678901234567890'],
+    licenseTermsIds: [7],
+    ipMetadata: {
+        title: 'Derivative',
+        description: 'A derivative work',
+        ipType: 'derivative',
+        relationships: [],
+        createdAt: '2024-01-01T00:00:00.000Z'
+    }
+};
+
+const ipfsHashes = {
+    ipMetadataHash,
+    ipMetadataURI: 'https://gateway.pinata.cloud/ipfs/QmIp',
+    nftMetadataHash,
+    nftMetadataURI: 'https://gateway.pinata.cloud/ipfs/QmNft'
+};
+
+describe('Transaction Builders', () => {
+    beforeEach(() => {
+        mockEstimateGas.mockReset();
+        mockReadContract.mockReset();
+        mockGetTransactionCount.mockReset();
+        (createPublicClient as jest.Mock).mockReturnValue({
+            estimateGas: mockEstimateGas,
+            readContract: mockReadContract,
+            getTransactionCount: mockGetTransactionCount
+        });
+    });
+
+    describe('buildRegisterIpAssetTransaction', () => {
+        const mintRequest: PrepareTransactionRequest = {
+            userAddress,
+            ipMetadata: derivativeRequest.ipMetadata,
+            nftMetadata: { name: 'NFT', description: 'An NFT', image: 'https://example.com/nft.png' }
+        };
+
+        it('should send mintAndRegisterIp to RegistrationWorkflows', async () => {
+            mockEstimateGas.mockResolvedValue(BigInt(100000));
+
+            const transaction = await buildRegisterIpAssetTransaction(mintRequest, ipfsHashes);
+            const decoded = decodeFunctionData({
+                abi: registrationWorkflowsAbi,
+                data: transaction.data as `0x${string}`
+            });
+
+            expect(transaction.to).toBe('0xbe39E1C756e921BD25DF86e7AAa31106d1eb0424');
+            expect(decoded.functionName).toBe('mintAndRegisterIp');
+            expect(decoded.args[0]).toBe('0xc32A8a0FF3beDDDa58393d022aF433e78739FAbc');
+            expect(transaction.gasEstimate).toBe('120000');
+        });
+
+        it('should report a revert found while estimating gas', async () => {
+            mockEstimateGas.mockRejectedValue(new BaseError('Execution reverted', { cause: new ExecutionRevertedError() }));
+
+            const error = await buildRegisterIpAssetTransaction(mintRequest, ipfsHashes).catch(caught => caught);
+
+            expect(error).toBeInstanceOf(SimulationRevertedError);
+            expect(error).toMatchObject({ step: 1, revert: { errorName: 'ExecutionReverted' } });
+        });
+
+        it('should fall back to a default gas limit when estimation is unavailable', async () => {
+            jest.spyOn(console, 'warn').mockImplementation(() => { });
+            mockEstimateGas.mockRejectedValue(new HttpRequestError({ url: 'https://rpc.example', status: 502 }));
+
+            expect((await buildRegisterIpAssetTransaction(mintRequest, ipfsHashes)).gasEstimate).toBe('500000');
+            jest.restoreAllMocks();
+        });
+
+        it('should attach PIL terms when license terms are requested', async () => {
+            mockEstimateGas.mockResolvedValue(BigInt(100000));
+            mockReadContract.mockImplementation(({ functionName }: { functionName: string }) =>
+                Promise.resolve(functionName === 'getLicenseTermsId' ? BigInt(0) : BigInt(41))
+            );
+
+            const transaction = await buildRegisterIpAssetTransaction({
+                ...mintRequest,
+                licenseTerms: { commercialUse: true, commercialRevShare: 10, defaultMintingFee: '1' }
+            }, ipfsHashes);
+            const decoded = decodeFunctionData({
+                abi: licenseAttachmentWorkflowsAbi,
+                data: transaction.data as `0x${string}`
+            });
+            const [, recipient, , licenseTermsData] = decoded.args;
+
+            expect(transaction.to).toBe('0xcC2E862bCee5B6036Db0de6E06Ae87e524a79fd8');
+            expect(decoded.functionName).toBe('mintAndRegisterIpAndAttachPILTerms');
+            expect(recipient.toLowerCase()).toBe(userAddress.toLowerCase());
+            expect(licenseTermsData).toHaveLength(1);
+            expect(licenseTermsData[0].terms.commercialUse).toBe(true);
+            expect(licenseTermsData[0].terms.commercialRevShare).toBe(10_000_000);
+            expect(licenseTermsData[0].licensingConfig.isSet).toBe(false);
+            expect(transaction.licenseTerms).toEqual([{ licenseTermsId: '42', reused: false }]);
+        });
+
+        it('should report reused license terms IDs', async () => {
+            mockEstimateGas.mockResolvedValue(BigInt(100000));
+            mockReadContract.mockImplementation(({ functionName }: { functionName: string }) =>
+                Promise.resolve(functionName === 'getLicenseTermsId' ? BigInt(7) : BigInt(41))
+            );
+
+            const transaction = await buildRegisterIpAssetTransaction({
+                ...mintRequest,
+                licenseTerms: { commercialUse: false }
+            }, ipfsHashes);
+
+            expect(transaction.licenseTerms).toEqual([{ licenseTermsId: '7', reused: true }]);
+        });
+
+        it('should reject illegal license terms before encoding', async () => {
+            await expect(buildRegisterIpAssetTransaction({
+                ...mintRequest,
+                licenseTerms: { commercialUse: false, commercialRevShare: 10 }
+            }, ipfsHashes)).rejects.toThrow('commercialRevShare: Cannot be set when commercial use is disabled');
+            expect(mockEstimateGas).not.toHaveBeenCalled();
+        });
+
+        it('should not attach terms or query the template without license terms', async () => {
+            mockEstimateGas.mockResolvedValue(BigInt(100000));
+
+            const transaction = await buildRegisterIpAssetTransaction(mintRequest, ipfsHashes);
+
+            expect(transaction.licenseTerms).toEqual([]);
+            expect(mockReadContract).not.toHaveBeenCalled();
+        });
+
+        it('should resolve the workflows address from the contract registry', async () => {
+            const override = '0x7777777777777777777777777777777777777777';
+            process.env.STORY_REGISTRATION_WORKFLOWS_ADDRESS = override;
+            mockEstimateGas.mockResolvedValue(BigInt(100000));
+
+            try {
+                const transaction = await buildRegisterIpAssetTransaction(mintRequest, ipfsHashes);
+                expect(transaction.to).toBe(override);
+            } finally {
+                delete process.env.STORY_REGISTRATION_WORKFLOWS_ADDRESS;
+            }
+        });
+    });
+
+    describe('buildBatchMintTransactions', () => {
+        const batchItem = (index: number, licenseTerms?: PrepareTransactionRequest['licenseTerms']) => ({
+            index,
+            request: {
+                userAddress,
+                ipMetadata: derivativeRequest.ipMetadata,
+                nftMetadata: { name: `NFT ${index}`, description: 'An NFT', image: 'https://example.com/nft.png' },
+                ...(licenseTerms && { licenseTerms })
+            },
+            ipfsHashes
+        });
+
+        beforeEach(() => {
+            mockEstimateGas.mockResolvedValue(BigInt(100000));
+            mockReadContract.mockImplementation(({ functionName, args }: { functionName: string; args?: unknown[] }) => {
+                if (functionName === 'totalSupply') {
+                    return Promise.resolve(BigInt(9));
+                }
+                if (functionName === 'ipId') {
+                    return Promise.resolve(`0x${(args![2] as bigint).toString(16).padStart(40, '0')}`);
+                }
+                return Promise.resolve(functionName === 'getLicenseTermsId' ? BigInt(0) : BigInt(41));
+            });
+        });
+
+        it('should pack the mints into one RegistrationWorkflows multicall', async () => {
+            const { transactions, slots } = await buildBatchMintTransactions(userAddress, [batchItem(0), batchItem(2)]);
+            const decoded = decodeFunctionData({
+                abi: workflowsMulticallAbi,
+                data: transactions[0].data as `0x${string}`
+            });
+            const calls = decoded.args[0].map(data => decodeFunctionData({ abi: registrationWorkflowsAbi, data }));
+
+            expect(transactions).toHaveLength(1);
+            expect(transactions[0].to).toBe('0xbe39E1C756e921BD25DF86e7AAa31106d1eb0424');
+            expect(transactions[0].gasEstimate).toBe('240000');
+            expect(calls.map(call => call.functionName)).toEqual(['mintAndRegisterIp', 'mintAndRegisterIp']);
+            expect(slots).toEqual([
+                expect.objectContaining({ index: 0, transaction: 1, call: 0, tokenId: '10', ipId: `0x${'a'.padStart(40, '0')}` }),
+                expect.objectContaining({ index: 2, transaction: 1, call: 1, tokenId: '11', ipId: `0x${'b'.padStart(40, '0')}` })
+            ]);
+        });
+
+        it('should split the batch by workflow contract and gas budget', async () => {
+            const { transactions, slots } = await buildBatchMintTransactions(userAddress, [
+                batchItem(0),
+                batchItem(1, { commercialUse: false }),
+                batchItem(2),
+                batchItem(3)
+            ], 250000);
+
+            expect(transactions.map(transaction => transaction.to)).toEqual([
+                '0xbe39E1C756e921BD25DF86e7AAa31106d1eb0424',
+                '0xbe39E1C756e921BD25DF86e7AAa31106d1eb0424',
+                '0xcC2E862bCee5B6036Db0de6E06Ae87e524a79fd8'
+            ]);
+            expect(transactions.map(transaction => transaction.step)).toEqual([1, 2, 3]);
+            // A chunk of one mint calls the workflow directly instead of through multicall
+            expect(decodeFunctionData({
+                abi: licenseAttachmentWorkflowsAbi,
+                data: transactions[2].data as `0x${string}`
+            }).functionName).toBe('mintAndRegisterIpAndAttachPILTerms');
+            expect(slots.map(slot => [slot.index, slot.transaction, slot.tokenId])).toEqual([
+                [0, 1, '10'], [1, 3, '13'], [2, 1, '11'], [3, 2, '12']
+            ]);
+            expect(slots[1].licenseTerms).toEqual([{ licenseTermsId: '42', reused: false }]);
+        });
+
+        it('should leave token IDs and ipIds unset when the collection cannot be read', async () => {
+            mockReadContract.mockRejectedValue(new Error('RPC unavailable'));
+            jest.spyOn(console, 'warn').mockImplementation(() => { });
+
+            const { slots } = await buildBatchMintTransactions(userAddress, [batchItem(0)]);
+
+            expect(slots[0]).toMatchObject({ tokenId: null, ipId: null });
+            jest.restoreAllMocks();
+        });
+    });
+
+    describe('prepareRegisterDerivativeParams', () => {
+        it('should apply derivative limits defaults', () => {
+            const params = prepareRegisterDerivativeParams(derivativeRequest, ipfsHashes);
+
+            expect(params.derivData.licenseTermsIds).toEqual([BigInt(7)]);
+            expect(params.derivData.maxMintingFee).toBe(BigInt(0));
+            expect(params.derivData.maxRts).toBe(100_000_000);
+            expect(params.derivData.maxRevenueShare).toBe(100_000_000);
+            expect(params.ipMetadata.ipMetadataHash).toBe(`0x${ipMetadataHash}`);
+        });
+
+        it('should convert caller supplied limits to on-chain units', () => {
+            const params = prepareRegisterDerivativeParams({
+                ...derivativeRequest,
+                maxMintingFee: '1000',
+                maxRts: 50_000_000,
+                maxRevenueShare: 12.5
+            }, ipfsHashes);
+
+            expect(params.derivData.maxMintingFee).toBe(BigInt(1000));
+            expect(params.derivData.maxRts).toBe(50_000_000);
+            expect(params.derivData.maxRevenueShare).toBe(12_500_000);
+        });
+    });
+
+    describe('buildRegisterDerivativeTransaction', () => {
+        it('should encode mintAndRegisterIpAndMakeDerivative with derivData', async () => {
+            mockEstimateGas.mockResolvedValue(BigInt(100000));
+
+            const transaction = await buildRegisterDerivativeTransaction(derivativeRequest, ipfsHashes);
+            const decoded = decodeFunctionData({
+                abi: derivativeWorkflowsAbi,
+                data: transaction.data as `0x${string}`
+            });
+
+            expect(decoded.functionName).toBe('mintAndRegisterIpAndMakeDerivative');
+            const [spgNftContract, derivData, ipMetadata, recipient, allowDuplicates] = decoded.args;
+            expect(spgNftContract).toBe('0xc32A8a0FF3beDDDa58393d022aF433e78739FAbc');
+            expect(derivData.parentIpIds).toEqual(derivativeRequest.parentIpIds);
+            expect(derivData.licenseTermsIds).toEqual([BigInt(7)]);
+            expect(ipMetadata.nftMetadataURI).toBe(ipfsHashes.nftMetadataURI);
+            expect(recipient.toLowerCase()).toBe(userAddress.toLowerCase());
+            expect(allowDuplicates).toBe(true);
+        });
+
+        it('should estimate gas against the caller address with a 20% buffer', async () => {
+            mockEstimateGas.mockResolvedValue(BigInt(100000));
+
+            const transaction = await buildRegisterDerivativeTransaction(derivativeRequest, ipfsHashes);
+
+            expect(mockEstimateGas.mock.calls[0][0].account.toLowerCase()).toBe(userAddress.toLowerCase());
+            expect(transaction.to).toBe('0x9e2d496f72C547C2C535B167e06ED8729B374a4f');
+            expect(transaction.gasEstimate).toBe('120000');
+        });
+    });
+
+    describe('buildMintLicenseTransaction', () => {
+        const licenseRequest: PrepareLicenseRequest = {
+            userAddress,
+            licensorIpId: '0x1234567890123456789012345678901234567890',
+            licenseTermsId: 3,
+            amount: 2
+        };
+        const wipToken = '0x1514000000000000000000000000000000000000';
+
+        const mockChainState = (feeAmount: bigint, allowance: bigint) => {
+            mockReadContract.mockImplementation(({ functionName }: { functionName: string }) => {
+                if (functionName === 'predictMintingLicenseFee') {
+                    return Promise.resolve([wipToken, feeAmount]);
+                }
+                return Promise.resolve(allowance);
+            });
+            mockEstimateGas.mockResolvedValue(BigInt(50000));
+        };
+
+        it('should prepend an approval for the RoyaltyModule when the fee is not covered', async () => {
+            mockChainState(BigInt(2000), BigInt(0));
+
+            const { transactions, mintingFee } = await buildMintLicenseTransaction(licenseRequest);
+
+            expect(mintingFee).toEqual({ currencyToken: wipToken, amount: '2000' });
+            expect(transactions).toHaveLength(2);
+            expect(transactions.map(tx => tx.step)).toEqual([1, 2]);
+
+            const approval = decodeFunctionData({ abi: erc20Abi, data: transactions[0].data as `0x${string}` });
+            expect(transactions[0].to).toBe(wipToken);
+            expect(approval.functionName).toBe('approve');
+            expect(approval.args).toEqual(['0xD2f60c40fEbccf6311f8B47c4f2Ec6b040400086', BigInt(2000)]);
+        });
+
+        it('should encode mintLicenseTokens capped at the quoted fee', async () => {
+            mockChainState(BigInt(2000), BigInt(0));
+
+            const { transactions } = await buildMintLicenseTransaction(licenseRequest);
+            const mint = transactions[transactions.length - 1];
+            const decoded = decodeFunctionData({ abi: licensingModuleAbi, data: mint.data as `0x${string}` });
+
+            expect(mint.to).toBe('0x04fbd8a2e56dd85CFD5500A4A4DfA955B9f1dE6f');
+            expect(decoded.functionName).toBe('mintLicenseTokens');
+            const [licensorIpId, , licenseTermsId, amount, receiver, , maxMintingFee, maxRevenueShare] = decoded.args;
+            expect(licensorIpId).toBe(licenseRequest.licensorIpId);
+            expect(licenseTermsId).toBe(BigInt(3));
+            expect(amount).toBe(BigInt(2));
+            expect(receiver.toLowerCase()).toBe(userAddress.toLowerCase());
+            expect(maxMintingFee).toBe(BigInt(2000));
+            expect(maxRevenueShare).toBe(100_000_000);
+        });
+
+        it('should skip the approval when the allowance already covers the fee', async () => {
+            mockChainState(BigInt(2000), BigInt(5000));
+
+            const { transactions } = await buildMintLicenseTransaction(licenseRequest);
+
+            expect(transactions).toHaveLength(1);
+            expect(transactions[0].gasEstimate).toBe('60000');
+        });
+    });
+
+    describe('buildRoyaltyTransaction', () => {
+        const ipId = '0x1234567890123456789012345678901234567890';
+        const wipToken = '0x1514000000000000000000000000000000000000';
+        const royaltyVault = '0x2222222222222222222222222222222222222222';
+        const recipient = '0x3333333333333333333333333333333333333333';
+
+        beforeEach(() => {
+            mockEstimateGas.mockResolvedValue(BigInt(50000));
+        });
+
+        it('should approve the RoyaltyModule before paying on behalf', async () => {
+            mockReadContract.mockResolvedValue(BigInt(0));
+
+            const request: PrepareRoyaltyRequest = {
+                userAddress,
+                operation: 'pay',
+                ipId,
+                amount: '1000',
+                token: wipToken
+            };
+            const { transactions } = await buildRoyaltyTransaction(request);
+
+            expect(transactions).toHaveLength(2);
+            expect(transactions[0].preview).toEqual({
+                contract: 'ERC20',
+                functionName: 'approve',
+                args: { spender: '0xD2f60c40fEbccf6311f8B47c4f2Ec6b040400086', amount: '1000' }
+            });
+
+            const pay = decodeFunctionData({ abi: royaltyModuleAbi, data: transactions[1].data as `0x${string}` });
+            expect(transactions[1].to).toBe('0xD2f60c40fEbccf6311f8B47c4f2Ec6b040400086');
+            expect(transactions[1].value).toBe('0');
+            expect(pay.functionName).toBe('payRoyaltyOnBehalf');
+            expect(pay.args).toEqual([ipId, '0x0000000000000000000000000000000000000000', wipToken, BigInt(1000)]);
+            expect(transactions[1].preview?.args.amount).toBe('1000');
+        });
+
+        it('should encode claimAllRevenue across the child vaults', async () => {
+            const childIpId = '0x4444444444444444444444444444444444444444';
+            const request: PrepareRoyaltyRequest = {
+                userAddress,
+                operation: 'claim',
+                ipId,
+                currencyTokens: [wipToken],
+                childIpIds: [childIpId]
+            };
+            const { transactions } = await buildRoyaltyTransaction(request);
+
+            expect(transactions).toHaveLength(1);
+            expect(transactions[0].to).toBe('0x9515faE61E0c0447C6AC6dEe5628A2097aFE1890');
+
+            const claim = decodeFunctionData({ abi: royaltyWorkflowsAbi, data: transactions[0].data as `0x${string}` });
+            expect(claim.functionName).toBe('claimAllRevenue');
+            expect(claim.args).toEqual([
+                ipId,
+                ipId,
+                [childIpId],
+                ['0xBe54FB168b3c982b7AaE60dB6CF75Bd8447b390E'],
+                [wipToken]
+            ]);
+            expect(transactions[0].preview?.args.claimer).toBe(ipId);
+        });
+
+        it('should move royalty tokens out of the IP account through execute', async () => {
+            mockReadContract.mockResolvedValue(royaltyVault);
+
+            const request: PrepareRoyaltyRequest = {
+                userAddress,
+                operation: 'transfer',
+                ipId,
+                amount: '500',
+                recipient
+            };
+            const result = await buildRoyaltyTransaction(request);
+            const [transaction] = result.transactions;
+
+            expect(result.royaltyVault).toBe(royaltyVault);
+            expect(transaction.to).toBe(ipId);
+
+            const execute = decodeFunctionData({ abi: ipAccountImplAbi, data: transaction.data as `0x${string}` });
+            const [to, value, innerData] = execute.args;
+            expect(to).toBe(royaltyVault);
+            expect(value).toBe(BigInt(0));
+
+            const transfer = decodeFunctionData({ abi: erc20Abi, data: innerData });
+            expect(transfer.functionName).toBe('transfer');
+            expect(transfer.args).toEqual([recipient, BigInt(500)]);
+            expect(transaction.preview?.args.data).toEqual({
+                contract: 'IpRoyaltyVault',
+                functionName: 'transfer',
+                args: { recipient, amount: '500' }
+            });
+        });
+
+        it('should reject transfers from IPs without a royalty vault', async () => {
+            mockReadContract.mockResolvedValue('0x0000000000000000000000000000000000000000');
+
+            await expect(buildRoyaltyTransaction({
+                userAddress,
+                operation: 'transfer',
+                ipId,
+                amount: '500',
+                recipient
+            })).rejects.toThrow('no royalty vault');
+        });
+    });
+
+    describe('buildCreateCollectionTransaction', () => {
+        const registrationWorkflows = '0xbe39E1C756e921BD25DF86e7AAa31106d1eb0424';
+        const collectionRequest: PrepareCollectionRequest = {
+            userAddress,
+            name: 'Team Collection',
+            symbol: 'TEAM',
+            isPublicMinting: false,
+            mintOpen: true
+        };
+
+        const decodeInitParams = (data: string) => {
+            const decoded = decodeFunctionData({ abi: registrationWorkflowsAbi, data: data as `0x${string}` });
+            if (decoded.functionName !== 'createCollection') {
+                throw new Error(`Unexpected call to ${decoded.functionName}`);
+            }
+            return decoded.args[0];
+        };
+
+        beforeEach(() => {
+            mockEstimateGas.mockResolvedValue(BigInt(500000));
+            mockGetTransactionCount.mockResolvedValue(42);
+        });
+
+        it('should encode createCollection with defaults for omitted fields', async () => {
+            const transaction = await buildCreateCollectionTransaction(collectionRequest);
+            const initParams = decodeInitParams(transaction.data);
+
+            expect(transaction.to).toBe(registrationWorkflows);
+            expect(initParams).toMatchObject({
+                name: 'Team Collection',
+                symbol: 'TEAM',
+                contractURI: '',
+                maxSupply: 4294967295,
+                mintFee: BigInt(0),
+                mintFeeToken: '0x0000000000000000000000000000000000000000',
+                mintOpen: true,
+                isPublicMinting: false
+            });
+            expect(initParams.owner.toLowerCase()).toBe(userAddress.toLowerCase());
+            expect(initParams.mintFeeRecipient.toLowerCase()).toBe(userAddress.toLowerCase());
+        });
+
+        it('should encode every supplied collection field', async () => {
+            const owner = '0x5555555555555555555555555555555555555555';
+            const transaction = await buildCreateCollectionTransaction({
+                ...collectionRequest,
+                maxSupply: 100,
+                mintFee: '1000',
+                mintFeeToken: '0x1514000000000000000000000000000000000000',
+                mintFeeRecipient: owner,
+                owner,
+                contractURI: 'https://example.com/collection.json'
+            });
+            const initParams = decodeInitParams(transaction.data);
+
+            expect(initParams).toMatchObject({
+                maxSupply: 100,
+                mintFee: BigInt(1000),
+                mintFeeToken: '0x1514000000000000000000000000000000000000',
+                mintFeeRecipient: owner,
+                owner,
+                contractURI: 'https://example.com/collection.json'
+            });
+        });
+
+        it('should reject a mint fee without a fee token', async () => {
+            await expect(buildCreateCollectionTransaction({ ...collectionRequest, mintFee: '1000' }))
+                .rejects.toThrow('mint fee token is required');
+        });
+
+        it('should predict the collection address from the workflows nonce', async () => {
+            const transaction = await buildCreateCollectionTransaction(collectionRequest);
+
+            expect(mockGetTransactionCount).toHaveBeenCalledWith({ address: registrationWorkflows });
+            expect(transaction.predictedCollectionAddress).toBe(
+                getContractAddress({ from: registrationWorkflows, nonce: BigInt(42) })
+            );
+        });
+
+        it('should read the deployed collection address from the receipt', () => {
+            const collection = '0x6666666666666666666666666666666666666666';
+            const log = {
+                address: registrationWorkflows,
+                data: '0x',
+                topics: encodeEventTopics({
+                    abi: registrationWorkflowsAbi,
+                    eventName: 'CollectionCreated',
+                    args: { spgNftContract: collection }
+                })
+            } as unknown as Log;
+
+            expect(getCollectionAddressFromReceipt({ logs: [log] })).toBe(collection);
+            expect(getCollectionAddressFromReceipt({ logs: [] })).toBeNull();
+        });
+    });
+
+    describe('raising disputes', () => {
+        const wipToken = '0x1514000000000000000000000000000000000000';
+        const arbitrationPolicyUma = '0xfFD98c3877B8789124f02C7E8239A4b0Ef11E936';
+        const evidenceDigest = `0x${'ab'.repeat(32)}` as const;
+        const evidenceCid = convertHashIPFStoCID(evidenceDigest);
+        const disputeRequest: PrepareDisputeRequest = {
+            userAddress,
+            targetIpId: '0x1234567890123456789012345678901234567890',
+            targetTag: 'IMPROPER_REGISTRATION',
+            evidence: 'Copied from my original work',
+            bond: '1000',
+            liveness: 86400
+        };
+
+        const mockBondState = (balance: bigint, allowance: bigint) => {
+            mockReadContract.mockImplementation(({ functionName }: { functionName: string }) =>
+                Promise.resolve(functionName === 'balanceOf' ? balance : allowance)
+            );
+            mockEstimateGas.mockResolvedValue(BigInt(50000));
+        };
+
+        it('should convert the evidence CID and tag to bytes32', () => {
+            const params = prepareRaiseDisputeParams(disputeRequest, evidenceCid);
+
+            expect(params.disputeEvidenceHash).toBe(evidenceDigest);
+            expect(params.targetTag).toHaveLength(66);
+            expect(hexToString(params.targetTag, { size: 32 })).toBe('IMPROPER_REGISTRATION');
+            expect(decodeAbiParameters(
+                [{ type: 'uint64' }, { type: 'address' }, { type: 'uint256' }],
+                params.data
+            )).toEqual([BigInt(86400), wipToken, BigInt(1000)]);
+        });
+
+        it('should reject tags the DisputeModule does not whitelist', () => {
+            expect(() => prepareRaiseDisputeParams({ ...disputeRequest, targetTag: 'PLAGIARISM' }, evidenceCid))
+                .toThrow('Invalid target tag');
+        });
+
+        it('should wrap and approve the bond before raising the dispute', async () => {
+            mockBondState(BigInt(400), BigInt(0));
+
+            const { transactions } = await buildRaiseDisputeTransaction(disputeRequest, evidenceCid);
+
+            expect(transactions.map(tx => tx.preview?.functionName)).toEqual(['deposit', 'approve', 'raiseDispute']);
+            expect(transactions[0].to).toBe(wipToken);
+            expect(transactions[0].value).toBe('600');
+            expect(transactions[1].preview?.args).toEqual({ spender: arbitrationPolicyUma, amount: '1000' });
+            expect(transactions[2].gasEstimate).toBe('500000');
+
+            const dispute = decodeFunctionData({ abi: disputeModuleAbi, data: transactions[2].data as `0x${string}` });
+            expect(transactions[2].to).toBe('0x9b7A9c70AFF961C799110954fc06F3093aeb94C5');
+            expect(dispute.args[0]).toBe(disputeRequest.targetIpId);
+            expect(dispute.args[1]).toBe(evidenceDigest);
+        });
+
+        it('should only raise the dispute when the bond is already covered', async () => {
+            mockBondState(BigInt(1000), BigInt(1000));
+
+            const { transactions } = await buildRaiseDisputeTransaction(disputeRequest, evidenceCid);
+
+            expect(transactions).toHaveLength(1);
+            expect(transactions[0].value).toBe('0');
+            expect(transactions[0].gasEstimate).toBe('60000');
+        });
+    });
+});
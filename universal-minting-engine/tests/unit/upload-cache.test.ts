@@ -0,0 +1,75 @@
+import { mkdtemp, rm, unlink } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { computeCid } from '@/lib/cid';
+import { createContentHash, uploadMultipleFilesToIPFS } from '@/lib/ipfs';
+import { getStorageProvider } from '@/lib/storage';
+import { lookupCid, readCidIndex, recordCid, uploadDeduplicated } from '@/lib/upload-cache';
+
+// A PNG signature followed by filler
+const content = Buffer.concat([Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]), Buffer.from('image bytes')]);
+const file = { data: content.toString('base64'), filename: 'art.png', contentType: 'image/png', purpose: 'media' as const };
+
+describe('Upload Deduplication', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), 'upload-cache-'));
+        process.env.UPLOAD_CID_INDEX = path.join(directory, 'cache', 'cid-index.json');
+        process.env.STORAGE_PROVIDER = 'filesystem';
+        process.env.STORAGE_FS_DIR = path.join(directory, 'storage');
+        process.env.PIN_REGISTRY_PATH = path.join(directory, 'cache', 'pins.json');
+    });
+
+    afterEach(async () => {
+        delete process.env.UPLOAD_CID_INDEX;
+        delete process.env.UPLOAD_DEDUP;
+        delete process.env.STORAGE_PROVIDER;
+        delete process.env.STORAGE_FS_DIR;
+        delete process.env.PIN_REGISTRY_PATH;
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should skip uploading content that is still pinned', async () => {
+        const [first] = await uploadMultipleFilesToIPFS([file]);
+        const [second] = await uploadMultipleFilesToIPFS([{ ...file, filename: 'copy.png' }]);
+
+        expect(first).toMatchObject({ ipfsHash: computeCid(content), deduplicated: false });
+        expect(second).toMatchObject({ filename: 'copy.png', ipfsHash: computeCid(content), deduplicated: true });
+        expect((await readCidIndex())[createContentHash(content)]).toMatchObject({ cid: computeCid(content), provider: 'filesystem' });
+    });
+
+    it('should upload again once the pin is gone', async () => {
+        await uploadMultipleFilesToIPFS([file]);
+        await unlink(path.join(directory, 'storage', computeCid(content)));
+
+        const [uploaded] = await uploadMultipleFilesToIPFS([file]);
+
+        expect(uploaded.deduplicated).toBe(false);
+        expect(await getStorageProvider().isPinned(computeCid(content))).toBe(true);
+    });
+
+    it('should drop index entries whose pin is gone', async () => {
+        await recordCid('a'.repeat(64), 'QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH');
+
+        expect(await lookupCid('a'.repeat(64))).toBeNull();
+        expect(await readCidIndex()).toEqual({});
+    });
+
+    it('should keep every entry recorded concurrently', async () => {
+        await Promise.all(['a', 'b', 'c'].map(hash => recordCid(hash.repeat(64), `Qm${hash}`)));
+
+        expect(Object.keys(await readCidIndex()).sort()).toEqual(['a', 'b', 'c'].map(hash => hash.repeat(64)));
+    });
+
+    it('should always upload when deduplication is disabled', async () => {
+        process.env.UPLOAD_DEDUP = 'false';
+        const upload = jest.fn().mockResolvedValue(computeCid(content));
+
+        await uploadDeduplicated(createContentHash(content), upload, file);
+        await uploadDeduplicated(createContentHash(content), upload, file);
+
+        expect(upload).toHaveBeenCalledTimes(2);
+        expect(await readCidIndex()).toEqual({});
+    });
+});
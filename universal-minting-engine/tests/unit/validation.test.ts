@@ -121,7 +121,7 @@ describe('Validation Schemas', () => {
         const validRequest = {
             userAddress: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
             licenseTermsId: 1,
-            licensorIpId: 'licensor-ip-id',
+            licensorIpId: '0x1234567890123456789012345678901234567890',
             amount: 5
         };
 
@@ -136,6 +136,11 @@ describe('Validation Schemas', () => {
             expect(result.success).toBe(false);
             expect(result.error).toContain('Amount must be a positive integer');
         });
+
+        it('should reject a licensor IP ID that is not an address', () => {
+            const result = validateRequest(prepareLicenseRequestSchema, { ...validRequest, licensorIpId: 'licensor-ip-id' });
+            expect(result).toEqual({ success: false, error: expect.stringContaining('Invalid Ethereum address format') });
+        });
     });
 
     describe('prepareRoyaltyRequestSchema', () => {
@@ -240,5 +245,14 @@ describe('Validation Schemas', () => {
             expect(result.success).toBe(false);
             expect(result.error).toContain('Invalid base64 format');
         });
+
+        it('should accept the file as a multipart part instead of base64 data, but not both', () => {
+            const { fileData, ...multipartRequest } = validRequest;
+            const file = { file: new Blob([Buffer.from(fileData, 'base64')]), filename: 'file.txt', contentType: 'text/plain', purpose: 'media' };
+
+            expect(validateRequest(prepareCliMintRequestSchema, { ...multipartRequest, file }).success).toBe(true);
+            expect(validateRequest(prepareCliMintRequestSchema, multipartRequest).success).toBe(false);
+            expect(validateRequest(prepareCliMintRequestSchema, { ...validRequest, file }).success).toBe(false);
+        });
     });
 });
\ No newline at end of file
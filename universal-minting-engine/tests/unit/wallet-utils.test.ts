@@ -0,0 +1,73 @@
+import { createPublicClient } from '@/lib/config';
+import { checkWalletBalance, getCurrentGasPrice } from '@/lib/wallet-utils';
+
+jest.mock('@/lib/config', () => ({
+    ...jest.requireActual('@/lib/config'),
+    createPublicClient: jest.fn()
+}));
+
+const userAddress = '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6';
+const gwei = (value: number) => BigInt(value) * BigInt(1e9);
+
+describe('Wallet Utils', () => {
+    const mockGetFeeHistory = jest.fn();
+    const mockGetGasPrice = jest.fn();
+    const mockGetBalance = jest.fn();
+
+    beforeEach(() => {
+        mockGetFeeHistory.mockReset();
+        mockGetGasPrice.mockReset();
+        mockGetBalance.mockReset();
+        (createPublicClient as jest.Mock).mockReturnValue({
+            getFeeHistory: mockGetFeeHistory,
+            getGasPrice: mockGetGasPrice,
+            getBalance: mockGetBalance
+        });
+        jest.spyOn(console, 'warn').mockImplementation(() => { });
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('getCurrentGasPrice', () => {
+        it('should use the normal tier max fee from fee history', async () => {
+            mockGetFeeHistory.mockResolvedValue({
+                baseFeePerGas: [gwei(10)],
+                reward: [[gwei(1), gwei(2), gwei(3)]]
+            });
+
+            expect(await getCurrentGasPrice()).toBe(gwei(17));
+            expect(mockGetGasPrice).not.toHaveBeenCalled();
+        });
+
+        it('should fall back to the gas price when fee history is unavailable', async () => {
+            mockGetFeeHistory.mockRejectedValue(new Error('eth_feeHistory not supported'));
+            mockGetGasPrice.mockResolvedValue(gwei(7));
+
+            expect(await getCurrentGasPrice()).toBe(gwei(7));
+        });
+
+        it('should fall back to 20 Gwei when neither lookup succeeds', async () => {
+            mockGetFeeHistory.mockRejectedValue(new Error('eth_feeHistory not supported'));
+            mockGetGasPrice.mockRejectedValue(new Error('RPC unavailable'));
+
+            expect(await getCurrentGasPrice()).toBe(gwei(20));
+        });
+    });
+
+    describe('checkWalletBalance', () => {
+        it('should check the balance against the gas price when fee history is unavailable', async () => {
+            mockGetFeeHistory.mockRejectedValue(new Error('eth_feeHistory not supported'));
+            mockGetGasPrice.mockResolvedValue(gwei(10));
+            mockGetBalance.mockResolvedValue(gwei(10) * BigInt(1000000));
+
+            const balance = await checkWalletBalance(userAddress, BigInt(1000000));
+
+            // 1,000,000 gas at 10 Gwei, plus the 20% buffer
+            expect(balance.minimumRequired).toBe('0.012');
+            expect(balance.hasMinimumBalance).toBe(false);
+        });
+    });
+});